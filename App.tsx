@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { AudioUploader } from './components/AudioUploader';
 import { TranscriptionDisplay } from './components/TranscriptionDisplay';
@@ -9,32 +9,87 @@ import { useFeedback } from './components/Feedback';
 import LearningReport from './components/LearningReport';
 import { ToastProvider, useToastNotification } from './components/Toast';
 import { LoadingSpinner, ErrorState, SuccessState } from './components/LoadingSpinner';
-import { transcribe } from './services/geminiTranscriptionService';
-import { summarizeText } from './services/geminiService';
+import { LibraryView } from './components/LibraryView';
+import { ScriptAlignmentInput } from './components/ScriptAlignmentInput';
+import { obterProvedorTranscricao } from './services/transcriptionProvider';
+import { resumirTranscricao } from './services/geminiService';
 import { useApiKey } from './contexts/ApiKeyContext';
 import { useTheme } from './contexts/ThemeContext';
 import { useTranscriptionShortcuts } from './hooks/useKeyboardShortcuts';
 import { usePreferences, useRecentFiles } from './hooks/usePreferences';
+import { useTranscriptionHistory } from './hooks/useTranscriptionHistory';
+import { useTranslation } from './hooks/useTranslation';
+import { IDIOMA_TRANSCRICAO_PADRAO, IdiomaTranscricao, idiomasTranscricao } from './i18n/idiomas';
 import { Status, WordTimestamp } from './types';
-import learningAlgorithmService from './services/learningAlgorithmService';
-import supabaseService from './services/supabaseService';
+import learningAlgorithmService, { AprendizadoPendente } from './services/learningAlgorithmService';
+import armazenamentoService from './services/storageService';
+import { RegistroResultado } from './services/storageBackend';
+import bibliotecaService, { ItemBiblioteca } from './services/libraryService';
+import { formatarTextoComFalantes } from './services/speakerService';
+import { ResumoEstruturado } from './services/structuredSummaryService';
+import { AlteracaoGlossario, aplicarGlossario } from './services/glossaryService';
+import { alinharRoteiro, COBERTURA_MINIMA_ALINHAMENTO } from './services/scriptAlignmentService';
+import { importarTranscricao, ImportacaoTranscricaoError } from './services/transcriptImportService';
+import { gerarConteudoExportacao, nomeArquivoExportado, salvarExportacao } from './services/exportService';
+import servicoLote from './services/batchTranscriptionService';
+import servicoProgressoTranscricao from './services/transcriptionProgressService';
 
 const App: React.FC = () => {
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [transcription, setTranscription] = useState<WordTimestamp[] | null>(null);
+  // Idioma falado no áudio selecionado ('auto' deixa o mecanismo detectar)
+  const [audioLanguage, setAudioLanguage] = useState<IdiomaTranscricao>(IDIOMA_TRANSCRICAO_PADRAO);
+  const {
+    transcription,
+    resetTranscription,
+    applyEdit,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useTranscriptionHistory();
   const [summary, setSummary] = useState<string | null>(null);
+  // Ações, decisões, questões e capítulos, quando o resumo é gerado no modo estruturado
+  const [structuredSummary, setStructuredSummary] = useState<ResumoEstruturado | null>(null);
+  // Texto a partir do qual o resumo atual foi gerado, para saber se as edições o deixaram desatualizado
+  const [summarySourceText, setSummarySourceText] = useState<string | null>(null);
+  // Correções do glossário aplicadas à transcrição recém-processada
+  const [glossaryChanges, setGlossaryChanges] = useState<AlteracaoGlossario[]>([]);
+  // Texto exato do áudio no modo de alinhamento de roteiro (null quando o modo está desligado)
+  const [alignmentScript, setAlignmentScript] = useState<string | null>(null);
+  const [isRegeneratingSummary, setRegeneratingSummary] = useState(false);
   const [status, setStatus] = useState<Status>(Status.Idle);
   const [error, setError] = useState<string | null>(null);
   const [isSettingsOpen, setSettingsOpen] = useState(false);
   const [isLearningReportOpen, setLearningReportOpen] = useState(false);
+  const [isLibraryOpen, setLibraryOpen] = useState(false);
+  const [libraryItemId, setLibraryItemId] = useState<string | null>(null);
+  // Identifica a transcrição exibida: muda ao abrir outro item ou iniciar um novo processamento
+  const [sessionKey, setSessionKey] = useState('atual');
+  // Ponto do áudio aberto pela busca semântica (um objeto novo a cada pedido, para repetir o mesmo tempo)
+  const [seekRequest, setSeekRequest] = useState<{ time: number } | null>(null);
+  // Última versão da transcrição gravada na biblioteca
+  const transcricaoPersistidaRef = useRef<WordTimestamp[] | null>(null);
   const [currentStep, setCurrentStep] = useState<'upload' | 'processing' | 'transcription' | 'completed'>('upload');
+  // Cancelamento do processamento em andamento
+  const processingControllerRef = useRef<AbortController | null>(null);
+  // Se as palavras já transcritas devem ser mantidas quando o processamento for cancelado
+  const keepPartialRef = useRef(false);
+  const [partialWordCount, setPartialWordCount] = useState(0);
+  const [isCancelPromptOpen, setCancelPromptOpen] = useState(false);
+  const [isCancelling, setCancelling] = useState(false);
   
   const { apiKey, isConfigured } = useApiKey();
   const { theme, toggleTheme } = useTheme();
   const { preferences } = usePreferences();
+  const { t, language } = useTranslation();
   const { addRecentFile } = useRecentFiles();
   const { showSuccess, showError, showWarning, showInfo, FeedbackContainer } = useFeedback();
+  const provedorTranscricao = obterProvedorTranscricao(preferences.transcriptionProvider);
+  // Mecanismos locais não precisam da chave do Gemini para transcrever
+  const podeTranscrever = isConfigured || !provedorTranscricao.requerChaveApi;
+  // Com um mecanismo local, a transcrição só vai para o resumo e o armazenamento na nuvem se permitido
+  const usarServicosNuvem = provedorTranscricao.requerChaveApi || preferences.localEngineCloudServices;
 
   // Estado para controlar se os serviços foram inicializados
   const [servicosInicializados, setServicosInicializados] = useState(false);
@@ -49,9 +104,9 @@ const App: React.FC = () => {
     try {
       console.log('🚀 [SERVICES] Iniciando serviços para transcrição...');
       
-      // Primeiro inicializar o Supabase
-      await supabaseService.inicializar();
-      console.log('✅ [SERVICES] Supabase inicializado');
+      // Primeiro escolher o armazenamento (Supabase ou local)
+      const armazenamento = await armazenamentoService.obter();
+      console.log(`✅ [SERVICES] Armazenamento inicializado: ${armazenamento.nome}`);
       
       // Depois o algoritmo de aprendizado
       await learningAlgorithmService.inicializar();
@@ -59,10 +114,10 @@ const App: React.FC = () => {
       
       setServicosInicializados(true);
       console.log('✅ [SERVICES] Todos os serviços inicializados com sucesso');
-      showSuccess('Serviços inicializados para transcrição!');
+      showSuccess(t('app.servicosIniciados'));
     } catch (error) {
       console.error('❌ [SERVICES] Erro ao inicializar serviços:', error);
-      showError(`Erro ao inicializar serviços: ${error.message}`);
+      showError(t('app.erroIniciarServicos', { erro: error.message }));
       throw error;
     }
   };
@@ -78,20 +133,20 @@ const App: React.FC = () => {
       
       setServicosInicializados(false);
       console.log('✅ [SERVICES] Serviços encerrados com sucesso');
-      showInfo('Serviços encerrados após transcrição.');
+      showInfo(t('app.servicosEncerrados'));
     } catch (error) {
       console.error('❌ [SERVICES] Erro ao encerrar serviços:', error);
-      showError(`Erro ao encerrar serviços: ${error.message}`);
+      showError(t('app.erroEncerrarServicos', { erro: error.message }));
     }
   };
 
   // Abre o modal de configurações na primeira vez se a chave de API não estiver definida
   useEffect(() => {
-    if (!isConfigured) {
+    if (!podeTranscrever) {
       setSettingsOpen(true);
-      showWarning('Configure sua chave de API para começar a usar a aplicação.');
+      showWarning(t('app.configureChave'));
     }
-  }, [isConfigured, showWarning]);
+  }, [podeTranscrever, showWarning, t]);
 
   // Atualizar step baseado no status
   useEffect(() => {
@@ -112,10 +167,13 @@ const App: React.FC = () => {
   }, [status, transcription]);
 
   const resetState = () => {
-    setTranscription(null);
+    resetTranscription(null);
     setSummary(null);
+    setStructuredSummary(null);
+    setGlossaryChanges([]);
     setError(null);
     setStatus(Status.Idle);
+    setLibraryItemId(null);
     if (audioUrl) {
       URL.revokeObjectURL(audioUrl);
       setAudioUrl(null);
@@ -131,72 +189,169 @@ const App: React.FC = () => {
   };
 
   const handleNewTranscription = useCallback(() => {
+    keepPartialRef.current = false;
+    processingControllerRef.current?.abort();
     setAudioFile(null);
     setAudioUrl(null);
-    setTranscription(null);
+    resetTranscription(null);
     setSummary(null);
+    setStructuredSummary(null);
+    setGlossaryChanges([]);
+    setAlignmentScript(null);
     setError(null);
     setStatus(Status.Idle);
     setCurrentStep('upload');
-    showInfo('Nova transcrição iniciada.');
-  }, [showInfo]);
+    setLibraryItemId(null);
+    setLibraryOpen(false);
+    showInfo(t('app.novaTranscricao'));
+  }, [showInfo, t]);
+
+  // Reabre uma transcrição salva na biblioteca com o áudio correspondente
+  const handleOpenLibraryItem = useCallback((item: ItemBiblioteca, startTime?: number) => {
+    if (audioUrl?.startsWith('blob:')) {
+      URL.revokeObjectURL(audioUrl);
+    }
+
+    const urlAudio = item.audio ? URL.createObjectURL(item.audio) : item.audioUrlRemota ?? null;
+    setAudioFile(item.audio ? new File([item.audio], item.nomeArquivo, { type: item.tipoArquivo }) : null);
+    setAudioUrl(urlAudio);
+    resetTranscription(item.transcricao);
+    setSummary(item.resumo);
+    setStructuredSummary(item.resumoEstruturado ?? null);
+    setGlossaryChanges([]);
+    setSummarySourceText(item.resumo ? formatarTextoComFalantes(item.transcricao) : null);
+    transcricaoPersistidaRef.current = item.transcricao;
+    setError(null);
+    setStatus(Status.Done);
+    setCurrentStep('completed');
+    setLibraryItemId(item.id);
+    setSessionKey(item.id);
+    setSeekRequest(startTime !== undefined ? { time: startTime } : null);
+    setLibraryOpen(false);
+
+    if (!urlAudio) {
+      showWarning(t('app.audioIndisponivel'));
+    }
+  }, [audioUrl, showWarning, t]);
+
+  // Abre uma transcrição feita fora do aplicativo (SRT, VTT ou JSON) junto do áudio selecionado
+  const handleImportTranscript = useCallback(async (file: File) => {
+    if (!audioFile) return;
+
+    let transcricaoImportada: WordTimestamp[];
+    try {
+      transcricaoImportada = importarTranscricao(file.name, await file.text());
+    } catch (error) {
+      console.error('❌ [IMPORTACAO] Erro ao importar transcrição:', error);
+      const tipo = error instanceof ImportacaoTranscricaoError ? error.tipo : 'invalido';
+      showError(t(tipo === 'formato' ? 'importacao.erroFormato' : tipo === 'vazio' ? 'importacao.erroVazio' : 'importacao.erroInvalido'));
+      return;
+    }
+
+    // Como qualquer transcrição, a importada fica na biblioteca e recebe as edições feitas depois
+    const id = await bibliotecaService.salvar({
+      nomeArquivo: audioFile.name,
+      tipoArquivo: audioFile.type,
+      tamanhoArquivo: audioFile.size,
+      audio: audioFile,
+      audioUrlRemota: audioUrl?.startsWith('http') ? audioUrl : undefined,
+      transcricao: transcricaoImportada,
+      resumo: null,
+      provedor: 'importado',
+      idioma: audioLanguage
+    }).catch(error => {
+      console.error('❌ [IMPORTACAO] Erro ao salvar transcrição importada na biblioteca:', error);
+      return null;
+    });
+
+    resetTranscription(transcricaoImportada);
+    transcricaoPersistidaRef.current = transcricaoImportada;
+    setSummary(null);
+    setStructuredSummary(null);
+    setSummarySourceText(null);
+    setGlossaryChanges([]);
+    setError(null);
+    setStatus(Status.Done);
+    setCurrentStep('completed');
+    setLibraryItemId(id);
+    setSessionKey(id ?? `importado_${Date.now()}`);
+    setSeekRequest(null);
+    addRecentFile({ name: audioFile.name, path: audioUrl || '', size: audioFile.size });
+    showSuccess(t('importacao.concluida', { quantidade: transcricaoImportada.length, arquivo: file.name }));
+  }, [audioFile, audioUrl, audioLanguage, addRecentFile, showSuccess, showError, t]);
+
+  // Persiste na biblioteca as edições feitas na transcrição aberta
+  useEffect(() => {
+    if (!libraryItemId || !transcription || transcription === transcricaoPersistidaRef.current) return;
+
+    const timeoutId = setTimeout(() => {
+      transcricaoPersistidaRef.current = transcription;
+      bibliotecaService.atualizar(libraryItemId, { transcricao: transcription }).catch(error => {
+        console.error('❌ [BIBLIOTECA] Erro ao salvar edições:', error);
+      });
+    }, 800);
+
+    return () => clearTimeout(timeoutId);
+  }, [transcription, libraryItemId]);
+
+  const isSummaryOutdated = !!transcription && summarySourceText !== null &&
+    formatarTextoComFalantes(transcription) !== summarySourceText;
+
+  // Gera novamente o resumo a partir do texto corrigido
+  const handleRegenerateSummary = useCallback(async () => {
+    if (!transcription) return;
 
-  const handleExportTranscription = useCallback(() => {
+    const texto = formatarTextoComFalantes(transcription);
+    setRegeneratingSummary(true);
+    try {
+      const resumoResult = await resumirTranscricao(transcription, apiKey, language, preferences.summaryMode);
+      if (resumoResult.success && resumoResult.data) {
+        setSummary(resumoResult.data.texto);
+        setStructuredSummary(resumoResult.data.estruturado);
+        setSummarySourceText(texto);
+        if (libraryItemId) {
+          await bibliotecaService.atualizar(libraryItemId, {
+            resumo: resumoResult.data.texto,
+            resumoEstruturado: resumoResult.data.estruturado
+          });
+        }
+        showSuccess(t('app.resumoAtualizado'));
+      } else {
+        showError(resumoResult.error || t('app.erroAtualizarResumo'));
+      }
+    } catch (err) {
+      console.error('❌ [RESUMO] Erro ao atualizar resumo:', err);
+      showError(t('app.erroAtualizarResumo'));
+    } finally {
+      setRegeneratingSummary(false);
+    }
+  }, [transcription, apiKey, language, preferences.summaryMode, libraryItemId, showSuccess, showError, t]);
+
+  const handleExportTranscription = useCallback(async () => {
     if (!transcription) {
-      showWarning('Nenhuma transcrição disponível para exportar.');
+      showWarning(t('app.nadaParaExportar'));
       return;
     }
 
     try {
-      let content = '';
       const format = preferences.exportFormat;
-
-      switch (format) {
-        case 'txt':
-          content = transcription.map(word => word.word).join(' ');
-          break;
-        case 'json':
-          content = JSON.stringify(transcription, null, 2);
-          break;
-        case 'srt':
-          content = transcription.map((word, index) => {
-            const start = word.start || 0;
-            const end = word.end || start + 1;
-            return `${index + 1}\n${formatTime(start)} --> ${formatTime(end)}\n${word.word}\n`;
-          }).join('\n');
-          break;
-        case 'vtt':
-          content = 'WEBVTT\n\n' + transcription.map((word, index) => {
-            const start = word.start || 0;
-            const end = word.end || start + 1;
-            return `${formatTime(start)} --> ${formatTime(end)}\n${word.word}`;
-          }).join('\n\n');
-          break;
+      const nomeAudio = audioFile?.name ?? 'transcricao';
+      const conteudo = gerarConteudoExportacao(
+        transcription,
+        format,
+        { nomeArquivo: nomeAudio, resumo: summary, resumoEstruturado: structuredSummary },
+        { marcasDeTempo: preferences.exportTimestamps, falantes: preferences.exportSpeakers, idioma: language }
+      );
+      const salvo = await salvarExportacao(conteudo, nomeArquivoExportado(nomeAudio, format), format);
+
+      if (salvo) {
+        showSuccess(t('app.exportada', { formato: format.toUpperCase() }));
       }
-
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `transcricao.${format}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      showSuccess(`Transcrição exportada como ${format.toUpperCase()}`);
     } catch (err) {
-      showError('Erro ao exportar transcrição.');
+      console.error('❌ [EXPORTAÇÃO] Erro ao exportar transcrição:', err);
+      showError(t('app.erroExportar'));
     }
-  }, [transcription, preferences.exportFormat, showSuccess, showError, showWarning]);
-
-  const formatTime = (seconds: number): string => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 1000);
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
-  };
+  }, [transcription, audioFile, summary, structuredSummary, language, preferences.exportFormat, preferences.exportTimestamps, preferences.exportSpeakers, showSuccess, showError, showWarning, t]);
 
   // Configurar atalhos de teclado
   useTranscriptionShortcuts({
@@ -204,9 +359,84 @@ const App: React.FC = () => {
     onToggleTheme: toggleTheme,
     onNewTranscription: handleNewTranscription,
     onExportTranscription: handleExportTranscription,
+    onUndo: undo,
+    onRedo: redo,
     enabled: preferences.keyboardShortcutsEnabled
   });
 
+  // Interrompe o processamento; as palavras já transcritas são mantidas se o usuário escolher
+  const handleCancelProcessing = useCallback((manterParcial: boolean) => {
+    keepPartialRef.current = manterParcial;
+    setCancelPromptOpen(false);
+    setCancelling(true);
+    processingControllerRef.current?.abort();
+  }, []);
+
+  // Desfaz o que foi gravado durante o processamento cancelado, ou mantém a transcrição parcial
+  const handleProcessingCancelled = async (
+    transcricaoParcial: WordTimestamp[],
+    registroArmazenamento: RegistroResultado | null,
+    idBiblioteca: string | null
+  ) => {
+    const manter = keepPartialRef.current && transcricaoParcial.length > 0;
+    console.log(`⏹️ [PROCESSO] Processamento cancelado (${manter ? `mantendo ${transcricaoParcial.length} palavras` : 'descartando resultados'})`);
+    setCancelling(false);
+    setCancelPromptOpen(false);
+
+    if (manter) {
+      // A parte recebida em stream ainda não passou pelo glossário (aplicá-lo de novo não altera nada)
+      const { transcricao: corrigida, alteracoes } = aplicarGlossario(transcricaoParcial, preferences.glossary);
+      transcricaoParcial = corrigida;
+      setGlossaryChanges(alteracoes);
+      // A transcrição mantida é guardada na biblioteca como qualquer outra
+      let id = idBiblioteca;
+      if (!id && audioFile) {
+        id = await bibliotecaService.salvar({
+          nomeArquivo: audioFile.name,
+          tipoArquivo: audioFile.type,
+          tamanhoArquivo: audioFile.size,
+          audio: audioFile,
+          audioUrlRemota: audioUrl?.startsWith('http') ? audioUrl : undefined,
+          transcricao: transcricaoParcial,
+          resumo: null,
+          provedor: provedorTranscricao.id,
+          idioma: audioLanguage
+        }).catch(error => {
+          console.error('❌ [PROCESSO] Erro ao salvar transcrição parcial na biblioteca:', error);
+          return null;
+        });
+      }
+      resetTranscription(transcricaoParcial);
+      transcricaoPersistidaRef.current = transcricaoParcial;
+      setLibraryItemId(id);
+      setStatus(Status.Done);
+      setCurrentStep('completed');
+      showInfo(t('app.parcialMantida', { quantidade: transcricaoParcial.length }));
+    } else {
+      if (registroArmazenamento) {
+        await (await armazenamentoService.obter()).removerResultadoCompleto(registroArmazenamento).catch(error => {
+          console.error('❌ [PROCESSO] Erro ao remover resultado do armazenamento:', error);
+        });
+      }
+      if (idBiblioteca) {
+        await bibliotecaService.remover(idBiblioteca).catch(error => {
+          console.error('❌ [PROCESSO] Erro ao remover item da biblioteca:', error);
+        });
+      }
+      resetTranscription(null);
+      setSummary(null);
+      setStructuredSummary(null);
+      setSummarySourceText(null);
+      setGlossaryChanges([]);
+      setLibraryItemId(null);
+      setPartialWordCount(0);
+      setStatus(Status.Idle);
+      showInfo(t('app.processamentoCancelado'));
+    }
+
+    encerrarServicos();
+  };
+
   const handleProcessAudio = useCallback(async () => {
     const processStartTime = Date.now();
     console.log(`🚀 [PROCESSO] ========== INICIANDO PROCESSAMENTO DE ÁUDIO ==========`);
@@ -214,16 +444,18 @@ const App: React.FC = () => {
       nome: audioFile?.name,
       tamanho: audioFile ? `${(audioFile.size / 1024 / 1024).toFixed(2)} MB` : 'N/A',
       tipo: audioFile?.type,
-      temChaveAPI: !!apiKey
+      temChaveAPI: !!apiKey,
+      provedor: provedorTranscricao.id,
+      idioma: audioLanguage
     });
 
-    if (!audioFile || !apiKey) {
+    if (!audioFile || !podeTranscrever) {
         console.error(`❌ [PROCESSO] Pré-requisitos não atendidos:`, {
           temArquivo: !!audioFile,
           temChaveAPI: !!apiKey
         });
-        if (!apiKey) {
-            const errorMsg = "Por favor, configure sua chave de API nas configurações.";
+        if (!podeTranscrever) {
+            const errorMsg = t('app.configureChaveNasConfiguracoes');
             setError(errorMsg);
             showError(errorMsg);
             setStatus(Status.Error);
@@ -233,10 +465,28 @@ const App: React.FC = () => {
 
     console.log(`🔄 [PROCESSO] Iniciando fluxo de processamento...`);
     // Reset only processing state
-    setTranscription(null);
+    resetTranscription(null);
     setSummary(null);
+    setStructuredSummary(null);
+    setSummarySourceText(null);
+    setGlossaryChanges([]);
     setError(null);
     setStatus(Status.Transcribing);
+    setLibraryItemId(null);
+    setPartialWordCount(0);
+    setCancelPromptOpen(false);
+    setCancelling(false);
+    setSessionKey(`processamento_${processStartTime}`);
+    setSeekRequest(null);
+
+    const controller = new AbortController();
+    processingControllerRef.current = controller;
+    keepPartialRef.current = false;
+    const sinal = controller.signal;
+    // Efeitos colaterais já gravados, desfeitos se o processamento for cancelado
+    let transcricaoParcial: WordTimestamp[] = [];
+    let registroArmazenamento: RegistroResultado | null = null;
+    let idBiblioteca: string | null = null;
 
     // Adicionar aos arquivos recentes
     console.log(`📋 [PROCESSO] Adicionando arquivo aos recentes...`);
@@ -250,13 +500,48 @@ const App: React.FC = () => {
       // Inicializar serviços apenas quando necessário
       console.log(`🔧 [PROCESSO] === ETAPA 0: INICIALIZAÇÃO DE SERVIÇOS ===`);
       await inicializarServicos();
+      sinal.throwIfAborted();
       console.log(`📝 [PROCESSO] === ETAPA 1: TRANSCRIÇÃO ===`);
-      showInfo('Iniciando transcrição do áudio...');
+      servicoProgressoTranscricao.iniciar(audioFile.name);
+      showInfo(t('app.iniciandoTranscricao', { provedor: t(`provedor.${provedorTranscricao.id}.nome` as const) }));
 
       // Selecionar a fonte de áudio: prioriza a URL (Supabase) se existir, caso contrário usa o arquivo local
       const fonteAudio = audioUrl ? audioUrl : audioFile;
-      // Transcrição (agora aceita File ou URL)
-      const transcricaoData = await transcribe(fonteAudio as any, apiKey);
+      // Transcrição pelo provedor escolhido nas configurações (aceita File ou URL)
+      const transcricaoBruta = await provedorTranscricao.transcrever(fonteAudio, {
+        apiKey,
+        endpointLocal: preferences.localEngineUrl,
+        diarizacao: preferences.speakerDiarization,
+        idioma: audioLanguage,
+        glossario: preferences.glossary,
+        sinal,
+        // As palavras aparecem na tela à medida que são transcritas
+        onParcial: (palavras, progresso) => {
+          if (sinal.aborted) return;
+          transcricaoParcial = palavras;
+          setPartialWordCount(palavras.length);
+          resetTranscription(palavras);
+          servicoProgressoTranscricao.atualizar(palavras.length, progresso);
+        }
+      });
+      servicoProgressoTranscricao.finalizar();
+      sinal.throwIfAborted();
+      // Com um roteiro, o texto final é o do roteiro e a transcrição serve só para os tempos;
+      // sem ele, as grafias conhecidas do glossário são corrigidas de forma determinística
+      const roteiro = alignmentScript?.trim() ? alignmentScript : null;
+      const alinhamento = roteiro ? alinharRoteiro(roteiro, transcricaoBruta ?? []) : null;
+      const { transcricao: transcricaoData, alteracoes: alteracoesGlossario } = alinhamento
+        ? { transcricao: alinhamento.transcricao, alteracoes: [] }
+        : aplicarGlossario(transcricaoBruta ?? [], preferences.glossary);
+      setGlossaryChanges(alteracoesGlossario);
+      if (alinhamento) {
+        showInfo(t('alinhamento.concluido', { alinhadas: alinhamento.alinhadas, total: alinhamento.transcricao.length }));
+        if (alinhamento.cobertura < COBERTURA_MINIMA_ALINHAMENTO) {
+          showWarning(t('alinhamento.baixaCobertura', { percentual: Math.round(alinhamento.cobertura * 100) }));
+        }
+      } else if (alteracoesGlossario.length > 0) {
+        showInfo(t('glossario.correcoes', { quantidade: alteracoesGlossario.length }));
+      }
       console.log(`✅ [PROCESSO] Transcrição concluída:`, {
         palavrasTranscritas: transcricaoData?.length || 0,
         primeirasPalavras: transcricaoData?.slice(0, 3).map(w => w.word).join(' ') || 'N/A'
@@ -264,15 +549,18 @@ const App: React.FC = () => {
       
       if (transcricaoData && transcricaoData.length > 0) {
         console.log(`📋 [PROCESSO] Definindo transcrição no estado...`);
-        setTranscription(transcricaoData);
+        transcricaoParcial = transcricaoData;
+        setPartialWordCount(transcricaoData.length);
+        resetTranscription(transcricaoData);
         setStatus(Status.Summarizing);
-        showInfo('Transcrição concluída! Gerando resumo...');
+        showInfo(t('app.transcricaoConcluida'));
 
         // Gerar texto completo transcrito
         const textoTranscritoCompleto = transcricaoData.map(word => word.word).join(' ');
 
-        // Salvar dados de aprendizado
-        console.log(`🧠 [PROCESSO] === ETAPA 2: SALVAMENTO DE DADOS DE APRENDIZADO ===`);
+        // Analisar dados de aprendizado (gravados só ao final, se o processamento não for cancelado)
+        console.log(`🧠 [PROCESSO] === ETAPA 2: ANÁLISE DE DADOS DE APRENDIZADO ===`);
+        let aprendizadoPendente: AprendizadoPendente | null = null;
         try {
           const dadosAprendizado = {
             palavras: transcricaoData.map(w => w.word),
@@ -287,52 +575,97 @@ const App: React.FC = () => {
             timestamp: new Date(dadosAprendizado.tempoProcessamento).toLocaleString('pt-BR')
           });
           
-          await learningAlgorithmService.analisarTranscricao(dadosAprendizado);
-          console.log(`✅ [PROCESSO] Dados de aprendizado salvos com sucesso`);
+          aprendizadoPendente = await learningAlgorithmService.analisarTranscricao(dadosAprendizado, sinal);
+          console.log(`✅ [PROCESSO] Dados de aprendizado analisados`);
         } catch (learningError) {
-          console.error('❌ [PROCESSO] Erro ao salvar dados de aprendizado:', learningError);
+          console.error('❌ [PROCESSO] Erro ao analisar dados de aprendizado:', learningError);
+        }
+        sinal.throwIfAborted();
+
+        // Salvar no armazenamento (Supabase ou local)
+        console.log(`🗄️ [PROCESSO] === ETAPA 3: SALVAMENTO NO ARMAZENAMENTO ===`);
+        if (!usarServicosNuvem) {
+          console.log(`🔒 [PROCESSO] Mecanismo local: transcrição mantida só na biblioteca local`);
+        } else {
+          try {
+            const armazenamento = await armazenamentoService.obter();
+            console.log(`💾 [PROCESSO] Dados para ${armazenamento.nome} preparados:`, {
+              nomeArquivo: audioFile.name,
+              palavrasTranscricao: transcricaoData.length,
+              tamanhoArquivo: `${(audioFile.size / 1024 / 1024).toFixed(2)} MB`
+            });
+            
+            // Salvar resultado completo de forma otimizada
+            registroArmazenamento = await armazenamento.salvarResultadoCompleto(transcricaoData, textoTranscritoCompleto, audioFile, sinal);
+            console.log(`✅ [PROCESSO] Dados salvos em ${armazenamento.nome} com sucesso.`);
+          } catch (armazenamentoError) {
+            console.error('❌ [PROCESSO] Erro ao salvar no armazenamento:', armazenamentoError);
+          }
         }
+        sinal.throwIfAborted();
 
-        // Salvar no Supabase
-        console.log(`🗄️ [PROCESSO] === ETAPA 3: SALVAMENTO NO SUPABASE ===`);
+        // Biblioteca local
         try {
-          const dadosSupabase = {
+          idBiblioteca = await bibliotecaService.salvar({
             nomeArquivo: audioFile.name,
-            transcricao: textoTranscritoCompleto,
-            tamanhoArquivo: audioFile.size
-          };
-          console.log(`💾 [PROCESSO] Dados para Supabase preparados:`, {
-            nomeArquivo: dadosSupabase.nomeArquivo,
-            palavrasTranscricao: transcricaoData.length,
-            tamanhoArquivo: `${(dadosSupabase.tamanhoArquivo / 1024 / 1024).toFixed(2)} MB`
+            tipoArquivo: audioFile.type,
+            tamanhoArquivo: audioFile.size,
+            audio: audioFile,
+            audioUrlRemota: audioUrl?.startsWith('http') ? audioUrl : undefined,
+            transcricao: transcricaoData,
+            resumo: null,
+            provedor: provedorTranscricao.id,
+            idioma: audioLanguage
           });
-          
-          // Salvar resultado completo de forma otimizada
-          console.log(`🔄 [PROCESSO] Salvando resultado completo no Supabase de forma otimizada...`);
-          await supabaseService.salvarResultadoCompleto(transcricaoData, textoTranscritoCompleto, audioFile);
-          console.log(`✅ [PROCESSO] Dados salvos no Supabase com sucesso.`);
-        } catch (supabaseError) {
-          console.error('❌ [PROCESSO] Erro ao salvar no Supabase:', supabaseError);
+          transcricaoPersistidaRef.current = transcricaoData;
+          setLibraryItemId(idBiblioteca);
+        } catch (bibliotecaError) {
+          console.error('❌ [PROCESSO] Erro ao salvar na biblioteca local:', bibliotecaError);
         }
+        sinal.throwIfAborted();
 
         // Resumo
         console.log(`📝 [PROCESSO] === ETAPA 4: GERAÇÃO DE RESUMO ===`);
-        const textoTranscrito = transcricaoData.map(word => word.word).join(' ');
+        const textoTranscrito = formatarTextoComFalantes(transcricaoData);
         console.log(`📄 [PROCESSO] Texto para resumo:`, {
           tamanho: textoTranscrito.length,
           palavras: textoTranscrito.split(' ').length,
           primeiros50Chars: textoTranscrito.substring(0, 50) + '...'
         });
         
-        const resumoResult = await summarizeText(textoTranscrito, apiKey);
+        const resumoResult = usarServicosNuvem
+          ? await resumirTranscricao(transcricaoData, apiKey, language, preferences.summaryMode, sinal)
+          : null;
+        sinal.throwIfAborted();
+
+        // Daqui em diante o processamento não é mais cancelado: o aprendizado pode ser gravado
+        // (no armazenamento em uso, por isso só quando os serviços na nuvem são permitidos)
+        if (aprendizadoPendente && usarServicosNuvem) {
+          try {
+            await learningAlgorithmService.registrarAprendizado(aprendizadoPendente);
+          } catch (learningError) {
+            console.error('❌ [PROCESSO] Erro ao salvar dados de aprendizado:', learningError);
+          }
+        }
         console.log(`✅ [PROCESSO] Resumo gerado:`, {
-          sucesso: resumoResult.success,
-          tamanho: resumoResult.data?.length || 0,
-          primeiros50Chars: resumoResult.data?.substring(0, 50) + '...' || 'N/A'
+          sucesso: resumoResult?.success ?? false,
+          modo: preferences.summaryMode,
+          tamanho: resumoResult?.data?.texto.length || 0,
+          primeiros50Chars: resumoResult?.data?.texto.substring(0, 50) + '...' || 'N/A'
         });
         
-        if (resumoResult.success && resumoResult.data) {
-          setSummary(resumoResult.data);
+        if (resumoResult?.success && resumoResult.data) {
+          setSummary(resumoResult.data.texto);
+          setStructuredSummary(resumoResult.data.estruturado);
+          setSummarySourceText(textoTranscrito);
+          if (idBiblioteca) {
+            bibliotecaService.atualizar(idBiblioteca, {
+              resumo: resumoResult.data.texto,
+              resumoEstruturado: resumoResult.data.estruturado
+            }).catch(error => {
+              console.error('❌ [PROCESSO] Erro ao salvar resumo na biblioteca:', error);
+            });
+          }
           setStatus(Status.Done);
           setCurrentStep('completed');
           
@@ -343,17 +676,17 @@ const App: React.FC = () => {
             tempoTotal: `${totalDuration.toFixed(2)}s`,
             arquivo: audioFile.name,
             palavrasTranscritas: transcricaoData.length,
-            tamanhoResumo: resumoResult.data.length,
-            etapasConcluidas: ['Inicialização', 'Transcrição', 'Aprendizado', 'Supabase', 'Resumo']
+            tamanhoResumo: resumoResult.data.texto.length,
+            etapasConcluidas: ['Inicialização', 'Transcrição', 'Aprendizado', 'Armazenamento', 'Resumo']
           });
           
           // Encerrar serviços após conclusão
           console.log(`🔧 [PROCESSO] === ETAPA FINAL: ENCERRAMENTO DE SERVIÇOS ===`);
           encerrarServicos();
           
-          showSuccess('Transcrição e resumo concluídos com sucesso!');
+          showSuccess(t('app.concluidoComSucesso'));
         } else {
-          console.warn(`⚠️ [PROCESSO] Resumo não foi gerado:`, resumoResult.error);
+          console.warn(`⚠️ [PROCESSO] Resumo não foi gerado:`, resumoResult?.error ?? 'serviços na nuvem desativados para o mecanismo local');
           setStatus(Status.Done);
           setCurrentStep('completed');
           
@@ -361,13 +694,22 @@ const App: React.FC = () => {
           console.log(`🔧 [PROCESSO] === ETAPA FINAL: ENCERRAMENTO DE SERVIÇOS ===`);
           encerrarServicos();
           
-          showWarning('Transcrição concluída, mas não foi possível gerar o resumo.');
+          if (resumoResult) {
+            showWarning(t('app.semResumo'));
+          } else {
+            showInfo(t('app.resumoLocal'));
+          }
         }
       } else {
         console.error(`❌ [PROCESSO] Transcrição vazia ou inválida`);
         throw new Error('Transcrição vazia ou inválida');
       }
     } catch (err) {
+      if (sinal.aborted) {
+        await handleProcessingCancelled(transcricaoParcial, registroArmazenamento, idBiblioteca);
+        return;
+      }
+
       const processEndTime = Date.now();
       const totalDuration = (processEndTime - processStartTime) / 1000;
       
@@ -375,7 +717,7 @@ const App: React.FC = () => {
       console.error(`💥 [PROCESSO] Erro capturado:`, err);
       console.error(`⏱️ [PROCESSO] Tempo até o erro: ${totalDuration?.toFixed(2) || '0.00'}s`);
       
-      const errorMessage = err instanceof Error ? err.message : 'Erro desconhecido';
+      const errorMessage = err instanceof Error ? err.message : t('app.erroDesconhecido');
       
       console.error(`📋 [PROCESSO] Detalhes do erro:`, {
         tipo: err instanceof Error ? err.constructor.name : typeof err,
@@ -388,15 +730,124 @@ const App: React.FC = () => {
       
       setError(errorMessage);
       setStatus(Status.Error);
-      showError(`Erro: ${errorMessage}`);
+      showError(t('app.erro', { erro: errorMessage }));
       
       // Encerrar serviços em caso de erro
       console.log(`🔧 [PROCESSO] === ENCERRAMENTO DE SERVIÇOS APÓS ERRO ===`);
       encerrarServicos();
       
       console.error(`🔚 [PROCESSO] ========== FIM DO PROCESSAMENTO COM ERRO ==========`);
+    } finally {
+      servicoProgressoTranscricao.finalizar();
+      if (processingControllerRef.current === controller) {
+        processingControllerRef.current = null;
+      }
+    }
+  }, [audioFile, apiKey, audioUrl, audioLanguage, alignmentScript, language, provedorTranscricao, podeTranscrever, preferences.localEngineUrl, preferences.speakerDiarization, preferences.summaryMode, preferences.glossary, addRecentFile, showInfo, showSuccess, showError, showWarning, t]);
+
+  // Vários arquivos selecionados: enfileira todos na transcrição em lote
+  const handleBatchSelect = useCallback((files: File[]) => {
+    if (!podeTranscrever) {
+      showError(t('app.configureChaveNasConfiguracoes'));
+      return;
     }
-  }, [audioFile, apiKey, audioUrl, addRecentFile, showInfo, showSuccess, showError, showWarning]);
+
+    servicoLote.configurar({
+      concorrencia: preferences.batchConcurrency,
+      maxTentativas: preferences.batchMaxRetries
+    });
+    servicoLote.adicionarArquivos(files, {
+      provedor: provedorTranscricao,
+      opcoesTranscricao: {
+        apiKey,
+        endpointLocal: preferences.localEngineUrl,
+        diarizacao: preferences.speakerDiarization,
+        idioma: audioLanguage,
+        glossario: preferences.glossary
+      },
+      // Sem a chave, os arquivos são concluídos sem resumo
+      apiKey: usarServicosNuvem ? apiKey : null,
+      idiomaResumo: language,
+      modoResumo: preferences.summaryMode
+    });
+    files.forEach(file => addRecentFile({ name: file.name, path: '', size: file.size }));
+    showInfo(t('lote.adicionados', { quantidade: files.length }));
+  }, [podeTranscrever, provedorTranscricao, apiKey, audioLanguage, language, preferences.batchConcurrency, preferences.batchMaxRetries, preferences.localEngineUrl, preferences.speakerDiarization, preferences.summaryMode, preferences.glossary, addRecentFile, showInfo, showError, t]);
+
+  // Estado do processamento e opção de cancelar; com palavras já recebidas, fica acima da transcrição parcial
+  const renderProcessingStatus = (emAndamentoComTexto: boolean) => (
+    <div className="flex flex-col items-center justify-center space-y-6">
+      {!emAndamentoComTexto && <Loader />}
+      <div className="text-center">
+        <h3 className="text-xl font-semibold text-white mb-2">
+          {t(status === Status.Transcribing ? 'app.transcrevendo' : 'app.gerandoResumo')}
+        </h3>
+        <p className="text-gray-400">{t('app.aguarde')}</p>
+        {partialWordCount > 0 && (
+          <p className="text-sm text-gray-500 mt-1">{t('app.palavrasTranscritas', { quantidade: partialWordCount })}</p>
+        )}
+      </div>
+      {isCancelPromptOpen ? (
+        <div className="bg-gray-700/40 border border-gray-600/50 rounded-xl p-4 text-center space-y-3 max-w-md">
+          <p className="text-gray-200">{t('app.manterParcialPergunta', { quantidade: partialWordCount })}</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            <button
+              onClick={() => handleCancelProcessing(true)}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors"
+            >
+              {t('app.manterParcial')}
+            </button>
+            <button
+              onClick={() => handleCancelProcessing(false)}
+              className="px-4 py-2 bg-red-600/80 hover:bg-red-600 text-white rounded-lg transition-colors"
+            >
+              {t('app.descartar')}
+            </button>
+            <button
+              onClick={() => setCancelPromptOpen(false)}
+              className="px-4 py-2 bg-gray-600/50 hover:bg-gray-600 text-gray-200 rounded-lg transition-colors"
+            >
+              {t('app.continuarProcessamento')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => (partialWordCount > 0 ? setCancelPromptOpen(true) : handleCancelProcessing(false))}
+          disabled={isCancelling}
+          className="px-6 py-2 border border-gray-600 text-gray-300 hover:text-red-400 hover:border-red-500/50 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {t(isCancelling ? 'app.cancelando' : 'app.cancelarProcessamento')}
+        </button>
+      )}
+    </div>
+  );
+
+  // A mesma árvore é usada durante e após o processamento para que o áudio não seja interrompido ao concluir
+  const renderTranscription = (emAndamento: boolean) => (
+    <div className="space-y-6">
+      {emAndamento && renderProcessingStatus(true)}
+      <TranscriptionDisplay 
+        key={sessionKey}
+        transcription={transcription}
+        summary={summary}
+        structuredSummary={structuredSummary}
+        glossaryChanges={emAndamento ? [] : glossaryChanges}
+        audioUrl={audioUrl}
+        seekRequest={seekRequest}
+        onTranscriptionChange={emAndamento ? undefined : applyEdit}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        isSummaryOutdated={isSummaryOutdated}
+        isRegeneratingSummary={isRegeneratingSummary}
+        onRegenerateSummary={handleRegenerateSummary}
+        onNewTranscription={handleNewTranscription}
+        onExport={handleExportTranscription}
+      />
+    </div>
+  );
 
   const renderContent = () => {
     switch (currentStep) {
@@ -404,51 +855,64 @@ const App: React.FC = () => {
         return (
           <div className="space-y-8">
             <div className="text-center">
-              <h2 className="text-2xl font-bold text-white mb-2">Comece sua transcrição</h2>
-              <p className="text-gray-400">Envie seu arquivo de áudio e deixe a IA fazer o trabalho</p>
+              <h2 className="text-2xl font-bold text-white mb-2">{t('app.comece')}</h2>
+              <p className="text-gray-400">{t('app.comeceDescricao')}</p>
             </div>
             <AudioUploader 
               onFileSelect={handleFileSelect}
-              disabled={!isConfigured}
+              onFilesSelect={handleBatchSelect}
+              disabled={!podeTranscrever}
+              cloudUploadEnabled={provedorTranscricao.requerChaveApi}
+              onTranscriptImport={handleImportTranscript}
             />
+            {audioFile && (
+              <div className="max-w-sm mx-auto">
+                <label htmlFor="audioLanguage" className="block text-sm font-medium text-gray-300 mb-2">
+                  {t('upload.idiomaAudio')}
+                </label>
+                <select
+                  id="audioLanguage"
+                  value={audioLanguage}
+                  onChange={(e) => setAudioLanguage(e.target.value as IdiomaTranscricao)}
+                  disabled={status !== Status.Idle}
+                  className="w-full p-3 bg-gray-700/50 border border-gray-600 rounded-xl text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                >
+                  {idiomasTranscricao.map(idioma => (
+                    <option key={idioma} value={idioma}>{t(`idioma.${idioma}` as const)}</option>
+                  ))}
+                </select>
+                {audioLanguage === 'auto' && (
+                  <p className="text-xs text-gray-400 mt-2">{t('upload.idiomaAudioDica')}</p>
+                )}
+              </div>
+            )}
+            {audioFile && (
+              <ScriptAlignmentInput
+                script={alignmentScript}
+                onChange={setAlignmentScript}
+                disabled={status !== Status.Idle}
+              />
+            )}
             {audioFile && (
               <div className="flex justify-center">
                 <button
                   onClick={handleProcessAudio}
-                  disabled={!isConfigured || status !== Status.Idle}
+                  disabled={!podeTranscrever || status !== Status.Idle || alignmentScript?.trim() === ''}
                   className="px-8 py-4 bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-semibold rounded-xl hover:from-cyan-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 shadow-lg"
                 >
-                  {status === Status.Idle ? 'Iniciar Transcrição' : 'Processando...'}
+                  {t(status !== Status.Idle ? 'comum.processando' : alignmentScript !== null ? 'alinhamento.iniciar' : 'app.iniciarTranscricao')}
                 </button>
               </div>
             )}
           </div>
         );
       case 'processing':
-        return (
-          <div className="flex flex-col items-center justify-center space-y-6">
-            <Loader />
-            <div className="text-center">
-              <h3 className="text-xl font-semibold text-white mb-2">
-                {status === Status.Transcribing ? 'Transcrevendo áudio...' : 'Gerando resumo...'}
-              </h3>
-              <p className="text-gray-400">Isso pode levar alguns momentos</p>
-            </div>
-          </div>
-        );
+        return transcription && transcription.length > 0
+          ? renderTranscription(true)
+          : renderProcessingStatus(false);
       case 'transcription':
       case 'completed':
-        return (
-          <div className="space-y-6">
-            <TranscriptionDisplay 
-              transcription={transcription}
-              summary={summary}
-              audioUrl={audioUrl}
-              onNewTranscription={handleNewTranscription}
-              onExport={handleExportTranscription}
-            />
-          </div>
-        );
+        return renderTranscription(false);
       default:
         return null;
     }
@@ -468,10 +932,17 @@ const App: React.FC = () => {
               <Navigation 
                 currentStep={currentStep}
                 onNewTranscription={handleNewTranscription}
+                onOpenLibrary={() => setLibraryOpen(prev => !prev)}
+                isLibraryOpen={isLibraryOpen}
               />
               
               <div className="mt-8">
-                {renderContent()}
+                {isLibraryOpen ? (
+                  <LibraryView
+                    onOpenItem={handleOpenLibraryItem}
+                    onClose={() => setLibraryOpen(false)}
+                  />
+                ) : renderContent()}
               </div>
             </div>
           </div>
@@ -492,7 +963,7 @@ const App: React.FC = () => {
             onClick={() => setLearningReportOpen(true)}
             className="px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-semibold rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all duration-300 transform hover:scale-105 shadow-lg"
           >
-            Relatório de Aprendizado
+            {t('app.relatorioAprendizado')}
           </button>
         </div>
 
@@ -500,7 +971,7 @@ const App: React.FC = () => {
         
         <footer className="text-center mt-12 pb-8">
           <p className="text-sm text-gray-400">
-            Desenvolvido com <span className="text-red-400">❤️</span> e inteligência artificial
+            {t('app.rodape', { coracao: '❤️' })}
           </p>
         </footer>
       </div>
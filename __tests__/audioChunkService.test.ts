@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { mesclarSegmentos, ResultadoSegmento } from '../services/audioChunkService';
+import { WordTimestamp } from '../types';
+
+// Segmentos de 60s com 10s de sobreposição: 0-60, 50-110, 100-160 (cortes em 55 e 105)
+const segmento = (indice: number, palavras: [string, number, number][]): ResultadoSegmento => ({
+  segmento: {
+    indice,
+    inicio: indice * 50,
+    fim: indice * 50 + 60,
+    arquivo: new File([''], `parte${indice + 1}.wav`, { type: 'audio/wav' })
+  },
+  palavras: palavras.map(([word, startTime, endTime]) => ({ word, startTime, endTime }))
+});
+
+const resumir = (palavras: WordTimestamp[]) => palavras.map(palavra => [palavra.word, palavra.startTime]);
+
+describe('audioChunkService', () => {
+  it('desloca os tempos e corta a sobreposição no ponto médio', () => {
+    const palavras = mesclarSegmentos([
+      segmento(1, [['b', 2, 2.5], ['c', 6, 6.5], ['d', 20, 20.5]]),
+      segmento(0, [['a', 10, 10.5], ['b', 52, 52.5], ['c', 56, 56.5]])
+    ]);
+
+    expect(resumir(palavras)).toEqual([['a', 10], ['b', 52], ['c', 56], ['d', 70]]);
+  });
+
+  it('remove a palavra repetida que cruza o ponto de corte', () => {
+    // "ponto" termina depois do corte no primeiro segmento e começa depois dele no segundo
+    const palavras = mesclarSegmentos([
+      segmento(0, [['no', 54, 54.5], ['ponto', 54.6, 55.2]]),
+      segmento(1, [['Ponto,', 5.0, 5.4], ['final', 5.5, 6]])
+    ]);
+
+    expect(resumir(palavras)).toEqual([['no', 54], ['ponto', 54.6], ['final', 55.5]]);
+  });
+
+  it('mantém palavras iguais que não estão na mesma posição', () => {
+    const palavras = mesclarSegmentos([
+      segmento(0, [['sim', 53, 53.5]]),
+      segmento(1, [['sim', 7, 7.5]])
+    ]);
+
+    expect(resumir(palavras)).toEqual([['sim', 53], ['sim', 57]]);
+  });
+
+  it('ignora segmentos sem palavras', () => {
+    const palavras = mesclarSegmentos([
+      segmento(0, [['início', 1, 1.5]]),
+      segmento(1, []),
+      segmento(2, [['fim', 10, 10.5]])
+    ]);
+
+    expect(resumir(palavras)).toEqual([['início', 1], ['fim', 110]]);
+  });
+
+  it('com um único segmento, só limita os tempos à duração dele', () => {
+    const palavras = mesclarSegmentos([segmento(0, [['olá', -0.2, 0.4], ['mundo', 59.5, 61]])]);
+
+    expect(palavras).toEqual([
+      { word: 'olá', startTime: 0, endTime: 0.4 },
+      { word: 'mundo', startTime: 59.5, endTime: 60 }
+    ]);
+    expect(mesclarSegmentos([])).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import {
+  marcarComoVerificada,
+  nivelConfianca,
+  proximaPalavraIncerta,
+  resumirConfianca
+} from '../services/confidenceReviewService';
+
+const transcricao: WordTimestamp[] = [
+  { word: 'O', startTime: 0, endTime: 0.2, confidence: 0.95 },
+  { word: 'paciente', startTime: 0.2, endTime: 0.7, confidence: 0.4 },
+  { word: 'tomou', startTime: 0.7, endTime: 1, confidence: 0.8 },
+  { word: 'dipirona', startTime: 1, endTime: 1.6, confidence: 0.3, edited: true },
+  { word: 'ontem', startTime: 1.6, endTime: 2, confidence: 0.65 },
+  { word: 'à', startTime: 2, endTime: 2.1 },
+  { word: 'noite', startTime: 2.1, endTime: 2.5, confidence: 1 }
+];
+
+describe('confidenceReviewService', () => {
+  it('classifica as palavras em relação ao limite', () => {
+    expect(transcricao.map(palavra => nivelConfianca(palavra, 0.7))).toEqual(
+      ['alta', 'baixa', 'media', 'baixa', 'baixa', null, 'alta']
+    );
+  });
+
+  it('navega pelas palavras incertas não revisadas, voltando ao início', () => {
+    expect(proximaPalavraIncerta(transcricao, 0.7, -1)).toBe(1);
+    expect(proximaPalavraIncerta(transcricao, 0.7, 1)).toBe(4);
+    expect(proximaPalavraIncerta(transcricao, 0.7, 4)).toBe(1);
+    expect(proximaPalavraIncerta(transcricao, 0.7, 1, -1)).toBe(4);
+
+    const verificada = marcarComoVerificada(transcricao, 1);
+    expect(verificada[1]).toMatchObject({ word: 'paciente', verified: true });
+    expect(transcricao[1].verified).toBeUndefined();
+    expect(proximaPalavraIncerta(marcarComoVerificada(verificada, 4), 0.7, 0)).toBe(-1);
+    expect(marcarComoVerificada(verificada, 1, false)[1]).not.toHaveProperty('verified');
+  });
+
+  it('resume a distribuição da confiança e o trabalho de revisão', () => {
+    const resumo = resumirConfianca(marcarComoVerificada(transcricao, 4), 0.7);
+    expect(resumo.faixas).toEqual([0, 0, 0, 1, 1, 0, 1, 0, 1, 2]);
+    expect(resumo).toMatchObject({ comConfianca: 6, pendentes: 1, revisadas: 2 });
+    expect(resumo.media).toBeCloseTo(0.6833, 3);
+    expect(resumirConfianca([], 0.7).media).toBeNull();
+  });
+});
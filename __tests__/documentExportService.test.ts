@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import { gerarDocumentoPdf, gerarDocx, gerarMarkdown, montarParagrafos } from '../services/documentExportService';
+
+const palavra = (word: string, startTime: number, speaker?: string): WordTimestamp => ({
+  word,
+  startTime,
+  endTime: startTime + 0.4,
+  ...(speaker ? { speaker } : {})
+});
+
+const transcricao: WordTimestamp[] = [
+  palavra('Bom', 0, 'Ana'),
+  palavra('dia', 0.5, 'Ana'),
+  palavra(',', 0.9, 'Ana'),
+  palavra('pessoal.', 1, 'Ana'),
+  palavra('Olá', 2, 'Bruno'),
+  palavra('Ana.', 2.5, 'Bruno'),
+  palavra('Começando', 65, 'Bruno')
+];
+
+const dados = { nomeArquivo: 'reuniao.mp3', resumo: 'Reunião de alinhamento.' };
+
+describe('documentExportService', () => {
+  it('quebra os parágrafos na troca de falante e nas pausas longas', () => {
+    expect(montarParagrafos(transcricao)).toEqual([
+      { inicio: 0, falante: 'Ana', texto: 'Bom dia, pessoal.' },
+      { inicio: 2, falante: 'Bruno', texto: 'Olá Ana.' },
+      { inicio: 65, falante: 'Bruno', texto: 'Começando' }
+    ]);
+  });
+
+  it('gera Markdown com título, resumo, marcas de tempo e falantes', () => {
+    const markdown = gerarMarkdown(transcricao, dados);
+
+    expect(markdown.startsWith('# reuniao.mp3\n')).toBe(true);
+    expect(markdown).toContain('- **Falantes:** Ana, Bruno');
+    expect(markdown).toContain('## Resumo\n\nReunião de alinhamento.');
+    expect(markdown).toContain('**[0:00] Ana:** Bom dia, pessoal.');
+    expect(markdown).toContain('**[1:05] Bruno:** Começando');
+  });
+
+  it('omite marcas de tempo e falantes quando desativados', () => {
+    const markdown = gerarMarkdown(transcricao, dados, { marcasDeTempo: false, falantes: false, idioma: 'en-US' });
+
+    expect(markdown).toContain('## Transcript\n\nBom dia, pessoal.\n\nOlá Ana.');
+    expect(markdown).not.toContain('[0:00]');
+  });
+
+  it('gera um DOCX com o documento principal do pacote', () => {
+    const docx = gerarDocx(transcricao, dados);
+    const texto = new TextDecoder().decode(docx);
+
+    expect(Array.from(docx.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(texto).toContain('[Content_Types].xml');
+    expect(texto).toContain('word/document.xml');
+    expect(texto).toContain('<w:t xml:space="preserve">Bom dia, pessoal.</w:t>');
+  });
+
+  it('gera um PDF com a tabela de referências apontando para os objetos', () => {
+    const pdf = gerarDocumentoPdf(transcricao, dados);
+    const texto = Array.from(pdf, byte => String.fromCharCode(byte)).join('');
+
+    expect(texto.startsWith('%PDF-1.4')).toBe(true);
+    expect(texto.trimEnd().endsWith('%%EOF')).toBe(true);
+    // Texto em WinAnsi: "ç" ocupa um único byte
+    expect(texto).toContain('(Come\xe7ando) Tj');
+
+    const inicioXref = Number(texto.match(/startxref\n(\d+)/)![1]);
+    expect(texto.slice(inicioXref, inicioXref + 4)).toBe('xref');
+    const posicoes = [...texto.slice(inicioXref).matchAll(/^(\d{10}) 00000 n $/gm)].map(item => Number(item[1]));
+    posicoes.forEach((posicao, indice) => {
+      expect(texto.slice(posicao).startsWith(`${indice + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  criarGeradorEmbeddings,
+  DIMENSOES_EMBEDDING,
+  EmbeddingError,
+  GeradorLote,
+  MODELO_EMBEDDING,
+  ModeloLocalIndisponivelError
+} from '../src/services/embeddingGenerator';
+
+const vetor = (valor: number, dimensoes = DIMENSOES_EMBEDDING) => new Array<number>(dimensoes).fill(valor);
+
+// Backend simulado que devolve um vetor preenchido com o valor informado para cada texto
+const backend = (valor: number) =>
+  jest.fn<GeradorLote>(async textos => textos.map(() => vetor(valor)));
+
+const falhando = (erro: Error) =>
+  jest.fn<GeradorLote>(async () => {
+    throw erro;
+  });
+
+describe('embeddingGenerator', () => {
+  it('usa o modelo local e marca os vetores com o modelo', async () => {
+    const local = backend(0.1);
+    const huggingface = backend(0.2);
+    const gerar = criarGeradorEmbeddings({ local, huggingface }, 'auto');
+
+    const resultado = await gerar(['olá', 'mundo']);
+
+    expect(resultado).toEqual({ vetores: [vetor(0.1), vetor(0.1)], modelo: MODELO_EMBEDDING, backend: 'local' });
+    expect(huggingface).not.toHaveBeenCalled();
+  });
+
+  it('recorre ao Hugging Face e não tenta de novo o modelo local que não carregou', async () => {
+    const local = falhando(new ModeloLocalIndisponivelError('modelo ausente'));
+    const huggingface = backend(0.2);
+    const gerar = criarGeradorEmbeddings({ local, huggingface }, 'auto');
+
+    await expect(gerar(['olá'])).resolves.toMatchObject({ backend: 'huggingface', modelo: MODELO_EMBEDDING });
+    await expect(gerar(['mundo'])).resolves.toMatchObject({ backend: 'huggingface' });
+    expect(local).toHaveBeenCalledTimes(1);
+  });
+
+  it('continua tentando o modelo local depois de falhas que não são de carregamento', async () => {
+    const local = jest.fn<GeradorLote>()
+      .mockRejectedValueOnce(new Error('texto longo demais'))
+      .mockImplementation(async textos => textos.map(() => vetor(0.1)));
+    const gerar = criarGeradorEmbeddings({ local, huggingface: backend(0.2) }, 'auto');
+
+    await expect(gerar(['olá'])).resolves.toMatchObject({ backend: 'huggingface' });
+    await expect(gerar(['olá'])).resolves.toMatchObject({ backend: 'local' });
+  });
+
+  it('rejeita vetores de zeros, de outro tamanho ou em quantidade diferente', async () => {
+    const respostas: number[][][] = [[vetor(0)], [vetor(0.1, 768)], [vetor(0.1), vetor(0.1)]];
+
+    for (const vetores of respostas) {
+      const gerar = criarGeradorEmbeddings({ local: async () => vetores, huggingface: null }, 'local');
+      await expect(gerar(['olá'])).rejects.toMatchObject({ name: 'EmbeddingError', tipo: 'indisponivel' });
+    }
+  });
+
+  it('cai para o Hugging Face quando o modelo local devolve vetores inválidos', async () => {
+    const gerar = criarGeradorEmbeddings({ local: async textos => textos.map(() => vetor(0)), huggingface: backend(0.2) }, 'auto');
+
+    await expect(gerar(['olá'])).resolves.toEqual({ vetores: [vetor(0.2)], modelo: MODELO_EMBEDDING, backend: 'huggingface' });
+  });
+
+  it('divide os textos em lotes do tamanho de cada backend', async () => {
+    const local = backend(0.1);
+    const gerar = criarGeradorEmbeddings({ local, huggingface: null }, 'auto');
+
+    const { vetores } = await gerar(Array.from({ length: 40 }, (_, i) => `texto ${i}`));
+
+    expect(vetores).toHaveLength(40);
+    expect(local.mock.calls.map(([lote]) => lote.length)).toEqual([32, 8]);
+  });
+
+  it('rejeita textos vazios e informa quando não há backend disponível', async () => {
+    const semBackend = criarGeradorEmbeddings({ local: backend(0.1), huggingface: null }, 'huggingface');
+
+    await expect(semBackend(['olá', ' '])).rejects.toMatchObject({ tipo: 'vazio' });
+    await expect(semBackend(['olá'])).rejects.toThrow(EmbeddingError);
+
+    const localAusente = criarGeradorEmbeddings({ local: falhando(new ModeloLocalIndisponivelError('modelo ausente')), huggingface: null }, 'auto');
+    await expect(localAusente(['olá'])).rejects.toThrow('Todos os backends de embeddings falharam');
+    await expect(localAusente(['olá'])).rejects.toThrow('Nenhum backend de embeddings disponível');
+  });
+});
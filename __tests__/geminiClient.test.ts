@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  calcularEspera,
+  classificarErroGemini,
+  executarComRetentativas,
+  extrairEsperaSugerida,
+  extrairItensParciais,
+  GeminiAutenticacaoError,
+  GeminiBloqueioError,
+  GeminiCanceladoError,
+  GeminiLimiteError,
+  GeminiRedeError,
+  GeminiServidorError
+} from '../services/geminiClient';
+
+// Simula o ApiError do @google/genai, que expõe o status HTTP
+const erroApi = (status: number, mensagem: string) => Object.assign(new Error(mensagem), { status });
+
+const semEspera = { esperaInicial: 1, esperaMaxima: 5 };
+
+describe('geminiClient', () => {
+  it('classifica os erros da API pelo status e pela mensagem', () => {
+    expect(classificarErroGemini(erroApi(400, 'API key not valid. Please pass a valid API key.'))).toBeInstanceOf(GeminiAutenticacaoError);
+    expect(classificarErroGemini(erroApi(403, 'PERMISSION_DENIED'))).toBeInstanceOf(GeminiAutenticacaoError);
+    expect(classificarErroGemini(erroApi(429, 'RESOURCE_EXHAUSTED'))).toBeInstanceOf(GeminiLimiteError);
+    expect(classificarErroGemini(erroApi(503, 'UNAVAILABLE'))).toBeInstanceOf(GeminiServidorError);
+    expect(classificarErroGemini(new TypeError('Failed to fetch'))).toBeInstanceOf(GeminiRedeError);
+    expect(classificarErroGemini(new Error('got status: 500 Internal Server Error'))).toBeInstanceOf(GeminiServidorError);
+    expect(classificarErroGemini(new Error('qualquer'), AbortSignal.abort())).toBeInstanceOf(GeminiCanceladoError);
+    expect(classificarErroGemini(new Error('qualquer')).tipo).toBe('desconhecido');
+  });
+
+  it('lê o tempo de espera pedido pela API', () => {
+    const mensagem = '{"error":{"code":429,"details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"31s"}]}}';
+    expect(extrairEsperaSugerida(mensagem)).toBe(31000);
+    expect(extrairEsperaSugerida('Retry-After: 2')).toBe(2000);
+    expect(extrairEsperaSugerida('sem dica')).toBeUndefined();
+    expect((classificarErroGemini(erroApi(429, mensagem)) as GeminiLimiteError).esperaSugerida).toBe(31000);
+  });
+
+  it('calcula a espera exponencial com variação e respeita a espera pedida', () => {
+    const erro = new GeminiRedeError();
+    expect(calcularEspera(1, erro, 1000, 30000, () => 0)).toBe(500);
+    expect(calcularEspera(1, erro, 1000, 30000, () => 1)).toBe(1000);
+    expect(calcularEspera(3, erro, 1000, 30000, () => 1)).toBe(4000);
+    expect(calcularEspera(10, erro, 1000, 30000, () => 1)).toBe(30000);
+    expect(calcularEspera(1, new GeminiLimiteError(undefined, 5000), 1000, 30000)).toBe(5000);
+    expect(calcularEspera(1, new GeminiLimiteError(undefined, 90000), 1000, 30000)).toBeNull();
+  });
+
+  it('repete falhas temporárias até conseguir', async () => {
+    let chamadas = 0;
+    const resultado = await executarComRetentativas(async () => {
+      chamadas++;
+      if (chamadas < 3) throw erroApi(503, 'UNAVAILABLE');
+      return 'ok';
+    }, { ...semEspera, maxTentativas: 4 });
+
+    expect(resultado).toBe('ok');
+    expect(chamadas).toBe(3);
+  });
+
+  it('não repete erros definitivos e para no limite de tentativas', async () => {
+    let chamadas = 0;
+    await expect(executarComRetentativas(async () => {
+      chamadas++;
+      throw new GeminiBloqueioError('SAFETY');
+    }, semEspera)).rejects.toBeInstanceOf(GeminiBloqueioError);
+    expect(chamadas).toBe(1);
+
+    chamadas = 0;
+    await expect(executarComRetentativas(async () => {
+      chamadas++;
+      throw new TypeError('fetch failed');
+    }, { ...semEspera, maxTentativas: 2 })).rejects.toBeInstanceOf(GeminiRedeError);
+    expect(chamadas).toBe(2);
+  });
+
+  it('interrompe a espera quando cancelado', async () => {
+    const controlador = new AbortController();
+    const promessa = executarComRetentativas(async () => {
+      throw erroApi(503, 'UNAVAILABLE');
+    }, { sinal: controlador.signal, esperaInicial: 10000, esperaMaxima: 10000 });
+
+    setTimeout(() => controlador.abort(), 20);
+    await expect(promessa).rejects.toBeInstanceOf(GeminiCanceladoError);
+  });
+
+  it('lê os itens já fechados de um JSON incompleto', () => {
+    const completo = '{"transcription": [{"word": "olá", "startTime": 0, "endTime": 0.4}, {"word": "a}\\"[", "startTime": 0.4, "endTime": 0.9}]}';
+    expect(extrairItensParciais(completo, 'transcription')).toHaveLength(2);
+    expect(extrairItensParciais<any>(completo, 'transcription')[1].word).toBe('a}"[');
+
+    const parcial = '{"transcription": [{"word": "olá", "startTime": 0, "endTime": 0.4}, {"word": "mun';
+    expect(extrairItensParciais(parcial, 'transcription')).toEqual([{ word: 'olá', startTime: 0, endTime: 0.4 }]);
+    expect(extrairItensParciais('{"transcri', 'transcription')).toEqual([]);
+  });
+});
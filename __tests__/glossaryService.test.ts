@@ -0,0 +1,68 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import {
+  aplicarGlossario,
+  montarInstrucaoGlossario,
+  normalizarGlossario,
+  resumirAlteracoes,
+  TermoGlossario
+} from '../services/glossaryService';
+
+const transcricao = (...palavras: string[]): WordTimestamp[] =>
+  palavras.map((word, indice) => ({ word, startTime: indice, endTime: indice + 0.8 }));
+
+const glossario: TermoGlossario[] = [
+  { id: '1', termo: 'Ozempic', pronuncia: 'ozêmpic', variantes: ['ozempique', 'o zempic'] },
+  { id: '2', termo: 'ACME', variantes: [] }
+];
+
+describe('glossaryService', () => {
+  it('descarta termos vazios e variantes repetidas', () => {
+    const normalizado = normalizarGlossario([
+      { id: '1', termo: '  Ozempic ', pronuncia: ' ', variantes: ['ozempique', 'Ozempique', 'ozempic', ''] },
+      { id: '2', termo: '', variantes: ['x'] }
+    ]);
+
+    expect(normalizado).toEqual([{ id: '1', termo: 'Ozempic', pronuncia: undefined, variantes: ['ozempique'] }]);
+  });
+
+  it('corrige variantes e a grafia do termo mantendo os tempos e a pontuação', () => {
+    const palavras = transcricao('o', 'paciente', 'usa', 'ozempique,', 'e', 'acme', 'indicou', 'o', 'zempic.');
+    const { transcricao: resultado, alteracoes } = aplicarGlossario(palavras, glossario);
+
+    expect(resultado.map(palavra => palavra.word)).toEqual(['o', 'paciente', 'usa', 'Ozempic,', 'e', 'ACME', 'indicou', 'Ozempic.']);
+    expect(resultado[3]).toMatchObject({ startTime: 3, endTime: 3.8, edited: true });
+    expect(resultado[7]).toMatchObject({ startTime: 7, endTime: 8.8 });
+    expect(alteracoes).toEqual([
+      { original: 'ozempique', corrigido: 'Ozempic', inicio: 3 },
+      { original: 'acme', corrigido: 'ACME', inicio: 5 },
+      { original: 'o zempic', corrigido: 'Ozempic', inicio: 7 }
+    ]);
+  });
+
+  it('não altera palavras que só contêm a variante nem termos já corretos', () => {
+    const palavras = transcricao('Ozempic', 'acmezinho');
+    const resultado = aplicarGlossario(palavras, glossario);
+
+    expect(resultado.transcricao).toBe(palavras);
+    expect(resultado.alteracoes).toEqual([]);
+  });
+
+  it('agrupa as correções iguais no relatório', () => {
+    const resumo = resumirAlteracoes([
+      { original: 'acme', corrigido: 'ACME', inicio: 1 },
+      { original: 'ozempique', corrigido: 'Ozempic', inicio: 2 },
+      { original: 'acme', corrigido: 'ACME', inicio: 5 }
+    ]);
+
+    expect(resumo).toEqual([
+      { original: 'acme', corrigido: 'ACME', quantidade: 2, inicios: [1, 5] },
+      { original: 'ozempique', corrigido: 'Ozempic', quantidade: 1, inicios: [2] }
+    ]);
+  });
+
+  it('monta as instruções do prompt apenas quando há termos', () => {
+    expect(montarInstrucaoGlossario([])).toBe('');
+    expect(montarInstrucaoGlossario(glossario)).toContain('- Ozempic (pronúncia: "ozêmpic"; pode soar como: "ozempique", "o zempic")');
+  });
+});
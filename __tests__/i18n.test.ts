@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+import { ChaveTraducao, idiomasInterface, traduzir } from '../i18n';
+import { ptBR } from '../i18n/pt-BR';
+
+const parametrosDoTexto = (texto: string): string[] => (texto.match(/\{\w+\}/g) ?? []).sort();
+
+describe('i18n', () => {
+  it('substitui os parâmetros do texto', () => {
+    expect(traduzir('pt-BR', 'comum.palavras', { quantidade: 3 })).toBe('3 palavras');
+    expect(traduzir('en-US', 'comum.palavras', { quantidade: 3 })).toBe('3 words');
+  });
+
+  it('mantém parâmetros não informados', () => {
+    expect(traduzir('es-ES', 'app.erro')).toBe('Error: {erro}');
+  });
+
+  it('todos os catálogos têm textos com os mesmos parâmetros do português', () => {
+    (Object.keys(ptBR) as ChaveTraducao[]).forEach(chave => {
+      idiomasInterface.forEach(idioma => {
+        const texto = traduzir(idioma, chave);
+        expect(texto.trim().length).toBeGreaterThan(0);
+        expect(parametrosDoTexto(texto)).toEqual(parametrosDoTexto(ptBR[chave]));
+      });
+    });
+  });
+});
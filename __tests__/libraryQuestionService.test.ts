@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals';
+import type { ItemBiblioteca } from '../services/libraryService';
+import {
+  dividirRespostaEmPartes,
+  listarFontesCitadas,
+  montarContextoFontes,
+  numerarFontes
+} from '../services/libraryQuestionService';
+
+const item = (id: string, nomeArquivo: string, criadoEm: string): ItemBiblioteca => ({
+  id,
+  nomeArquivo,
+  tipoArquivo: 'audio/mpeg',
+  tamanhoArquivo: 0,
+  transcricao: [],
+  resumo: null,
+  provedor: 'gemini',
+  duracao: 0,
+  criadoEm,
+  atualizadoEm: criadoEm
+});
+
+const fontes = numerarFontes([
+  {
+    item: item('a', 'cliente.mp3', '2026-03-14T10:00:00.000Z'),
+    trecho: { inicio: 725, fim: 760, indiceInicial: 0, indiceFinal: 9, texto: 'O preço subiu dez por cento.', falante: 'Ana' },
+    similaridade: 0.8
+  },
+  {
+    item: item('b', 'equipe.mp3', '2026-04-02T09:00:00.000Z'),
+    trecho: { inicio: 5, fim: 20, indiceInicial: 10, indiceFinal: 19, texto: 'Vamos manter o desconto.' },
+    similaridade: 0.6
+  }
+]);
+
+describe('libraryQuestionService', () => {
+  it('numera as fontes com arquivo, data e intervalo', () => {
+    expect(fontes.map(fonte => fonte.numero)).toEqual([1, 2]);
+    expect(montarContextoFontes(fontes)).toBe(
+      '[1] cliente.mp3 — 2026-03-14 — 12:05-12:40\nAna: O preço subiu dez por cento.\n\n' +
+      '[2] equipe.mp3 — 2026-04-02 — 0:05-0:20\nVamos manter o desconto.'
+    );
+  });
+
+  it('separa o texto das citações e descarta números sem fonte', () => {
+    const partes = dividirRespostaEmPartes('O cliente achou caro [1, 7]. A equipe manteve o desconto [2][1].', fontes);
+
+    expect(partes.map(parte => (parte.tipo === 'texto' ? parte.texto : parte.fonte.numero))).toEqual([
+      'O cliente achou caro ', 1, '. A equipe manteve o desconto ', 2, 1, '.'
+    ]);
+  });
+
+  it('lista as fontes citadas sem repetição, na ordem da primeira citação', () => {
+    expect(listarFontesCitadas('Sim [2]. Também [1] e [2].', fontes).map(fonte => fonte.numero)).toEqual([2, 1]);
+    expect(listarFontesCitadas('Não encontrei essa informação.', fontes)).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from '@jest/globals';
+import { criarArmazenamentoLocal, criarRepositorioMemoria } from '../services/localStorageBackend';
+import { GeradorEmbeddings } from '../services/storageBackend';
+import { WordTimestamp } from '../types';
+
+// Vetores fixos por texto: "preço" e "valor" são próximos, "cachorro" é distante
+const VETORES: Record<string, number[]> = {
+  'preço': [1, 0, 0],
+  'valor': [0.9, 0.1, 0],
+  'cachorro': [0, 0, 1]
+};
+
+const gerarEmbeddings: GeradorEmbeddings = async textos => ({
+  vetores: textos.map(texto => VETORES[texto] ?? [0, 1, 0]),
+  modelo: 'teste'
+});
+
+const criarBackend = (gerador: GeradorEmbeddings = gerarEmbeddings) =>
+  criarArmazenamentoLocal(criarRepositorioMemoria(), gerador);
+
+const palavras = (...textos: string[]): WordTimestamp[] =>
+  textos.map((word, i) => ({ word, startTime: i, endTime: i + 0.5 }));
+
+const arquivo = (nome: string) => new File(['audio'], nome, { type: 'audio/mpeg' });
+
+describe('localStorageBackend', () => {
+  it('salva e remove o resultado completo da transcrição', async () => {
+    const backend = criarBackend();
+    const registro = await backend.salvarResultadoCompleto(palavras('preço', 'cachorro'), 'preço cachorro', arquivo('a.mp3'));
+
+    expect(registro).not.toBeNull();
+    expect((await backend.obterDadosHistoricos()).map(palavra => palavra.word).sort()).toEqual(['cachorro', 'preço']);
+
+    await backend.removerResultadoCompleto(registro!);
+    expect(await backend.obterDadosHistoricos()).toEqual([]);
+    expect(await backend.buscarTranscricoesSimilares('preço', 5, 0)).toEqual([]);
+  });
+
+  it('não grava nada quando o salvamento é cancelado', async () => {
+    const backend = criarBackend();
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await backend.salvarResultadoCompleto(palavras('preço'), 'preço', arquivo('a.mp3'), controller.signal)).toBeNull();
+    expect(await backend.obterDadosHistoricos()).toEqual([]);
+  });
+
+  it('busca por semelhança de cosseno só entre vetores do mesmo modelo', async () => {
+    const repositorio = criarRepositorioMemoria();
+    const backend = criarArmazenamentoLocal(repositorio, gerarEmbeddings);
+    const outroModelo = criarArmazenamentoLocal(repositorio, async textos => ({ ...(await gerarEmbeddings(textos)), modelo: 'outro' }));
+    await backend.salvarResultadoCompleto(palavras('valor', 'cachorro'), 'valor', arquivo('a.mp3'));
+    await outroModelo.salvarResultadoCompleto(palavras('valor'), 'valor', arquivo('b.mp3'));
+
+    const similares = await backend.buscarPalavrasSimilaresVetorial('preço', 5, 0.5);
+    expect(similares.map(similar => similar.word)).toEqual(['valor']);
+    expect(similares[0].similarity).toBeCloseTo(0.994, 3);
+
+    const transcricoes = await backend.buscarTranscricoesSimilares('preço', 5, 0.5);
+    expect(transcricoes.map(transcricao => transcricao.nome_arquivo)).toEqual(['a.mp3']);
+  });
+
+  it('salva sem vetores quando os embeddings estão indisponíveis', async () => {
+    const backend = criarBackend(async () => {
+      throw new Error('sem modelo');
+    });
+
+    expect(await backend.salvarResultadoCompleto(palavras('preço'), 'preço', arquivo('a.mp3'))).not.toBeNull();
+    expect(await backend.obterDadosHistoricos()).toHaveLength(1);
+    expect(await backend.salvarDadosAprendizado({ palavra: 'Preço', compensacao: 40, contexto: '', velocidadeReproducao: 1 })).toBe(true);
+  });
+
+  it('acumula as amostras de aprendizado por palavra', async () => {
+    const backend = criarBackend();
+    await backend.salvarDadosAprendizado({ palavra: 'Preço', compensacao: 100, contexto: 'o preço subiu', velocidadeReproducao: 1 });
+    await backend.salvarDadosAprendizado({ palavra: 'preço', compensacao: 200, contexto: 'o preço subiu', velocidadeReproducao: 1, precisao: 0.8 });
+
+    expect(await backend.obterMetricasPalavra('PREÇO')).toMatchObject({
+      palavra: 'preço',
+      mediaCompensacao: -150,
+      confianca: 0.8,
+      totalAmostras: 2
+    });
+    expect((await backend.buscarPalavrasSimilares('preçário')).map(metricas => metricas.palavra)).toEqual(['preço']);
+    expect(await backend.obterMetricasPalavra('valor')).toBeNull();
+  });
+
+  it('registra a sincronização e limpa os dados antigos', async () => {
+    const backend = criarBackend();
+    const antes = new Date(Date.now() - 1000);
+    await backend.registrarSincronizacao({ palavra: 'preço', tempoReal: 1.2, tempoEsperado: 1, diferenca: 0.2 });
+
+    expect(await backend.obterDadosRecentes(antes)).toMatchObject([{ word: 'preço', timestamp: 1.2, start_time: 1, playback_rate: 1 }]);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await backend.limparDadosAntigos(0);
+    expect(await backend.obterDadosRecentes(new Date(0))).toEqual([]);
+  });
+
+  it('guarda, lê e remove áudios', async () => {
+    const backend = criarBackend();
+    const resultado = await backend.salvarAudio(arquivo('a.mp3'));
+
+    expect(resultado.sucesso).toBe(true);
+    expect(await (await backend.obterAudio(resultado.caminho!))?.text()).toBe('audio');
+    await backend.removerAudio(resultado.caminho!);
+    expect(await backend.obterAudio(resultado.caminho!)).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { converterRespostaLocal, transcreverLocal } from '../services/localTranscriptionService';
+
+const ENDPOINT = 'http://127.0.0.1:8080';
+const audio = () => new File(['audio'], 'reuniao.mp3', { type: 'audio/mpeg' });
+
+// Substitui o fetch global pelo servidor local simulado
+const simularServidor = (implementacao: (url: string, init?: RequestInit) => Promise<Response>) =>
+  jest.spyOn(globalThis, 'fetch').mockImplementation((url, init) => implementacao(String(url), init));
+
+const respostaJson = (corpo: unknown, status = 200) =>
+  new Response(JSON.stringify(corpo), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('localTranscriptionService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('junta os tokens em palavras, com a menor confiança entre eles', () => {
+    const palavras = converterRespostaLocal({
+      words: [
+        { word: '[_BEG_]', start: 0, end: 0 },
+        { word: ' trans', start: 0, end: 0.3, probability: 0.9 },
+        { word: 'crição', start: 0.3, end: 0.6, probability: 0.6 },
+        { word: ' fim', start: 0.7, end: 0.9, probability: 0.95 },
+        { word: '.', start: 0.9, end: 1, probability: 0.99 },
+        { word: ' ', start: 1, end: 1 }
+      ]
+    });
+
+    expect(palavras).toEqual([
+      { word: 'transcrição', startTime: 0, endTime: 0.6, confidence: 0.6 },
+      { word: 'fim.', startTime: 0.7, endTime: 1, confidence: 0.95 }
+    ]);
+  });
+
+  it('distribui o tempo dos segmentos sem palavras pelo tamanho de cada palavra', () => {
+    const palavras = converterRespostaLocal({
+      segments: [
+        { text: ' ab abcd', start: 2, end: 5 },
+        { text: ' oi', start: 5, end: 6, words: [{ word: ' oi', start: 5.1, end: 5.8 }] }
+      ]
+    });
+
+    expect(palavras).toEqual([
+      { word: 'ab', startTime: 2, endTime: 3 },
+      { word: 'abcd', startTime: 3, endTime: 5 },
+      { word: 'oi', startTime: 5.1, endTime: 5.8 }
+    ]);
+  });
+
+  it('envia o áudio ao endpoint /inference e converte a resposta', async () => {
+    const fetchSimulado = simularServidor(async () => respostaJson({ words: [{ word: ' olá', start: 0, end: 0.5 }] }));
+
+    await expect(transcreverLocal(audio(), `${ENDPOINT}/`, 'pt-BR')).resolves.toEqual([
+      { word: 'olá', startTime: 0, endTime: 0.5 }
+    ]);
+
+    const [url, init] = fetchSimulado.mock.calls[0];
+    const formulario = init?.body as FormData;
+    expect(url).toBe(`${ENDPOINT}/inference`);
+    expect(formulario.get('language')).toBe('pt');
+    expect(formulario.get('response_format')).toBe('verbose_json');
+  });
+
+  it('repassa o erro HTTP do servidor com o detalhe da resposta', async () => {
+    simularServidor(async () => new Response('modelo não carregado', { status: 500 }));
+
+    await expect(transcreverLocal(audio(), ENDPOINT)).rejects.toThrow('O mecanismo local retornou erro 500: modelo não carregado');
+  });
+
+  it('informa quando o servidor está inacessível', async () => {
+    simularServidor(async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    await expect(transcreverLocal(audio(), ENDPOINT)).rejects.toThrow(`Não foi possível conectar ao mecanismo local em ${ENDPOINT}`);
+  });
+
+  it('repassa o cancelamento sem tratá-lo como falha de conexão', async () => {
+    simularServidor(async (_url, init) => {
+      throw init?.signal?.reason;
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(transcreverLocal(audio(), ENDPOINT, 'auto', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('rejeita transcrições vazias', async () => {
+    simularServidor(async () => respostaJson({ text: '', segments: [] }));
+
+    await expect(transcreverLocal(audio(), ENDPOINT)).rejects.toThrow('transcrição vazia');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { ServicoFila, TarefaCanceladaError } from '../services/queueService';
+
+const aguardar = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const criarFila = (maxConcorrencia = 2) =>
+  new ServicoFila({ maxConcorrencia, delayEntreRequisicoes: 0, timeoutRequisicao: 0 });
+
+describe('ServicoFila', () => {
+  it('respeita o limite de tarefas simultâneas', async () => {
+    const fila = criarFila(2);
+    let emExecucao = 0;
+    let maximo = 0;
+    const tarefa = async () => {
+      emExecucao++;
+      maximo = Math.max(maximo, emExecucao);
+      await aguardar(20);
+      emExecucao--;
+      return true;
+    };
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => fila.adicionarTarefa(tarefa)));
+
+    expect(maximo).toBe(2);
+    expect(fila.obterStatus().processadas).toBe(5);
+  });
+
+  it('não inicia tarefas enquanto pausada', async () => {
+    const fila = criarFila();
+    fila.pausar();
+    let executou = false;
+    const promessa = fila.adicionarTarefa(async () => {
+      executou = true;
+    });
+
+    await aguardar(100);
+    expect(executou).toBe(false);
+    expect(fila.obterStatus().pendentes).toBe(1);
+
+    fila.retomar();
+    await promessa;
+    expect(executou).toBe(true);
+  });
+
+  it('cancela tarefas pendentes e em andamento', async () => {
+    const fila = criarFila(1);
+    let sinalRecebido: AbortSignal | null = null;
+    const emAndamento = fila.adicionarTarefa(sinal => {
+      sinalRecebido = sinal;
+      return new Promise(() => undefined);
+    }, 'media', 1, 'primeira');
+    const pendente = fila.adicionarTarefa(async () => true, 'media', 1, 'segunda');
+
+    await aguardar(80);
+    expect(fila.cancelarTarefa('segunda')).toBe(true);
+    expect(fila.cancelarTarefa('primeira')).toBe(true);
+
+    await expect(pendente).rejects.toBeInstanceOf(TarefaCanceladaError);
+    await expect(emAndamento).rejects.toBeInstanceOf(TarefaCanceladaError);
+    expect(sinalRecebido!.aborted).toBe(true);
+    expect(fila.obterStatus().canceladas).toBe(2);
+  });
+
+  it('tenta novamente uma tarefa que falhou', async () => {
+    const fila = criarFila();
+    let chamadas = 0;
+    const resultado = await fila.adicionarTarefa(async () => {
+      chamadas++;
+      if (chamadas === 1) throw new Error('falha temporária');
+      return 'ok';
+    }, 'media', 2);
+
+    expect(resultado).toBe('ok');
+    expect(chamadas).toBe(2);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import { fraseNoTempo, trechoDasPalavras } from '../services/reviewPlaybackService';
+
+const transcricao: WordTimestamp[] = [
+  { word: 'Bom', startTime: 0, endTime: 0.4, speaker: 'Ana' },
+  { word: 'dia.', startTime: 0.4, endTime: 0.9, speaker: 'Ana' },
+  { word: 'Tudo', startTime: 1.2, endTime: 1.5, speaker: 'Ana' },
+  { word: 'bem', startTime: 1.5, endTime: 1.9, speaker: 'Ana' },
+  { word: 'sim', startTime: 2, endTime: 2.3, speaker: 'Rui' },
+  { word: 'e', startTime: 5, endTime: 5.2, speaker: 'Rui' },
+  { word: 'você', startTime: 5.2, endTime: 5.6, speaker: 'Rui' }
+];
+
+describe('reviewPlaybackService', () => {
+  it('encontra a frase pela pontuação, pela troca de falante e pelas pausas longas', () => {
+    expect(fraseNoTempo(transcricao, 0.5)).toEqual({ inicio: 0, fim: 0.9, indiceInicial: 0, indiceFinal: 1 });
+    expect(fraseNoTempo(transcricao, 1.6)).toMatchObject({ inicio: 1.2, fim: 1.9 });
+    expect(fraseNoTempo(transcricao, 2.1)).toMatchObject({ indiceInicial: 4, indiceFinal: 4 });
+    expect(fraseNoTempo(transcricao, 5.3)).toMatchObject({ inicio: 5, fim: 5.6 });
+  });
+
+  it('no silêncio ou no fim de uma frase considera a frase seguinte', () => {
+    expect(fraseNoTempo(transcricao, 0.9)).toMatchObject({ indiceInicial: 2 });
+    expect(fraseNoTempo(transcricao, 3)).toMatchObject({ indiceInicial: 5 });
+    expect(fraseNoTempo(transcricao, 10)).toMatchObject({ indiceInicial: 5, indiceFinal: 6 });
+    expect(fraseNoTempo([], 1)).toBeNull();
+  });
+
+  it('calcula o trecho de palavras selecionadas em qualquer ordem', () => {
+    expect(trechoDasPalavras(transcricao, 3, 1)).toEqual({ inicio: 0.4, fim: 1.9, indiceInicial: 1, indiceFinal: 3 });
+    expect(trechoDasPalavras([], 0, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import { alinharRoteiro, alinharSequencias, normalizarPalavra } from '../services/scriptAlignmentService';
+
+const reconhecidas = (...palavras: string[]): WordTimestamp[] =>
+  palavras.map((word, indice) => ({ word, startTime: indice, endTime: indice + 0.8, confidence: 0.9 }));
+
+describe('scriptAlignmentService', () => {
+  it('mantém o texto do roteiro com o tempo das palavras reconhecidas', () => {
+    const resultado = alinharRoteiro(
+      'O Senhor é o meu pastor; nada me faltará.',
+      reconhecidas('o', 'senhor', 'e', 'meu', 'pastor', 'nada', 'me', 'fautara')
+    );
+
+    expect(resultado.transcricao.map(palavra => palavra.word)).toEqual(['O', 'Senhor', 'é', 'o', 'meu', 'pastor;', 'nada', 'me', 'faltará.']);
+    expect(resultado.transcricao[1]).toMatchObject({ startTime: 1, endTime: 1.8, confidence: 0.9 });
+    expect(resultado.alinhadas).toBe(8);
+    // Grafia parecida: alinhada, mas com confiança menor
+    expect(resultado.transcricao[8].startTime).toBe(7);
+    expect(resultado.transcricao[8].confidence).toBeLessThan(0.9);
+  });
+
+  it('estima o tempo das palavras do roteiro que não foram reconhecidas', () => {
+    const palavras = reconhecidas('bom', 'dia', 'todos');
+    palavras[2] = { ...palavras[2], startTime: 4, endTime: 4.5, speaker: 'Ana' };
+
+    const { transcricao, cobertura } = alinharRoteiro('Bom dia a — todos', palavras);
+
+    expect(transcricao[2]).toMatchObject({ word: 'a', confidence: 0 });
+    expect(transcricao[2].startTime).toBeCloseTo(1.8);
+    expect(transcricao[3].endTime).toBe(4);
+    expect(transcricao[3].speaker).toBe('Ana');
+    expect(cobertura).toBeCloseTo(3 / 5);
+  });
+
+  it('divide o tempo da palavra anterior quando não há pausa para a palavra omitida', () => {
+    const { transcricao } = alinharRoteiro('um dois três', [
+      { word: 'um', startTime: 0, endTime: 1 },
+      { word: 'três', startTime: 1, endTime: 2 }
+    ]);
+
+    expect(transcricao[0].startTime).toBe(0);
+    expect(transcricao[0].endTime).toBeGreaterThan(0);
+    expect(transcricao[1].startTime).toBe(transcricao[0].endTime);
+    expect(transcricao[1].endTime).toBe(1);
+  });
+
+  it('normaliza acentos, maiúsculas e pontuação', () => {
+    expect(normalizarPalavra('«Faltará!»')).toBe('faltara');
+    expect(normalizarPalavra('—')).toBe('');
+  });
+
+  it('alinha textos longos usando apenas uma faixa da matriz', () => {
+    const vocabulario = ['casa', 'rio', 'pedra', 'vento', 'lua', 'mar', 'sol', 'trigo', 'fogo', 'neve', 'campo', 'ponte'];
+    const roteiro = Array.from({ length: 3000 }, (_, i) => vocabulario[(i * 7 + Math.floor(i / 5)) % vocabulario.length]);
+    // O mecanismo pulou algumas palavras e reconheceu palavras a mais em outros pontos
+    const reconhecidasNormalizadas: string[] = [];
+    const origem: number[] = [];
+    roteiro.forEach((palavra, i) => {
+      if (i % 97 === 0) reconhecidasNormalizadas.push('hum');
+      if (i % 50 !== 0) {
+        origem[i] = reconhecidasNormalizadas.length;
+        reconhecidasNormalizadas.push(palavra);
+      }
+    });
+
+    const correspondencias = alinharSequencias(roteiro, reconhecidasNormalizadas);
+
+    const corretas = roteiro.filter((_, i) => origem[i] !== undefined && correspondencias[i] === origem[i]).length;
+    expect(corretas / origem.filter(indice => indice !== undefined).length).toBeGreaterThan(0.98);
+    expect(correspondencias.filter((_, i) => i % 50 === 0 && correspondencias[i] >= 0)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { montarTextoIndexado, normalizarResumoEstruturado } from '../services/structuredSummaryService';
+import { WordTimestamp } from '../types';
+
+const palavra = (word: string, inicio: number, speaker?: string): WordTimestamp => ({
+  word,
+  startTime: inicio,
+  endTime: inicio + 0.5,
+  ...(speaker ? { speaker } : {})
+});
+
+const transcricao: WordTimestamp[] = [
+  palavra('Bom', 0, 'Ana'),
+  palavra('dia.', 0.5, 'Ana'),
+  palavra('Vamos', 1, 'Bruno'),
+  palavra('aprovar', 1.5, 'Bruno'),
+  palavra('o', 2, 'Bruno'),
+  palavra('orçamento.', 2.5, 'Bruno')
+];
+
+describe('structuredSummaryService', () => {
+  it('indexa as linhas pela primeira palavra e quebra na troca de falante', () => {
+    expect(montarTextoIndexado(transcricao)).toBe('[0] Ana: Bom dia.\n[2] Bruno: Vamos aprovar o orçamento.');
+  });
+
+  it('quebra linhas longas', () => {
+    const semFalante = Array.from({ length: 25 }, (_, i) => palavra(`p${i}`, i));
+    const linhas = montarTextoIndexado(semFalante).split('\n');
+    expect(linhas).toHaveLength(2);
+    expect(linhas[1].startsWith('[20] p20')).toBe(true);
+  });
+
+  it('calcula os tempos dos trechos e limita os índices à transcrição', () => {
+    const resumo = normalizarResumoEstruturado({
+      visaoGeral: ' Reunião de orçamento ',
+      acoes: [{ descricao: 'Enviar planilha', responsavel: 'Bruno', prazo: '', palavraInicial: 2, palavraFinal: 99 }],
+      decisoes: [{ descricao: 'Orçamento aprovado', palavraInicial: -3, palavraFinal: 1 }],
+      questoesAbertas: [{ pergunta: '', palavraInicial: 0, palavraFinal: 0 }],
+      capitulos: [
+        { titulo: 'Aprovação', resumo: 'Votação', palavraInicial: 2, palavraFinal: 5 },
+        { titulo: 'Abertura', palavraInicial: 0, palavraFinal: 1 }
+      ]
+    }, transcricao);
+
+    expect(resumo.visaoGeral).toBe('Reunião de orçamento');
+    expect(resumo.acoes).toEqual([{
+      descricao: 'Enviar planilha',
+      responsavel: 'Bruno',
+      prazo: null,
+      palavraInicial: 2,
+      palavraFinal: 5,
+      inicio: 1,
+      fim: 3
+    }]);
+    expect(resumo.decisoes[0]).toMatchObject({ palavraInicial: 0, palavraFinal: 1, inicio: 0, fim: 1 });
+    expect(resumo.questoesAbertas).toHaveLength(0);
+    expect(resumo.capitulos.map(capitulo => capitulo.titulo)).toEqual(['Abertura', 'Aprovação']);
+  });
+
+  it('aceita respostas incompletas', () => {
+    expect(normalizarResumoEstruturado({}, transcricao)).toEqual({
+      visaoGeral: '',
+      acoes: [],
+      decisoes: [],
+      questoesAbertas: [],
+      capitulos: []
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  agruparEmLegendas,
+  formatarTempoSrt,
+  formatarTempoVtt,
+  gerarSrt,
+  gerarVtt,
+  OpcoesLegenda
+} from '../services/subtitleService';
+import { WordTimestamp } from '../types';
+
+const lerFixture = (nome: string): string => readFileSync(join(__dirname, 'fixtures', nome), 'utf8');
+
+const transcricao: WordTimestamp[] = JSON.parse(lerFixture('transcricao-exemplo.json'));
+
+const opcoes: OpcoesLegenda = {
+  maxCaracteresPorLinha: 42,
+  maxLinhas: 2,
+  duracaoMaxima: 7,
+  duracaoMinima: 1,
+  pausaParaQuebra: 1
+};
+
+// Gera palavras consecutivas de mesma duração, sem pausas nem pontuação
+const gerarPalavras = (quantidade: number, duracao = 0.4, texto = 'palavra'): WordTimestamp[] =>
+  Array.from({ length: quantidade }, (_, i) => ({
+    word: texto,
+    startTime: i * duracao,
+    endTime: (i + 1) * duracao
+  }));
+
+describe('subtitleService', () => {
+  describe('formatação de tempo', () => {
+    it('usa vírgula no SRT e ponto no VTT', () => {
+      expect(formatarTempoSrt(3723.456)).toBe('01:02:03,456');
+      expect(formatarTempoVtt(3723.456)).toBe('01:02:03.456');
+    });
+
+    it('arredonda para o milissegundo mais próximo', () => {
+      expect(formatarTempoSrt(1.9996)).toBe('00:00:02,000');
+      expect(formatarTempoVtt(0.0004)).toBe('00:00:00.000');
+    });
+
+    it('não gera tempos negativos', () => {
+      expect(formatarTempoSrt(-1)).toBe('00:00:00,000');
+    });
+  });
+
+  describe('arquivos de referência', () => {
+    it('gera o SRT esperado', () => {
+      expect(gerarSrt(transcricao, opcoes)).toBe(lerFixture('transcricao-exemplo.srt'));
+    });
+
+    it('gera o VTT esperado', () => {
+      expect(gerarVtt(transcricao, opcoes)).toBe(lerFixture('transcricao-exemplo.vtt'));
+    });
+  });
+
+  describe('falantes', () => {
+    const dialogo: WordTimestamp[] = [
+      { word: 'Chegou', startTime: 0, endTime: 0.4, speaker: 'Ana' },
+      { word: 'cedo?', startTime: 0.4, endTime: 0.8, speaker: 'Ana' },
+      { word: 'Cheguei.', startTime: 1, endTime: 1.5, speaker: 'Bruno <convidado>' }
+    ];
+
+    it('prefixa o nome do falante no SRT', () => {
+      expect(gerarSrt(dialogo, opcoes)).toBe(
+        '1\n00:00:00,000 --> 00:00:01,000\nAna: Chegou cedo?\n\n' +
+        '2\n00:00:01,000 --> 00:00:02,000\nBruno <convidado>: Cheguei.\n'
+      );
+    });
+
+    it('usa a tag de voz no VTT', () => {
+      expect(gerarVtt(dialogo, opcoes)).toBe(
+        'WEBVTT\n\n' +
+        '00:00:00.000 --> 00:00:01.000\n<v Ana>Chegou cedo?\n\n' +
+        '00:00:01.000 --> 00:00:02.000\n<v Bruno &lt;convidado&gt;>Cheguei.\n'
+      );
+    });
+  });
+
+  describe('agrupamento em legendas', () => {
+    it('encerra a legenda no fim de cada frase', () => {
+      const legendas = agruparEmLegendas(transcricao, opcoes);
+      expect(legendas[0].linhas).toEqual(['Bom dia a todos.']);
+    });
+
+    it('inicia uma nova legenda após uma pausa longa', () => {
+      const palavras: WordTimestamp[] = [
+        { word: 'antes', startTime: 0, endTime: 0.5 },
+        { word: 'depois', startTime: 2, endTime: 2.5 }
+      ];
+      expect(agruparEmLegendas(palavras, opcoes).map(legenda => legenda.linhas)).toEqual([['antes'], ['depois']]);
+    });
+
+    it('respeita o limite de caracteres por linha e de linhas', () => {
+      const legendas = agruparEmLegendas(gerarPalavras(60, 0.1), opcoes);
+      legendas.forEach(legenda => {
+        expect(legenda.linhas.length).toBeLessThanOrEqual(opcoes.maxLinhas);
+        legenda.linhas.forEach(linha => expect(linha.length).toBeLessThanOrEqual(opcoes.maxCaracteresPorLinha));
+      });
+    });
+
+    it('respeita a duração máxima', () => {
+      const legendas = agruparEmLegendas(gerarPalavras(40, 1, 'a'), opcoes);
+      expect(legendas.length).toBeGreaterThan(1);
+      legendas.forEach(legenda => expect(legenda.fim - legenda.inicio).toBeLessThanOrEqual(opcoes.duracaoMaxima));
+    });
+
+    it('prefere quebrar a legenda em pontuação', () => {
+      const palavras = gerarPalavras(12, 0.3);
+      palavras[7] = { ...palavras[7], word: 'palavra,' };
+      const legendas = agruparEmLegendas(palavras, opcoes);
+      expect(legendas[0].linhas.join(' ').endsWith('palavra,')).toBe(true);
+    });
+
+    it('estende legendas curtas sem sobrepor a seguinte', () => {
+      const palavras: WordTimestamp[] = [
+        { word: 'Oi.', startTime: 0, endTime: 0.2 },
+        { word: 'Tudo', startTime: 0.6, endTime: 0.8 },
+        { word: 'bem?', startTime: 0.8, endTime: 1.1 }
+      ];
+      const [primeira, segunda] = agruparEmLegendas(palavras, opcoes);
+      expect(primeira.fim).toBe(0.6);
+      expect(segunda.fim).toBeCloseTo(1.6);
+    });
+
+    it('inicia uma nova legenda a cada troca de falante', () => {
+      const palavras: WordTimestamp[] = [
+        { word: 'Tudo', startTime: 0, endTime: 0.3, speaker: 'Ana' },
+        { word: 'bem', startTime: 0.3, endTime: 0.6, speaker: 'Ana' },
+        { word: 'Sim', startTime: 0.7, endTime: 1, speaker: 'Bruno' }
+      ];
+      const legendas = agruparEmLegendas(palavras, opcoes);
+      expect(legendas.map(legenda => legenda.falante)).toEqual(['Ana', 'Bruno']);
+      expect(legendas[0].linhas).toEqual(['Ana: Tudo bem']);
+    });
+
+    it('não insere espaço antes de pontuação separada', () => {
+      const palavras: WordTimestamp[] = [
+        { word: 'Olá', startTime: 0, endTime: 0.3 },
+        { word: '!', startTime: 0.3, endTime: 0.4 }
+      ];
+      expect(agruparEmLegendas(palavras, opcoes)[0].linhas).toEqual(['Olá!']);
+    });
+  });
+});
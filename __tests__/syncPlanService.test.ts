@@ -0,0 +1,126 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  aplicarVersaoRemota,
+  EstadoSincronizacao,
+  planejarSincronizacao,
+  statusDoItem,
+  trechoDaDiferenca,
+  VersaoRemota,
+  versaoDoItem
+} from '../services/syncPlanService';
+import type { ItemBiblioteca } from '../services/libraryService';
+import type { ResumoEstruturado } from '../services/structuredSummaryService';
+import { WordTimestamp } from '../types';
+
+const T1 = '2026-01-01T10:00:00.000Z';
+const T2 = '2026-01-02T10:00:00.000Z';
+const T3 = '2026-01-03T10:00:00.000Z';
+
+const palavras = (texto: string): WordTimestamp[] =>
+  texto.split(' ').map((word, i) => ({ word, startTime: i, endTime: i + 0.5 }));
+
+const item = (id: string, atualizadoEm: string, texto = 'olá mundo'): ItemBiblioteca => ({
+  id,
+  nomeArquivo: `${id}.mp3`,
+  tipoArquivo: 'audio/mpeg',
+  tamanhoArquivo: 10,
+  transcricao: palavras(texto),
+  resumo: null,
+  provedor: 'gemini',
+  duracao: 1.5,
+  criadoEm: T1,
+  atualizadoEm
+});
+
+// O servidor devolve os carimbos em outro formato
+const remoto = (id: string, atualizadoEm: string, texto = 'olá mundo'): VersaoRemota => ({
+  ...versaoDoItem(item(id, atualizadoEm, texto)),
+  atualizadoEm: atualizadoEm.replace('Z', '+00:00')
+});
+
+const estado = (itemId: string, versaoLocal: string, versaoRemota: string, extras: Partial<EstadoSincronizacao> = {}): EstadoSincronizacao => ({
+  itemId,
+  versaoLocal,
+  versaoRemota,
+  ...extras
+});
+
+describe('syncPlanService', () => {
+  it('envia itens novos ou editados só localmente e recebe os editados só no servidor', () => {
+    const acoes = planejarSincronizacao(
+      [item('novo', T1), item('local', T2), item('servidor', T1), item('igual', T1)],
+      [estado('local', T1, T1), estado('servidor', T1, T1), estado('igual', T1, T1)],
+      [remoto('local', T1), remoto('servidor', T2), remoto('igual', T1), remoto('outro', T1)]
+    );
+
+    expect(acoes.map(acao => [acao.tipo, 'item' in acao ? acao.item?.id ?? null : null, 'versaoEsperada' in acao ? acao.versaoEsperada : null])).toEqual([
+      ['enviar', 'novo', null],
+      ['enviar', 'local', T1],
+      ['receber', 'servidor', null],
+      ['receber', null, null]
+    ]);
+  });
+
+  it('marca conflito quando o item mudou nos dois lados, sem sobrescrever', () => {
+    const acoes = planejarSincronizacao([item('a', T2)], [estado('a', T1, T1)], [remoto('a', T3)]);
+    expect(acoes).toMatchObject([{ tipo: 'conflito', item: { id: 'a' }, remoto: { atualizadoEm: T3.replace('Z', '+00:00') } }]);
+
+    // Sem nova edição no servidor o conflito continua como está; com ela, a versão é atualizada
+    const emConflito = [estado('a', T1, T1, { conflito: remoto('a', T3) })];
+    expect(planejarSincronizacao([item('a', T2)], emConflito, [remoto('a', T3)])).toEqual([]);
+    expect(planejarSincronizacao([item('a', T2)], emConflito, [remoto('a', '2026-01-04T10:00:00.000Z')])[0].tipo).toBe('conflito');
+  });
+
+  it('vincula itens sem estado só quando as versões coincidem', () => {
+    expect(planejarSincronizacao([item('a', T1)], [], [remoto('a', T1)])[0].tipo).toBe('vincular');
+    expect(planejarSincronizacao([item('a', T2)], [], [remoto('a', T1)])[0].tipo).toBe('conflito');
+  });
+
+  it('leva remoções ao servidor, salvo quando o item foi editado em outro dispositivo', () => {
+    expect(planejarSincronizacao([], [estado('a', T1, T1, { removido: true })], [remoto('a', T1)]))
+      .toEqual([{ tipo: 'removerRemoto', itemId: 'a', versaoEsperada: T1 }]);
+    expect(planejarSincronizacao([], [estado('a', T1, T1, { removido: true })], [remoto('a', T2)]))
+      .toMatchObject([{ tipo: 'receber', item: null }]);
+    expect(planejarSincronizacao([], [estado('a', T1, T1, { removido: true })], []))
+      .toEqual([{ tipo: 'esquecer', itemId: 'a' }]);
+  });
+
+  it('aplica as remoções feitas em outro dispositivo, salvo quando o item foi editado aqui', () => {
+    expect(planejarSincronizacao([item('a', T1)], [estado('a', T1, T1)], []))
+      .toMatchObject([{ tipo: 'removerLocal', item: { id: 'a' } }]);
+    expect(planejarSincronizacao([item('a', T2)], [estado('a', T1, T1)], []))
+      .toMatchObject([{ tipo: 'conflito', item: { id: 'a' }, remoto: null }]);
+
+    // O conflito com a remoção se mantém até ser resolvido, e passa a mostrar a linha se ela voltar
+    const emConflito = [estado('a', T1, T1, { conflito: null })];
+    expect(planejarSincronizacao([item('a', T2)], emConflito, [])).toEqual([]);
+    expect(planejarSincronizacao([item('a', T2)], emConflito, [remoto('a', T3)]))
+      .toMatchObject([{ tipo: 'conflito', remoto: { itemId: 'a' } }]);
+    expect(statusDoItem(item('a', T2), emConflito[0])).toBe('conflito');
+  });
+
+  it('calcula o status de cada item', () => {
+    expect(statusDoItem(item('a', T1), undefined)).toBe('naoEnviado');
+    expect(statusDoItem(item('a', T1), estado('a', T1, T1))).toBe('sincronizado');
+    expect(statusDoItem(item('a', T2), estado('a', T1, T1))).toBe('pendente');
+    expect(statusDoItem(item('a', T1), estado('a', T1, T1, { conflito: remoto('a', T2) }))).toBe('conflito');
+  });
+
+  it('aplica a versão do servidor mantendo o áudio local', () => {
+    const audio = new Blob(['audio']);
+    const resumoEstruturado: ResumoEstruturado = { visaoGeral: 'antigo', acoes: [], decisoes: [], questoesAbertas: [], capitulos: [] };
+    const atual = { ...item('a', T1), audio, resumo: 'antigo', resumoEstruturado };
+    const recebido = aplicarVersaoRemota({ ...remoto('a', T2, 'um dois três'), resumo: 'novo' }, atual);
+
+    expect(recebido).toMatchObject({ id: 'a', audio, resumo: 'novo', resumoEstruturado: null, duracao: 2.5 });
+    expect(recebido.transcricao.map(palavra => palavra.word)).toEqual(['um', 'dois', 'três']);
+    expect(aplicarVersaoRemota(remoto('b', T2), null)).toMatchObject({ id: 'b', criadoEm: T1, provedor: 'supabase' });
+  });
+
+  it('mostra o trecho ao redor da primeira diferença', () => {
+    const local = palavras('a b c d e f g h');
+    expect(trechoDaDiferenca(local, palavras('a b c d e f g h'))).toBeNull();
+    expect(trechoDaDiferenca(local, palavras('a b c X e f g h'), 1)).toEqual({ local: '…c d e…', remoto: '…c X e…' });
+    expect(trechoDaDiferenca(local, palavras('a b c'), 1)).toEqual({ local: '…c d e f g h', remoto: '…c' });
+  });
+});
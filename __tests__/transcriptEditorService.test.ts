@@ -0,0 +1,128 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import {
+  ajustarLimitePalavra,
+  distribuirIntervalo,
+  dividirPalavra,
+  editarPalavra,
+  inserirPalavra,
+  mesclarComProxima,
+  removerPalavra
+} from '../services/transcriptEditorService';
+
+const palavras: WordTimestamp[] = [
+  { word: 'um', startTime: 0, endTime: 1 },
+  { word: 'dois', startTime: 1, endTime: 2 },
+  { word: 'três', startTime: 2.5, endTime: 3 }
+];
+
+describe('transcriptEditorService', () => {
+  it('move o limite compartilhado junto com a palavra vizinha', () => {
+    const resultado = ajustarLimitePalavra(palavras, 1, 'inicio', 0.7);
+
+    expect(resultado[0]).toMatchObject({ endTime: 0.7, edited: true });
+    expect(resultado[1]).toMatchObject({ startTime: 0.7, endTime: 2, edited: true });
+    expect(palavras[1].startTime).toBe(1);
+  });
+
+  it('não deixa o limite atravessar a vizinha separada por silêncio', () => {
+    const resultado = ajustarLimitePalavra(palavras, 1, 'fim', 2.8);
+
+    expect(resultado[1].endTime).toBe(2.5);
+    expect(resultado[2]).toBe(palavras[2]);
+  });
+
+  it('mantém a duração mínima e ignora movimentos sem efeito', () => {
+    expect(ajustarLimitePalavra(palavras, 0, 'fim', -3)[0].endTime).toBeCloseTo(0.05);
+    expect(ajustarLimitePalavra(palavras, 0, 'inicio', -1)).toBe(palavras);
+  });
+
+  it('reparte o intervalo pelo tamanho de cada texto, terminando no fim', () => {
+    expect(distribuirIntervalo(1, 4, ['a', 'bb'])).toEqual([
+      { startTime: 1, endTime: 2 },
+      { startTime: 2, endTime: 4 }
+    ]);
+    // Textos vazios contam como um caractere
+    expect(distribuirIntervalo(0, 1, ['', 'x'])).toEqual([
+      { startTime: 0, endTime: 0.5 },
+      { startTime: 0.5, endTime: 1 }
+    ]);
+  });
+
+  it('edita o texto da palavra sem alterar a lista original', () => {
+    const resultado = editarPalavra(palavras, 1, '  duas ');
+
+    expect(resultado[1]).toEqual({ word: 'duas', startTime: 1, endTime: 2, edited: true });
+    expect(palavras[1].word).toBe('dois');
+    expect(editarPalavra(palavras, 1, 'dois')).toBe(palavras);
+  });
+
+  it('divide a palavra editada com espaços e remove a editada sem texto', () => {
+    expect(editarPalavra(palavras, 0, 'u m').map(palavra => [palavra.word, palavra.startTime, palavra.endTime]))
+      .toEqual([['u', 0, 0.5], ['m', 0.5, 1], ['dois', 1, 2], ['três', 2.5, 3]]);
+    expect(editarPalavra(palavras, 1, '   ').map(palavra => palavra.word)).toEqual(['um', 'três']);
+  });
+
+  it('divide a palavra proporcionalmente, mantendo o locutor e a confiança', () => {
+    const original: WordTimestamp[] = [{ word: 'guardachuva', startTime: 0, endTime: 1.1, speaker: 'A', confidence: 0.8 }];
+    const resultado = dividirPalavra(original, 0, ['guarda', 'chuva']);
+
+    expect(resultado).toHaveLength(2);
+    expect(resultado[0]).toMatchObject({ word: 'guarda', startTime: 0, speaker: 'A', confidence: 0.8, edited: true });
+    expect(resultado[0].endTime).toBeCloseTo(0.6);
+    expect(resultado[1]).toMatchObject({ word: 'chuva', endTime: 1.1, speaker: 'A', edited: true });
+  });
+
+  it('mescla com a próxima, somando os intervalos e ficando com a menor confiança', () => {
+    const comConfianca: WordTimestamp[] = [
+      { word: 'guarda', startTime: 0, endTime: 0.5, confidence: 0.9 },
+      { word: '-chuva', startTime: 0.5, endTime: 1, confidence: 0.7 },
+      { word: 'fim', startTime: 1, endTime: 1.5 }
+    ];
+
+    expect(mesclarComProxima(comConfianca, 0)).toEqual([
+      { word: 'guarda-chuva', startTime: 0, endTime: 1, confidence: 0.7, edited: true },
+      comConfianca[2]
+    ]);
+    expect(mesclarComProxima(palavras, 1)[1]).toEqual({ word: 'doistrês', startTime: 1, endTime: 3, edited: true });
+    expect(mesclarComProxima(palavras, 2)).toBe(palavras);
+  });
+
+  it('insere no silêncio entre as palavras, limitado à duração máxima', () => {
+    const depois = inserirPalavra(palavras, 1, 'e');
+    expect(depois[2]).toEqual({ word: 'e', startTime: 2, endTime: 2.5, edited: true });
+
+    const noFim = inserirPalavra(palavras, 2, 'quatro');
+    expect(noFim[3]).toMatchObject({ word: 'quatro', startTime: 3, endTime: 3.6 });
+
+    const antes = inserirPalavra(palavras, 2, 'e', 'antes');
+    expect(antes.map(palavra => palavra.word)).toEqual(['um', 'dois', 'e', 'três']);
+    expect(antes[2]).toMatchObject({ startTime: 2, endTime: 2.5 });
+  });
+
+  it('sem silêncio, divide o tempo da palavra de referência com a inserida', () => {
+    const comLocutor = palavras.map(palavra => ({ ...palavra, speaker: 'B' }));
+
+    const depois = inserirPalavra(comLocutor, 0, 'e');
+    expect(depois[0]).toMatchObject({ word: 'um', startTime: 0, endTime: 0.5 });
+    expect(depois[1]).toEqual({ word: 'e', startTime: 0.5, endTime: 1, speaker: 'B', edited: true });
+
+    const antes = inserirPalavra(comLocutor, 1, 'e', 'antes');
+    expect(antes[1]).toEqual({ word: 'e', startTime: 1, endTime: 1.5, speaker: 'B', edited: true });
+    expect(antes[2]).toMatchObject({ word: 'dois', startTime: 1.5, endTime: 2 });
+  });
+
+  it('insere em uma transcrição vazia e ignora textos em branco', () => {
+    expect(inserirPalavra([], 0, 'bom dia')).toEqual([
+      { word: 'bom', startTime: 0, endTime: 0.6, edited: true },
+      { word: 'dia', startTime: 0.6, endTime: 1.2, edited: true }
+    ]);
+    expect(inserirPalavra(palavras, 0, ' ')).toBe(palavras);
+  });
+
+  it('remove a palavra deixando o intervalo como silêncio e rejeita índices inválidos', () => {
+    expect(removerPalavra(palavras, 1)).toEqual([palavras[0], palavras[2]]);
+    expect(() => removerPalavra(palavras, 3)).toThrow('Índice de palavra inválido: 3');
+    expect(() => editarPalavra(palavras, -1, 'x')).toThrow('Índice de palavra inválido: -1');
+  });
+});
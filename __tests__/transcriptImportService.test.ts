@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import { gerarSrt, gerarVtt } from '../services/subtitleService';
+import {
+  detectarFormato,
+  importarTranscricao,
+  ImportacaoTranscricaoError,
+  lerLegendas
+} from '../services/transcriptImportService';
+
+const textos = (palavras: WordTimestamp[]) => palavras.map(palavra => palavra.word);
+
+describe('transcriptImportService', () => {
+  it('lê SRT e distribui o tempo do bloco entre as palavras', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:03,000\r\n<i>Bom dia</i> a\r\ntodos\r\n\r\n2\r\n00:00:04,500 --> 00:00:05,000\r\nTchau.\r\n';
+
+    const palavras = importarTranscricao('aula.srt', srt);
+
+    expect(textos(palavras)).toEqual(['Bom', 'dia', 'a', 'todos', 'Tchau.']);
+    expect(palavras[0].startTime).toBe(1);
+    expect(palavras[3].endTime).toBe(3);
+    expect(palavras[1].endTime).toBeLessThan(palavras[3].startTime);
+    expect(palavras[4]).toMatchObject({ startTime: 4.5, endTime: 5 });
+  });
+
+  it('lê WebVTT com tag de voz, entidades e blocos NOTE', () => {
+    const vtt = 'WEBVTT\n\nNOTE comentário --> ignorado\n\nintro\n01:02.500 --> 01:04.000 align:start\n<v.destaque Ana>P&amp;D &lt;ok&gt;\n';
+
+    const palavras = importarTranscricao('reuniao.vtt', vtt);
+
+    expect(textos(palavras)).toEqual(['P&D', '<ok>']);
+    expect(palavras.every(palavra => palavra.speaker === 'Ana')).toBe(true);
+    expect(palavras[0].startTime).toBe(62.5);
+  });
+
+  it('recupera falantes e texto das legendas exportadas pelo aplicativo', () => {
+    const original: WordTimestamp[] = [
+      { word: 'Olá', startTime: 0, endTime: 0.4, speaker: 'Maria Silva' },
+      { word: 'pessoal.', startTime: 0.4, endTime: 1, speaker: 'Maria Silva' },
+      { word: 'Oi!', startTime: 3, endTime: 3.5, speaker: 'João' }
+    ];
+
+    for (const [nome, conteudo] of [['a.srt', gerarSrt(original)], ['a.vtt', gerarVtt(original)]]) {
+      const palavras = importarTranscricao(nome, conteudo);
+      expect(palavras.map(palavra => [palavra.word, palavra.speaker])).toEqual([
+        ['Olá', 'Maria Silva'],
+        ['pessoal.', 'Maria Silva'],
+        ['Oi!', 'João']
+      ]);
+    }
+  });
+
+  it('importa o JSON exportado e rejeita palavras sem tempo', () => {
+    const original: WordTimestamp[] = [{ word: 'teste', startTime: 1.2, endTime: 1.6, confidence: 0.9, speaker: 'A', edited: true }];
+
+    expect(importarTranscricao('t.json', JSON.stringify(original))).toEqual(original);
+    expect(() => importarTranscricao('t.json', '[{"word":"x"}]')).toThrow(ImportacaoTranscricaoError);
+    expect(() => importarTranscricao('t.json', '{')).toThrow('malformado');
+  });
+
+  it('detecta o formato pelo conteúdo e recusa arquivos sem falas', () => {
+    expect(detectarFormato('legenda.txt', 'WEBVTT\n')).toBe('vtt');
+    expect(detectarFormato('legenda.txt', '1\n00:00:01,000 --> 00:00:02,000\noi')).toBe('srt');
+    expect(detectarFormato('notas.txt', 'texto solto')).toBeNull();
+    expect(lerLegendas('1\n00:00:01,000 --> 00:00:02,000\n\n', 'srt')).toEqual([]);
+
+    try {
+      importarTranscricao('vazio.vtt', 'WEBVTT\n');
+      throw new Error('deveria falhar');
+    } catch (erro) {
+      expect((erro as ImportacaoTranscricaoError).tipo).toBe('vazio');
+    }
+  });
+});
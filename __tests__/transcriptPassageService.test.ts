@@ -0,0 +1,48 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import { classificarTrechos, dividirEmTrechos, IndiceSemantico } from '../services/transcriptPassageService';
+
+// Frases de 10 palavras, a última terminada em ponto
+const frase = (inicio: number, falante?: string): WordTimestamp[] =>
+  Array.from({ length: 10 }, (_, i) => ({
+    word: i === 9 ? 'fim.' : `palavra${i}`,
+    startTime: inicio + i * 0.5,
+    endTime: inicio + i * 0.5 + 0.4,
+    ...(falante ? { speaker: falante } : {})
+  }));
+
+describe('transcriptPassageService', () => {
+  it('agrupa frases inteiras em trechos com tempo e texto', () => {
+    const transcricao = [...frase(0), ...frase(5), ...frase(10), ...frase(15)];
+    const trechos = dividirEmTrechos(transcricao);
+
+    expect(trechos).toHaveLength(2);
+    expect(trechos[0]).toMatchObject({ inicio: 0, fim: 14.9, indiceInicial: 0, indiceFinal: 29 });
+    expect(trechos[1]).toMatchObject({ inicio: 15, indiceInicial: 30, indiceFinal: 39 });
+    expect(trechos[1].texto.split(' ')).toHaveLength(10);
+  });
+
+  it('não mistura falantes e corta trechos sem pontuação', () => {
+    const falantes = dividirEmTrechos([...frase(0, 'Ana'), ...frase(5, 'Rui')]);
+    expect(falantes.map(trecho => trecho.falante)).toEqual(['Ana', 'Rui']);
+
+    const semPontuacao: WordTimestamp[] = Array.from({ length: 130 }, (_, i) => ({ word: 'a', startTime: i, endTime: i + 0.5 }));
+    expect(dividirEmTrechos(semPontuacao).map(trecho => trecho.indiceFinal - trecho.indiceInicial + 1)).toEqual([60, 60, 10]);
+    expect(dividirEmTrechos([])).toEqual([]);
+  });
+
+  it('ordena os trechos pela semelhança e ignora vetores de outro modelo', () => {
+    const trecho = (texto: string) => ({ inicio: 0, fim: 1, indiceInicial: 0, indiceFinal: 0, texto });
+    const indices: IndiceSemantico[] = [
+      { itemId: 'a', atualizadoEm: '', modelo: 'minilm', trechos: [{ ...trecho('perto'), vetor: [1, 0.1] }, { ...trecho('longe'), vetor: [-1, 0] }] },
+      { itemId: 'b', atualizadoEm: '', modelo: 'minilm', trechos: [{ ...trecho('igual'), vetor: [2, 0] }] },
+      { itemId: 'c', atualizadoEm: '', modelo: 'outro', trechos: [{ ...trecho('outro modelo'), vetor: [1, 0] }] }
+    ];
+
+    const resultados = classificarTrechos([1, 0], 'minilm', indices, 10, 0);
+    expect(resultados.map(resultado => resultado.trecho.texto)).toEqual(['igual', 'perto']);
+    expect(resultados[0]).toMatchObject({ itemId: 'b', similaridade: 1 });
+    expect(resultados[0].trecho).not.toHaveProperty('vetor');
+    expect(classificarTrechos([1, 0], 'minilm', indices, 1, 0)).toHaveLength(1);
+  });
+});
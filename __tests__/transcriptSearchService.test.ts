@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { WordTimestamp } from '../types';
+import { buscarNaTranscricao, substituirNaTranscricao } from '../services/transcriptSearchService';
+
+const transcricao = (...palavras: string[]): WordTimestamp[] =>
+  palavras.map((word, indice) => ({ word, startTime: indice, endTime: indice + 0.8 }));
+
+describe('transcriptSearchService', () => {
+  it('ignora maiúsculas e acentos e aponta as palavras de cada ocorrência', () => {
+    const palavras = transcricao('A', 'Ação', 'do', 'AÇÃO', 'pública', 'acao');
+    const ocorrencias = buscarNaTranscricao(palavras, 'acao');
+
+    expect(ocorrencias.map(ocorrencia => ocorrencia.palavraInicial)).toEqual([1, 3, 5]);
+    expect(buscarNaTranscricao(palavras, 'ação pública').map(o => [o.palavraInicial, o.palavraFinal])).toEqual([[3, 4]]);
+  });
+
+  it('respeita a opção de palavra inteira e aceita expressões regulares', () => {
+    const palavras = transcricao('teste', 'testes', 'contestar', 'Teste.');
+
+    expect(buscarNaTranscricao(palavras, 'teste')).toHaveLength(3);
+    expect(buscarNaTranscricao(palavras, 'teste', { palavraInteira: true }).map(o => o.palavraInicial)).toEqual([0, 3]);
+    expect(buscarNaTranscricao(palavras, 'test(e|ar)\\b', { regex: true }).map(o => o.palavraInicial)).toEqual([0, 2, 3]);
+    expect(() => buscarNaTranscricao(palavras, '(', { regex: true })).toThrow(SyntaxError);
+  });
+
+  it('substitui mantendo os tempos quando o número de palavras não muda', () => {
+    const palavras = transcricao('o', 'ai', 'fone', 'e', 'o', 'Aifone', 'novo');
+    const { transcricao: resultado, quantidade } = substituirNaTranscricao(palavras, 'aifone', 'iPhone', { palavraInteira: true });
+
+    expect(quantidade).toBe(1);
+    expect(resultado.map(palavra => palavra.word)).toEqual(['o', 'ai', 'fone', 'e', 'o', 'iPhone', 'novo']);
+    expect(resultado[5]).toEqual({ word: 'iPhone', startTime: 5, endTime: 5.8, edited: true });
+    expect(resultado[0]).toBe(palavras[0]);
+  });
+
+  it('reparte o intervalo quando a substituição muda o número de palavras', () => {
+    const palavras = transcricao('o', 'ai', 'fone', 'novo');
+    const { transcricao: resultado } = substituirNaTranscricao(palavras, 'ai fone', 'iPhone');
+
+    expect(resultado.map(palavra => palavra.word)).toEqual(['o', 'iPhone', 'novo']);
+    expect(resultado[1].startTime).toBe(1);
+    expect(resultado[1].endTime).toBe(2.8);
+    expect(resultado[2]).toBe(palavras[3]);
+  });
+
+  it('aplica os grupos da expressão com o texto original', () => {
+    const palavras = transcricao('João', 'Silva', 'e', 'José', 'Souza');
+    const { transcricao: resultado, quantidade } = substituirNaTranscricao(palavras, '(\\w+) (s\\w+)', '$2, $1', { regex: true });
+
+    expect(quantidade).toBe(2);
+    expect(resultado.map(palavra => palavra.word)).toEqual(['Silva,', 'João', 'e', 'Souza,', 'José']);
+  });
+});
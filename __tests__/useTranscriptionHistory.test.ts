@@ -0,0 +1,48 @@
+import { describe, expect, it } from '@jest/globals';
+import { HistoryState, pushEdit, redoEdit, undoEdit } from '../hooks/useTranscriptionHistory';
+import { WordTimestamp } from '../types';
+
+const versao = (texto: string): WordTimestamp[] => [{ word: texto, startTime: 0, endTime: 1 }];
+
+const inicial = (present: WordTimestamp[] | null): HistoryState => ({ past: [], present, future: [] });
+
+describe('useTranscriptionHistory', () => {
+  it('desfaz e refaz as edições na ordem', () => {
+    const [a, b, c] = [versao('a'), versao('b'), versao('c')];
+    const editado = pushEdit(pushEdit(inicial(a), b), c);
+
+    const desfeito = undoEdit(undoEdit(editado));
+    expect(desfeito).toEqual({ past: [], present: a, future: [b, c] });
+
+    const refeito = redoEdit(desfeito);
+    expect(refeito).toEqual({ past: [a], present: b, future: [c] });
+  });
+
+  it('descarta o que foi desfeito ao registrar uma nova edição', () => {
+    const [a, b, c] = [versao('a'), versao('b'), versao('c')];
+    const desfeito = undoEdit(pushEdit(inicial(a), b));
+
+    expect(pushEdit(desfeito, c)).toEqual({ past: [a], present: c, future: [] });
+  });
+
+  it('ignora edições sem transcrição ou com a mesma lista', () => {
+    const a = versao('a');
+    const semTranscricao = inicial(null);
+    const comTranscricao = inicial(a);
+
+    expect(pushEdit(semTranscricao, a)).toBe(semTranscricao);
+    expect(pushEdit(comTranscricao, a)).toBe(comTranscricao);
+    expect(undoEdit(comTranscricao)).toBe(comTranscricao);
+    expect(redoEdit(comTranscricao)).toBe(comTranscricao);
+  });
+
+  it('guarda no máximo 200 estados para desfazer', () => {
+    let historico = inicial(versao('0'));
+    for (let i = 1; i <= 205; i++) {
+      historico = pushEdit(historico, versao(String(i)));
+    }
+
+    expect(historico.past).toHaveLength(200);
+    expect(historico.past[0][0].word).toBe('5');
+  });
+});
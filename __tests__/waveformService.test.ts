@@ -0,0 +1,43 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  amplitudeNoIntervalo,
+  calcularColunaEspectro,
+  calcularPicos,
+  criarFormaDeOnda,
+  TAMANHO_JANELA_ESPECTRO
+} from '../services/waveformService';
+
+const senoide = (frequencia: number, taxa: number, segundos: number, amplitude = 0.5): Float32Array =>
+  Float32Array.from({ length: taxa * segundos }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequencia * i) / taxa));
+
+describe('waveformService', () => {
+  it('calcula o menor e o maior valor de cada intervalo', () => {
+    const { minimos, maximos } = calcularPicos(Float32Array.from([0.1, -0.4, 0.3, 0.9, -0.2]), 2);
+
+    expect(Array.from(minimos)).toEqual([expect.closeTo(-0.4), expect.closeTo(0), expect.closeTo(-0.2)]);
+    expect(Array.from(maximos)).toEqual([expect.closeTo(0.1), expect.closeTo(0.9), expect.closeTo(0)]);
+  });
+
+  it('usa os picos em intervalos longos e as amostras em intervalos curtos', () => {
+    const amostras = new Float32Array(8000);
+    amostras[4000] = 0.8; // Um estalo no meio do segundo
+    const forma = criarFormaDeOnda(amostras, 8000);
+
+    expect(forma.duracao).toBe(1);
+    expect(amplitudeNoIntervalo(forma, 0, 1)[1]).toBeCloseTo(0.8);
+    expect(amplitudeNoIntervalo(forma, 0.4999, 0.5001)[1]).toBeCloseTo(0.8);
+    expect(amplitudeNoIntervalo(forma, 0.6, 0.6001)).toEqual([0, 0]);
+  });
+
+  it('concentra a energia do espectro na frequência do sinal', () => {
+    const forma = criarFormaDeOnda(senoide(1000, 8000, 1), 8000);
+
+    const coluna = calcularColunaEspectro(forma, 0.5);
+    const faixaMaisForte = coluna.indexOf(Math.max(...coluna));
+    const larguraFaixa = 8000 / TAMANHO_JANELA_ESPECTRO;
+
+    expect(coluna).toHaveLength(TAMANHO_JANELA_ESPECTRO / 2);
+    expect(Math.abs(faixaMaisForte * larguraFaixa - 1000)).toBeLessThanOrEqual(larguraFaixa);
+    expect(coluna[Math.round(3000 / larguraFaixa)]).toBeLessThan(0.3);
+  });
+});
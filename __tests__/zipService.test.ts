@@ -0,0 +1,43 @@
+import { describe, expect, it } from '@jest/globals';
+import { crc32, gerarZip } from '../services/zipService';
+
+const lerUint32 = (dados: Uint8Array, posicao: number): number =>
+  new DataView(dados.buffer, dados.byteOffset).getUint32(posicao, true);
+
+const lerUint16 = (dados: Uint8Array, posicao: number): number =>
+  new DataView(dados.buffer, dados.byteOffset).getUint16(posicao, true);
+
+describe('zipService', () => {
+  it('calcula o CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('gera cabeçalho local, diretório central e fim de diretório', () => {
+    const zip = gerarZip([{ nome: 'a.txt', conteudo: 'olá', modificadoEm: new Date(2024, 0, 1) }]);
+    const tamanhoDados = new TextEncoder().encode('olá').length;
+
+    expect(lerUint32(zip, 0)).toBe(0x04034b50);
+    expect(lerUint16(zip, 6)).toBe(0x0800);
+    expect(lerUint32(zip, 18)).toBe(tamanhoDados);
+    expect(new TextDecoder().decode(zip.slice(30, 35))).toBe('a.txt');
+    expect(new TextDecoder().decode(zip.slice(35, 35 + tamanhoDados))).toBe('olá');
+
+    const inicioDiretorio = 35 + tamanhoDados;
+    expect(lerUint32(zip, inicioDiretorio)).toBe(0x02014b50);
+
+    const fim = zip.length - 22;
+    expect(lerUint32(zip, fim)).toBe(0x06054b50);
+    expect(lerUint16(zip, fim + 10)).toBe(1);
+    expect(lerUint32(zip, fim + 16)).toBe(inicioDiretorio);
+  });
+
+  it('renomeia arquivos com o mesmo nome', () => {
+    const zip = gerarZip([
+      { nome: 'entrevista.txt', conteudo: '1' },
+      { nome: 'entrevista.txt', conteudo: '2' }
+    ]);
+    const texto = new TextDecoder().decode(zip);
+    expect(texto).toContain('entrevista (2).txt');
+  });
+});
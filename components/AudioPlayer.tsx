@@ -4,14 +4,23 @@ import { PauseIcon } from './icons/PauseIcon';
 import { VolumeIcon } from './icons/VolumeIcon';
 import { SkipBackIcon } from './icons/SkipBackIcon';
 import { SkipForwardIcon } from './icons/SkipForwardIcon';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface AudioPlayerProps {
   audioUrl: string;
   onTimeUpdate?: (currentTime: number) => void;
   onPlayStateChange?: (isPlaying: boolean) => void;
+  // Avisa quando o trecho em loop (A-B) muda
+  onLoopChange?: (loop: LoopRegion | null) => void;
   className?: string;
 }
 
+// Trecho repetido em loop (em segundos). Enquanto só o ponto A foi marcado, `end` fica indefinido.
+export interface LoopRegion {
+  start: number;
+  end?: number;
+}
+
 export interface AudioPlayerRef {
   setTime: (time: number) => void;
   play: () => void;
@@ -20,6 +29,11 @@ export interface AudioPlayerRef {
   getDuration: () => number;
   isPlaying: () => boolean;
   getPlaybackRate: () => number;
+  setLoop: (loop: LoopRegion | null) => void;
+  setLoopStart: (time?: number) => void;
+  setLoopEnd: (time?: number) => void;
+  // Pausa automaticamente ao chegar no tempo indicado (null cancela)
+  setPauseAt: (time: number | null) => void;
 }
 
 // Hook personalizado para gerenciar o estado do player de áudio
@@ -30,8 +44,52 @@ export const useAudioPlayer = (audioSrc: string) => {
   const [playbackRate, setPlaybackRate] = useState(1);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const [preservesPitch, setPreservesPitchState] = useState(true);
+  const [pauseAt, setPauseAt] = useState<number | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
 
+  // Tempo e duração acompanham o elemento de áudio
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const handleLoadedMetadata = () => setDuration(audio.duration);
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+    const handlePause = () => setIsPlaying(false);
+    const handlePlay = () => setIsPlaying(true);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('play', handlePlay);
+    return () => {
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('play', handlePlay);
+    };
+  }, [audioSrc]);
+
+  // Durante a reprodução, volta ao ponto A ao chegar no B e pausa no ponto marcado por setPauseAt.
+  // O timeupdate do elemento é disparado poucas vezes por segundo, então a verificação usa animation frames.
+  useEffect(() => {
+    if (!isPlaying || (loop?.end === undefined && pauseAt === null)) return;
+    let frame: number;
+    const check = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (loop?.end !== undefined && audio.currentTime >= loop.end) {
+        audio.currentTime = loop.start;
+      } else if (pauseAt !== null && audio.currentTime >= pauseAt) {
+        setPauseAt(null);
+        audio.pause();
+        return;
+      }
+      frame = requestAnimationFrame(check);
+    };
+    frame = requestAnimationFrame(check);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, loop, pauseAt]);
+
   const play = useCallback(() => {
     if (audioRef.current) {
       audioRef.current.play();
@@ -53,6 +111,27 @@ export const useAudioPlayer = (audioSrc: string) => {
     }
   }, []);
 
+  const setLoopStart = useCallback((time?: number) => {
+    const start = time ?? audioRef.current?.currentTime ?? 0;
+    setLoop(current => (current?.end !== undefined && current.end > start ? { start, end: current.end } : { start }));
+  }, []);
+
+  const setLoopEnd = useCallback((time?: number) => {
+    const end = time ?? audioRef.current?.currentTime ?? 0;
+    setLoop(current => {
+      const start = current?.start ?? 0;
+      // Um ponto B antes do A inverte os dois
+      return end > start ? { start, end } : { start: end, end: start };
+    });
+  }, []);
+
+  const setPreservesPitch = useCallback((preserve: boolean) => {
+    if (audioRef.current) {
+      audioRef.current.preservesPitch = preserve;
+    }
+    setPreservesPitchState(preserve);
+  }, []);
+
   const setRate = useCallback((rate: number) => {
     if (audioRef.current) {
       audioRef.current.playbackRate = rate;
@@ -102,6 +181,8 @@ export const useAudioPlayer = (audioSrc: string) => {
     playbackRate,
     volume,
     isMuted,
+    loop,
+    preservesPitch,
     play,
     pause,
     setTime,
@@ -109,7 +190,12 @@ export const useAudioPlayer = (audioSrc: string) => {
     setVol,
     toggleMute,
     skipForward,
-    skipBackward
+    skipBackward,
+    setLoop,
+    setLoopStart,
+    setLoopEnd,
+    setPauseAt,
+    setPreservesPitch
   };
 };
 
@@ -118,10 +204,12 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
     audioUrl,
     onTimeUpdate,
     onPlayStateChange,
+    onLoopChange,
     className = ''
   },
   ref
 ) => {
+  const { t } = useTranslation();
   const {
     audioRef,
     isPlaying,
@@ -130,6 +218,8 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
     playbackRate,
     volume,
     isMuted,
+    loop,
+    preservesPitch,
     play,
     pause,
     setTime,
@@ -137,7 +227,12 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
     setVol,
     toggleMute,
     skipForward,
-    skipBackward
+    skipBackward,
+    setLoop,
+    setLoopStart,
+    setLoopEnd,
+    setPauseAt,
+    setPreservesPitch
   } = useAudioPlayer(audioUrl);
 
   // Expor métodos através da ref
@@ -148,8 +243,16 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
     getCurrentTime: () => currentTime,
     getDuration: () => duration,
     isPlaying: () => isPlaying,
-    getPlaybackRate: () => playbackRate
-  }), [setTime, play, pause, currentTime, duration, isPlaying, playbackRate]);
+    getPlaybackRate: () => playbackRate,
+    setLoop,
+    setLoopStart,
+    setLoopEnd,
+    setPauseAt
+  }), [setTime, play, pause, currentTime, duration, isPlaying, playbackRate, setLoop, setLoopStart, setLoopEnd, setPauseAt]);
+
+  useEffect(() => {
+    onLoopChange?.(loop);
+  }, [loop, onLoopChange]);
 
   // Atualizar tempo atual e notificar componente pai
   useEffect(() => {
@@ -308,7 +411,7 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
         <button
           onClick={() => skipBackward(10)}
           className="p-2 text-brand-text hover:text-brand-primary transition-colors"
-          title="Retroceder 10s (←)"
+          title={t('player.retroceder')}
         >
           <SkipBackIcon className="w-6 h-6" />
         </button>
@@ -317,7 +420,7 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
         <button
           onClick={isPlaying ? pause : play}
           className="p-3 bg-brand-primary text-gray-900 rounded-full hover:bg-brand-primary-hover transition-all duration-200 transform hover:scale-105"
-          title={isPlaying ? 'Pausar (Espaço)' : 'Reproduzir (Espaço)'}
+          title={t(isPlaying ? 'player.pausar' : 'player.reproduzir')}
         >
           {isPlaying ? (
             <PauseIcon className="w-6 h-6" />
@@ -330,7 +433,7 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
         <button
           onClick={() => skipForward(10)}
           className="p-2 text-brand-text hover:text-brand-primary transition-colors"
-          title="Avançar 10s (→)"
+          title={t('player.avancar')}
         >
           <SkipForwardIcon className="w-6 h-6" />
         </button>
@@ -343,7 +446,7 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
           <button
             onClick={toggleMute}
             className="p-1 text-brand-text hover:text-brand-primary transition-colors"
-            title={isMuted ? 'Ativar som (M)' : 'Silenciar (M)'}
+            title={t(isMuted ? 'player.ativarSom' : 'player.silenciar')}
           >
             <VolumeIcon className={`w-5 h-5 ${isMuted ? 'text-red-400' : ''}`} />
           </button>
@@ -355,15 +458,15 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
             value={isMuted ? 0 : volume}
             onChange={(e) => setVol(parseFloat(e.target.value))}
             className="w-20 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
-            title="Volume (↑↓)"
+            title={t('player.volume')}
           />
         </div>
 
         {/* Controle de velocidade */}
         <div className="flex items-center gap-2">
-          <span className="text-sm font-medium text-brand-text">Velocidade:</span>
+          <span className="text-sm font-medium text-brand-text">{t('player.velocidade')}</span>
           <div className="flex gap-1">
-            {[0.5, 0.75, 1, 1.25, 1.5, 2].map((rate) => (
+            {[0.25, 0.5, 0.75, 1, 1.25, 1.5, 2].map((rate) => (
               <button
                 key={rate}
                 onClick={() => setRate(rate)}
@@ -372,7 +475,7 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
                     ? 'bg-brand-primary text-gray-900'
                     : 'bg-gray-700 text-brand-text hover:bg-gray-600'
                 }`}
-                title={`Velocidade ${rate}x`}
+                title={t('player.velocidadeValor', { valor: rate })}
               >
                 {rate}x
               </button>
@@ -381,9 +484,53 @@ export const AudioPlayer = React.forwardRef<AudioPlayerRef, AudioPlayerProps>((
         </div>
       </div>
 
+      {/* Loop A-B e reprodução lenta */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <span className="text-sm font-medium text-brand-text mr-1">{t('player.loop')}</span>
+          <button
+            onClick={() => setLoopStart()}
+            className="px-2 py-1 text-xs font-medium rounded bg-gray-700 text-brand-text hover:bg-gray-600 transition-colors"
+            title={t('player.marcarA')}
+          >
+            A
+          </button>
+          <button
+            onClick={() => setLoopEnd()}
+            className="px-2 py-1 text-xs font-medium rounded bg-gray-700 text-brand-text hover:bg-gray-600 transition-colors"
+            title={t('player.marcarB')}
+          >
+            B
+          </button>
+          {loop && (
+            <>
+              <span className={`ml-1 text-xs font-mono ${loop.end !== undefined ? 'text-brand-primary' : 'text-brand-text-secondary'}`}>
+                {formatTime(loop.start)} – {loop.end !== undefined ? formatTime(loop.end) : '…'}
+              </span>
+              <button
+                onClick={() => setLoop(null)}
+                className="px-2 py-1 text-xs rounded text-brand-text-secondary hover:text-red-400 transition-colors"
+                title={t('player.limparLoop')}
+              >
+                ✕
+              </button>
+            </>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-brand-text cursor-pointer" title={t('player.preservarTomDica')}>
+          <input
+            type="checkbox"
+            checked={preservesPitch}
+            onChange={(e) => setPreservesPitch(e.target.checked)}
+            className="w-3.5 h-3.5 text-cyan-500 bg-gray-700 border-gray-600 rounded"
+          />
+          {t('player.preservarTom')}
+        </label>
+      </div>
+
       {/* Dicas de atalhos */}
       <div className="text-xs text-brand-text-secondary text-center space-y-1">
-        <p>Atalhos: Espaço (Play/Pause) • ← → (Pular) • ↑ ↓ (Volume) • M (Mute)</p>
+        <p>{t('player.atalhos')}</p>
       </div>
     </div>
   );
@@ -1,17 +1,32 @@
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { UploadIcon } from './icons/UploadIcon';
 import { FileIcon } from './icons/FileIcon';
 import { CloseIcon } from './icons/CloseIcon';
-import supabaseStorageService from '../services/supabaseStorageService';
+import armazenamentoService from '../services/storageService';
+import { BackendArmazenamento } from '../services/storageBackend';
+import { EXTENSOES_IMPORTACAO } from '../services/transcriptImportService';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface AudioUploaderProps {
   onFileSelect: (file: File | null) => void;
+  // Chamado quando mais de um arquivo de áudio é selecionado de uma vez (transcrição em lote)
+  onFilesSelect?: (files: File[]) => void;
   onUploadComplete?: (url: string) => void;
   disabled: boolean;
+  // Quando falso, o áudio não é enviado ao armazenamento na nuvem (ex.: transcrição com mecanismo local)
+  cloudUploadEnabled?: boolean;
+  // Chamado com um arquivo de transcrição (SRT, VTT ou JSON) para abrir junto do áudio selecionado
+  onTranscriptImport?: (file: File) => void;
 }
 
-export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUploadComplete, disabled }) => {
+// Só arquivos de áudio entram no lote, tanto ao soltar quanto ao escolher no seletor
+const filtrarAudios = (files: FileList): File[] => {
+  return Array.from<File>(files).filter(file => file.type.startsWith('audio/'));
+};
+
+export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onFilesSelect, onUploadComplete, disabled, cloudUploadEnabled = true, onTranscriptImport }) => {
+  const { t } = useTranslation();
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -23,11 +38,27 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
   const [currentTime, setCurrentTime] = useState<number>(0);
   const audioRef = useRef<HTMLAudioElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+  // Permite cancelar o envio em andamento ao armazenamento na nuvem
+  const uploadControllerRef = useRef<AbortController | null>(null);
+  const [armazenamento, setArmazenamento] = useState<BackendArmazenamento | null>(null);
+
+  useEffect(() => {
+    armazenamentoService.obter().then(setArmazenamento).catch(error => {
+      console.error('❌ [UPLOAD] Erro ao obter o armazenamento:', error);
+    });
+  }, []);
+
+  // O áudio só é enviado quando o armazenamento oferece uma URL que a API consegue baixar
+  const envioNuvemDisponivel = !!armazenamento?.audioRemoto;
+  // disabled bloqueia só o que depende do provedor de transcrição: um áudio ainda pode ser escolhido
+  // para parear com uma transcrição importada
+  const selecaoDesabilitada = disabled && !onTranscriptImport;
 
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    if (!disabled) setIsDragging(true);
+    if (!selecaoDesabilitada) setIsDragging(true);
   };
 
   const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
@@ -45,38 +76,62 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (disabled) return;
+    if (selecaoDesabilitada) return;
 
     const files = e.dataTransfer.files;
-    if (files && files.length > 0) {
+    if (files && files.length > 1 && onFilesSelect && !disabled) {
+      const audios = filtrarAudios(files);
+      if (audios.length > 0) {
+        onFilesSelect(audios);
+      } else {
+        alert(t('upload.soltarAudio'));
+      }
+    } else if (files && files.length > 0) {
       const file = files[0];
       if (file.type.startsWith('audio/')) {
         setSelectedFile(file);
         onFileSelect(file);
         // Upload automático
-        if (supabaseStorageService.estaConectado()) {
-          handleUploadToSupabase(file);
+        if (cloudUploadEnabled && envioNuvemDisponivel && !disabled) {
+          handleUploadToCloud(file);
         }
       } else {
-        alert('Por favor, solte um arquivo de áudio.');
+        alert(t('upload.soltarAudio'));
       }
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
-    if (files && files.length > 0) {
+    if (files && files.length > 1 && onFilesSelect && !disabled) {
+      const audios = filtrarAudios(files);
+      if (audios.length > 0) {
+        onFilesSelect(audios);
+      } else {
+        alert(t('upload.soltarAudio'));
+      }
+      // Permite selecionar os mesmos arquivos novamente
+      e.target.value = '';
+    } else if (files && files.length > 0) {
       const file = files[0];
       setSelectedFile(file);
       onFileSelect(file);
       // Upload automático
-      if (supabaseStorageService.estaConectado()) {
-        handleUploadToSupabase(file);
+      if (cloudUploadEnabled && envioNuvemDisponivel && !disabled) {
+        handleUploadToCloud(file);
       }
     }
   };
   
+  const handleCancelUpload = () => {
+      uploadControllerRef.current?.abort();
+      uploadControllerRef.current = null;
+      setIsUploading(false);
+      setUploadProgress(0);
+  }
+
   const handleRemoveFile = () => {
+      handleCancelUpload();
       setSelectedFile(null);
       onFileSelect(null);
       setUploadError(null);
@@ -86,17 +141,27 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
       }
   }
 
-  const handleUploadToSupabase = async (fileToUpload?: File) => {
+  const handleUploadToCloud = async (fileToUpload?: File) => {
     const file = fileToUpload || selectedFile;
-    if (!file) return;
+    if (!file || !armazenamento) return;
+
+    // Um novo envio substitui o anterior
+    uploadControllerRef.current?.abort();
+    const controller = new AbortController();
+    uploadControllerRef.current = controller;
 
     setIsUploading(true);
     setUploadError(null);
     setUploadProgress(0);
 
+    let progressInterval: ReturnType<typeof setInterval> | undefined;
     try {
       // Simular progresso de upload
-      const progressInterval = setInterval(() => {
+      progressInterval = setInterval(() => {
+        if (controller.signal.aborted) {
+          clearInterval(progressInterval);
+          return;
+        }
         setUploadProgress(prev => {
           if (prev >= 90) {
             clearInterval(progressInterval);
@@ -106,9 +171,12 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
         });
       }, 200);
 
-      const resultado = await supabaseStorageService.fazerUploadAudio(file);
+      const resultado = await armazenamento.salvarAudio(file, controller.signal);
       
       clearInterval(progressInterval);
+      // Cancelado pelo usuário ou substituído por outro envio: a interface já foi atualizada
+      if (resultado.cancelado) return;
+      uploadControllerRef.current = null;
       setUploadProgress(100);
 
       if (resultado.sucesso && resultado.url) {
@@ -121,11 +189,14 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
           setIsUploading(false);
         }, 1000);
       } else {
-        throw new Error(resultado.erro || 'Erro desconhecido no upload');
+        throw new Error(resultado.erro || t('upload.erroDesconhecido'));
       }
     } catch (erro) {
+      clearInterval(progressInterval);
+      if (uploadControllerRef.current !== controller) return;
+      uploadControllerRef.current = null;
       console.error('Erro no upload:', erro);
-      setUploadError(erro instanceof Error ? erro.message : 'Erro no upload');
+      setUploadError(erro instanceof Error ? erro.message : t('upload.erro'));
       setUploadProgress(0);
       setIsUploading(false);
     }
@@ -137,6 +208,13 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
     }
   };
 
+  const handleTranscriptChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Permite importar o mesmo arquivo novamente depois de corrigi-lo
+    e.target.value = '';
+    if (file) onTranscriptImport?.(file);
+  };
+
   const handlePlayPause = () => {
     if (!audioRef.current) return;
     
@@ -182,7 +260,8 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
         onChange={handleFileChange}
         className="hidden"
         accept="audio/*"
-        disabled={disabled}
+        multiple={!!onFilesSelect && !disabled}
+        disabled={selecaoDesabilitada}
       />
       
       {!selectedFile ? (
@@ -193,7 +272,7 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
           onDrop={handleDrop}
           onClick={openFileDialog}
           className={`relative overflow-hidden flex flex-col items-center justify-center p-12 border-2 border-dashed rounded-2xl cursor-pointer transition-all duration-300 glass-card ${
-            disabled ? 'cursor-not-allowed opacity-50' :
+            selecaoDesabilitada ? 'cursor-not-allowed opacity-50' :
             isDragging ? 'border-cyan-400 bg-gradient-to-br from-cyan-500/30 to-purple-500/30 scale-105 shadow-cyan-500/20' : 
             'border-gray-500/30 hover:border-cyan-400/50 hover:scale-102'
           }`}
@@ -205,8 +284,8 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
               <UploadIcon className="w-16 h-16 text-cyan-400 relative z-10" />
             </div>
             <div className="text-center space-y-2">
-              <h3 className="text-2xl font-bold text-white">Arraste seu áudio aqui</h3>
-              <p className="text-gray-300 text-lg">ou <span className="text-cyan-400 hover:text-cyan-300 transition-colors">clique para selecionar</span></p>
+              <h3 className="text-2xl font-bold text-white">{t('upload.arraste')}</h3>
+              <p className="text-gray-300 text-lg">{t('upload.ou')} <span className="text-cyan-400 hover:text-cyan-300 transition-colors">{t('upload.cliqueParaSelecionar')}</span></p>
             </div>
             <div className="flex items-center gap-2 text-sm text-gray-400">
               <span className="px-3 py-1 bg-gray-800/50 rounded-full">MP3</span>
@@ -214,6 +293,9 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
               <span className="px-3 py-1 bg-gray-800/50 rounded-full">M4A</span>
               <span className="px-3 py-1 bg-gray-800/50 rounded-full">FLAC</span>
             </div>
+            {onFilesSelect && (
+              <p className="text-xs text-gray-400">{t('upload.variosArquivos')}</p>
+            )}
           </div>
         </div>
       ) : (
@@ -234,7 +316,8 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
               </div>
               <button 
                 onClick={handleRemoveFile} 
-                disabled={disabled || isUploading} 
+                disabled={selecaoDesabilitada || isUploading} 
+                aria-label={t('upload.removerArquivo')}
                 className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors rounded-full hover:bg-red-500/10"
               >
                 <CloseIcon className="w-6 h-6" />
@@ -277,7 +360,7 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
                   <div className="flex justify-center">
                     <button
                       onClick={handlePlayPause}
-                      disabled={disabled}
+                      disabled={selecaoDesabilitada}
                       className="p-4 bg-gradient-to-r from-cyan-500 to-purple-500 rounded-full text-white hover:from-cyan-400 hover:to-purple-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-110 shadow-lg"
                     >
                       {isPlaying ? (
@@ -296,16 +379,43 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
             )}
           </div>
 
+          {onTranscriptImport && (
+            <div className="flex flex-col items-center gap-2 text-center">
+              <input
+                type="file"
+                ref={transcriptInputRef}
+                onChange={handleTranscriptChange}
+                className="hidden"
+                accept={EXTENSOES_IMPORTACAO.join(',')}
+              />
+              <button
+                onClick={() => transcriptInputRef.current?.click()}
+                className="px-4 py-2 text-sm text-cyan-300 border border-cyan-500/30 rounded-xl hover:bg-cyan-500/10 transition-colors"
+              >
+                {t('upload.importarTranscricao')}
+              </button>
+              <p className="text-xs text-gray-400">{t('upload.importarTranscricaoAjuda')}</p>
+            </div>
+          )}
+
           {/* Status do Upload */}
           <div className="space-y-4">
             {isUploading && (
               <div className="bg-gradient-to-r from-cyan-500/10 to-purple-500/10 backdrop-blur-sm rounded-2xl p-4 border border-cyan-500/20">
                 <div className="flex items-center gap-3">
                   <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
-                  <div>
-                    <p className="text-cyan-400 font-medium">Enviando para Supabase...</p>
-                    <p className="text-sm text-gray-400">{uploadProgress}% concluído</p>
+                  <div className="flex-1">
+                    <p className="text-cyan-400 font-medium">{t('upload.enviando')}</p>
+                    <p className="text-sm text-gray-400">{t('upload.progresso', { percentual: uploadProgress })}</p>
                   </div>
+                  {uploadProgress < 100 && (
+                    <button
+                      onClick={handleCancelUpload}
+                      className="px-3 py-1 text-sm text-gray-300 hover:text-red-400 transition-colors rounded-lg hover:bg-red-500/10"
+                    >
+                      {t('comum.cancelar')}
+                    </button>
+                  )}
                 </div>
                 <div className="mt-3 w-full bg-gray-700/30 rounded-full h-2">
                   <div 
@@ -323,7 +433,7 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
                     <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
                   </svg>
                   <div>
-                    <p className="text-red-400 font-medium">Erro no upload</p>
+                    <p className="text-red-400 font-medium">{t('upload.erro')}</p>
                     <p className="text-sm text-gray-400">{uploadError}</p>
                   </div>
                 </div>
@@ -331,9 +441,9 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({ onFileSelect, onUp
             )}
             
             {/* Status da Conexão */}
-            {!supabaseStorageService.estaConectado() && (
+            {cloudUploadEnabled && armazenamento && !envioNuvemDisponivel && (
               <div className="text-yellow-400 text-sm p-2 bg-yellow-900/20 rounded border border-yellow-800">
-                ⚠️ Serviço de Storage não está conectado - Upload automático desabilitado
+                {t('upload.storageDesconectado')}
               </div>
             )}
           </div>
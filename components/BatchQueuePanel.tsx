@@ -0,0 +1,143 @@
+import React from 'react';
+import servicoLote, { EstadoLote, StatusItemLote } from '../services/batchTranscriptionService';
+import { baixarArquivo } from '../services/exportService';
+import { usePreferences } from '../hooks/usePreferences';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface BatchQueuePanelProps {
+  lote: EstadoLote;
+  className?: string;
+}
+
+const CORES_STATUS: Record<StatusItemLote, string> = {
+  aguardando: 'text-gray-500',
+  processando: 'text-blue-600',
+  concluido: 'text-green-600',
+  falhou: 'text-red-600',
+  cancelado: 'text-gray-400'
+};
+
+/**
+ * Painel com o status de cada arquivo da transcrição em lote e os controles do lote
+ */
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ lote, className = '' }) => {
+  const { t } = useTranslation();
+  const { preferences } = usePreferences();
+  const { itens, pausado, emAndamento } = lote;
+
+  if (itens.length === 0) {
+    return null;
+  }
+
+  const finalizados = itens.filter(item => ['concluido', 'falhou', 'cancelado'].includes(item.status)).length;
+  const concluidos = itens.filter(item => item.status === 'concluido').length;
+  const falharam = itens.filter(item => item.status === 'falhou').length;
+  const percentual = Math.round((finalizados / itens.length) * 100);
+
+  const handleDownloadAll = () => {
+    const formato = preferences.exportFormat;
+    const zip = servicoLote.gerarZipResultados(formato, {
+      marcasDeTempo: preferences.exportTimestamps,
+      falantes: preferences.exportSpeakers,
+      idioma: preferences.language
+    });
+    baixarArquivo(zip, `transcricoes-${formato}.zip`, 'application/zip');
+  };
+
+  return (
+    <div className={`fixed bottom-4 right-4 z-50 ${className}`}>
+      <div className="bg-white rounded-lg shadow-lg border p-4 w-[380px] max-w-[calc(100vw-2rem)]">
+        {/* Cabeçalho */}
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-700">{t('lote.titulo')}</h3>
+          <span className="text-xs text-gray-500">
+            {pausado && emAndamento ? `${t('lote.pausado')} · ` : ''}
+            {t('lote.progresso', { concluidos: finalizados, total: itens.length })}
+          </span>
+        </div>
+
+        {/* Barra de Progresso */}
+        <div className="w-full h-2 bg-blue-100 rounded-full overflow-hidden mb-3">
+          <div
+            className={`h-full ${falharam > 0 ? 'bg-red-500' : percentual === 100 ? 'bg-green-500' : 'bg-blue-500'} transition-all duration-500 ease-out rounded-full`}
+            style={{ width: `${percentual}%` }}
+          />
+        </div>
+
+        {/* Arquivos */}
+        <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 text-xs">
+          {itens.map(item => (
+            <li key={item.id} className="flex items-center justify-between py-2 gap-2">
+              <div className="min-w-0">
+                <p className="truncate text-gray-700 font-medium" title={item.arquivo.name}>{item.arquivo.name}</p>
+                <p className={CORES_STATUS[item.status]}>
+                  {t(`lote.status.${item.status}` as const)}
+                  {item.tentativas > 1 && item.status !== 'concluido' && ` · ${t('lote.tentativa', { tentativa: item.tentativas })}`}
+                  {!!item.alteracoesGlossario?.length && ` · ${t('glossario.correcoes', { quantidade: item.alteracoesGlossario.length })}`}
+                </p>
+                {item.erro && item.status !== 'concluido' && (
+                  <p className="text-red-500 truncate" title={item.erro}>{item.erro}</p>
+                )}
+              </div>
+              {(item.status === 'aguardando' || item.status === 'processando') && (
+                <button
+                  onClick={() => servicoLote.cancelar(item.id)}
+                  aria-label={t('lote.cancelarArquivo')}
+                  title={t('lote.cancelarArquivo')}
+                  className="shrink-0 px-2 py-1 text-gray-400 hover:text-red-500 transition-colors"
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {!emAndamento && (
+          <p className="mt-2 text-xs text-gray-500">
+            {t('lote.finalizado', { concluidos, falharam })}
+          </p>
+        )}
+
+        {/* Controles */}
+        <div className="mt-3 flex flex-wrap gap-2 text-xs">
+          {emAndamento && (
+            <>
+              <button
+                onClick={() => (pausado ? servicoLote.retomar() : servicoLote.pausar())}
+                className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded transition-colors"
+              >
+                {t(pausado ? 'lote.retomar' : 'lote.pausar')}
+              </button>
+              <button
+                onClick={() => servicoLote.cancelar()}
+                className="px-3 py-1 bg-gray-100 hover:bg-red-100 text-red-600 rounded transition-colors"
+              >
+                {t('lote.cancelarTodos')}
+              </button>
+            </>
+          )}
+          {!emAndamento && (
+            <>
+              <button
+                onClick={handleDownloadAll}
+                disabled={concluidos === 0}
+                className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('lote.baixarTodos')}
+              </button>
+              <button
+                onClick={() => servicoLote.limpar()}
+                className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded transition-colors"
+              >
+                {t('lote.limpar')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
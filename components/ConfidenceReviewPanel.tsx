@@ -0,0 +1,112 @@
+import React from 'react';
+import { ResumoConfianca } from '../services/confidenceReviewService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ConfidenceReviewPanelProps {
+  summary: ResumoConfianca;
+  threshold: number; // Limite de confiança (0-1) abaixo do qual a palavra precisa de revisão
+  isColoringOn: boolean;
+  onToggleColoring: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  // Ausente quando nenhuma palavra incerta está selecionada na revisão
+  onMarkVerified?: () => void;
+}
+
+/**
+ * Histograma da confiança das palavras e navegação entre as palavras incertas
+ */
+export const ConfidenceReviewPanel: React.FC<ConfidenceReviewPanelProps> = ({
+  summary,
+  threshold,
+  isColoringOn,
+  onToggleColoring,
+  onPrevious,
+  onNext,
+  onMarkVerified
+}) => {
+  const { t } = useTranslation();
+
+  if (summary.comConfianca === 0) return null;
+
+  const largestBin = Math.max(...summary.faixas, 1);
+  const lowConfidence = summary.pendentes + summary.revisadas;
+
+  return (
+    <div className="mb-4 p-3 bg-white/5 rounded-lg border border-white/10 space-y-3">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex items-end gap-0.5 h-12" title={t('confianca.histogramaDica')}>
+          {summary.faixas.map((count, index) => {
+            const binStart = index / summary.faixas.length;
+            return (
+              <div
+                key={index}
+                className={`w-3 rounded-sm ${binStart < threshold ? 'bg-red-400/80' : 'bg-emerald-400/70'}`}
+                style={{ height: `${Math.max(count > 0 ? 8 : 2, (count / largestBin) * 100)}%` }}
+                title={t('confianca.faixa', {
+                  inicio: Math.round(binStart * 100),
+                  fim: Math.round(((index + 1) / summary.faixas.length) * 100),
+                  quantidade: count
+                })}
+              />
+            );
+          })}
+        </div>
+        <div className="text-xs text-white/60 space-y-0.5">
+          <div>{t('confianca.media', { valor: summary.media !== null ? Math.round(summary.media * 100) : 0 })}</div>
+          <div>
+            {t('confianca.abaixoDoLimite', {
+              quantidade: lowConfidence,
+              percentual: Math.round((lowConfidence / summary.comConfianca) * 100),
+              limite: Math.round(threshold * 100)
+            })}
+          </div>
+          <div className={summary.pendentes > 0 ? 'text-amber-300' : 'text-emerald-300'}>
+            {summary.pendentes > 0
+              ? t('confianca.pendentes', { quantidade: summary.pendentes })
+              : t('confianca.tudoRevisado')}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={onToggleColoring}
+          className={`px-3 py-1.5 text-xs rounded-lg transition-all ${
+            isColoringOn
+              ? 'bg-cyan-500 text-white hover:bg-cyan-600'
+              : 'glass-button text-white/70 hover:text-white hover:bg-white/10'
+          }`}
+          aria-pressed={isColoringOn}
+        >
+          {t('confianca.colorir')}
+        </button>
+        <button
+          onClick={onPrevious}
+          disabled={summary.pendentes === 0}
+          className="px-3 py-1.5 text-xs rounded-lg glass-button text-white/70 hover:text-white hover:bg-white/10 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          title={t('confianca.anteriorDica')}
+        >
+          {t('confianca.anterior')}
+        </button>
+        <button
+          onClick={onNext}
+          disabled={summary.pendentes === 0}
+          className="px-3 py-1.5 text-xs rounded-lg glass-button text-white/70 hover:text-white hover:bg-white/10 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          title={t('confianca.proximaDica')}
+        >
+          {t('confianca.proxima')}
+        </button>
+        {onMarkVerified && (
+          <button
+            onClick={onMarkVerified}
+            className="px-3 py-1.5 text-xs rounded-lg bg-emerald-500 text-white hover:bg-emerald-600 transition-all"
+            title={t('confianca.verificarDica')}
+          >
+            {t('confianca.verificar')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React, { useEffect, useState, useCallback } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface FeedbackProps {
   type: 'success' | 'error' | 'warning' | 'info';
@@ -36,6 +37,7 @@ export const Feedback: React.FC<FeedbackProps> = ({
   onClose, 
   autoClose = true 
 }) => {
+  const { t } = useTranslation();
   const [isVisible, setIsVisible] = useState(true);
   const [isDark, setIsDark] = useState(false);
 
@@ -103,7 +105,7 @@ export const Feedback: React.FC<FeedbackProps> = ({
         <button
           onClick={handleClose}
           className="flex-shrink-0 ml-2 text-lg hover:opacity-70 transition-opacity"
-          aria-label="Fechar notificação"
+          aria-label={t('feedback.fechar')}
         >
           ×
         </button>
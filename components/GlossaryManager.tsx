@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { CloseIcon } from './icons/CloseIcon';
+import { separarVariantes, TermoGlossario } from '../services/glossaryService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface GlossaryManagerProps {
+  glossary: TermoGlossario[];
+  onChange: (glossary: TermoGlossario[]) => void;
+}
+
+const EMPTY_FORM = { term: '', pronunciation: '', variants: '' };
+
+/**
+ * Cadastro dos termos do glossário: grafia correta, pronúncia e grafias erradas frequentes
+ */
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossary, onChange }) => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const inputClass = 'w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-brand-text focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none';
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const termo = form.term.trim();
+    if (!termo) return;
+
+    const item: TermoGlossario = {
+      id: editingId ?? `termo_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      termo,
+      pronuncia: form.pronunciation.trim() || undefined,
+      variantes: separarVariantes(form.variants)
+    };
+    onChange(editingId ? glossary.map(atual => (atual.id === editingId ? item : atual)) : [...glossary, item]);
+    resetForm();
+  };
+
+  const handleEdit = (item: TermoGlossario) => {
+    setEditingId(item.id);
+    setForm({ term: item.termo, pronunciation: item.pronuncia ?? '', variants: item.variantes.join(', ') });
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(glossary.filter(item => item.id !== id));
+    if (editingId === id) resetForm();
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-brand-text-secondary">{t('glossario.ajuda')}</p>
+
+      <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-2">
+        <div>
+          <label htmlFor="glossaryTerm" className="block text-sm font-medium text-brand-text-secondary mb-2">
+            {t('glossario.termo')}
+          </label>
+          <input
+            id="glossaryTerm"
+            type="text"
+            value={form.term}
+            onChange={(e) => setForm({ ...form, term: e.target.value })}
+            placeholder={t('glossario.termoPlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="glossaryPronunciation" className="block text-sm font-medium text-brand-text-secondary mb-2">
+            {t('glossario.pronuncia')}
+          </label>
+          <input
+            id="glossaryPronunciation"
+            type="text"
+            value={form.pronunciation}
+            onChange={(e) => setForm({ ...form, pronunciation: e.target.value })}
+            placeholder={t('glossario.pronunciaPlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="glossaryVariants" className="block text-sm font-medium text-brand-text-secondary mb-2">
+            {t('glossario.variantes')}
+          </label>
+          <input
+            id="glossaryVariants"
+            type="text"
+            value={form.variants}
+            onChange={(e) => setForm({ ...form, variants: e.target.value })}
+            placeholder={t('glossario.variantesPlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2 flex justify-end gap-3">
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors">
+              {t('comum.cancelar')}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!form.term.trim()}
+            className="px-4 py-2 bg-brand-primary text-gray-900 rounded-md hover:bg-brand-primary-hover transition-colors disabled:opacity-50"
+          >
+            {t(editingId ? 'glossario.salvarTermo' : 'glossario.adicionar')}
+          </button>
+        </div>
+      </form>
+
+      {glossary.length === 0 ? (
+        <p className="text-sm text-brand-text-secondary text-center py-6">{t('glossario.vazio')}</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-700 border border-gray-700 rounded-md">
+          {glossary.map(item => (
+            <li key={item.id} className="flex items-start justify-between gap-3 p-3">
+              <button onClick={() => handleEdit(item)} className="min-w-0 text-left" title={t('glossario.editar')}>
+                <p className="text-brand-text font-medium">
+                  {item.termo}
+                  {item.pronuncia && <span className="ml-2 text-xs text-brand-text-secondary">/{item.pronuncia}/</span>}
+                </p>
+                {item.variantes.length > 0 && (
+                  <p className="text-xs text-brand-text-secondary truncate">
+                    {t('glossario.corrige', { variantes: item.variantes.join(', ') })}
+                  </p>
+                )}
+              </button>
+              <button
+                onClick={() => handleRemove(item.id)}
+                className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                aria-label={t('glossario.remover', { termo: item.termo })}
+                title={t('glossario.remover', { termo: item.termo })}
+              >
+                <CloseIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useMemo, useState } from 'react';
+import { CloseIcon } from './icons/CloseIcon';
+import { AlteracaoGlossario, resumirAlteracoes } from '../services/glossaryService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface GlossaryReportProps {
+  changes: AlteracaoGlossario[];
+  // Leva o player ao ponto da correção (em segundos)
+  onSeek: (tempo: number) => void;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Relatório das correções feitas pelo glossário; clicar em um tempo leva o áudio ao trecho
+ */
+export const GlossaryReport: React.FC<GlossaryReportProps> = ({ changes, onSeek }) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const groups = useMemo(() => resumirAlteracoes(changes), [changes]);
+
+  if (changes.length === 0 || isDismissed) return null;
+
+  return (
+    <div className="mb-4 p-3 bg-emerald-500/10 rounded-lg border border-emerald-400/30">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="text-sm text-emerald-200 hover:text-white transition-colors text-left"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? '▾' : '▸'} {t('glossario.correcoes', { quantidade: changes.length })}
+        </button>
+        <button onClick={() => setIsDismissed(true)} className="p-1 text-white/60 hover:text-white transition-colors" title={t('comum.fechar')}>
+          <CloseIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {groups.map(group => (
+            <li key={`${group.original}-${group.corrigido}`} className="flex flex-wrap items-center gap-2">
+              <span className="text-white/50 line-through">{group.original}</span>
+              <span className="text-white/40">→</span>
+              <span className="text-white/90 font-medium">{group.corrigido}</span>
+              {group.quantidade > 1 && <span className="text-xs text-white/50">×{group.quantidade}</span>}
+              <span className="flex flex-wrap gap-1">
+                {group.inicios.map((inicio, index) => (
+                  <button
+                    key={index}
+                    onClick={() => onSeek(inicio)}
+                    className="text-xs font-mono text-cyan-300 hover:text-white transition-colors"
+                    title={t('resumo.irParaTrecho')}
+                  >
+                    {formatTime(inicio)}
+                  </button>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import learningAlgorithmService from '../services/learningAlgorithmService';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface RelatorioProgresso {
   resumoGeral: {
@@ -35,6 +36,7 @@ interface LearningReportProps {
 }
 
 const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) => {
+  const { t, language } = useTranslation();
   const [relatorio, setRelatorio] = useState<RelatorioProgresso | null>(null);
   const [recomendacoes, setRecomendacoes] = useState<Recomendacao[]>([]);
   const [carregando, setCarregando] = useState(false);
@@ -60,7 +62,7 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
       setRecomendacoes(recomendacoesData);
     } catch (error) {
       console.error('Erro ao carregar dados do relatório:', error);
-      setErro('Erro ao carregar dados do relatório de aprendizado');
+      setErro(t('relatorio.erroCarregar'));
     } finally {
       setCarregando(false);
     }
@@ -71,7 +73,7 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
   };
 
   const formatarData = (data: Date): string => {
-    return new Intl.DateTimeFormat('pt-BR', {
+    return new Intl.DateTimeFormat(language, {
       day: '2-digit',
       month: '2-digit',
       year: 'numeric',
@@ -103,10 +105,11 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
       <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto m-4">
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold text-gray-800">Relatório de Aprendizado</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('relatorio.titulo')}</h2>
             <button
               onClick={onClose}
               className="text-gray-500 hover:text-gray-700 text-2xl font-bold"
+              aria-label={t('comum.fechar')}
             >
               ×
             </button>
@@ -115,7 +118,7 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
           {carregando && (
             <div className="flex justify-center items-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-              <span className="ml-2 text-gray-600">Carregando dados...</span>
+              <span className="ml-2 text-gray-600">{t('relatorio.carregando')}</span>
             </div>
           )}
 
@@ -129,69 +132,69 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
             <div className="space-y-6">
               {/* Resumo Geral */}
               <div className="bg-gray-50 rounded-lg p-4">
-                <h3 className="text-lg font-semibold mb-4 text-gray-800">Resumo Geral</h3>
+                <h3 className="text-lg font-semibold mb-4 text-gray-800">{t('relatorio.resumoGeral')}</h3>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="text-center">
                     <div className="text-2xl font-bold text-blue-600">{relatorio.resumoGeral.totalPalavras}</div>
-                    <div className="text-sm text-gray-600">Total de Palavras</div>
+                    <div className="text-sm text-gray-600">{t('relatorio.totalPalavras')}</div>
                   </div>
                   <div className="text-center">
                     <div className="text-2xl font-bold text-green-600">
                       {formatarPorcentagem(relatorio.resumoGeral.precisaoMedia)}
                     </div>
-                    <div className="text-sm text-gray-600">Precisão Média</div>
+                    <div className="text-sm text-gray-600">{t('relatorio.precisaoMedia')}</div>
                   </div>
                   <div className="text-center">
                     <div className={`text-2xl font-bold ${obterCorTendencia(relatorio.estatisticasDetalhadas.tendenciaAprendizado)}`}>
                       {formatarPorcentagem(Math.abs(relatorio.resumoGeral.melhoriaGeral))}
                     </div>
-                    <div className="text-sm text-gray-600">Melhoria Geral</div>
+                    <div className="text-sm text-gray-600">{t('relatorio.melhoriaGeral')}</div>
                   </div>
                   <div className="text-center">
                     <div className="text-sm font-medium text-gray-800">
                       {formatarData(relatorio.resumoGeral.ultimaAtualizacao)}
                     </div>
-                    <div className="text-sm text-gray-600">Última Atualização</div>
+                    <div className="text-sm text-gray-600">{t('relatorio.ultimaAtualizacao')}</div>
                   </div>
                 </div>
               </div>
 
               {/* Estatísticas Detalhadas */}
               <div className="bg-gray-50 rounded-lg p-4">
-                <h3 className="text-lg font-semibold mb-4 text-gray-800">Estatísticas Detalhadas</h3>
+                <h3 className="text-lg font-semibold mb-4 text-gray-800">{t('relatorio.estatisticas')}</h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="bg-white rounded p-3 border">
                     <div className="text-lg font-bold text-green-600">
                       {relatorio.estatisticasDetalhadas.palavrasComAltoAprendizado}
                     </div>
-                    <div className="text-sm text-gray-600">Palavras com Alto Aprendizado ({'>'}80%)</div>
+                    <div className="text-sm text-gray-600">{t('relatorio.altoAprendizado')}</div>
                   </div>
                   <div className="bg-white rounded p-3 border">
                     <div className="text-lg font-bold text-red-600">
                       {relatorio.estatisticasDetalhadas.palavrasComBaixoAprendizado}
                     </div>
-                    <div className="text-sm text-gray-600">Palavras com Baixo Aprendizado ({'<'}50%)</div>
+                    <div className="text-sm text-gray-600">{t('relatorio.baixoAprendizado')}</div>
                   </div>
                   <div className="bg-white rounded p-3 border">
                     <div className={`text-lg font-bold ${obterCorTendencia(relatorio.estatisticasDetalhadas.tendenciaAprendizado)}`}>
-                      {relatorio.estatisticasDetalhadas.tendenciaAprendizado.toUpperCase()}
+                      {t(`relatorio.tendencia.${relatorio.estatisticasDetalhadas.tendenciaAprendizado}` as const).toUpperCase()}
                     </div>
-                    <div className="text-sm text-gray-600">Tendência de Aprendizado</div>
+                    <div className="text-sm text-gray-600">{t('relatorio.tendencia')}</div>
                   </div>
                 </div>
               </div>
 
               {/* Top Palavras */}
               <div className="bg-gray-50 rounded-lg p-4">
-                <h3 className="text-lg font-semibold mb-4 text-gray-800">Top 10 Palavras por Melhoria</h3>
+                <h3 className="text-lg font-semibold mb-4 text-gray-800">{t('relatorio.topPalavras')}</h3>
                 <div className="overflow-x-auto">
                   <table className="min-w-full bg-white rounded border">
                     <thead className="bg-gray-100">
                       <tr>
-                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Palavra</th>
-                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Precisão</th>
-                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Frequência</th>
-                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">Score de Melhoria</th>
+                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">{t('relatorio.palavra')}</th>
+                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">{t('relatorio.precisao')}</th>
+                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">{t('relatorio.frequencia')}</th>
+                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-700">{t('relatorio.scoreMelhoria')}</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -211,7 +214,7 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
               {/* Recomendações */}
               {recomendacoes.length > 0 && (
                 <div className="bg-gray-50 rounded-lg p-4">
-                  <h3 className="text-lg font-semibold mb-4 text-gray-800">Recomendações de Melhoria</h3>
+                  <h3 className="text-lg font-semibold mb-4 text-gray-800">{t('relatorio.recomendacoes')}</h3>
                   <div className="space-y-3">
                     {recomendacoes.map((recomendacao, index) => (
                       <div key={`recomendacao-${index}`} className="bg-white rounded border p-3">
@@ -219,9 +222,9 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <span className={`px-2 py-1 rounded text-xs font-medium border ${obterCorPrioridade(recomendacao.prioridade)}`}>
-                                {recomendacao.prioridade.toUpperCase()}
+                                {t(`relatorio.prioridade.${recomendacao.prioridade}` as const).toUpperCase()}
                               </span>
-                              <span className="text-xs text-gray-500 uppercase">{recomendacao.tipo}</span>
+                              <span className="text-xs text-gray-500 uppercase">{t(`relatorio.tipo.${recomendacao.tipo}` as const)}</span>
                             </div>
                             <div className="text-sm font-medium text-gray-900 mb-1">{recomendacao.descricao}</div>
                             <div className="text-sm text-gray-600">{recomendacao.acao}</div>
@@ -240,7 +243,7 @@ const LearningReport: React.FC<LearningReportProps> = ({ isVisible, onClose }) =
                   disabled={carregando}
                   className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-2 rounded-lg font-medium transition-colors"
                 >
-                  {carregando ? 'Atualizando...' : 'Atualizar Dados'}
+                  {t(carregando ? 'comum.atualizando' : 'relatorio.atualizar')}
                 </button>
               </div>
             </div>
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ItemBiblioteca } from '../services/libraryService';
+import buscaSemanticaService from '../services/semanticSearchService';
+import { dividirRespostaEmPartes, FonteResposta, responderPergunta } from '../services/libraryQuestionService';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface LibraryQuestionPanelProps {
+  // Abre a transcrição citada com o player no início do trecho (em segundos)
+  onOpenSource: (item: ItemBiblioteca, startTime: number) => void;
+}
+
+interface MensagemConversa {
+  id: number;
+  pergunta: string;
+  resposta: string;
+  fontes: FonteResposta[];
+  citadas: FonteResposta[];
+  status: 'buscando' | 'respondendo' | 'concluida' | 'erro';
+  erro?: string;
+}
+
+// Trechos da biblioteca enviados ao modelo em cada pergunta
+const LIMITE_FONTES = 12;
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Conversa com a biblioteca: cada pergunta busca os trechos mais próximos e o Gemini responde
+ * citando as gravações, com links que abrem o áudio no momento citado
+ */
+export const LibraryQuestionPanel: React.FC<LibraryQuestionPanelProps> = ({ onOpenSource }) => {
+  const { t, language } = useTranslation();
+  const { apiKey } = useApiKey();
+  const [pergunta, setPergunta] = useState('');
+  const [conversa, setConversa] = useState<MensagemConversa[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+  const fimConversaRef = useRef<HTMLDivElement>(null);
+  const proximoIdRef = useRef(0);
+
+  const ocupado = conversa.some(mensagem => mensagem.status === 'buscando' || mensagem.status === 'respondendo');
+
+  // Cancela a resposta em andamento ao fechar o painel
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    fimConversaRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [conversa]);
+
+  const atualizarMensagem = (id: number, alteracao: Partial<MensagemConversa>) => {
+    setConversa(prev => prev.map(mensagem => (mensagem.id === id ? { ...mensagem, ...alteracao } : mensagem)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const texto = pergunta.trim();
+    if (!texto || ocupado) return;
+
+    const id = proximoIdRef.current++;
+    setConversa(prev => [...prev, { id, pergunta: texto, resposta: '', fontes: [], citadas: [], status: 'buscando' }]);
+    setPergunta('');
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      await buscaSemanticaService.atualizarIndice();
+      const resultados = await buscaSemanticaService.buscar(texto, LIMITE_FONTES);
+      if (controller.signal.aborted) return;
+      if (resultados.length === 0) {
+        atualizarMensagem(id, { status: 'erro', erro: t('perguntas.semTrechos') });
+        return;
+      }
+
+      atualizarMensagem(id, { status: 'respondendo' });
+      const resultado = await responderPergunta(
+        texto,
+        resultados,
+        apiKey,
+        language,
+        textoAcumulado => atualizarMensagem(id, { resposta: textoAcumulado }),
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+
+      if (resultado.success && resultado.data) {
+        const { texto: resposta, fontes, citadas } = resultado.data;
+        atualizarMensagem(id, { resposta, fontes, citadas, status: 'concluida' });
+      } else {
+        atualizarMensagem(id, { status: 'erro', erro: resultado.error ?? t('perguntas.erro') });
+      }
+    } catch (error) {
+      console.error('❌ [PERGUNTAS] Erro ao buscar os trechos da pergunta:', error);
+      atualizarMensagem(id, { status: 'erro', erro: t('buscaSemantica.erroIndexar') });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  };
+
+  const renderCitacao = (fonte: FonteResposta, chave: React.Key) => (
+    <button
+      key={chave}
+      onClick={() => onOpenSource(fonte.item, fonte.trecho.inicio)}
+      className="mx-0.5 px-1.5 py-0.5 align-baseline text-xs font-mono text-cyan-300 bg-cyan-500/10 border border-cyan-500/30 rounded hover:bg-cyan-500/25 transition-colors"
+      title={t('perguntas.abrirFonte', { nome: fonte.item.nomeArquivo, tempo: formatTime(fonte.trecho.inicio) })}
+    >
+      {fonte.numero}
+    </button>
+  );
+
+  const renderFontes = (mensagem: MensagemConversa) => {
+    // Sem citações no texto, os trechos consultados continuam disponíveis para conferência
+    const lista = mensagem.citadas.length > 0 ? mensagem.citadas : mensagem.fontes;
+    if (lista.length === 0) return null;
+
+    return (
+      <div className="mt-3 pt-3 border-t border-white/10">
+        <p className="text-xs font-semibold text-gray-400 mb-2">
+          {t(mensagem.citadas.length > 0 ? 'perguntas.fontes' : 'perguntas.trechosConsultados')}
+        </p>
+        <ul className="space-y-1">
+          {lista.map(fonte => (
+            <li key={fonte.numero}>
+              <button
+                onClick={() => onOpenSource(fonte.item, fonte.trecho.inicio)}
+                className="w-full flex items-center gap-2 text-left text-xs text-gray-300 hover:text-white transition-colors"
+              >
+                <span className="font-mono text-cyan-300">[{fonte.numero}]</span>
+                <span className="truncate">{fonte.item.nomeArquivo}</span>
+                <span className="shrink-0 text-gray-500">
+                  {new Date(fonte.item.criadoEm).toLocaleDateString(language)} · {formatTime(fonte.trecho.inicio)}–{formatTime(fonte.trecho.fim)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-4 max-h-[32rem] overflow-y-auto custom-scrollbar">
+        {conversa.length === 0 && (
+          <p className="text-center text-gray-400">{t('perguntas.ajuda')}</p>
+        )}
+
+        {conversa.map(mensagem => (
+          <div key={mensagem.id} className="space-y-2">
+            <p className="ml-auto max-w-[85%] w-fit px-4 py-2 bg-cyan-500/20 border border-cyan-500/30 rounded-xl text-white text-sm">
+              {mensagem.pergunta}
+            </p>
+            <div className="max-w-[95%] p-4 bg-white/5 border border-white/10 rounded-xl text-sm text-gray-200">
+              {mensagem.status === 'erro' ? (
+                <p className="text-red-400">{mensagem.erro}</p>
+              ) : mensagem.resposta ? (
+                <p className="whitespace-pre-wrap leading-relaxed">
+                  {dividirRespostaEmPartes(mensagem.resposta, mensagem.fontes).map((parte, indice) => (
+                    parte.tipo === 'texto' ? <React.Fragment key={indice}>{parte.texto}</React.Fragment> : renderCitacao(parte.fonte, indice)
+                  ))}
+                </p>
+              ) : (
+                <p className="text-gray-400">{t(mensagem.status === 'buscando' ? 'perguntas.buscando' : 'perguntas.respondendo')}</p>
+              )}
+              {mensagem.status === 'concluida' && renderFontes(mensagem)}
+            </div>
+          </div>
+        ))}
+        <div ref={fimConversaRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={pergunta}
+          onChange={(e) => setPergunta(e.target.value)}
+          placeholder={t('perguntas.placeholder')}
+          className="flex-1 p-3 bg-gray-700/50 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+          disabled={!apiKey}
+          autoFocus
+        />
+        <button
+          type="submit"
+          disabled={!apiKey || ocupado || !pergunta.trim()}
+          className="px-4 bg-cyan-500 text-white font-semibold rounded-xl hover:bg-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('perguntas.enviar')}
+        </button>
+      </form>
+      {!apiKey && (
+        <p className="text-xs text-yellow-300">{t('perguntas.semChave')}</p>
+      )}
+    </div>
+  );
+};
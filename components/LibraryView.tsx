@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FileIcon } from './icons/FileIcon';
+import { CloseIcon } from './icons/CloseIcon';
+import { SemanticSearchResults } from './SemanticSearchResults';
+import { LibraryQuestionPanel } from './LibraryQuestionPanel';
+import { SyncConflictDialog } from './SyncConflictDialog';
+import bibliotecaService, { ItemBiblioteca, ResultadoBuscaBiblioteca } from '../services/libraryService';
+import sincronizacaoBibliotecaService, {
+  ConflitoSincronizacao,
+  EscolhaConflito,
+  SincronizacaoIndisponivelError
+} from '../services/librarySyncService';
+import { StatusSincronizacao } from '../services/syncPlanService';
+import { useTranslation } from '../hooks/useTranslation';
+import { ChaveTraducao } from '../i18n';
+
+interface LibraryViewProps {
+  // Com startTime, o player começa no trecho encontrado pela busca semântica ou citado em uma resposta (em segundos)
+  onOpenItem: (item: ItemBiblioteca, startTime?: number) => void;
+  onClose: () => void;
+}
+
+type ModoBiblioteca = 'texto' | 'significado' | 'perguntas';
+
+const ROTULOS_MODO: Record<ModoBiblioteca, { rotulo: ChaveTraducao; dica: ChaveTraducao }> = {
+  texto: { rotulo: 'biblioteca.modoTexto', dica: 'biblioteca.modoTextoDica' },
+  significado: { rotulo: 'biblioteca.modoSignificado', dica: 'biblioteca.modoSignificadoDica' },
+  perguntas: { rotulo: 'biblioteca.modoPerguntas', dica: 'biblioteca.modoPerguntasDica' }
+};
+
+const CORES_STATUS: Record<StatusSincronizacao, string> = {
+  naoEnviado: 'text-gray-400 bg-white/5',
+  pendente: 'text-yellow-300 bg-yellow-500/10',
+  sincronizado: 'text-green-300 bg-green-500/10',
+  conflito: 'text-red-300 bg-red-500/20 hover:bg-red-500/30'
+};
+
+const formatarDuracao = (segundos: number): string => {
+  const minutos = Math.floor(segundos / 60);
+  const resto = Math.floor(segundos % 60);
+  return `${minutos}:${resto.toString().padStart(2, '0')}`;
+};
+
+export const LibraryView: React.FC<LibraryViewProps> = ({ onOpenItem, onClose }) => {
+  const { t, language } = useTranslation();
+  const [consulta, setConsulta] = useState('');
+  // Busca pelo texto exato, pelo significado (trechos de toda a biblioteca) ou perguntas sobre as gravações
+  const [modo, setModo] = useState<ModoBiblioteca>('texto');
+  const [resultados, setResultados] = useState<ResultadoBuscaBiblioteca[]>([]);
+  const [carregando, setCarregando] = useState(true);
+  const [erro, setErro] = useState<string | null>(null);
+  const [statusSincronizacao, setStatusSincronizacao] = useState<Map<string, StatusSincronizacao>>(new Map());
+  const [sincronizando, setSincronizando] = useState(false);
+  const [mensagemSincronizacao, setMensagemSincronizacao] = useState<string | null>(null);
+  const [conflitoAberto, setConflitoAberto] = useState<ConflitoSincronizacao | null>(null);
+  const [resolvendo, setResolvendo] = useState(false);
+  // Incrementado a cada sincronização, para recarregar a lista com os itens recebidos e os status novos
+  const [rodadaSincronizacao, setRodadaSincronizacao] = useState(0);
+
+  const carregar = useCallback(async (termo: string) => {
+    setCarregando(true);
+    try {
+      const encontrados = await bibliotecaService.buscar(termo);
+      setResultados(encontrados);
+      setStatusSincronizacao(await sincronizacaoBibliotecaService.listarStatus(encontrados.map(resultado => resultado.item)));
+      setErro(null);
+    } catch (error) {
+      console.error('❌ [BIBLIOTECA] Erro ao carregar a biblioteca:', error);
+      setErro(t('biblioteca.erroCarregar'));
+    } finally {
+      setCarregando(false);
+    }
+  }, [t]);
+
+  // Debounce da busca enquanto o usuário digita
+  useEffect(() => {
+    const timeoutId = setTimeout(() => carregar(consulta), 250);
+    return () => clearTimeout(timeoutId);
+  }, [consulta, carregar, rodadaSincronizacao]);
+
+  const sincronizar = useCallback(async () => {
+    setSincronizando(true);
+    try {
+      const resumo = await sincronizacaoBibliotecaService.sincronizar();
+      setMensagemSincronizacao([
+        t('sincronizacao.concluida', { enviados: resumo.enviados, recebidos: resumo.recebidos, removidos: resumo.removidos }),
+        resumo.conflitos > 0 ? t('sincronizacao.comConflitos', { quantidade: resumo.conflitos }) : null,
+        resumo.falhas > 0 ? t('sincronizacao.comFalhas', { quantidade: resumo.falhas }) : null
+      ].filter(Boolean).join(' · '));
+    } catch (error) {
+      if (error instanceof SincronizacaoIndisponivelError) {
+        setMensagemSincronizacao(t('sincronizacao.indisponivel'));
+      } else {
+        console.error('❌ [BIBLIOTECA] Erro ao sincronizar:', error);
+        setMensagemSincronizacao(t('sincronizacao.erro'));
+      }
+    } finally {
+      setSincronizando(false);
+      setRodadaSincronizacao(rodada => rodada + 1);
+    }
+  }, [t]);
+
+  // Sincroniza ao abrir a biblioteca, para levar as edições feitas sem internet
+  useEffect(() => {
+    sincronizar();
+  }, [sincronizar]);
+
+  const handleOpenConflict = async (item: ItemBiblioteca) => {
+    setConflitoAberto(await sincronizacaoBibliotecaService.obterConflito(item.id));
+  };
+
+  const handleResolveConflict = async (escolha: EscolhaConflito) => {
+    if (!conflitoAberto) return;
+    const { item } = conflitoAberto;
+
+    setResolvendo(true);
+    try {
+      if (await sincronizacaoBibliotecaService.resolverConflito(item.id, escolha)) {
+        setConflitoAberto(null);
+      } else {
+        // O servidor mudou de novo: o diálogo passa a comparar com a versão mais recente
+        setMensagemSincronizacao(t('sincronizacao.mudouDeNovo'));
+        setConflitoAberto(await sincronizacaoBibliotecaService.obterConflito(item.id));
+      }
+    } catch (error) {
+      if (error instanceof SincronizacaoIndisponivelError) {
+        setMensagemSincronizacao(t('sincronizacao.indisponivel'));
+      } else {
+        console.error('❌ [BIBLIOTECA] Erro ao resolver conflito:', error);
+        setMensagemSincronizacao(t('sincronizacao.erro'));
+      }
+      setConflitoAberto(null);
+    } finally {
+      setResolvendo(false);
+      setRodadaSincronizacao(rodada => rodada + 1);
+    }
+  };
+
+  const handleRemove = async (item: ItemBiblioteca) => {
+    if (!window.confirm(t('biblioteca.confirmarRemocao', { nome: item.nomeArquivo }))) return;
+
+    try {
+      await bibliotecaService.remover(item.id);
+      setResultados(prev => prev.filter(resultado => resultado.item.id !== item.id));
+    } catch (error) {
+      console.error('❌ [BIBLIOTECA] Erro ao remover item:', error);
+      setErro(t('biblioteca.erroRemover'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white">{t('biblioteca.titulo')}</h2>
+          <p className="text-gray-400 text-sm">{t('biblioteca.subtitulo')}</p>
+          {mensagemSincronizacao && (
+            <p className="mt-1 text-xs text-gray-400">{mensagemSincronizacao}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={sincronizar}
+            disabled={sincronizando}
+            className="px-3 py-2 text-sm text-gray-300 border border-gray-600 rounded-xl hover:bg-white/10 transition-colors disabled:opacity-50"
+            title={t('sincronizacao.dica')}
+          >
+            {t(sincronizando ? 'sincronizacao.sincronizando' : 'sincronizacao.sincronizar')}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white transition-colors"
+            aria-label={t('biblioteca.fechar')}
+          >
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {modo !== 'perguntas' && (
+          <input
+            type="search"
+            value={consulta}
+            onChange={(e) => setConsulta(e.target.value)}
+            placeholder={t(modo === 'texto' ? 'biblioteca.buscar' : 'buscaSemantica.placeholder')}
+            className="flex-1 p-3 bg-gray-700/50 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+            autoFocus
+          />
+        )}
+        <div className="flex rounded-xl border border-gray-600 overflow-hidden text-sm" role="group">
+          {(Object.keys(ROTULOS_MODO) as ModoBiblioteca[]).map(opcao => (
+            <button
+              key={opcao}
+              onClick={() => setModo(opcao)}
+              className={`px-3 py-2 transition-colors ${modo === opcao ? 'bg-cyan-500 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+              aria-pressed={modo === opcao}
+              title={t(ROTULOS_MODO[opcao].dica)}
+            >
+              {t(ROTULOS_MODO[opcao].rotulo)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {modo === 'perguntas' ? (
+        <LibraryQuestionPanel onOpenSource={onOpenItem} />
+      ) : modo === 'significado' ? (
+        <SemanticSearchResults query={consulta} onOpenResult={onOpenItem} />
+      ) : (
+        <>
+          {erro && (
+            <p className="text-red-400 text-sm">{erro}</p>
+          )}
+
+          {carregando && resultados.length === 0 ? (
+            <p className="text-center text-gray-400">{t('comum.carregando')}</p>
+          ) : resultados.length === 0 ? (
+            <p className="text-center text-gray-400">
+              {t(consulta ? 'biblioteca.nenhumaEncontrada' : 'biblioteca.vazia')}
+            </p>
+          ) : (
+            <ul className="space-y-3 max-h-[32rem] overflow-y-auto custom-scrollbar">
+              {resultados.map(({ item, ocorrencias, trecho }) => (
+                <li
+                  key={item.id}
+                  className="p-4 bg-white/5 border border-white/10 rounded-xl hover:bg-white/10 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <button
+                      onClick={() => onOpenItem(item)}
+                      className="flex-1 text-left"
+                      title={t('biblioteca.abrir')}
+                    >
+                      <div className="flex items-center gap-2 text-white font-semibold">
+                        <FileIcon className="w-5 h-5 text-cyan-400 shrink-0" />
+                        <span className="truncate">{item.nomeArquivo}</span>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-400">
+                        {new Date(item.criadoEm).toLocaleString(language)} · {formatarDuracao(item.duracao)} · {t('comum.palavras', { quantidade: item.transcricao.length })}
+                        {consulta && ocorrencias > 0 && ` · ${t(ocorrencias > 1 ? 'biblioteca.ocorrencias' : 'biblioteca.ocorrencia', { quantidade: ocorrencias })}`}
+                        {!item.audio && !item.audioUrlRemota && ` · ${t('biblioteca.semAudio')}`}
+                      </div>
+                      {trecho && (
+                        <p className="mt-2 text-sm text-gray-300 line-clamp-2">{trecho}</p>
+                      )}
+                    </button>
+                    <div className="flex flex-col items-end gap-2 shrink-0">
+                      {statusSincronizacao.has(item.id) && (
+                        <SyncStatusBadge
+                          status={statusSincronizacao.get(item.id)!}
+                          onResolve={() => handleOpenConflict(item)}
+                        />
+                      )}
+                      <button
+                        onClick={() => handleRemove(item)}
+                        className="px-3 py-1 text-sm text-red-300 hover:text-white hover:bg-red-500/30 rounded-lg transition-colors"
+                      >
+                        {t('comum.remover')}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {conflitoAberto && (
+        <SyncConflictDialog
+          conflict={conflitoAberto}
+          resolving={resolvendo}
+          onResolve={handleResolveConflict}
+          onClose={() => setConflitoAberto(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const SyncStatusBadge: React.FC<{ status: StatusSincronizacao; onResolve: () => void }> = ({ status, onResolve }) => {
+  const { t } = useTranslation();
+  const classes = `px-2 py-0.5 text-xs rounded-full ${CORES_STATUS[status]}`;
+
+  // Só o conflito pede ação; os demais status são informativos
+  return status === 'conflito' ? (
+    <button onClick={onResolve} className={`${classes} transition-colors`} title={t('sincronizacao.resolver')}>
+      {t('sincronizacao.status.conflito')}
+    </button>
+  ) : (
+    <span className={classes}>{t(`sincronizacao.status.${status}` as const)}</span>
+  );
+};
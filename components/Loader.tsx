@@ -1,26 +1,31 @@
 
 import React from 'react';
 import { Status } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { ChaveTraducao } from '../i18n';
 
 interface LoaderProps {
   status: Status;
 }
 
-const statusMessages: Record<Status, string> = {
-  [Status.Transcribing]: 'Transcrevendo o áudio... isso pode levar um momento.',
-  [Status.Saving]: 'Salvando transcrição no banco de dados...',
-  [Status.Summarizing]: 'Criando resumo com IA...',
-  [Status.Idle]: '',
-  [Status.Done]: '',
-  [Status.Error]: '',
+const statusMessages: Record<Status, ChaveTraducao | null> = {
+  [Status.Transcribing]: 'carregamento.transcrevendo',
+  [Status.Saving]: 'carregamento.salvando',
+  [Status.Summarizing]: 'carregamento.resumindo',
+  [Status.Idle]: null,
+  [Status.Done]: null,
+  [Status.Error]: null,
 }
 
 export const Loader: React.FC<LoaderProps> = ({ status }) => {
+  const { t } = useTranslation();
+  const message = statusMessages[status];
+
   return (
     <div className="flex flex-col items-center justify-center p-8 bg-brand-surface rounded-xl border border-gray-700">
       <div className="w-12 h-12 border-4 border-t-brand-primary border-gray-600 rounded-full animate-spin"></div>
       <p className="mt-4 text-brand-text-secondary font-medium tracking-wide">
-        {statusMessages[status] || 'Processando...'}
+        {message ? t(message) : t('comum.processando')}
       </p>
     </div>
   );
@@ -1,18 +1,23 @@
 import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface NavigationProps {
   currentStep: 'upload' | 'processing' | 'transcription' | 'completed';
   onStepClick?: (step: 'upload' | 'processing' | 'transcription' | 'completed') => void;
+  onOpenLibrary?: () => void;
+  isLibraryOpen?: boolean;
 }
 
 const steps = [
-  { id: 'upload', label: 'Upload de Áudio', icon: '📁' },
-  { id: 'processing', label: 'Processamento', icon: '⚙️' },
-  { id: 'transcription', label: 'Transcrição', icon: '📝' },
-  { id: 'completed', label: 'Concluído', icon: '✅' }
+  { id: 'upload', label: 'navegacao.upload', icon: '📁' },
+  { id: 'processing', label: 'navegacao.processamento', icon: '⚙️' },
+  { id: 'transcription', label: 'navegacao.transcricao', icon: '📝' },
+  { id: 'completed', label: 'navegacao.concluido', icon: '✅' }
 ] as const;
 
-export const Navigation: React.FC<NavigationProps> = ({ currentStep, onStepClick }) => {
+export const Navigation: React.FC<NavigationProps> = ({ currentStep, onStepClick, onOpenLibrary, isLibraryOpen = false }) => {
+  const { t } = useTranslation();
+
   const getCurrentStepIndex = () => {
     return steps.findIndex(step => step.id === currentStep);
   };
@@ -31,6 +36,21 @@ export const Navigation: React.FC<NavigationProps> = ({ currentStep, onStepClick
 
   return (
     <nav className="w-full max-w-3xl mx-auto mb-8">
+      {onOpenLibrary && (
+        <div className="flex justify-end mb-4">
+          <button
+            onClick={onOpenLibrary}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              isLibraryOpen
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600 hover:text-white'
+            }`}
+            aria-pressed={isLibraryOpen}
+          >
+            {t('navegacao.biblioteca')}
+          </button>
+        </div>
+      )}
       <div className="flex items-center justify-between">
         {steps.map((step, index) => {
           const isCompleted = isStepCompleted(index);
@@ -55,7 +75,7 @@ export const Navigation: React.FC<NavigationProps> = ({ currentStep, onStepClick
                         : 'bg-gray-200 text-gray-400 cursor-not-allowed'
                     }
                   `}
-                  aria-label={`${step.label} - ${isCompleted ? 'Concluído' : isCurrent ? 'Atual' : 'Pendente'}`}
+                  aria-label={`${t(step.label)} - ${t(isCompleted ? 'navegacao.estadoConcluido' : isCurrent ? 'navegacao.estadoAtual' : 'navegacao.estadoPendente')}`}
                 >
                   {isCompleted ? '✓' : step.icon}
                 </button>
@@ -69,7 +89,7 @@ export const Navigation: React.FC<NavigationProps> = ({ currentStep, onStepClick
                       : 'text-gray-500'
                   }
                 `}>
-                  {step.label}
+                  {t(step.label)}
                 </span>
               </div>
               {index < steps.length - 1 && (
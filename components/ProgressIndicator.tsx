@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { StatusFila, ObservadorFila, servicoFila } from '../services/queueService';
+import servicoLote, { EstadoLote } from '../services/batchTranscriptionService';
+import servicoProgressoTranscricao, { ProgressoTranscricao } from '../services/transcriptionProgressService';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface ProgressIndicatorProps {
   mostrarDetalhes?: boolean;
@@ -10,15 +13,18 @@ const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
   mostrarDetalhes = false, 
   className = '' 
 }) => {
+  const { t } = useTranslation();
   const [status, setStatus] = useState<StatusFila>({
     total: 0,
     processadas: 0,
     pendentes: 0,
     falharam: 0,
+    canceladas: 0,
     percentualConcluido: 0
   });
   const [visivel, setVisivel] = useState(false);
   const [animacao, setAnimacao] = useState(false);
+  const transcricao = useTranscriptionProgress();
 
   useEffect(() => {
     const observador: ObservadorFila = {
@@ -54,8 +60,10 @@ const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
     };
   }, []);
 
-  // Não renderiza se não há tarefas ou se não está visível
-  if (!visivel || status.total === 0) {
+  const mostrarFila = visivel && status.total > 0;
+
+  // Não renderiza se não há tarefas nem transcrição em andamento
+  if (!mostrarFila && !transcricao.ativo) {
     return null;
   }
 
@@ -78,82 +86,111 @@ const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
           bg-white rounded-lg shadow-lg border p-4 min-w-[300px] max-w-[400px]
           transform transition-all duration-300 ease-in-out
           ${animacao ? 'scale-105' : 'scale-100'}
-          ${visivel ? 'translate-x-0 opacity-100' : 'translate-x-full opacity-0'}
+          ${visivel || transcricao.ativo ? 'translate-x-0 opacity-100' : 'translate-x-full opacity-0'}
         `}
       >
-        {/* Cabeçalho */}
-        <div className="flex items-center justify-between mb-3">
-          <h3 className="text-sm font-semibold text-gray-700">
-            Processando Dados
-          </h3>
-          <div className="flex items-center space-x-2">
-            {status.pendentes > 0 && (
-              <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent"></div>
-            )}
-            <span className="text-xs text-gray-500">
-              {status.percentualConcluido}%
-            </span>
-          </div>
-        </div>
-
-        {/* Barra de Progresso */}
-        <div className="mb-3">
-          <div className={`w-full h-2 ${obterCorFundo()} rounded-full overflow-hidden`}>
-            <div 
-              className={`h-full ${obterCorBarra()} transition-all duration-500 ease-out rounded-full`}
-              style={{ width: `${status.percentualConcluido}%` }}
-            >
-              {/* Animação de brilho */}
-              <div className="h-full w-full bg-gradient-to-r from-transparent via-white to-transparent opacity-30 animate-pulse"></div>
+        {/* Transcrição em andamento: percentual da duração do áudio já transcrita */}
+        {transcricao.ativo && (
+          <div className={mostrarFila ? 'mb-4 pb-4 border-b' : ''}>
+            <div className="flex items-center justify-between mb-3 gap-2">
+              <h3 className="text-sm font-semibold text-gray-700 truncate" title={transcricao.nomeArquivo ?? undefined}>
+                {t('progresso.transcrevendo', { arquivo: transcricao.nomeArquivo ?? '' })}
+              </h3>
+              {transcricao.percentual !== null ? (
+                <span className="text-xs text-gray-500">{transcricao.percentual}%</span>
+              ) : (
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent shrink-0"></div>
+              )}
             </div>
-          </div>
-        </div>
-
-        {/* Detalhes (opcional) */}
-        {mostrarDetalhes && (
-          <div className="text-xs text-gray-600 space-y-1">
-            <div className="flex justify-between">
-              <span>Total:</span>
-              <span className="font-medium">{status.total}</span>
+            <div className="w-full h-2 bg-blue-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full bg-blue-500 rounded-full transition-all duration-500 ease-out ${transcricao.percentual === null ? 'animate-pulse' : ''}`}
+                style={{ width: `${transcricao.percentual ?? 100}%` }}
+              />
             </div>
-            <div className="flex justify-between">
-              <span>Processadas:</span>
-              <span className="font-medium text-green-600">{status.processadas}</span>
+            {transcricao.palavras > 0 && (
+              <p className="mt-2 text-xs text-gray-500">{t('progresso.palavrasRecebidas', { quantidade: transcricao.palavras })}</p>
+            )}
+          </div>
+        )}
+
+        {mostrarFila && (
+          <>
+            {/* Cabeçalho */}
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-gray-700">
+                {t('progresso.titulo')}
+              </h3>
+              <div className="flex items-center space-x-2">
+                {status.pendentes > 0 && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent"></div>
+                )}
+                <span className="text-xs text-gray-500">
+                  {status.percentualConcluido}%
+                </span>
+              </div>
             </div>
-            <div className="flex justify-between">
-              <span>Pendentes:</span>
-              <span className="font-medium text-blue-600">{status.pendentes}</span>
+
+            {/* Barra de Progresso */}
+            <div className="mb-3">
+              <div className={`w-full h-2 ${obterCorFundo()} rounded-full overflow-hidden`}>
+                <div 
+                  className={`h-full ${obterCorBarra()} transition-all duration-500 ease-out rounded-full`}
+                  style={{ width: `${status.percentualConcluido}%` }}
+                >
+                  {/* Animação de brilho */}
+                  <div className="h-full w-full bg-gradient-to-r from-transparent via-white to-transparent opacity-30 animate-pulse"></div>
+                </div>
+              </div>
             </div>
-            {status.falharam > 0 && (
-              <div className="flex justify-between">
-                <span>Falharam:</span>
-                <span className="font-medium text-red-600">{status.falharam}</span>
+
+            {/* Detalhes (opcional) */}
+            {mostrarDetalhes && (
+              <div className="text-xs text-gray-600 space-y-1">
+                <div className="flex justify-between">
+                  <span>{t('progresso.total')}</span>
+                  <span className="font-medium">{status.total}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t('progresso.processadas')}</span>
+                  <span className="font-medium text-green-600">{status.processadas}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t('progresso.pendentes')}</span>
+                  <span className="font-medium text-blue-600">{status.pendentes}</span>
+                </div>
+                {status.falharam > 0 && (
+                  <div className="flex justify-between">
+                    <span>{t('progresso.falharam')}</span>
+                    <span className="font-medium text-red-600">{status.falharam}</span>
+                  </div>
+                )}
               </div>
             )}
-          </div>
-        )}
 
-        {/* Mensagem de Status */}
-        <div className="mt-2 text-xs text-gray-500">
-          {status.pendentes > 0 ? (
-            <span>Processando requisições...</span>
-          ) : status.percentualConcluido === 100 ? (
-            <span className="text-green-600">✓ Concluído</span>
-          ) : status.falharam > 0 ? (
-            <span className="text-red-600">⚠ Algumas falhas</span>
-          ) : (
-            <span>Aguardando...</span>
-          )}
-        </div>
-
-        {/* Botão de Fechar (quando concluído) */}
-        {status.percentualConcluido === 100 && status.pendentes === 0 && (
-          <button
-            onClick={() => setVisivel(false)}
-            className="mt-2 w-full text-xs text-gray-500 hover:text-gray-700 transition-colors"
-          >
-            Fechar
-          </button>
+            {/* Mensagem de Status */}
+            <div className="mt-2 text-xs text-gray-500">
+              {status.pendentes > 0 ? (
+                <span>{t('progresso.processando')}</span>
+              ) : status.percentualConcluido === 100 ? (
+                <span className="text-green-600">{t('progresso.concluido')}</span>
+              ) : status.falharam > 0 ? (
+                <span className="text-red-600">{t('progresso.falhas')}</span>
+              ) : (
+                <span>{t('progresso.aguardando')}</span>
+              )}
+            </div>
+
+            {/* Botão de Fechar (quando concluído) */}
+            {status.percentualConcluido === 100 && status.pendentes === 0 && (
+              <button
+                onClick={() => setVisivel(false)}
+                className="mt-2 w-full text-xs text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                {t('comum.fechar')}
+              </button>
+            )}
+          </>
         )}
       </div>
     </div>
@@ -169,6 +206,7 @@ export const useProgressIndicator = () => {
     processadas: 0,
     pendentes: 0,
     falharam: 0,
+    canceladas: 0,
     percentualConcluido: 0
   });
 
@@ -192,4 +230,22 @@ export const useProgressIndicator = () => {
     isComplete: status.percentualConcluido === 100 && status.pendentes === 0,
     hasErrors: status.falharam > 0
   };
-};
\ No newline at end of file
+};
+
+// Hook para acompanhar o estado da transcrição em lote
+export const useBatchQueue = (): EstadoLote => {
+  const [estado, setEstado] = useState<EstadoLote>(() => servicoLote.obterEstado());
+
+  useEffect(() => servicoLote.observar(setEstado), []);
+
+  return estado;
+};
+
+// Hook para acompanhar o progresso da transcrição em andamento
+export const useTranscriptionProgress = (): ProgressoTranscricao => {
+  const [progresso, setProgresso] = useState<ProgressoTranscricao>(() => servicoProgressoTranscricao.obterProgresso());
+
+  useEffect(() => servicoProgressoTranscricao.observar(setProgresso), []);
+
+  return progresso;
+};
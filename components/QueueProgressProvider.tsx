@@ -1,5 +1,7 @@
 import React, { createContext, useContext, ReactNode } from 'react';
-import ProgressIndicator, { useProgressIndicator } from './ProgressIndicator';
+import ProgressIndicator, { useBatchQueue, useProgressIndicator } from './ProgressIndicator';
+import BatchQueuePanel from './BatchQueuePanel';
+import { EstadoLote } from '../services/batchTranscriptionService';
 
 // Contexto para compartilhar o status da fila
 interface QueueContextType {
@@ -9,6 +11,7 @@ interface QueueContextType {
   percentualConcluido: number;
   totalTarefas: number;
   tarefasPendentes: number;
+  lote: EstadoLote; // Estado da transcrição em lote, com o status de cada arquivo
 }
 
 const QueueContext = createContext<QueueContextType | undefined>(undefined);
@@ -33,6 +36,7 @@ export const QueueProgressProvider: React.FC<QueueProgressProviderProps> = ({
   mostrarDetalhes = false 
 }) => {
   const { status, isProcessing, isComplete, hasErrors } = useProgressIndicator();
+  const lote = useBatchQueue();
 
   const contextValue: QueueContextType = {
     isProcessing,
@@ -40,7 +44,8 @@ export const QueueProgressProvider: React.FC<QueueProgressProviderProps> = ({
     hasErrors,
     percentualConcluido: status.percentualConcluido,
     totalTarefas: status.total,
-    tarefasPendentes: status.pendentes
+    tarefasPendentes: status.pendentes,
+    lote
   };
 
   return (
@@ -50,6 +55,7 @@ export const QueueProgressProvider: React.FC<QueueProgressProviderProps> = ({
         mostrarDetalhes={mostrarDetalhes}
         className="z-50"
       />
+      <BatchQueuePanel lote={lote} />
     </QueueContext.Provider>
   );
 };
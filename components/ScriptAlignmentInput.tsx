@@ -0,0 +1,65 @@
+import React, { useRef } from 'react';
+import { separarTextos } from '../services/transcriptEditorService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ScriptAlignmentInputProps {
+  // Texto do roteiro; null quando o modo de alinhamento está desligado
+  script: string | null;
+  onChange: (script: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Modo de alinhamento: o usuário cola ou carrega o texto exato do áudio, que só recebe os tempos
+ */
+export const ScriptAlignmentInput: React.FC<ScriptAlignmentInputProps> = ({ script, onChange, disabled = false }) => {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isEnabled = script !== null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onChange(await file.text());
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-3">
+      <label className="flex items-center justify-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isEnabled}
+          onChange={(e) => onChange(e.target.checked ? '' : null)}
+          disabled={disabled}
+          className="w-4 h-4 text-cyan-500 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500"
+        />
+        {t('alinhamento.ativar')}
+      </label>
+
+      {isEnabled && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400 text-center">{t('alinhamento.ajuda')}</p>
+          <textarea
+            value={script}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={t('alinhamento.placeholder')}
+            disabled={disabled}
+            rows={6}
+            className="w-full p-3 bg-gray-700/50 border border-gray-600 rounded-xl text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 resize-y"
+          />
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>{t('alinhamento.palavras', { quantidade: separarTextos(script).length })}</span>
+            <input type="file" ref={inputRef} onChange={handleFileChange} className="hidden" accept=".txt,.md,text/plain" />
+            <button
+              onClick={() => inputRef.current?.click()}
+              disabled={disabled}
+              className="px-3 py-1 text-cyan-300 hover:text-white border border-cyan-500/30 rounded-lg hover:bg-cyan-500/10 disabled:opacity-50 transition-colors"
+            >
+              {t('alinhamento.carregar')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { FileIcon } from './icons/FileIcon';
+import { ItemBiblioteca } from '../services/libraryService';
+import buscaSemanticaService, { ProgressoIndexacao, ResultadoBuscaSemanticaBiblioteca } from '../services/semanticSearchService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface SemanticSearchResultsProps {
+  query: string;
+  // Abre a transcrição com o player no início do trecho (em segundos)
+  onOpenResult: (item: ItemBiblioteca, startTime: number) => void;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Busca por significado em toda a biblioteca: atualiza o índice semântico e lista os trechos mais próximos
+ */
+export const SemanticSearchResults: React.FC<SemanticSearchResultsProps> = ({ query, onOpenResult }) => {
+  const { t } = useTranslation();
+  const [progress, setProgress] = useState<ProgressoIndexacao | null>(null);
+  const [isIndexReady, setIsIndexReady] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [results, setResults] = useState<ResultadoBuscaSemanticaBiblioteca[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Indexa as transcrições novas ou editadas antes da primeira busca
+  useEffect(() => {
+    let cancelled = false;
+    buscaSemanticaService.atualizarIndice(value => !cancelled && setProgress(value))
+      .then(() => !cancelled && setIsIndexReady(true))
+      .catch(err => {
+        console.error('❌ [BUSCA SEMÂNTICA] Erro ao indexar a biblioteca:', err);
+        if (!cancelled) setError(t('buscaSemantica.erroIndexar'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [t]);
+
+  // Debounce da busca enquanto o usuário digita (cada consulta gera um embedding)
+  useEffect(() => {
+    if (!isIndexReady) return;
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await buscaSemanticaService.buscar(query);
+        if (cancelled) return;
+        setResults(found);
+        setError(null);
+      } catch (err) {
+        console.error('❌ [BUSCA SEMÂNTICA] Erro na busca:', err);
+        if (!cancelled) setError(t('buscaSemantica.erroBuscar'));
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [query, isIndexReady, t]);
+
+  if (error) {
+    return <p className="text-red-400 text-sm">{error}</p>;
+  }
+
+  if (!isIndexReady) {
+    return (
+      <p className="text-center text-gray-400">
+        {progress && progress.total > 0
+          ? t('buscaSemantica.indexando', { indexados: progress.indexados, total: progress.total })
+          : t('comum.carregando')}
+      </p>
+    );
+  }
+
+  if (!query.trim()) {
+    return <p className="text-center text-gray-400">{t('buscaSemantica.ajuda')}</p>;
+  }
+
+  if (results.length === 0) {
+    return <p className="text-center text-gray-400">{t(isSearching ? 'comum.carregando' : 'buscaSemantica.nenhumResultado')}</p>;
+  }
+
+  return (
+    <ul className={`space-y-3 max-h-[32rem] overflow-y-auto custom-scrollbar ${isSearching ? 'opacity-60' : ''}`}>
+      {results.map(({ item, trecho, similaridade }) => (
+        <li key={`${item.id}-${trecho.indiceInicial}`}>
+          <button
+            onClick={() => onOpenResult(item, trecho.inicio)}
+            className="w-full p-4 text-left bg-white/5 border border-white/10 rounded-xl hover:bg-white/10 transition-colors"
+            title={t('buscaSemantica.abrirTrecho')}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0 text-white font-semibold">
+                <FileIcon className="w-5 h-5 text-cyan-400 shrink-0" />
+                <span className="truncate">{item.nomeArquivo}</span>
+              </div>
+              <span className="shrink-0 text-xs text-gray-400">
+                <span className="font-mono text-cyan-300">{formatTime(trecho.inicio)}–{formatTime(trecho.fim)}</span>
+                {' · '}
+                {t('buscaSemantica.semelhanca', { valor: Math.round(similaridade * 100) })}
+              </span>
+            </div>
+            <p className="mt-2 text-sm text-gray-300 line-clamp-3">
+              {trecho.falante && <span className="font-semibold text-white/80">{trecho.falante}: </span>}
+              {trecho.texto}
+            </p>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
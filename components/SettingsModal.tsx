@@ -3,7 +3,13 @@ import { useApiKey } from '../contexts/ApiKeyContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { usePreferences } from '../hooks/usePreferences';
 import { CloseIcon } from './icons/CloseIcon';
+import { GlossaryManager } from './GlossaryManager';
 import { KeyboardShortcutsHelp } from '../hooks/useKeyboardShortcuts';
+import { obterProvedorTranscricao, transcriptionProviders } from '../services/transcriptionProvider';
+import { verificarMecanismoLocal } from '../services/localTranscriptionService';
+import { FORMATOS_DOCUMENTO } from '../services/exportService';
+import { useTranslation } from '../hooks/useTranslation';
+import { idiomasInterface } from '../i18n';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -13,9 +19,11 @@ interface SettingsModalProps {
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
   const { apiKey, setApiKey } = useApiKey();
   const { theme, toggleTheme } = useTheme();
-  const { preferences, updatePreferences, resetPreferences, exportPreferences, importPreferences } = usePreferences();
+  const { preferences, updatePreference, resetPreferences, exportPreferences, importPreferences } = usePreferences();
+  const { t } = useTranslation();
   const [localKey, setLocalKey] = useState(apiKey || '');
-  const [activeTab, setActiveTab] = useState<'api' | 'preferences' | 'shortcuts'>('api');
+  const [activeTab, setActiveTab] = useState<'api' | 'preferences' | 'glossary' | 'shortcuts'>('api');
+  const [localEngineStatus, setLocalEngineStatus] = useState<'checking' | 'ok' | 'error' | null>(null);
 
   useEffect(() => {
     setLocalKey(apiKey || '');
@@ -29,7 +37,13 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
   };
 
   const handlePreferenceChange = (key: keyof typeof preferences, value: any) => {
-    updatePreferences({ [key]: value });
+    updatePreference(key, value);
+  };
+
+  const handleTestLocalEngine = async () => {
+    setLocalEngineStatus('checking');
+    const disponivel = await verificarMecanismoLocal(preferences.localEngineUrl);
+    setLocalEngineStatus(disponivel ? 'ok' : 'error');
   };
 
   const handleExportPreferences = () => {
@@ -54,7 +68,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
           const data = e.target?.result as string;
           importPreferences(data);
         } catch (error) {
-          alert('Erro ao importar preferências. Verifique se o arquivo é válido.');
+          alert(t('configuracoes.erroImportar'));
         }
       };
       reader.readAsText(file);
@@ -77,8 +91,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
     >
       <div className="bg-brand-surface w-full max-w-4xl m-4 rounded-xl shadow-2xl border border-gray-700 p-6 md:p-8" role="document">
         <div className="flex justify-between items-center mb-6">
-          <h2 id="settings-title" className="text-2xl font-bold text-brand-primary">Configurações</h2>
-          <button onClick={onClose} className="text-gray-500 hover:text-white" aria-label="Fechar modal">
+          <h2 id="settings-title" className="text-2xl font-bold text-brand-primary">{t('configuracoes.titulo')}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" aria-label={t('configuracoes.fechar')}>
             <CloseIcon className="w-6 h-6" />
           </button>
         </div>
@@ -93,7 +107,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 : 'text-gray-400 hover:text-white'
             }`}
           >
-            API
+            {t('configuracoes.abaApi')}
           </button>
           <button
             onClick={() => setActiveTab('preferences')}
@@ -103,7 +117,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 : 'text-gray-400 hover:text-white'
             }`}
           >
-            Preferências
+            {t('configuracoes.abaPreferencias')}
+          </button>
+          <button
+            onClick={() => setActiveTab('glossary')}
+            className={`px-4 py-2 font-medium transition-colors ${
+              activeTab === 'glossary'
+                ? 'text-brand-primary border-b-2 border-brand-primary'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {t('configuracoes.abaGlossario')}
           </button>
           <button
             onClick={() => setActiveTab('shortcuts')}
@@ -113,7 +137,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 : 'text-gray-400 hover:text-white'
             }`}
           >
-            Atalhos
+            {t('configuracoes.abaAtalhos')}
           </button>
         </div>
         
@@ -122,41 +146,143 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
           {activeTab === 'api' && (
             <div>
               <label htmlFor="apiKey" className="block text-sm font-medium text-brand-text-secondary mb-2">
-                Chave de API do Google Gemini
+                {t('configuracoes.chaveApi')}
               </label>
               <input
                 id="apiKey"
                 type="password"
                 value={localKey}
                 onChange={(e) => setLocalKey(e.target.value)}
-                placeholder="Cole sua chave de API aqui"
+                placeholder={t('configuracoes.chaveApiPlaceholder')}
                 className="w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-brand-text focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
               />
               <p className="text-xs text-brand-text-secondary mt-2">
-                Sua chave de API é armazenada apenas no seu navegador. Você pode obter uma em{' '}
+                {t('configuracoes.chaveApiAjuda')}{' '}
                 <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-brand-primary hover:underline">
                   Google AI Studio
                 </a>.
               </p>
+
+              {/* Mecanismo de Transcrição */}
+              <div className="mt-8">
+                <label htmlFor="transcriptionProvider" className="block text-sm font-medium text-brand-text-secondary mb-2">
+                  {t('configuracoes.mecanismo')}
+                </label>
+                <select
+                  id="transcriptionProvider"
+                  value={preferences.transcriptionProvider}
+                  onChange={(e) => handlePreferenceChange('transcriptionProvider', e.target.value)}
+                  className="w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-brand-text focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                >
+                  {Object.values(transcriptionProviders).map(provider => (
+                    <option key={provider.id} value={provider.id}>{t(`provedor.${provider.id}.nome` as const)}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-brand-text-secondary mt-2">
+                  {t(`provedor.${obterProvedorTranscricao(preferences.transcriptionProvider).id}.descricao` as const)}
+                </p>
+
+                <label className="flex items-center space-x-3 mt-4">
+                  <input
+                    type="checkbox"
+                    checked={preferences.speakerDiarization}
+                    onChange={(e) => handlePreferenceChange('speakerDiarization', e.target.checked)}
+                    disabled={!obterProvedorTranscricao(preferences.transcriptionProvider).suportaDiarizacao}
+                    className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary disabled:opacity-50"
+                  />
+                  <span className="text-sm text-brand-text-secondary">{t('configuracoes.diarizacao')}</span>
+                </label>
+                {!obterProvedorTranscricao(preferences.transcriptionProvider).suportaDiarizacao && (
+                  <p className="text-xs text-brand-text-secondary mt-1">
+                    {t('configuracoes.semDiarizacao')}
+                  </p>
+                )}
+
+                {preferences.transcriptionProvider === 'local' && (
+                  <div className="mt-4">
+                    <label htmlFor="localEngineUrl" className="block text-sm font-medium text-brand-text-secondary mb-2">
+                      {t('configuracoes.enderecoLocal')}
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        id="localEngineUrl"
+                        type="url"
+                        value={preferences.localEngineUrl}
+                        onChange={(e) => {
+                          setLocalEngineStatus(null);
+                          handlePreferenceChange('localEngineUrl', e.target.value);
+                        }}
+                        placeholder="http://127.0.0.1:8080"
+                        className="flex-1 bg-gray-900/50 border border-gray-600 rounded-md p-3 text-brand-text focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                      />
+                      <button
+                        onClick={handleTestLocalEngine}
+                        disabled={localEngineStatus === 'checking'}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors disabled:opacity-50"
+                      >
+                        {t('configuracoes.testar')}
+                      </button>
+                    </div>
+                    {localEngineStatus === 'ok' && (
+                      <p className="text-xs text-green-400 mt-2">{t('configuracoes.localOk')}</p>
+                    )}
+                    {localEngineStatus === 'error' && (
+                      <p className="text-xs text-red-400 mt-2">{t('configuracoes.localErro')}</p>
+                    )}
+                    <label className="flex items-center space-x-3 mt-4">
+                      <input
+                        type="checkbox"
+                        checked={preferences.localEngineCloudServices}
+                        onChange={(e) => handlePreferenceChange('localEngineCloudServices', e.target.checked)}
+                        className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary"
+                      />
+                      <span className="text-sm text-brand-text-secondary">{t('configuracoes.localNuvem')}</span>
+                    </label>
+                    <p className="text-xs text-brand-text-secondary mt-1">
+                      {t('configuracoes.localResumo')}
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
           )}
           
           {activeTab === 'preferences' && (
             <div className="space-y-6">
+              {/* Idioma da Interface */}
+              <div>
+                <label htmlFor="interfaceLanguage" className="block text-sm font-medium text-brand-text-secondary mb-2">
+                  {t('configuracoes.idiomaInterface')}
+                </label>
+                <select
+                  id="interfaceLanguage"
+                  value={preferences.language}
+                  onChange={(e) => handlePreferenceChange('language', e.target.value)}
+                  className="w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-brand-text focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                >
+                  {idiomasInterface.map(idioma => (
+                    <option key={idioma} value={idioma}>{t(`idioma.${idioma}` as const)}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-brand-text-secondary mt-2">
+                  {t('configuracoes.idiomaInterfaceAjuda')}
+                </p>
+              </div>
+
               {/* Tema */}
               <div>
                 <label className="block text-sm font-medium text-brand-text-secondary mb-2">
-                  Tema
+                  {t('configuracoes.tema')}
                 </label>
                 <div className="flex items-center space-x-4">
                   <button
                     onClick={toggleTheme}
                     className="px-4 py-2 bg-brand-primary text-gray-900 rounded-md hover:bg-brand-primary-hover transition-colors"
                   >
-                    {theme === 'dark' ? 'Mudar para Claro' : 'Mudar para Escuro'}
+                    {t(theme === 'dark' ? 'configuracoes.mudarParaClaro' : 'configuracoes.mudarParaEscuro')}
                   </button>
                   <span className="text-sm text-brand-text-secondary">
-                    Tema atual: {theme === 'dark' ? 'Escuro' : 'Claro'}
+                    {t('configuracoes.temaAtual', { tema: t(theme === 'dark' ? 'configuracoes.temaEscuro' : 'configuracoes.temaClaro') })}
                   </span>
                 </div>
               </div>
@@ -164,7 +290,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
               {/* Velocidade de Reprodução */}
               <div>
                 <label className="block text-sm font-medium text-brand-text-secondary mb-2">
-                  Velocidade de Reprodução Padrão: {preferences.audioPlaybackSpeed}x
+                  {t('configuracoes.velocidadePadrao', { valor: preferences.audioPlaybackSpeed })}
                 </label>
                 <input
                   type="range"
@@ -176,28 +302,123 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                   className="w-full"
                 />
               </div>
+
+              {/* Limite de Confiança das Palavras */}
+              <div>
+                <label className="block text-sm font-medium text-brand-text-secondary mb-2">
+                  {t('configuracoes.limiteConfianca', { valor: Math.round(preferences.wordConfidenceThreshold * 100) })}
+                </label>
+                <input
+                  type="range"
+                  min="0.3"
+                  max="0.95"
+                  step="0.05"
+                  value={preferences.wordConfidenceThreshold}
+                  onChange={(e) => handlePreferenceChange('wordConfidenceThreshold', parseFloat(e.target.value))}
+                  className="w-full"
+                />
+                <p className="text-xs text-brand-text-secondary mt-2">
+                  {t('configuracoes.limiteConfiancaAjuda')}
+                </p>
+              </div>
               
+              {/* Tipo de Resumo */}
+              <div>
+                <label htmlFor="summaryMode" className="block text-sm font-medium text-brand-text-secondary mb-2">
+                  {t('configuracoes.modoResumo')}
+                </label>
+                <select
+                  id="summaryMode"
+                  value={preferences.summaryMode}
+                  onChange={(e) => handlePreferenceChange('summaryMode', e.target.value)}
+                  className="w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-brand-text focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                >
+                  <option value="freeform">{t('configuracoes.modoResumoLivre')}</option>
+                  <option value="structured">{t('configuracoes.modoResumoEstruturado')}</option>
+                </select>
+                <p className="text-xs text-brand-text-secondary mt-2">
+                  {t('configuracoes.modoResumoAjuda')}
+                </p>
+              </div>
+
               {/* Formato de Exportação */}
               <div>
                 <label className="block text-sm font-medium text-brand-text-secondary mb-2">
-                  Formato de Exportação
+                  {t('configuracoes.formatoExportacao')}
                 </label>
                 <select
                   value={preferences.exportFormat}
                   onChange={(e) => handlePreferenceChange('exportFormat', e.target.value)}
                   className="w-full bg-gray-900/50 border border-gray-600 rounded-md p-3 text-brand-text focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
                 >
-                  <option value="txt">Texto (.txt)</option>
+                  <option value="txt">{t('configuracoes.formatoTexto')}</option>
                   <option value="json">JSON (.json)</option>
                   <option value="srt">SubRip (.srt)</option>
                   <option value="vtt">WebVTT (.vtt)</option>
+                  <option value="md">Markdown (.md)</option>
+                  <option value="docx">Word (.docx)</option>
+                  <option value="pdf">PDF (.pdf)</option>
                 </select>
+                {FORMATOS_DOCUMENTO.includes(preferences.exportFormat) && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-xs text-brand-text-secondary">{t('configuracoes.exportarDocumentoAjuda')}</p>
+                    <label className="flex items-center space-x-3">
+                      <input
+                        type="checkbox"
+                        checked={preferences.exportTimestamps}
+                        onChange={(e) => handlePreferenceChange('exportTimestamps', e.target.checked)}
+                        className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary"
+                      />
+                      <span className="text-sm text-brand-text-secondary">{t('configuracoes.exportarMarcasTempo')}</span>
+                    </label>
+                    <label className="flex items-center space-x-3">
+                      <input
+                        type="checkbox"
+                        checked={preferences.exportSpeakers}
+                        onChange={(e) => handlePreferenceChange('exportSpeakers', e.target.checked)}
+                        className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary"
+                      />
+                      <span className="text-sm text-brand-text-secondary">{t('configuracoes.exportarFalantes')}</span>
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              {/* Transcrição em Lote */}
+              <div>
+                <label className="block text-sm font-medium text-brand-text-secondary mb-2">
+                  {t('configuracoes.concorrenciaLote', { valor: preferences.batchConcurrency })}
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="5"
+                  step="1"
+                  value={preferences.batchConcurrency}
+                  onChange={(e) => handlePreferenceChange('batchConcurrency', parseInt(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-brand-text-secondary mb-2">
+                  {t('configuracoes.tentativasLote', { valor: preferences.batchMaxRetries })}
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="5"
+                  step="1"
+                  value={preferences.batchMaxRetries}
+                  onChange={(e) => handlePreferenceChange('batchMaxRetries', parseInt(e.target.value))}
+                  className="w-full"
+                />
               </div>
               
               {/* Tamanho da Fonte */}
               <div>
                 <label className="block text-sm font-medium text-brand-text-secondary mb-2">
-                  Tamanho da Fonte: {preferences.fontSize}px
+                  {t('configuracoes.tamanhoFonte', { valor: preferences.fontSize })}
                 </label>
                 <input
                   type="range"
@@ -219,7 +440,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                     onChange={(e) => handlePreferenceChange('autoScroll', e.target.checked)}
                     className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary"
                   />
-                  <span className="text-sm text-brand-text-secondary">Rolagem Automática</span>
+                  <span className="text-sm text-brand-text-secondary">{t('configuracoes.rolagemAutomatica')}</span>
                 </label>
                 
                 <label className="flex items-center space-x-3">
@@ -229,7 +450,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                     onChange={(e) => handlePreferenceChange('keyboardShortcutsEnabled', e.target.checked)}
                     className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary"
                   />
-                  <span className="text-sm text-brand-text-secondary">Atalhos de Teclado</span>
+                  <span className="text-sm text-brand-text-secondary">{t('configuracoes.atalhosTeclado')}</span>
                 </label>
                 
                 <label className="flex items-center space-x-3">
@@ -239,7 +460,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                     onChange={(e) => handlePreferenceChange('autoSave', e.target.checked)}
                     className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary"
                   />
-                  <span className="text-sm text-brand-text-secondary">Salvamento Automático</span>
+                  <span className="text-sm text-brand-text-secondary">{t('configuracoes.salvamentoAutomatico')}</span>
                 </label>
                 
                 <label className="flex items-center space-x-3">
@@ -249,22 +470,22 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                     onChange={(e) => handlePreferenceChange('showTimestamps', e.target.checked)}
                     className="w-4 h-4 text-brand-primary bg-gray-900 border-gray-600 rounded focus:ring-brand-primary"
                   />
-                  <span className="text-sm text-brand-text-secondary">Mostrar Timestamps</span>
+                  <span className="text-sm text-brand-text-secondary">{t('configuracoes.mostrarTimestamps')}</span>
                 </label>
               </div>
               
               {/* Ações de Preferências */}
               <div className="border-t border-gray-600 pt-4">
-                <h3 className="text-lg font-medium text-brand-text mb-4">Gerenciar Preferências</h3>
+                <h3 className="text-lg font-medium text-brand-text mb-4">{t('configuracoes.gerenciar')}</h3>
                 <div className="flex flex-wrap gap-3">
                   <button
                     onClick={handleExportPreferences}
                     className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
                   >
-                    Exportar
+                    {t('configuracoes.exportar')}
                   </button>
                   <label className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors cursor-pointer">
-                    Importar
+                    {t('configuracoes.importar')}
                     <input
                       type="file"
                       accept=".json"
@@ -276,13 +497,20 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                     onClick={resetPreferences}
                     className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors"
                   >
-                    Resetar
+                    {t('configuracoes.resetar')}
                   </button>
                 </div>
               </div>
             </div>
           )}
           
+          {activeTab === 'glossary' && (
+            <GlossaryManager
+              glossary={preferences.glossary}
+              onChange={(glossary) => handlePreferenceChange('glossary', glossary)}
+            />
+          )}
+
           {activeTab === 'shortcuts' && (
             <div>
               <KeyboardShortcutsHelp />
@@ -295,13 +523,13 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 onClick={onClose}
                 className="px-6 py-2 text-sm font-semibold bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
             >
-                Cancelar
+                {t('comum.cancelar')}
             </button>
             <button
                 onClick={handleSave}
                 className="px-6 py-2 text-sm font-bold bg-brand-primary text-gray-900 hover:bg-brand-primary-hover rounded-md transition-colors"
             >
-                Salvar
+                {t('comum.salvar')}
             </button>
         </div>
       </div>
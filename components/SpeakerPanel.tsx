@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface SpeakerPanelProps {
+  speakers: string[];
+  getColorClass: (speaker: string) => string;
+  onRename?: (currentName: string, newName: string) => void;
+}
+
+/**
+ * Lista dos falantes identificados, com renomeação
+ */
+export const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ speakers, getColorClass, onRename }) => {
+  const { t } = useTranslation();
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const startEditing = (speaker: string) => {
+    setEditingSpeaker(speaker);
+    setNewName(speaker);
+  };
+
+  const commitRename = () => {
+    if (editingSpeaker && newName.trim() && newName.trim() !== editingSpeaker) {
+      onRename?.(editingSpeaker, newName.trim());
+    }
+    setEditingSpeaker(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-white/60">{t('falantes.titulo')}</span>
+      {speakers.map(speaker => (
+        editingSpeaker === speaker ? (
+          <input
+            key={speaker}
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setEditingSpeaker(null);
+            }}
+            onBlur={commitRename}
+            className="px-2 py-0.5 text-xs bg-gray-700/50 border border-gray-600 rounded-full text-white focus:ring-2 focus:ring-cyan-500"
+            aria-label={t('falantes.novoNome', { falante: speaker })}
+            autoFocus
+          />
+        ) : (
+          <button
+            key={speaker}
+            onClick={() => onRename && startEditing(speaker)}
+            disabled={!onRename}
+            className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getColorClass(speaker)} ${onRename ? 'hover:opacity-80' : 'cursor-default'}`}
+            title={onRename ? t('falantes.renomear') : speaker}
+          >
+            {speaker}{onRename && ' ✎'}
+          </button>
+        )
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React from 'react';
+import { ResumoEstruturado, TrechoReferenciado } from '../services/structuredSummaryService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface StructuredSummaryProps {
+  resumo: ResumoEstruturado;
+  // Leva o player ao início do trecho (em segundos)
+  onSeek: (tempo: number) => void;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Exibe o resumo estruturado; clicar em um item leva o áudio ao trecho correspondente
+ */
+export const StructuredSummary: React.FC<StructuredSummaryProps> = ({ resumo, onSeek }) => {
+  const { t } = useTranslation();
+
+  const renderTempo = (trecho: TrechoReferenciado, comFim = false) => (
+    <span className="shrink-0 text-xs font-mono text-cyan-300">
+      {formatTime(trecho.inicio)}{comFim && ` – ${formatTime(trecho.fim)}`}
+    </span>
+  );
+
+  const itemClassName = 'w-full flex items-start justify-between gap-3 text-left p-2 rounded-lg hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="space-y-5">
+      {resumo.visaoGeral && (
+        <p className="text-white/70 whitespace-pre-line leading-relaxed">{resumo.visaoGeral}</p>
+      )}
+
+      {resumo.acoes.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-white/80 mb-1">{t('resumo.acoes')}</h4>
+          <ul className="space-y-1">
+            {resumo.acoes.map((acao, index) => (
+              <li key={index}>
+                <button onClick={() => onSeek(acao.inicio)} className={itemClassName} title={t('resumo.irParaTrecho')}>
+                  <span className="text-white/70">
+                    {acao.descricao}
+                    <span className="block text-xs text-white/50 mt-0.5">
+                      {t('resumo.responsavel', { nome: acao.responsavel ?? t('resumo.naoDefinido') })}
+                      {' · '}
+                      {t('resumo.prazo', { prazo: acao.prazo ?? t('resumo.naoDefinido') })}
+                    </span>
+                  </span>
+                  {renderTempo(acao)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {resumo.decisoes.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-white/80 mb-1">{t('resumo.decisoes')}</h4>
+          <ul className="space-y-1">
+            {resumo.decisoes.map((decisao, index) => (
+              <li key={index}>
+                <button onClick={() => onSeek(decisao.inicio)} className={itemClassName} title={t('resumo.irParaTrecho')}>
+                  <span className="text-white/70">{decisao.descricao}</span>
+                  {renderTempo(decisao)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {resumo.questoesAbertas.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-white/80 mb-1">{t('resumo.questoesAbertas')}</h4>
+          <ul className="space-y-1">
+            {resumo.questoesAbertas.map((questao, index) => (
+              <li key={index}>
+                <button onClick={() => onSeek(questao.inicio)} className={itemClassName} title={t('resumo.irParaTrecho')}>
+                  <span className="text-white/70">{questao.pergunta}</span>
+                  {renderTempo(questao)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {resumo.capitulos.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-white/80 mb-1">{t('resumo.capitulos')}</h4>
+          <ol className="space-y-1">
+            {resumo.capitulos.map((capitulo, index) => (
+              <li key={index}>
+                <button onClick={() => onSeek(capitulo.inicio)} className={itemClassName} title={t('resumo.irParaTrecho')}>
+                  <span className="text-white/70">
+                    <span className="font-medium text-white/80">{capitulo.titulo}</span>
+                    {capitulo.resumo && <span className="block text-xs text-white/50 mt-0.5">{capitulo.resumo}</span>}
+                  </span>
+                  {renderTempo(capitulo, true)}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default StructuredSummary;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { CloseIcon } from './icons/CloseIcon';
+import { ConflitoSincronizacao, EscolhaConflito } from '../services/librarySyncService';
+import { trechoDaDiferenca } from '../services/syncPlanService';
+import { WordTimestamp } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { ChaveTraducao } from '../i18n';
+
+interface SyncConflictDialogProps {
+  conflict: ConflitoSincronizacao;
+  resolving: boolean;
+  onResolve: (escolha: EscolhaConflito) => void;
+  onClose: () => void;
+}
+
+interface Versao {
+  escolha: EscolhaConflito;
+  titulo: ChaveTraducao;
+  acao: ChaveTraducao;
+  nomeArquivo: string;
+  atualizadoEm: string;
+  transcricao: WordTimestamp[];
+  resumo: string | null;
+  trecho: string | null;
+}
+
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflict, resolving, onResolve, onClose }) => {
+  const { t, language } = useTranslation();
+  const { item, remoto } = conflict;
+  const diferenca = remoto ? trechoDaDiferenca(item.transcricao, remoto.transcricao) : null;
+
+  const versaoLocal: Versao = {
+    escolha: 'local',
+    titulo: 'sincronizacao.versaoLocal',
+    acao: 'sincronizacao.manterLocal',
+    nomeArquivo: item.nomeArquivo,
+    atualizadoEm: item.atualizadoEm,
+    transcricao: item.transcricao,
+    resumo: item.resumo,
+    trecho: diferenca?.local ?? null
+  };
+  const versaoRemota: Versao | null = remoto && {
+    escolha: 'remoto',
+    titulo: 'sincronizacao.versaoRemota',
+    acao: 'sincronizacao.usarRemota',
+    nomeArquivo: remoto.nomeArquivo,
+    atualizadoEm: remoto.atualizadoEm,
+    transcricao: remoto.transcricao,
+    resumo: remoto.resumo,
+    trecho: diferenca?.remoto ?? null
+  };
+
+  const botaoEscolha = (escolha: EscolhaConflito, acao: ChaveTraducao) => (
+    <button
+      onClick={() => onResolve(escolha)}
+      disabled={resolving}
+      className="mt-auto px-4 py-2 text-sm font-semibold text-white bg-cyan-500 hover:bg-cyan-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {t(acao)}
+    </button>
+  );
+
+  const handleWrapperClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target === e.currentTarget && !resolving) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in-fast"
+      onClick={handleWrapperClick}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="sync-conflict-title"
+    >
+      <div className="bg-brand-surface w-full max-w-3xl m-4 rounded-xl shadow-2xl border border-gray-700 p-6" role="document">
+        <div className="flex justify-between items-start gap-4 mb-2">
+          <h2 id="sync-conflict-title" className="text-xl font-bold text-white">
+            {t('sincronizacao.conflitoTitulo', { nome: item.nomeArquivo })}
+          </h2>
+          <button onClick={onClose} disabled={resolving} className="text-gray-500 hover:text-white disabled:opacity-50" aria-label={t('comum.fechar')}>
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">{t(remoto ? 'sincronizacao.conflitoAjuda' : 'sincronizacao.conflitoRemocaoAjuda')}</p>
+
+        {remoto && !diferenca && (
+          <p className="text-sm text-gray-300 mb-4">{t('sincronizacao.textoIgual')}</p>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {[versaoLocal, versaoRemota].map(versao => versao && (
+            <div key={versao.escolha} className="flex flex-col gap-3 p-4 bg-white/5 border border-white/10 rounded-xl">
+              <div>
+                <h3 className="font-semibold text-cyan-400">{t(versao.titulo)}</h3>
+                <p className="mt-1 text-white truncate">{versao.nomeArquivo}</p>
+                <p className="text-xs text-gray-400">
+                  {t('sincronizacao.editadaEm', { data: new Date(versao.atualizadoEm).toLocaleString(language) })} · {t('comum.palavras', { quantidade: versao.transcricao.length })}
+                </p>
+              </div>
+              {versao.trecho && (
+                <p className="text-sm text-gray-300 bg-black/20 rounded-lg p-2">{versao.trecho}</p>
+              )}
+              {versao.resumo && (
+                <p className="text-xs text-gray-400 line-clamp-3">{versao.resumo}</p>
+              )}
+              {botaoEscolha(versao.escolha, versao.acao)}
+            </div>
+          ))}
+          {!remoto && (
+            <div className="flex flex-col gap-3 p-4 bg-white/5 border border-white/10 rounded-xl">
+              <h3 className="font-semibold text-cyan-400">{t('sincronizacao.versaoRemota')}</h3>
+              <p className="text-sm text-gray-300">{t('sincronizacao.removidaNoServidor')}</p>
+              {botaoEscolha('remoto', 'sincronizacao.aceitarRemocao')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { PlayIcon } from './icons/PlayIcon';
+import { WordTimestamp } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface TranscriptEditorToolbarProps {
+  selectedWord: WordTimestamp | null;
+  hasNextWord: boolean;
+  onInsert: (text: string, position: 'antes' | 'depois') => void;
+  onMergeWithNext: () => void;
+  onDelete: () => void;
+  onPlay: () => void;
+}
+
+/**
+ * Barra de ações do editor para a palavra selecionada
+ */
+export const TranscriptEditorToolbar: React.FC<TranscriptEditorToolbarProps> = ({
+  selectedWord,
+  hasNextWord,
+  onInsert,
+  onMergeWithNext,
+  onDelete,
+  onPlay
+}) => {
+  const { t } = useTranslation();
+  const [insertText, setInsertText] = useState('');
+
+  if (!selectedWord) {
+    return (
+      <div className="mb-4 p-3 bg-amber-500/10 rounded-lg border border-amber-400/30 text-sm text-amber-200">
+        {t('editor.instrucoes')}
+      </div>
+    );
+  }
+
+  const handleInsert = (position: 'antes' | 'depois') => {
+    if (!insertText.trim()) return;
+    onInsert(insertText, position);
+    setInsertText('');
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-sm rounded-lg bg-white/10 text-white/80 hover:bg-white/20 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-4 p-3 bg-amber-500/10 rounded-lg border border-amber-400/30 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-amber-200 mr-2">
+        “{selectedWord.word}” · {selectedWord.startTime.toFixed(2)}s – {selectedWord.endTime.toFixed(2)}s
+      </span>
+      <button onClick={onPlay} className={buttonClass} title={t('editor.ouvir')}>
+        <PlayIcon className="w-4 h-4 inline" />
+      </button>
+      <button onClick={onMergeWithNext} disabled={!hasNextWord} className={buttonClass}>
+        {t('editor.mesclar')}
+      </button>
+      <button onClick={onDelete} className={`${buttonClass} hover:bg-red-500/30`}>
+        {t('editor.excluir')}
+      </button>
+      <div className="flex items-center gap-2 ml-auto">
+        <input
+          type="text"
+          value={insertText}
+          onChange={(e) => setInsertText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleInsert('depois');
+          }}
+          placeholder={t('editor.novaPalavra')}
+          className="w-36 px-2 py-1 text-sm bg-gray-700/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-amber-500"
+        />
+        <button onClick={() => handleInsert('antes')} disabled={!insertText.trim()} className={buttonClass}>
+          {t('editor.inserirAntes')}
+        </button>
+        <button onClick={() => handleInsert('depois')} disabled={!insertText.trim()} className={buttonClass}>
+          {t('editor.inserirDepois')}
+        </button>
+      </div>
+    </div>
+  );
+};
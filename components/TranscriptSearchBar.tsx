@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CloseIcon } from './icons/CloseIcon';
+import { OpcoesBusca } from '../services/transcriptSearchService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface TranscriptSearchBarProps {
+  term: string;
+  options: OpcoesBusca;
+  onTermChange: (term: string) => void;
+  onOptionsChange: (options: OpcoesBusca) => void;
+  matchCount: number;
+  currentMatch: number; // -1 quando nenhuma ocorrência está selecionada
+  invalidPattern: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  // Substitui todas as ocorrências e retorna quantas foram alteradas; ausente quando a transcrição não pode ser editada
+  onReplaceAll?: (replacement: string) => number;
+  onClose: () => void;
+}
+
+/**
+ * Barra de busca e substituição da transcrição
+ */
+export const TranscriptSearchBar: React.FC<TranscriptSearchBarProps> = ({
+  term,
+  options,
+  onTermChange,
+  onOptionsChange,
+  matchCount,
+  currentMatch,
+  invalidPattern,
+  onPrevious,
+  onNext,
+  onReplaceAll,
+  onClose
+}) => {
+  const { t } = useTranslation();
+  const [replacement, setReplacement] = useState('');
+  const [replacedCount, setReplacedCount] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // A mensagem de substituição some quando a busca muda
+  useEffect(() => {
+    setReplacedCount(null);
+  }, [term, options]);
+
+  const handleReplaceAll = () => {
+    if (!onReplaceAll || matchCount === 0) return;
+    setReplacedCount(onReplaceAll(replacement));
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-sm rounded-lg bg-white/10 text-white/80 hover:bg-white/20 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+  const toggleClass = (active?: boolean) => `px-2 py-1 text-xs rounded-lg border transition-colors ${
+    active ? 'bg-cyan-500/30 border-cyan-400 text-white' : 'border-white/20 text-white/60 hover:text-white'
+  }`;
+  const inputClass = 'flex-1 min-w-[10rem] px-3 py-1.5 text-sm bg-gray-700/50 border rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-cyan-500';
+
+  const status = invalidPattern
+    ? t('busca.regexInvalida')
+    : replacedCount !== null
+      ? t('busca.substituidas', { quantidade: replacedCount })
+      : term
+        ? matchCount > 0
+          ? t('busca.resultado', { atual: currentMatch + 1, total: matchCount })
+          : t('busca.semResultados')
+        : t('busca.dica');
+
+  return (
+    <div className="mb-4 p-3 bg-cyan-500/10 rounded-lg border border-cyan-400/30 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={inputRef}
+          type="text"
+          value={term}
+          onChange={(e) => onTermChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              if (e.shiftKey) onPrevious();
+              else onNext();
+            } else if (e.key === 'Escape') {
+              onClose();
+            }
+          }}
+          placeholder={t('busca.buscar')}
+          aria-label={t('busca.buscar')}
+          className={`${inputClass} ${invalidPattern ? 'border-red-500' : 'border-gray-600'}`}
+        />
+        <button onClick={onPrevious} disabled={matchCount === 0} className={buttonClass} title={t('busca.anterior')}>
+          ↑
+        </button>
+        <button onClick={onNext} disabled={matchCount === 0} className={buttonClass} title={t('busca.proximo')}>
+          ↓
+        </button>
+        <button
+          onClick={() => onOptionsChange({ ...options, palavraInteira: !options.palavraInteira })}
+          className={toggleClass(options.palavraInteira)}
+          aria-pressed={!!options.palavraInteira}
+          title={t('busca.palavraInteira')}
+        >
+          {t('busca.palavraInteiraCurto')}
+        </button>
+        <button
+          onClick={() => onOptionsChange({ ...options, regex: !options.regex })}
+          className={toggleClass(options.regex)}
+          aria-pressed={!!options.regex}
+          title={t('busca.regex')}
+        >
+          .*
+        </button>
+        <button onClick={onClose} className="p-1.5 text-white/60 hover:text-white transition-colors" title={t('comum.fechar')}>
+          <CloseIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {onReplaceAll && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleReplaceAll();
+            }}
+            placeholder={t('busca.substituirPor')}
+            aria-label={t('busca.substituirPor')}
+            className={`${inputClass} border-gray-600`}
+          />
+          <button onClick={handleReplaceAll} disabled={matchCount === 0} className={buttonClass}>
+            {t('busca.substituirTodas')}
+          </button>
+        </div>
+      )}
+
+      <p className={`text-xs ${invalidPattern ? 'text-red-300' : 'text-white/60'}`}>{status}</p>
+    </div>
+  );
+};
@@ -1,21 +1,78 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { CopyIcon } from './icons/CopyIcon';
 import { CheckIcon } from './icons/CheckIcon';
 import { DocumentTextIcon } from './icons/DocumentTextIcon';
 import { PlayIcon } from './icons/PlayIcon';
 import { PauseIcon } from './icons/PauseIcon';
 import { ClockIcon } from './icons/ClockIcon';
+import { SparklesIcon } from './icons/SparklesIcon';
 import { WordTimestamp } from '../types';
 import syncAiService from '../services/syncAiService';
 import vectorDatabaseService from '../services/vectorDatabaseService';
-import AudioPlayer, { AudioPlayerRef } from './AudioPlayer';
+import AudioPlayer, { AudioPlayerRef, LoopRegion } from './AudioPlayer';
+import { WaveformTimeline } from './WaveformTimeline';
+import { TranscriptEditorToolbar } from './TranscriptEditorToolbar';
+import { TranscriptSearchBar } from './TranscriptSearchBar';
+import { GlossaryReport } from './GlossaryReport';
+import { ConfidenceReviewPanel } from './ConfidenceReviewPanel';
+import { SpeakerPanel } from './SpeakerPanel';
+import { StructuredSummary } from './StructuredSummary';
+import { ResumoEstruturado } from '../services/structuredSummaryService';
+import { AlteracaoGlossario } from '../services/glossaryService';
+import { useTranslation } from '../hooks/useTranslation';
+import { usePreferences } from '../hooks/usePreferences';
+import { useKeyboardShortcuts, useTranscriptionShortcuts } from '../hooks/useKeyboardShortcuts';
+import { ajustarLimitePalavra, editarPalavra, inserirPalavra, LadoLimite, mesclarComProxima, removerPalavra } from '../services/transcriptEditorService';
+import { fraseNoTempo, trechoDasPalavras } from '../services/reviewPlaybackService';
+import { marcarComoVerificada, nivelConfianca, precisaRevisao, proximaPalavraIncerta, resumirConfianca } from '../services/confidenceReviewService';
+import { buscarNaTranscricao, OcorrenciaBusca, OpcoesBusca, substituirNaTranscricao } from '../services/transcriptSearchService';
+import { agruparPorFalante, formatarTextoComFalantes, listarFalantes, renomearFalante, temFalantes } from '../services/speakerService';
+
+// Cores usadas para diferenciar os falantes
+const SPEAKER_COLORS = [
+  'bg-cyan-500/20 text-cyan-200',
+  'bg-pink-500/20 text-pink-200',
+  'bg-emerald-500/20 text-emerald-200',
+  'bg-amber-500/20 text-amber-200',
+  'bg-violet-500/20 text-violet-200',
+  'bg-sky-500/20 text-sky-200'
+];
 
 interface TranscriptionDisplayProps {
   transcription: WordTimestamp[];
   audioUrl: string;
+  summary?: string | null;
+  structuredSummary?: ResumoEstruturado | null;
+  glossaryChanges?: AlteracaoGlossario[];
+  // Leva o player a esse ponto (em segundos) ao abrir a transcrição ou quando o objeto muda
+  seekRequest?: { time: number } | null;
+  onTranscriptionChange?: (transcription: WordTimestamp[]) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  isSummaryOutdated?: boolean;
+  isRegeneratingSummary?: boolean;
+  onRegenerateSummary?: () => void;
 }
 
-export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcription, audioUrl }) => {
+export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
+  transcription,
+  audioUrl,
+  summary,
+  structuredSummary,
+  glossaryChanges = [],
+  seekRequest = null,
+  onTranscriptionChange,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  isSummaryOutdated = false,
+  isRegeneratingSummary = false,
+  onRegenerateSummary
+}) => {
+  const { t } = useTranslation();
   const [copied, setCopied] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [currentWordIndex, setCurrentWordIndex] = useState(-1);
@@ -25,6 +82,24 @@ export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ tran
   const [syncMetrics, setSyncMetrics] = useState(syncAiService.obterMetricas());
   const transcriptionRef = useRef<HTMLDivElement>(null);
   const lastClickTimeRef = useRef<number>(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+  const cancelEditRef = useRef(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchOptions, setSearchOptions] = useState<OpcoesBusca>({});
+  const [currentMatch, setCurrentMatch] = useState(-1);
+  const [isWaveformOpen, setIsWaveformOpen] = useState(false);
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  // Primeira palavra escolhida com Shift + clique para o loop A-B
+  const [loopAnchor, setLoopAnchor] = useState<number | null>(null);
+  const [isAutoPauseOn, setIsAutoPauseOn] = useState(false);
+  const [isConfidenceColoringOn, setIsConfidenceColoringOn] = useState(true);
+  // Palavra incerta em revisão, escolhida pela navegação entre as palavras incertas
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const { preferences } = usePreferences();
+  const confidenceThreshold = preferences.wordConfidenceThreshold;
 
   // Callback para receber atualizações de tempo do AudioPlayer
   const handleTimeUpdate = useCallback((time: number) => {
@@ -41,6 +116,8 @@ export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ tran
     if (transcription.length > 0) {
       const corrigida = syncAiService.corrigirTimestamps(transcription);
       setCorrectedTranscription(corrigida);
+    } else {
+      setCorrectedTranscription([]);
     }
     
     // Inicializar monitoramento em tempo real apenas uma vez
@@ -268,8 +345,284 @@ export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ tran
     registrarClique(startTime);
   };
 
+  // Aplica uma operação de edição e repassa a nova transcrição para o histórico
+  const applyEdit = (edited: WordTimestamp[], nextSelection: number | null = null) => {
+    if (edited !== transcription) {
+      onTranscriptionChange?.(edited);
+    }
+    setSelectedIndex(nextSelection !== null && nextSelection < edited.length ? nextSelection : null);
+  };
+
+  // Correção manual dos tempos arrastando os limites das palavras na forma de onda
+  const handleBoundaryChange = (index: number, edge: LadoLimite, time: number) => {
+    applyEdit(ajustarLimitePalavra(transcription, index, edge, time), selectedIndex);
+  };
+
+  // Mantém o campo de edição sincronizado com a palavra selecionada (inclusive após desfazer/refazer)
+  useEffect(() => {
+    if (selectedIndex === null) return;
+    if (selectedIndex >= transcription.length) {
+      setSelectedIndex(null);
+      return;
+    }
+    setEditText(transcription[selectedIndex].word);
+  }, [transcription, selectedIndex]);
+
+  const handleSelectWord = (index: number) => {
+    setSelectedIndex(index);
+  };
+
+  // Confirma a edição ao sair do campo; Esc descarta o texto digitado
+  const handleCommitEdit = () => {
+    if (selectedIndex === null || selectedIndex >= transcription.length) return;
+    if (cancelEditRef.current) {
+      cancelEditRef.current = false;
+      setSelectedIndex(null);
+      return;
+    }
+    applyEdit(editarPalavra(transcription, selectedIndex, editText), editText.trim() ? selectedIndex : null);
+  };
+
+  const handleToggleEditing = () => {
+    setIsEditing(prev => !prev);
+    setSelectedIndex(null);
+  };
+
+  // Ocorrências da busca; uma expressão regular inválida não gera resultados
+  const { matches, invalidPattern } = useMemo((): { matches: OcorrenciaBusca[]; invalidPattern: boolean } => {
+    if (!isSearchOpen) return { matches: [], invalidPattern: false };
+    try {
+      return { matches: buscarNaTranscricao(transcription, searchTerm, searchOptions), invalidPattern: false };
+    } catch {
+      return { matches: [], invalidPattern: true };
+    }
+  }, [isSearchOpen, transcription, searchTerm, searchOptions]);
+
+  // Índice da ocorrência que cobre cada palavra
+  const matchByWord = useMemo(() => {
+    const mapa = new Map<number, number>();
+    matches.forEach((match, matchIndex) => {
+      for (let i = match.palavraInicial; i <= match.palavraFinal; i++) {
+        if (!mapa.has(i)) mapa.set(i, matchIndex);
+      }
+    });
+    return mapa;
+  }, [matches]);
+
+  useEffect(() => {
+    setCurrentMatch(-1);
+  }, [searchTerm, searchOptions]);
+
+  // Seleciona a ocorrência, leva o player ao seu início e rola a transcrição até ela
+  const goToMatch = (matchIndex: number) => {
+    if (matches.length === 0) return;
+    const next = (matchIndex + matches.length) % matches.length;
+    const wordIndex = matches[next].palavraInicial;
+    setCurrentMatch(next);
+    audioPlayerRef.current?.setTime(correctedTranscription[wordIndex]?.startTime ?? transcription[wordIndex].startTime);
+    document.getElementById(`word-${wordIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleReplaceAll = (replacement: string): number => {
+    const { transcricao: replaced, quantidade } = substituirNaTranscricao(transcription, searchTerm, replacement, searchOptions);
+    if (quantidade > 0) {
+      applyEdit(replaced);
+      setCurrentMatch(-1);
+    }
+    return quantidade;
+  };
+
+  const handleCloseSearch = () => {
+    setIsSearchOpen(false);
+    setCurrentMatch(-1);
+  };
+
+  // Abre a transcrição no trecho pedido (ex.: resultado da busca semântica)
+  useEffect(() => {
+    if (!seekRequest) return;
+    audioPlayerRef.current?.setTime(seekRequest.time);
+    const index = transcription.findIndex(word => word.endTime > seekRequest.time);
+    if (index >= 0) {
+      document.getElementById(`word-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+    // Só um novo pedido move o player, não as edições da transcrição
+  }, [seekRequest]);
+
+  // Pausa automática: a cada início de reprodução, o player pausa no fim da frase que vai tocar
+  useEffect(() => {
+    const player = audioPlayerRef.current;
+    if (!player) return;
+    if (!isAutoPauseOn) {
+      player.setPauseAt(null);
+      return;
+    }
+    if (isPlaying) {
+      player.setPauseAt(fraseNoTempo(transcription, player.getCurrentTime())?.fim ?? null);
+    }
+  }, [isPlaying, isAutoPauseOn, transcription]);
+
+  const handleReplaySentence = () => {
+    const player = audioPlayerRef.current;
+    if (!player) return;
+    // Logo depois da pausa automática, volta à frase que acabou de tocar (e não à seguinte)
+    const sentence = fraseNoTempo(transcription, Math.max(0, player.getCurrentTime() - 0.05));
+    if (!sentence) return;
+    player.setTime(sentence.inicio);
+    if (isAutoPauseOn) player.setPauseAt(sentence.fim);
+    player.play();
+  };
+
+  // Shift + clique em duas palavras repete o trecho entre elas
+  const handleLoopWordClick = (index: number) => {
+    const player = audioPlayerRef.current;
+    if (!player) return;
+    if (loopAnchor === null) {
+      setLoopAnchor(index);
+      player.setLoop({ start: transcription[index].startTime });
+      return;
+    }
+    const range = trechoDasPalavras(transcription, loopAnchor, index);
+    setLoopAnchor(null);
+    if (!range) return;
+    player.setLoop({ start: range.inicio, end: range.fim });
+    player.setTime(range.inicio);
+    player.play();
+  };
+
+  const handleClearLoop = () => {
+    audioPlayerRef.current?.setLoop(null);
+    setLoopAnchor(null);
+  };
+
+  const confidenceSummary = useMemo(
+    () => resumirConfianca(transcription, confidenceThreshold),
+    [transcription, confidenceThreshold]
+  );
+  const isReviewWordPending = reviewIndex !== null && reviewIndex < transcription.length &&
+    precisaRevisao(transcription[reviewIndex], confidenceThreshold);
+
+  const goToUncertainWord = (direction: 1 | -1, words: WordTimestamp[] = transcription) => {
+    const from = reviewIndex ?? (currentWordIndex >= 0 ? currentWordIndex : direction === 1 ? -1 : words.length);
+    const index = proximaPalavraIncerta(words, confidenceThreshold, from, direction);
+    setReviewIndex(index >= 0 ? index : null);
+    if (index < 0) return;
+    audioPlayerRef.current?.setTime(words[index].startTime);
+    audioPlayerRef.current?.play();
+    document.getElementById(`word-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Marca a palavra em revisão como conferida e segue para a próxima incerta
+  const handleMarkVerified = () => {
+    if (!onTranscriptionChange || reviewIndex === null || !isReviewWordPending) return;
+    const verified = marcarComoVerificada(transcription, reviewIndex);
+    applyEdit(verified, selectedIndex);
+    goToUncertainWord(1, verified);
+  };
+
+  useTranscriptionShortcuts({
+    onSetLoopStart: () => audioPlayerRef.current?.setLoopStart(),
+    onSetLoopEnd: () => audioPlayerRef.current?.setLoopEnd(),
+    onClearLoop: handleClearLoop,
+    onReplaySentence: handleReplaySentence,
+    onToggleAutoPause: () => setIsAutoPauseOn(prev => !prev),
+    onNextUncertainWord: () => goToUncertainWord(1),
+    onPreviousUncertainWord: () => goToUncertainWord(-1),
+    onMarkWordVerified: handleMarkVerified
+  });
+
+  const searchShortcuts = useMemo(() => [
+    { key: 'f', ctrlKey: true, action: () => setIsSearchOpen(true), description: t('busca.buscar') }
+  ], [t]);
+  useKeyboardShortcuts(searchShortcuts);
+
+  const hasSpeakers = temFalantes(correctedTranscription);
+  const speakers = hasSpeakers ? listarFalantes(correctedTranscription) : [];
+  const speakerTurns = hasSpeakers ? agruparPorFalante(correctedTranscription) : null;
+
+  const speakerColor = (speaker?: string) => {
+    const index = speaker ? speakers.indexOf(speaker) : -1;
+    return index >= 0 ? SPEAKER_COLORS[index % SPEAKER_COLORS.length] : 'bg-white/10 text-white/60';
+  };
+
+  // A renomeação altera o campo speaker de todas as palavras, então vale para exibição, exportação e resumo
+  const handleRenameSpeaker = (currentName: string, newName: string) => {
+    applyEdit(renomearFalante(transcription, currentName, newName), selectedIndex);
+  };
+
+  // Renderiza uma palavra da transcrição (ou o campo de edição da palavra selecionada)
+  const renderWord = (item: WordTimestamp, index: number) => {
+    // Usar compensação dinâmica da IA para sincronização perfeita com palavra específica
+    const tolerance = 0.02; // 20ms de tolerância para máxima precisão
+    const compensacaoIA = syncAiService.calcularCompensacaoTempo(currentTime, item.word) / 1000;
+    const adjustedTime = currentTime + compensacaoIA;
+    const isHighlighted = adjustedTime >= (item.startTime - tolerance) && adjustedTime <= (item.endTime + tolerance);
+    
+    // Criar chave única baseada no timestamp e palavra para evitar duplicatas
+    const uniqueKey = `${item.startTime}-${item.endTime}-${item.word}-${index}`;
+    const matchIndex = matchByWord.get(index);
+    const isInLoop = loopAnchor === index || (loop?.end !== undefined && item.startTime >= loop.start - 0.01 && item.endTime <= loop.end + 0.01);
+    const matchClass = matchIndex === undefined || isHighlighted
+      ? ''
+      : matchIndex === currentMatch
+        ? 'bg-orange-500/70 text-white ring-2 ring-orange-300'
+        : 'bg-yellow-400/30 text-white';
+    const confidenceLevel = isConfidenceColoringOn && !isHighlighted && !matchClass && !item.verified && !item.edited
+      ? nivelConfianca(item, confidenceThreshold)
+      : null;
+    const confidenceClass = confidenceLevel === 'baixa'
+      ? 'bg-red-500/25 text-red-100'
+      : confidenceLevel === 'media'
+        ? 'text-amber-200'
+        : '';
+
+    if (isEditing && index === selectedIndex) {
+      return (
+        <input
+          key={`edit-${index}`}
+          id={`word-${index}`}
+          type="text"
+          value={editText}
+          onChange={(e) => setEditText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.currentTarget.blur();
+            } else if (e.key === 'Escape') {
+              cancelEditRef.current = true;
+              e.currentTarget.blur();
+            }
+          }}
+          onBlur={handleCommitEdit}
+          size={Math.max(editText.length, 3)}
+          className="px-2 py-1 rounded-lg bg-amber-500/20 text-white border border-amber-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
+          autoFocus
+        />
+      );
+    }
+    
+    return (
+      <span
+        key={uniqueKey}
+        id={`word-${index}`}
+        className={`px-2 py-1 rounded-lg cursor-pointer transition-all duration-300 text-white/80 ${
+          isHighlighted
+            ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white font-semibold scale-105 shadow-lg shadow-blue-500/30'
+            : 'hover:bg-white/10 hover:text-white'
+        } ${matchClass} ${confidenceClass} ${index === reviewIndex ? 'ring-2 ring-red-400' : isInLoop ? 'ring-1 ring-emerald-400/70' : ''} ${item.edited ? 'underline decoration-amber-400 decoration-dotted underline-offset-4' : ''}`}
+        onClick={(e) => {
+          if (e.shiftKey) handleLoopWordClick(index);
+          else if (isEditing) handleSelectWord(index);
+          else handleWordClick(item.startTime);
+        }}
+        title={`${item.startTime?.toFixed(3) || '0.000'}s - ${item.endTime?.toFixed(3) || '0.000'}s${item.confidence !== undefined ? ` (${(item.confidence * 100).toFixed(1)}%)` : ''}${item.edited ? t('transcricao.palavraEditada') : ''}${item.verified ? t('confianca.palavraVerificada') : ''}
+${t(isEditing ? 'transcricao.cliqueEditar' : 'transcricao.cliqueBuscar')}`}
+      >
+        {item.word}
+      </span>
+    );
+  };
+
   const handleCopy = () => {
-    navigator.clipboard.writeText(plainTextTranscription);
+    navigator.clipboard.writeText(hasSpeakers ? formatarTextoComFalantes(correctedTranscription) : plainTextTranscription);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -283,15 +636,62 @@ export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ tran
           <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg mr-3">
             <DocumentTextIcon className="w-6 h-6 text-white" />
           </div>
-          Transcrição Inteligente
+          {t('transcricao.titulo')}
         </h2>
-        <button
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => (isSearchOpen ? handleCloseSearch() : setIsSearchOpen(true))}
+            className={`px-3 py-2 text-sm rounded-xl transition-all ${
+              isSearchOpen
+                ? 'bg-cyan-500 text-white hover:bg-cyan-600'
+                : 'glass-button text-white/70 hover:text-white hover:bg-white/10'
+            }`}
+            title={t('busca.abrir')}
+          >
+            {t('busca.buscar')}
+          </button>
+          {onTranscriptionChange && (
+            <>
+              {isEditing && (
+                <>
+                  <button
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    className="px-3 py-2 glass-button text-sm text-white/70 hover:text-white hover:bg-white/10 rounded-xl transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={t('transcricao.desfazerDica')}
+                  >
+                    {t('transcricao.desfazer')}
+                  </button>
+                  <button
+                    onClick={onRedo}
+                    disabled={!canRedo}
+                    className="px-3 py-2 glass-button text-sm text-white/70 hover:text-white hover:bg-white/10 rounded-xl transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={t('transcricao.refazerDica')}
+                  >
+                    {t('transcricao.refazer')}
+                  </button>
+                </>
+              )}
+              <button
+                onClick={handleToggleEditing}
+                className={`px-3 py-2 text-sm rounded-xl transition-all ${
+                  isEditing
+                    ? 'bg-amber-500 text-white hover:bg-amber-600'
+                    : 'glass-button text-white/70 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                {t(isEditing ? 'transcricao.concluirEdicao' : 'transcricao.editar')}
+              </button>
+            </>
+          )}
+          <button
           onClick={handleCopy}
           className="p-3 glass-button text-white/70 hover:text-white hover:bg-white/10 rounded-xl transition-all duration-300 hover:scale-105"
-          title="Copiar transcrição"
+          title={t('transcricao.copiar')}
         >
           {copied ? <CheckIcon className="w-5 h-5 text-green-400" /> : <CopyIcon className="w-5 h-5" />}
-        </button>
+          </button>
+        </div>
       </div>
 
       {/* Player de Áudio Moderno */}
@@ -299,23 +699,132 @@ export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ tran
         <div className="bg-white/5 backdrop-blur-sm rounded-xl p-4 border border-white/10">
           <AudioPlayer
             ref={audioPlayerRef}
-            src={audioUrl}
+            audioUrl={audioUrl}
             onTimeUpdate={handleTimeUpdate}
             onPlayStateChange={handlePlayStateChange}
+            onLoopChange={setLoop}
           />
+          <div className="mt-3 flex flex-wrap items-center justify-end gap-2">
+            <button
+              onClick={handleReplaySentence}
+              className="px-3 py-1.5 text-xs rounded-lg glass-button text-white/70 hover:text-white hover:bg-white/10 transition-all"
+              title={t('revisao.repetirFraseDica')}
+            >
+              {t('revisao.repetirFrase')}
+            </button>
+            <button
+              onClick={() => setIsAutoPauseOn(prev => !prev)}
+              className={`px-3 py-1.5 text-xs rounded-lg transition-all ${
+                isAutoPauseOn
+                  ? 'bg-emerald-500 text-white hover:bg-emerald-600'
+                  : 'glass-button text-white/70 hover:text-white hover:bg-white/10'
+              }`}
+              title={t('revisao.pausaAutomaticaDica')}
+              aria-pressed={isAutoPauseOn}
+            >
+              {t('revisao.pausaAutomatica')}
+            </button>
+            <button
+              onClick={() => setIsWaveformOpen(prev => !prev)}
+              className={`px-3 py-1.5 text-xs rounded-lg transition-all ${
+                isWaveformOpen
+                  ? 'bg-cyan-500 text-white hover:bg-cyan-600'
+                  : 'glass-button text-white/70 hover:text-white hover:bg-white/10'
+              }`}
+              title={t('ondas.mostrarDica')}
+              aria-pressed={isWaveformOpen}
+            >
+              {t('ondas.mostrar')}
+            </button>
+          </div>
+          {isWaveformOpen && (
+            <div className="mt-3">
+              <WaveformTimeline
+                audioUrl={audioUrl}
+                words={transcription}
+                currentTime={currentTime}
+                loop={loop}
+                onSeek={(time) => audioPlayerRef.current?.setTime(time)}
+                onBoundaryChange={onTranscriptionChange ? handleBoundaryChange : undefined}
+              />
+            </div>
+          )}
         </div>
       </div>
+      {/* Resumo */}
+      {(summary || structuredSummary) && (
+        <div className="mb-8 p-4 bg-white/5 backdrop-blur-sm rounded-xl border border-white/10">
+          <h3 className="text-lg font-semibold text-white/80 flex items-center mb-2">
+            <SparklesIcon className="w-5 h-5 mr-2 text-purple-400" />
+            {t('transcricao.resumo')}
+          </h3>
+          {structuredSummary ? (
+            <StructuredSummary resumo={structuredSummary} onSeek={handleWordClick} />
+          ) : (
+            <p className="text-white/70 whitespace-pre-line leading-relaxed">{summary}</p>
+          )}
+          {isSummaryOutdated && onRegenerateSummary && (
+            <div className="mt-3 flex items-center justify-between gap-4 p-3 bg-amber-500/10 rounded-lg border border-amber-400/30">
+              <span className="text-sm text-amber-200">{t('transcricao.resumoDesatualizado')}</span>
+              <button
+                onClick={onRegenerateSummary}
+                disabled={isRegeneratingSummary}
+                className="px-3 py-1.5 text-sm rounded-lg bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50 transition-colors"
+              >
+                {t(isRegeneratingSummary ? 'comum.atualizando' : 'transcricao.atualizarResumo')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Transcrição com Design Moderno */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold text-white/80 flex items-center">
             <ClockIcon className="w-5 h-5 mr-2 text-blue-400" />
-            Texto Transcrito
+            {t('transcricao.textoTranscrito')}
           </h3>
           <div className="text-sm text-white/60">
-            {correctedTranscription.length} palavras
+            {t('comum.palavras', { quantidade: correctedTranscription.length })}
           </div>
         </div>
+
+        <GlossaryReport changes={glossaryChanges} onSeek={handleWordClick} />
+
+        <ConfidenceReviewPanel
+          summary={confidenceSummary}
+          threshold={confidenceThreshold}
+          isColoringOn={isConfidenceColoringOn}
+          onToggleColoring={() => setIsConfidenceColoringOn(prev => !prev)}
+          onPrevious={() => goToUncertainWord(-1)}
+          onNext={() => goToUncertainWord(1)}
+          onMarkVerified={onTranscriptionChange && isReviewWordPending ? handleMarkVerified : undefined}
+        />
+
+        {isSearchOpen && (
+          <TranscriptSearchBar
+            term={searchTerm}
+            options={searchOptions}
+            onTermChange={setSearchTerm}
+            onOptionsChange={setSearchOptions}
+            matchCount={matches.length}
+            currentMatch={currentMatch}
+            invalidPattern={invalidPattern}
+            onPrevious={() => goToMatch(currentMatch < 0 ? matches.length - 1 : currentMatch - 1)}
+            onNext={() => goToMatch(currentMatch + 1)}
+            onReplaceAll={onTranscriptionChange ? handleReplaceAll : undefined}
+            onClose={handleCloseSearch}
+          />
+        )}
+
+        {hasSpeakers && (
+          <SpeakerPanel
+            speakers={speakers}
+            getColorClass={speakerColor}
+            onRename={onTranscriptionChange ? handleRenameSpeaker : undefined}
+          />
+        )}
         
         <div 
           ref={transcriptionRef}
@@ -324,43 +833,53 @@ export const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ tran
           {/* Métricas de sincronismo da IA */}
           {syncMetrics.confianca > 0.3 && (
             <div className="mb-4 p-3 bg-blue-500/20 rounded-lg border border-blue-400/30">
-              <div className="text-xs text-blue-300 mb-1">🤖 IA de Sincronismo Ativa</div>
+              <div className="text-xs text-blue-300 mb-1">{t('transcricao.iaAtiva')}</div>
               <div className="text-xs text-white/60">
-                Confiança: {syncMetrics.confianca ? (syncMetrics.confianca * 100).toFixed(1) : '0.0'}% | 
-                Atraso médio: {syncMetrics.atrasoMedio ? syncMetrics.atrasoMedio.toFixed(0) : '0'}ms | 
-                Amostras: {syncMetrics.amostras || 0}
+                {t('transcricao.metricasSincronismo', {
+                  confianca: syncMetrics.confianca ? (syncMetrics.confianca * 100).toFixed(1) : '0.0',
+                  atraso: syncMetrics.atrasoMedio ? syncMetrics.atrasoMedio.toFixed(0) : '0',
+                  amostras: syncMetrics.amostras || 0
+                })}
               </div>
             </div>
           )}
-          <div className="flex flex-wrap gap-1.5 leading-relaxed">
-            {correctedTranscription.map((item, index) => {
-              // Usar compensação dinâmica da IA para sincronização perfeita com palavra específica
-              const tolerance = 0.02; // 20ms de tolerância para máxima precisão
-              const compensacaoIA = syncAiService.calcularCompensacaoTempo(currentTime, item.word) / 1000;
-              const adjustedTime = currentTime + compensacaoIA;
-              const isHighlighted = adjustedTime >= (item.startTime - tolerance) && adjustedTime <= (item.endTime + tolerance);
-              
-              // Criar chave única baseada no timestamp e palavra para evitar duplicatas
-              const uniqueKey = `${item.startTime}-${item.endTime}-${item.word}-${index}`;
-              
-              return (
-                <span
-                  key={uniqueKey}
-                  id={`word-${index}`}
-                  className={`px-2 py-1 rounded-lg cursor-pointer transition-all duration-300 text-white/80 ${
-                    isHighlighted
-                      ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white font-semibold scale-105 shadow-lg shadow-blue-500/30'
-                      : 'hover:bg-white/10 hover:text-white'
-                  }`}
-                  onClick={() => handleWordClick(item.startTime)}
-                  title={`${item.startTime?.toFixed(3) || '0.000'}s - ${item.endTime?.toFixed(3) || '0.000'}s${item.confidence ? ` (${(item.confidence * 100).toFixed(1)}%)` : ''}
-Clique para buscar este momento`}
-                >
-                  {item.word}
-                </span>
-              );
-            })}
-          </div>
+          {isEditing && (
+            <TranscriptEditorToolbar
+              selectedWord={selectedIndex !== null ? transcription[selectedIndex] ?? null : null}
+              hasNextWord={selectedIndex !== null && selectedIndex < transcription.length - 1}
+              onInsert={(text, position) => {
+                if (selectedIndex === null) return;
+                const inserted = inserirPalavra(transcription, selectedIndex, text, position);
+                applyEdit(inserted, position === 'depois' ? selectedIndex + 1 : selectedIndex);
+              }}
+              onMergeWithNext={() => selectedIndex !== null && applyEdit(mesclarComProxima(transcription, selectedIndex), selectedIndex)}
+              onDelete={() => selectedIndex !== null && applyEdit(removerPalavra(transcription, selectedIndex), selectedIndex)}
+              onPlay={() => selectedIndex !== null && handleWordClick(transcription[selectedIndex].startTime)}
+            />
+          )}
+          {speakerTurns ? (
+            <div className="space-y-4">
+              {speakerTurns.map(turn => (
+                <div key={`turno-${turn.indiceInicial}`} className="flex gap-3">
+                  <div className="w-32 shrink-0 pt-1">
+                    <span
+                      className={`inline-block max-w-full truncate px-2 py-0.5 rounded-full text-xs font-semibold ${speakerColor(turn.falante)}`}
+                      title={turn.falante}
+                    >
+                      {turn.falante ?? t('falantes.semFalante')}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5 leading-relaxed">
+                    {turn.palavras.map((item, offset) => renderWord(item, turn.indiceInicial + offset))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-1.5 leading-relaxed">
+              {correctedTranscription.map(renderWord)}
+            </div>
+          )}
         </div>
       </div>
 
@@ -368,15 +887,15 @@ Clique para buscar este momento`}
       <div className="mt-6 grid grid-cols-3 gap-4">
         <div className="glass-card p-4 rounded-xl text-center">
           <div className="text-2xl font-bold text-blue-400">{syncMetrics.palavrasAprendidas}</div>
-          <div className="text-sm text-white/60 mt-1">Palavras Aprendidas</div>
+          <div className="text-sm text-white/60 mt-1">{t('transcricao.palavrasAprendidas')}</div>
         </div>
         <div className="glass-card p-4 rounded-xl text-center">
           <div className="text-2xl font-bold text-green-400">{syncMetrics.taxaAcerto ? (syncMetrics.taxaAcerto * 100).toFixed(1) : '0.0'}%</div>
-          <div className="text-sm text-white/60 mt-1">Taxa de Acerto</div>
+          <div className="text-sm text-white/60 mt-1">{t('transcricao.taxaAcerto')}</div>
         </div>
         <div className="glass-card p-4 rounded-xl text-center">
           <div className="text-2xl font-bold text-purple-400">{syncMetrics.correcoesAplicadas}</div>
-          <div className="text-sm text-white/60 mt-1">Correções IA</div>
+          <div className="text-sm text-white/60 mt-1">{t('transcricao.correcoesIa')}</div>
         </div>
       </div>
     </div>
@@ -0,0 +1,326 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { WordTimestamp } from '../types';
+import { LoopRegion } from './AudioPlayer';
+import { ajustarLimitePalavra, LadoLimite } from '../services/transcriptEditorService';
+import {
+  amplitudeNoIntervalo,
+  calcularColunaEspectro,
+  decodificarFormaDeOnda,
+  FormaDeOnda
+} from '../services/waveformService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface WaveformTimelineProps {
+  audioUrl: string;
+  words: WordTimestamp[];
+  currentTime: number;
+  // Trecho em loop A-B, destacado na linha do tempo
+  loop?: LoopRegion | null;
+  onSeek: (time: number) => void;
+  // Quando informado, os limites das palavras podem ser arrastados
+  onBoundaryChange?: (index: number, edge: LadoLimite, time: number) => void;
+}
+
+interface DragState {
+  index: number;
+  edge: LadoLimite;
+  time: number;
+  originX: number; // Posição do mouse ao começar o arraste
+}
+
+const HEIGHT = 140;
+const MAX_ZOOM = 2000; // Pixels por segundo
+const HANDLE_DISTANCE = 6; // Pixels de tolerância para pegar um limite
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = (time % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
+// Cor do espectrograma: de azul escuro (silêncio) a amarelo (mais intenso)
+const spectrogramColor = (value: number): [number, number, number] => [
+  Math.round(255 * Math.min(1, value * 1.6)),
+  Math.round(255 * Math.max(0, value * 1.4 - 0.4)),
+  Math.round(90 + 80 * Math.sin(Math.PI * value))
+];
+
+/**
+ * Linha do tempo com a forma de onda (ou o espectrograma) do áudio e as palavras sobrepostas.
+ * Arrastar o limite de uma palavra corrige o seu tempo; clicar leva o player ao ponto clicado.
+ */
+export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({ audioUrl, words, currentTime, loop = null, onSeek, onBoundaryChange }) => {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [waveform, setWaveform] = useState<FormaDeOnda | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(0); // 0 = áudio inteiro visível
+  const [viewStart, setViewStart] = useState(0);
+  const [showSpectrogram, setShowSpectrogram] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [hoverHandle, setHoverHandle] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    setWaveform(null);
+    setLoadError(false);
+    decodificarFormaDeOnda(audioUrl)
+      .then(result => active && setWaveform(result))
+      .catch(error => {
+        console.error('❌ [FORMA DE ONDA] Erro ao decodificar o áudio:', error);
+        if (active) setLoadError(true);
+      });
+    return () => {
+      active = false;
+    };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const duration = waveform?.duracao ?? 0;
+  const fitZoom = duration > 0 && width > 0 ? width / duration : 1;
+  const pixelsPerSecond = Math.min(MAX_ZOOM, Math.max(fitZoom, zoom));
+  const visibleDuration = width / pixelsPerSecond;
+  const start = Math.min(Math.max(0, viewStart), Math.max(0, duration - visibleDuration));
+
+  const timeAt = useCallback((clientX: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    return Math.min(duration, Math.max(0, start + (clientX - rect.left) / pixelsPerSecond));
+  }, [duration, start, pixelsPerSecond]);
+
+  // Durante o arraste, as palavras são desenhadas já com o limite na nova posição
+  const displayedWords = useMemo(
+    () => (drag ? ajustarLimitePalavra(words, drag.index, drag.edge, drag.time) : words),
+    [words, drag]
+  );
+
+  // Mantém o cursor de reprodução visível, rolando a linha do tempo quando ele sai da tela
+  useEffect(() => {
+    if (drag || visibleDuration >= duration) return;
+    if (currentTime < start || currentTime > start + visibleDuration) {
+      setViewStart(currentTime - visibleDuration * 0.1);
+    }
+  }, [currentTime, start, visibleDuration, duration, drag]);
+
+  // O espectrograma só é recalculado quando a janela visível muda (e não a cada arraste)
+  const spectrogram = useMemo(() => {
+    if (!showSpectrogram || !waveform || width === 0) return null;
+    const image = new ImageData(width, HEIGHT);
+    for (let x = 0; x < width; x++) {
+      const column = calcularColunaEspectro(waveform, start + (x + 0.5) / pixelsPerSecond);
+      for (let y = 0; y < HEIGHT; y++) {
+        const [r, g, b] = spectrogramColor(column[Math.floor(((HEIGHT - 1 - y) / HEIGHT) * column.length)]);
+        const offset = (y * width + x) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    }
+    // putImageData ignora a escala da tela, então a imagem passa por um canvas auxiliar
+    const buffer = document.createElement('canvas');
+    buffer.width = width;
+    buffer.height = HEIGHT;
+    buffer.getContext('2d')?.putImageData(image, 0, 0);
+    return buffer;
+  }, [showSpectrogram, waveform, width, start, pixelsPerSecond]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !waveform || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = HEIGHT * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, HEIGHT);
+
+    if (spectrogram) {
+      context.drawImage(spectrogram, 0, 0, width, HEIGHT);
+    } else {
+      const middle = HEIGHT / 2;
+      context.fillStyle = 'rgba(34, 211, 238, 0.8)';
+      for (let x = 0; x < width; x++) {
+        const from = start + x / pixelsPerSecond;
+        const [min, max] = amplitudeNoIntervalo(waveform, from, from + 1 / pixelsPerSecond);
+        const top = middle - max * middle;
+        context.fillRect(x, top, 1, Math.max(1, (max - min) * middle));
+      }
+    }
+
+    if (loop) {
+      const loopLeft = (loop.start - start) * pixelsPerSecond;
+      const loopRight = loop.end !== undefined ? (loop.end - start) * pixelsPerSecond : loopLeft + 2;
+      context.fillStyle = 'rgba(52, 211, 153, 0.18)';
+      context.fillRect(loopLeft, 0, loopRight - loopLeft, HEIGHT);
+      context.fillStyle = 'rgba(52, 211, 153, 0.9)';
+      context.fillRect(loopLeft, 0, 2, HEIGHT);
+      if (loop.end !== undefined) context.fillRect(loopRight - 2, 0, 2, HEIGHT);
+    }
+
+    // Palavras visíveis: região, limites e texto (quando cabe)
+    context.font = '11px sans-serif';
+    context.textBaseline = 'top';
+    const end = start + visibleDuration;
+    displayedWords.forEach((word, index) => {
+      if (word.endTime < start || word.startTime > end) return;
+      const left = (word.startTime - start) * pixelsPerSecond;
+      const right = (word.endTime - start) * pixelsPerSecond;
+      const previous = displayedWords[index - 1];
+      const segmentStart = !previous || previous.speaker !== word.speaker || SENTENCE_END.test(previous.word);
+
+      context.fillStyle = index % 2 === 0 ? 'rgba(255, 255, 255, 0.08)' : 'rgba(168, 85, 247, 0.12)';
+      context.fillRect(left, 0, right - left, HEIGHT);
+      context.fillStyle = segmentStart ? 'rgba(251, 191, 36, 0.9)' : 'rgba(255, 255, 255, 0.35)';
+      context.fillRect(left, 0, segmentStart ? 2 : 1, HEIGHT);
+      context.fillStyle = 'rgba(255, 255, 255, 0.35)';
+      context.fillRect(right - 1, 0, 1, HEIGHT);
+
+      const label = word.word;
+      if (context.measureText(label).width + 6 < right - left) {
+        context.fillStyle = drag?.index === index ? '#fbbf24' : 'rgba(255, 255, 255, 0.9)';
+        context.fillText(label, left + 3, 4);
+      }
+    });
+  }, [waveform, width, start, pixelsPerSecond, visibleDuration, spectrogram, displayedWords, drag, loop]);
+
+  // Limite de palavra mais próximo do ponto, dentro da tolerância
+  const findHandle = (clientX: number): { index: number; edge: LadoLimite } | null => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || !onBoundaryChange) return null;
+    const x = clientX - rect.left;
+    let best: { index: number; edge: LadoLimite; distance: number } | null = null;
+    words.forEach((word, index) => {
+      (['inicio', 'fim'] as LadoLimite[]).forEach(edge => {
+        const distance = Math.abs(((edge === 'inicio' ? word.startTime : word.endTime) - start) * pixelsPerSecond - x);
+        if (distance <= HANDLE_DISTANCE && (!best || distance < best.distance)) {
+          best = { index, edge, distance };
+        }
+      });
+    });
+    return best;
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const handle = findHandle(e.clientX);
+    if (handle) {
+      e.preventDefault();
+      setDrag({ ...handle, time: timeAt(e.clientX), originX: e.clientX });
+    } else {
+      onSeek(timeAt(e.clientX));
+    }
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (e: MouseEvent) => setDrag(current => current && { ...current, time: timeAt(e.clientX) });
+    const handleUp = (e: MouseEvent) => {
+      // Um clique sem arraste sobre o limite não altera o tempo
+      if (Math.abs(e.clientX - drag.originX) > 2) {
+        onBoundaryChange?.(drag.index, drag.edge, timeAt(e.clientX));
+      }
+      setDrag(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, timeAt, onBoundaryChange]);
+
+  const zoomAround = useCallback((factor: number, anchor: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(fitZoom, pixelsPerSecond * factor));
+    // O ponto sob o mouse (ou o centro) continua no mesmo lugar da tela
+    setViewStart(anchor - ((anchor - start) * pixelsPerSecond) / next);
+    setZoom(next);
+  }, [fitZoom, pixelsPerSecond, start]);
+
+  // Ctrl + roda aproxima; Shift + roda (ou a roda horizontal) rola a linha do tempo
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        zoomAround(e.deltaY < 0 ? 1.25 : 0.8, timeAt(e.clientX));
+      } else if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        e.preventDefault();
+        setViewStart(start + (e.shiftKey ? e.deltaY : e.deltaX) / pixelsPerSecond);
+      }
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAround, timeAt, start, pixelsPerSecond]);
+
+  const cursorLeft = (currentTime - start) * pixelsPerSecond;
+  const buttonClass = 'px-2 py-1 text-xs rounded-lg glass-button text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-colors';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomAround(0.5, start + visibleDuration / 2)} disabled={!waveform || pixelsPerSecond <= fitZoom} className={buttonClass} title={t('ondas.afastar')}>−</button>
+          <button onClick={() => zoomAround(2, start + visibleDuration / 2)} disabled={!waveform || pixelsPerSecond >= MAX_ZOOM} className={buttonClass} title={t('ondas.aproximar')}>+</button>
+          <button onClick={() => setZoom(0)} disabled={!waveform || zoom === 0} className={buttonClass}>{t('ondas.verTudo')}</button>
+        </div>
+        <span className="text-xs font-mono text-white/50">
+          {drag ? `${words[drag.index]?.word}: ${formatTime(drag.time)}` : `${formatTime(start)} – ${formatTime(start + visibleDuration)}`}
+        </span>
+        <label className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showSpectrogram}
+            onChange={(e) => setShowSpectrogram(e.target.checked)}
+            className="w-3.5 h-3.5 text-cyan-500 bg-gray-700 border-gray-600 rounded"
+          />
+          {t('ondas.espectrograma')}
+        </label>
+      </div>
+
+      <div ref={containerRef} className="relative rounded-lg overflow-hidden bg-gray-900/60 border border-white/10" style={{ height: HEIGHT }}>
+        {!waveform && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-white/50">
+            {t(loadError ? 'ondas.erro' : 'ondas.carregando')}
+          </div>
+        )}
+        <canvas
+          ref={canvasRef}
+          onMouseDown={handleMouseDown}
+          onMouseMove={(e) => !drag && setHoverHandle(!!findHandle(e.clientX))}
+          onMouseLeave={() => setHoverHandle(false)}
+          className={`block ${drag || hoverHandle ? 'cursor-col-resize' : 'cursor-pointer'}`}
+          style={{ width, height: HEIGHT }}
+        />
+        {waveform && cursorLeft >= 0 && cursorLeft <= width && (
+          <div className="absolute top-0 bottom-0 w-px bg-red-400 pointer-events-none" style={{ left: cursorLeft }} />
+        )}
+      </div>
+
+      {waveform && visibleDuration < duration && (
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, duration - visibleDuration)}
+          step={0.01}
+          value={start}
+          onChange={(e) => setViewStart(parseFloat(e.target.value))}
+          className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+          aria-label={t('ondas.rolar')}
+        />
+      )}
+      {onBoundaryChange && waveform && <p className="text-xs text-white/40">{t('ondas.dica')}</p>}
+    </div>
+  );
+};
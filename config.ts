@@ -9,4 +9,91 @@ export const config = {
    * 'gemini-2.5-flash' é recomendado por seu equilíbrio entre velocidade e capacidade.
    */
   modelName: 'gemini-2.5-flash',
+
+  /**
+   * Novas tentativas das chamadas ao Gemini em falhas temporárias (limite de uso, rede, servidor).
+   * A espera cresce exponencialmente a partir de esperaInicial, com variação aleatória, até esperaMaxima.
+   */
+  gemini: {
+    /** Número máximo de tentativas de cada chamada, contando a primeira. */
+    maxTentativas: 4,
+    /** Espera (em milissegundos) antes da segunda tentativa. */
+    esperaInicial: 1000,
+    /** Espera máxima (em milissegundos) entre tentativas, inclusive a pedida pela API (retry-after). */
+    esperaMaxima: 60000,
+  },
+
+  /**
+   * Configurações da divisão de áudios longos em segmentos para transcrição.
+   * O envio inline do Gemini tem limite de ~20 MB por requisição (o base64 acrescenta ~33%)
+   * e respostas muito longas podem vir truncadas, por isso áudios grandes são transcritos por partes.
+   */
+  segmentacao: {
+    /** Duração (em segundos) acima da qual o áudio é dividido em segmentos. */
+    duracaoMaximaSemDivisao: 600,
+    /** Tamanho (em bytes) acima do qual o áudio é dividido em segmentos. */
+    tamanhoMaximoSemDivisao: 14 * 1024 * 1024,
+    /** Duração (em segundos) de cada segmento enviado à API. */
+    duracaoSegmento: 300,
+    /** Sobreposição (em segundos) entre segmentos consecutivos, para não cortar palavras. */
+    sobreposicao: 5,
+    /** Taxa de amostragem (Hz) dos segmentos WAV mono gerados. */
+    taxaAmostragem: 16000,
+  },
+
+  /**
+   * Regras de agrupamento de palavras em legendas (SRT/VTT).
+   * Os valores seguem as recomendações usuais de legibilidade (até 42 caracteres por linha e 2 linhas).
+   */
+  legendas: {
+    /** Número máximo de caracteres em cada linha da legenda. */
+    maxCaracteresPorLinha: 42,
+    /** Número máximo de linhas por legenda. */
+    maxLinhas: 2,
+    /** Duração máxima (em segundos) de uma legenda. */
+    duracaoMaxima: 7,
+    /** Duração mínima (em segundos) de uma legenda, quando houver espaço até a próxima. */
+    duracaoMinima: 1,
+    /** Pausa (em segundos) entre palavras a partir da qual uma nova legenda é iniciada. */
+    pausaParaQuebra: 1,
+  },
+
+  /**
+   * Valores padrão da transcrição em lote (vários arquivos de uma vez).
+   * Podem ser alterados pelo usuário nas preferências.
+   */
+  lote: {
+    /** Número de arquivos transcritos ao mesmo tempo. */
+    concorrencia: 2,
+    /** Número máximo de tentativas por arquivo antes de marcá-lo como falho. */
+    maxTentativas: 3,
+  },
+
+  /**
+   * Geração de embeddings (vetores de 384 dimensões do all-MiniLM-L6-v2) usados na busca vetorial.
+   * Em 'auto' o modelo local é usado primeiro e a API do Hugging Face só quando ele não carrega.
+   */
+  embeddings: {
+    /** Backend usado: 'auto', 'local' (ONNX no próprio processo) ou 'huggingface' (API). */
+    backend: 'auto' as 'auto' | 'local' | 'huggingface',
+    /** Modelo convertido para ONNX executado localmente. */
+    modeloLocal: 'Xenova/all-MiniLM-L6-v2',
+    /** Pasta (relativa à página) com os modelos e os arquivos WASM distribuídos com a aplicação. */
+    caminhoModelos: './models/',
+    /**
+     * Permite baixar o modelo do Hugging Face Hub quando ele não foi distribuído com a aplicação.
+     * Desativado por padrão: sem o modelo (gerado por npm run models:download no build), o backend
+     * local fica indisponível.
+     */
+    permitirDownloadModelo: false,
+  },
+
+  /**
+   * Onde os dados de sincronização, aprendizado, transcrições e áudios são gravados.
+   * Em 'auto' o Supabase é usado quando está configurado e acessível; caso contrário, o armazenamento local.
+   */
+  armazenamento: {
+    /** Backend usado: 'auto', 'supabase' ou 'local' (IndexedDB, funciona sem internet). */
+    backend: 'auto' as 'auto' | 'supabase' | 'local',
+  },
 };
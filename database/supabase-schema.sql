@@ -9,6 +9,7 @@ CREATE TABLE IF NOT EXISTS word_timestamps (
   session_id UUID DEFAULT gen_random_uuid(),
   word_embedding VECTOR(384),
   context_embedding VECTOR(384),
+  embedding_model TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -22,6 +23,7 @@ CREATE TABLE IF NOT EXISTS learning_data (
   context TEXT,
   word_embedding VECTOR(384),
   context_embedding VECTOR(384),
+  embedding_model TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -32,9 +34,28 @@ CREATE TABLE IF NOT EXISTS transcricoes (
   transcricao TEXT NOT NULL,
   tamanho_arquivo BIGINT,
   transcricao_embedding VECTOR(384),
+  embedding_model TEXT,
   criado_em TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Bancos criados antes da marcação do modelo: adicionar a coluna e descartar os vetores sem modelo
+-- conhecido (versões antigas gravavam vetores de zeros quando a API de embeddings falhava)
+ALTER TABLE word_timestamps ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE learning_data ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE transcricoes ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+UPDATE word_timestamps SET word_embedding = NULL, context_embedding = NULL WHERE embedding_model IS NULL;
+UPDATE learning_data SET word_embedding = NULL, context_embedding = NULL WHERE embedding_model IS NULL;
+UPDATE transcricoes SET transcricao_embedding = NULL WHERE embedding_model IS NULL;
+
+-- Sincronização com a biblioteca local: as linhas vindas da biblioteca são identificadas pelo id do
+-- item e guardam as palavras com tempo, o resumo e a versão (atualizado_em) usada para detectar
+-- edições concorrentes
+ALTER TABLE transcricoes ADD COLUMN IF NOT EXISTS item_id TEXT UNIQUE;
+ALTER TABLE transcricoes ADD COLUMN IF NOT EXISTS palavras JSONB;
+ALTER TABLE transcricoes ADD COLUMN IF NOT EXISTS resumo TEXT;
+ALTER TABLE transcricoes ADD COLUMN IF NOT EXISTS audio_url TEXT;
+ALTER TABLE transcricoes ADD COLUMN IF NOT EXISTS atualizado_em TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
 -- Criar índices para melhor performance
 CREATE INDEX IF NOT EXISTS idx_word_timestamps_word ON word_timestamps(word);
 CREATE INDEX IF NOT EXISTS idx_word_timestamps_timestamp ON word_timestamps(timestamp);
@@ -93,15 +114,29 @@ COMMENT ON COLUMN transcricoes.nome_arquivo IS 'Nome do arquivo de áudio origin
 COMMENT ON COLUMN transcricoes.transcricao IS 'Texto completo da transcrição';
 COMMENT ON COLUMN transcricoes.tamanho_arquivo IS 'Tamanho do arquivo em bytes';
 COMMENT ON COLUMN transcricoes.transcricao_embedding IS 'Embedding vetorial do texto completo da transcrição para busca semântica';
+COMMENT ON COLUMN word_timestamps.embedding_model IS 'Modelo que gerou os embeddings do registro';
+COMMENT ON COLUMN learning_data.embedding_model IS 'Modelo que gerou os embeddings do registro';
+COMMENT ON COLUMN transcricoes.embedding_model IS 'Modelo que gerou o embedding da transcrição';
 COMMENT ON COLUMN transcricoes.criado_em IS 'Data e hora de criação do registro';
+COMMENT ON COLUMN transcricoes.item_id IS 'Id do item na biblioteca local (linhas sincronizadas)';
+COMMENT ON COLUMN transcricoes.palavras IS 'Palavras com tempo da transcrição sincronizada';
+COMMENT ON COLUMN transcricoes.resumo IS 'Resumo da transcrição sincronizada';
+COMMENT ON COLUMN transcricoes.audio_url IS 'URL do áudio no Supabase Storage, quando houver';
+COMMENT ON COLUMN transcricoes.atualizado_em IS 'Versão da transcrição sincronizada; muda a cada edição';
 
 -- =====================================================
 -- FUNÇÕES PARA BUSCA VETORIAL
 -- =====================================================
+-- Só são comparados vetores gerados pelo mesmo modelo do vetor de busca (query_model)
+
+DROP FUNCTION IF EXISTS buscar_palavras_similares(vector, float, int);
+DROP FUNCTION IF EXISTS buscar_transcricoes_similares(vector, float, int);
+DROP FUNCTION IF EXISTS buscar_aprendizado_similar(vector, float, int);
 
 -- Função para buscar palavras similares usando embeddings
 CREATE OR REPLACE FUNCTION buscar_palavras_similares(
   query_embedding vector(384),
+  query_model text,
   similarity_threshold float DEFAULT 0.7,
   match_count int DEFAULT 5
 )
@@ -122,6 +157,7 @@ BEGIN
     1 - (wt.word_embedding <=> query_embedding) as similarity
   FROM word_timestamps wt
   WHERE wt.word_embedding IS NOT NULL
+    AND wt.embedding_model = query_model
     AND 1 - (wt.word_embedding <=> query_embedding) > similarity_threshold
   ORDER BY wt.word_embedding <=> query_embedding
   LIMIT match_count;
@@ -131,6 +167,7 @@ $$;
 -- Função para buscar transcrições similares usando embeddings
 CREATE OR REPLACE FUNCTION buscar_transcricoes_similares(
   query_embedding vector(384),
+  query_model text,
   similarity_threshold float DEFAULT 0.7,
   match_count int DEFAULT 5
 )
@@ -151,6 +188,7 @@ BEGIN
     1 - (t.transcricao_embedding <=> query_embedding) as similarity
   FROM transcricoes t
   WHERE t.transcricao_embedding IS NOT NULL
+    AND t.embedding_model = query_model
     AND 1 - (t.transcricao_embedding <=> query_embedding) > similarity_threshold
   ORDER BY t.transcricao_embedding <=> query_embedding
   LIMIT match_count;
@@ -160,6 +198,7 @@ $$;
 -- Função para buscar dados de aprendizado similares
 CREATE OR REPLACE FUNCTION buscar_aprendizado_similar(
   query_embedding vector(384),
+  query_model text,
   similarity_threshold float DEFAULT 0.7,
   match_count int DEFAULT 5
 )
@@ -182,6 +221,7 @@ BEGIN
     1 - (ld.word_embedding <=> query_embedding) as similarity
   FROM learning_data ld
   WHERE ld.word_embedding IS NOT NULL
+    AND ld.embedding_model = query_model
     AND 1 - (ld.word_embedding <=> query_embedding) > similarity_threshold
   ORDER BY ld.word_embedding <=> query_embedding
   LIMIT match_count;
@@ -79,6 +79,16 @@ export const useTranscriptionShortcuts = ({
   onSeekBackward,
   onNewTranscription,
   onExportTranscription,
+  onUndo,
+  onRedo,
+  onSetLoopStart,
+  onSetLoopEnd,
+  onClearLoop,
+  onReplaySentence,
+  onToggleAutoPause,
+  onNextUncertainWord,
+  onPreviousUncertainWord,
+  onMarkWordVerified,
   enabled = true
 }: {
   onTogglePlayPause?: () => void;
@@ -90,70 +100,143 @@ export const useTranscriptionShortcuts = ({
   onSeekBackward?: () => void;
   onNewTranscription?: () => void;
   onExportTranscription?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onSetLoopStart?: () => void;
+  onSetLoopEnd?: () => void;
+  onClearLoop?: () => void;
+  onReplaySentence?: () => void;
+  onToggleAutoPause?: () => void;
+  onNextUncertainWord?: () => void;
+  onPreviousUncertainWord?: () => void;
+  onMarkWordVerified?: () => void;
   enabled?: boolean;
 }) => {
-  const shortcuts: KeyboardShortcut[] = [
+  const allShortcuts: Array<Omit<KeyboardShortcut, 'action'> & { action?: () => void }> = [
     {
       key: ' ',
-      action: () => onTogglePlayPause?.(),
+      action: onTogglePlayPause,
       description: 'Reproduzir/Pausar áudio'
     },
     {
       key: 's',
       ctrlKey: true,
-      action: () => onExportTranscription?.(),
+      action: onExportTranscription,
       description: 'Salvar/Exportar transcrição'
     },
     {
       key: 'n',
       ctrlKey: true,
-      action: () => onNewTranscription?.(),
+      action: onNewTranscription,
       description: 'Nova transcrição'
     },
+    {
+      key: 'z',
+      ctrlKey: true,
+      action: onUndo,
+      description: 'Desfazer edição'
+    },
+    {
+      key: 'y',
+      ctrlKey: true,
+      action: onRedo,
+      description: 'Refazer edição'
+    },
+    {
+      key: 'z',
+      ctrlKey: true,
+      shiftKey: true,
+      action: onRedo,
+      description: 'Refazer edição (alternativo)'
+    },
     {
       key: ',',
       ctrlKey: true,
-      action: () => onToggleSettings?.(),
+      action: onToggleSettings,
       description: 'Abrir configurações'
     },
     {
       key: 't',
       ctrlKey: true,
-      action: () => onToggleTheme?.(),
+      action: onToggleTheme,
       description: 'Alternar tema'
     },
     {
       key: 'ArrowUp',
-      action: () => onSpeedUp?.(),
+      action: onSpeedUp,
       description: 'Aumentar velocidade de reprodução'
     },
     {
       key: 'ArrowDown',
-      action: () => onSpeedDown?.(),
+      action: onSpeedDown,
       description: 'Diminuir velocidade de reprodução'
     },
     {
       key: 'ArrowRight',
-      action: () => onSeekForward?.(),
+      action: onSeekForward,
       description: 'Avançar 10 segundos'
     },
     {
       key: 'ArrowLeft',
-      action: () => onSeekBackward?.(),
+      action: onSeekBackward,
       description: 'Retroceder 10 segundos'
     },
     {
       key: 'f',
-      action: () => onSeekForward?.(),
+      action: onSeekForward,
       description: 'Avançar (alternativo)'
     },
     {
       key: 'b',
-      action: () => onSeekBackward?.(),
+      action: onSeekBackward,
       description: 'Retroceder (alternativo)'
+    },
+    {
+      key: '[',
+      action: onSetLoopStart,
+      description: 'Marcar início do loop (A)'
+    },
+    {
+      key: ']',
+      action: onSetLoopEnd,
+      description: 'Marcar fim do loop (B)'
+    },
+    {
+      key: '\\',
+      action: onClearLoop,
+      description: 'Remover loop A-B'
+    },
+    {
+      key: 'r',
+      action: onReplaySentence,
+      description: 'Repetir a frase atual'
+    },
+    {
+      key: 'p',
+      action: onToggleAutoPause,
+      description: 'Pausar ao fim de cada frase'
+    },
+    {
+      key: 'u',
+      action: onNextUncertainWord,
+      description: 'Ir para a próxima palavra incerta'
+    },
+    {
+      key: 'u',
+      shiftKey: true,
+      action: onPreviousUncertainWord,
+      description: 'Ir para a palavra incerta anterior'
+    },
+    {
+      key: 'v',
+      action: onMarkWordVerified,
+      description: 'Marcar a palavra incerta como verificada'
     }
   ];
 
+  // Só os atalhos com ação definida são registrados, para que várias telas possam usar o hook
+  const shortcuts = allShortcuts.filter((shortcut): shortcut is KeyboardShortcut => !!shortcut.action);
+
   return useKeyboardShortcuts(shortcuts, { enabled });
 };
 
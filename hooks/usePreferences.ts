@@ -1,18 +1,34 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { TranscriptionProviderId } from '../services/transcriptionProvider';
+import type { TermoGlossario } from '../services/glossaryService';
+import type { FormatoExportacao } from '../services/exportService';
+import { ENDPOINT_LOCAL_PADRAO } from '../services/localTranscriptionService';
+import { IDIOMA_PADRAO, IdiomaInterface } from '../i18n';
+import { config } from '../config';
 
-interface UserPreferences {
+export interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
   audioPlaybackSpeed: number;
   autoScroll: boolean;
   highlightTolerance: number;
-  exportFormat: 'txt' | 'json' | 'srt' | 'vtt';
+  exportFormat: FormatoExportacao;
+  exportTimestamps: boolean; // Marcas de tempo nos parágrafos dos documentos exportados (Markdown, DOCX e PDF)
+  exportSpeakers: boolean; // Nomes dos falantes nos parágrafos dos documentos exportados
   fontSize: 'small' | 'medium' | 'large';
   keyboardShortcutsEnabled: boolean;
   autoSave: boolean;
-  language: 'pt-BR' | 'en-US' | 'es-ES';
+  language: IdiomaInterface; // Idioma da interface e dos resumos
   maxRecentFiles: number;
   showTimestamps: boolean;
   wordConfidenceThreshold: number;
+  transcriptionProvider: TranscriptionProviderId;
+  localEngineUrl: string;
+  localEngineCloudServices: boolean; // Com o mecanismo local, permite enviar a transcrição ao resumo e ao armazenamento na nuvem
+  speakerDiarization: boolean;
+  summaryMode: 'freeform' | 'structured'; // Resumo em texto livre ou com ações, decisões e capítulos
+  batchConcurrency: number; // Arquivos transcritos ao mesmo tempo no lote
+  batchMaxRetries: number; // Tentativas por arquivo no lote
+  glossary: TermoGlossario[]; // Vocabulário do domínio usado na transcrição e na correção do resultado
 }
 
 const DEFAULT_PREFERENCES: UserPreferences = {
@@ -21,16 +37,28 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   autoScroll: true,
   highlightTolerance: 0.5,
   exportFormat: 'txt',
+  exportTimestamps: true,
+  exportSpeakers: true,
   fontSize: 'medium',
   keyboardShortcutsEnabled: true,
   autoSave: true,
-  language: 'pt-BR',
+  language: IDIOMA_PADRAO,
   maxRecentFiles: 10,
   showTimestamps: false,
-  wordConfidenceThreshold: 0.7
+  wordConfidenceThreshold: 0.7,
+  transcriptionProvider: 'gemini',
+  localEngineUrl: ENDPOINT_LOCAL_PADRAO,
+  localEngineCloudServices: false,
+  speakerDiarization: false,
+  summaryMode: 'freeform',
+  batchConcurrency: config.lote.concorrencia,
+  batchMaxRetries: config.lote.maxTentativas,
+  glossary: []
 };
 
 const STORAGE_KEY = 'transcription-app-preferences';
+// Evento usado para manter sincronizadas todas as instâncias do hook (ex.: App e SettingsModal)
+const PREFERENCES_EVENT = 'transcription-app-preferences-change';
 
 export const usePreferences = () => {
   const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
@@ -54,11 +82,22 @@ export const usePreferences = () => {
     }
   }, []);
 
+  // Receber alterações feitas por outras instâncias do hook
+  useEffect(() => {
+    const handlePreferencesChange = (event: Event) => {
+      setPreferences((event as CustomEvent<UserPreferences>).detail);
+    };
+
+    window.addEventListener(PREFERENCES_EVENT, handlePreferencesChange);
+    return () => window.removeEventListener(PREFERENCES_EVENT, handlePreferencesChange);
+  }, []);
+
   // Salvar preferências no localStorage
   const savePreferences = useCallback((newPreferences: UserPreferences) => {
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(newPreferences));
       setPreferences(newPreferences);
+      window.dispatchEvent(new CustomEvent(PREFERENCES_EVENT, { detail: newPreferences }));
     } catch (error) {
       console.error('Erro ao salvar preferências:', error);
     }
@@ -159,7 +198,10 @@ export const usePreferences = () => {
     setAutoSave: (enabled: boolean) => updatePreference('autoSave', enabled),
     setLanguage: (language: UserPreferences['language']) => updatePreference('language', language),
     setShowTimestamps: (show: boolean) => updatePreference('showTimestamps', show),
-    setWordConfidenceThreshold: (threshold: number) => updatePreference('wordConfidenceThreshold', threshold)
+    setWordConfidenceThreshold: (threshold: number) => updatePreference('wordConfidenceThreshold', threshold),
+    setTranscriptionProvider: (provider: TranscriptionProviderId) => updatePreference('transcriptionProvider', provider),
+    setLocalEngineUrl: (url: string) => updatePreference('localEngineUrl', url),
+    setSpeakerDiarization: (enabled: boolean) => updatePreference('speakerDiarization', enabled)
   };
 };
 
@@ -0,0 +1,77 @@
+import { useState, useCallback } from 'react';
+import { WordTimestamp } from '../types';
+
+// Quantidade máxima de estados guardados para desfazer
+const LIMITE_HISTORICO = 200;
+
+export interface HistoryState {
+  past: WordTimestamp[][];
+  present: WordTimestamp[] | null;
+  future: WordTimestamp[][];
+}
+
+// Transições do histórico, separadas do hook para poderem ser testadas sem renderizar
+
+export const pushEdit = (prev: HistoryState, transcription: WordTimestamp[]): HistoryState => {
+  if (!prev.present || prev.present === transcription) return prev;
+  return {
+    past: [...prev.past, prev.present].slice(-LIMITE_HISTORICO),
+    present: transcription,
+    future: []
+  };
+};
+
+export const undoEdit = (prev: HistoryState): HistoryState => {
+  if (prev.past.length === 0 || !prev.present) return prev;
+  return {
+    past: prev.past.slice(0, -1),
+    present: prev.past[prev.past.length - 1],
+    future: [prev.present, ...prev.future]
+  };
+};
+
+export const redoEdit = (prev: HistoryState): HistoryState => {
+  if (prev.future.length === 0 || !prev.present) return prev;
+  return {
+    past: [...prev.past, prev.present],
+    present: prev.future[0],
+    future: prev.future.slice(1)
+  };
+};
+
+/**
+ * Hook para a transcrição atual com histórico de edições (desfazer/refazer).
+ *
+ * `resetTranscription` carrega uma nova transcrição e limpa o histórico;
+ * `applyEdit` registra uma edição que pode ser desfeita.
+ */
+export const useTranscriptionHistory = () => {
+  const [history, setHistory] = useState<HistoryState>({ past: [], present: null, future: [] });
+
+  const resetTranscription = useCallback((transcription: WordTimestamp[] | null) => {
+    setHistory({ past: [], present: transcription, future: [] });
+  }, []);
+
+  const applyEdit = useCallback((transcription: WordTimestamp[]) => {
+    setHistory(prev => pushEdit(prev, transcription));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(undoEdit);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(redoEdit);
+  }, []);
+
+  return {
+    transcription: history.present,
+    resetTranscription,
+    applyEdit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    editCount: history.past.length
+  };
+};
@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { usePreferences } from './usePreferences';
+import { ChaveTraducao, ParametrosTraducao, traduzir } from '../i18n';
+
+/**
+ * Textos da interface no idioma escolhido nas preferências
+ */
+export const useTranslation = () => {
+  const { preferences } = usePreferences();
+  const language = preferences.language;
+
+  const t = useCallback((chave: ChaveTraducao, parametros?: ParametrosTraducao) => {
+    return traduzir(language, chave, parametros);
+  }, [language]);
+
+  return { t, language };
+};
@@ -0,0 +1,439 @@
+import type { Catalogo } from './index';
+
+/**
+ * Catálogo de textos da interface em inglês (EUA)
+ */
+
+export const enUS: Catalogo = {
+  // Comuns
+  'comum.carregando': 'Loading...',
+  'comum.processando': 'Processing...',
+  'comum.atualizando': 'Updating...',
+  'comum.tentarNovamente': 'Try Again',
+  'comum.fechar': 'Close',
+  'comum.cancelar': 'Cancel',
+  'comum.salvar': 'Save',
+  'comum.remover': 'Remove',
+  'comum.palavras': '{quantidade} words',
+
+  // Idiomas
+  'idioma.auto': 'Detect automatically',
+  'idioma.pt-BR': 'Portuguese (Brazil)',
+  'idioma.en-US': 'English (US)',
+  'idioma.es-ES': 'Spanish (Spain)',
+  'idioma.fr-FR': 'French',
+  'idioma.de-DE': 'German',
+  'idioma.it-IT': 'Italian',
+
+  // Cabeçalho
+  'cabecalho.titulo': 'AI Audio Transcription',
+  'cabecalho.subtitulo': 'Turn your audio into text and get instant summaries with the power of AI.',
+  'cabecalho.temaClaro': 'Switch to light theme',
+  'cabecalho.temaEscuro': 'Switch to dark theme',
+  'cabecalho.configuracoes': 'Settings',
+
+  // Navegação
+  'navegacao.biblioteca': '📚 Library',
+  'navegacao.upload': 'Audio Upload',
+  'navegacao.processamento': 'Processing',
+  'navegacao.transcricao': 'Transcription',
+  'navegacao.concluido': 'Done',
+  'navegacao.estadoConcluido': 'Completed',
+  'navegacao.estadoAtual': 'Current',
+  'navegacao.estadoPendente': 'Pending',
+
+  // Indicador de carregamento
+  'carregamento.transcrevendo': 'Transcribing the audio... this may take a moment.',
+  'carregamento.salvando': 'Saving transcription to the database...',
+  'carregamento.resumindo': 'Creating AI summary...',
+
+  // Envio de áudio
+  'upload.soltarAudio': 'Please drop an audio file.',
+  'upload.variosArquivos': 'Select or drop several files to transcribe them as a batch.',
+  'upload.erroDesconhecido': 'Unknown upload error',
+  'upload.erro': 'Upload error',
+  'upload.arraste': 'Drag your audio here',
+  'upload.ou': 'or',
+  'upload.cliqueParaSelecionar': 'click to select',
+  'upload.removerArquivo': 'Remove file',
+  'upload.enviando': 'Uploading to Supabase...',
+  'upload.progresso': '{percentual}% complete',
+  'upload.storageDesconectado': '⚠️ Cloud storage unavailable - the audio will be sent with the transcription request, and data is saved on this computer',
+  'upload.importarTranscricao': 'Import transcript (SRT, VTT, JSON)',
+  'upload.importarTranscricaoAjuda': 'Already have a transcript for this audio? Import it to play, edit and export without transcribing again.',
+  'upload.idiomaAudio': 'Audio language',
+  'upload.idiomaAudioDica': 'With automatic detection, the audio is transcribed in the spoken language, without translation.',
+
+  // Player de áudio
+  'player.retroceder': 'Back 10s (←)',
+  'player.pausar': 'Pause (Space)',
+  'player.reproduzir': 'Play (Space)',
+  'player.avancar': 'Forward 10s (→)',
+  'player.ativarSom': 'Unmute (M)',
+  'player.silenciar': 'Mute (M)',
+  'player.volume': 'Volume (↑↓)',
+  'player.velocidade': 'Speed:',
+  'player.velocidadeValor': 'Speed {valor}x',
+  'player.atalhos': 'Shortcuts: Space (Play/Pause) • ← → (Skip) • ↑ ↓ (Volume) • M (Mute) • [ ] (A-B loop) • \\ (Clear loop)',
+  'player.loop': 'Loop:',
+  'player.marcarA': 'Set loop start at the current time ([)',
+  'player.marcarB': 'Set loop end at the current time (])',
+  'player.limparLoop': 'Clear loop (\\)',
+  'player.preservarTom': 'Preserve pitch',
+  'player.preservarTomDica': 'Keeps the voice pitch when playing slower or faster',
+
+  // Biblioteca
+  'biblioteca.titulo': 'Library',
+  'biblioteca.subtitulo': 'Transcriptions saved on this computer',
+  'biblioteca.fechar': 'Close library',
+  'biblioteca.buscar': 'Search by file name, text or summary...',
+  'biblioteca.erroCarregar': 'Could not load the library.',
+  'biblioteca.erroRemover': 'Could not remove the item.',
+  'biblioteca.confirmarRemocao': 'Remove "{nome}" from the library?',
+  'biblioteca.nenhumaEncontrada': 'No transcriptions found.',
+  'biblioteca.vazia': 'No transcriptions saved yet.',
+  'biblioteca.abrir': 'Open transcription',
+  'biblioteca.ocorrencia': '{quantidade} match',
+  'biblioteca.ocorrencias': '{quantidade} matches',
+  'biblioteca.semAudio': 'no audio',
+  'biblioteca.modoTexto': 'Text',
+  'biblioteca.modoTextoDica': 'Searches the exact words in the name, text and summary',
+  'biblioteca.modoSignificado': 'Meaning',
+  'biblioteca.modoSignificadoDica': 'Searches passages of every transcription by meaning, even when worded differently',
+  'biblioteca.modoPerguntas': 'Ask',
+  'biblioteca.modoPerguntasDica': 'Ask questions about your recordings and get answers with cited sources',
+  'buscaSemantica.placeholder': 'Describe what you are looking for (e.g. when they discussed the project budget)',
+  'buscaSemantica.ajuda': 'Type a question or a topic to find the closest passages across all transcriptions.',
+  'buscaSemantica.indexando': 'Preparing meaning search: {indexados} of {total} transcriptions...',
+  'buscaSemantica.nenhumResultado': 'No similar passage found',
+  'buscaSemantica.semelhanca': '{valor}% similar',
+  'buscaSemantica.abrirTrecho': 'Open the transcription at this passage',
+  'buscaSemantica.erroIndexar': 'Could not prepare meaning search. Check that the embedding model is available.',
+  'buscaSemantica.erroBuscar': 'Error searching by meaning',
+  'perguntas.ajuda': 'Ask about what was said in your recordings (e.g. what did the client say about pricing in March?). Every answer cites the transcription and moment it came from.',
+  'perguntas.placeholder': 'Ask a question about your recordings',
+  'perguntas.enviar': 'Ask',
+  'perguntas.buscando': 'Looking for related passages...',
+  'perguntas.respondendo': 'Writing the answer...',
+  'perguntas.fontes': 'Sources',
+  'perguntas.trechosConsultados': 'The answer cited no sources. Passages consulted:',
+  'perguntas.abrirFonte': 'Open {nome} at {tempo}',
+  'perguntas.semTrechos': 'No passage in the library seems related to this question.',
+  'perguntas.semChave': 'Set the Gemini API key in the settings to ask questions.',
+  'perguntas.erro': 'Could not answer the question',
+  'sincronizacao.sincronizar': 'Sync',
+  'sincronizacao.dica': 'Sends the changes in this library to Supabase and brings in the ones made on other devices',
+  'sincronizacao.sincronizando': 'Syncing...',
+  'sincronizacao.concluida': 'Synced: {enviados} sent, {recebidos} received, {removidos} removed',
+  'sincronizacao.comConflitos': '{quantidade} transcriptions edited here and on another device need review',
+  'sincronizacao.comFalhas': '{quantidade} transcriptions could not be synced; try again later',
+  'sincronizacao.indisponivel': 'Supabase unavailable: changes are kept here and will be sent on the next sync.',
+  'sincronizacao.erro': 'Could not sync the library',
+  'sincronizacao.status.naoEnviado': 'Only on this device',
+  'sincronizacao.status.pendente': 'Changes to send',
+  'sincronizacao.status.sincronizado': 'Synced',
+  'sincronizacao.status.conflito': 'Conflict',
+  'sincronizacao.resolver': 'Resolve the conflict',
+  'sincronizacao.conflitoTitulo': 'Conflict in "{nome}"',
+  'sincronizacao.conflitoAjuda': 'This transcription was edited here and on another device since the last sync. Choose the version to keep; the other one will be discarded.',
+  'sincronizacao.conflitoRemocaoAjuda': 'This transcription was deleted on another device, but it was edited here since the last sync. Choose whether it stays in the library or is deleted here as well.',
+  'sincronizacao.removidaNoServidor': 'Deleted on another device.',
+  'sincronizacao.aceitarRemocao': 'Delete it here too',
+  'sincronizacao.versaoLocal': 'In this library',
+  'sincronizacao.versaoRemota': 'On the server',
+  'sincronizacao.editadaEm': 'Edited on {data}',
+  'sincronizacao.textoIgual': 'The text is the same in both versions; the name or the summary changed.',
+  'sincronizacao.manterLocal': 'Keep the version in this library',
+  'sincronizacao.usarRemota': 'Use the server version',
+  'sincronizacao.mudouDeNovo': 'The transcription was edited again on the server. Check the latest version.',
+
+  // Configurações
+  'configuracoes.titulo': 'Settings',
+  'configuracoes.fechar': 'Close dialog',
+  'configuracoes.abaApi': 'API',
+  'configuracoes.abaPreferencias': 'Preferences',
+  'configuracoes.abaGlossario': 'Glossary',
+  'configuracoes.abaAtalhos': 'Shortcuts',
+  'configuracoes.chaveApi': 'Google Gemini API Key',
+  'configuracoes.chaveApiPlaceholder': 'Paste your API key here',
+  'configuracoes.chaveApiAjuda': 'Your API key is stored only in your browser. You can get one at',
+  'configuracoes.mecanismo': 'Transcription Engine',
+  'configuracoes.diarizacao': 'Identify speakers (diarization)',
+  'configuracoes.semDiarizacao': 'This engine does not identify speakers.',
+  'configuracoes.enderecoLocal': 'Local Engine Address',
+  'configuracoes.testar': 'Test',
+  'configuracoes.localOk': '✓ Local engine is responding.',
+  'configuracoes.localErro': '⚠ Could not connect. Start the server (e.g. whisper-server --port 8080).',
+  'configuracoes.localNuvem': 'Send the transcript for summarization (Gemini) and cloud storage (Supabase)',
+  'configuracoes.localResumo': 'When off, the transcript never leaves this computer: no summary is generated and nothing is saved to the cloud.',
+  'configuracoes.idiomaInterface': 'Interface Language',
+  'configuracoes.idiomaInterfaceAjuda': 'Summaries are also generated in this language.',
+  'configuracoes.tema': 'Theme',
+  'configuracoes.mudarParaClaro': 'Switch to Light',
+  'configuracoes.mudarParaEscuro': 'Switch to Dark',
+  'configuracoes.temaAtual': 'Current theme: {tema}',
+  'configuracoes.temaClaro': 'Light',
+  'configuracoes.temaEscuro': 'Dark',
+  'configuracoes.velocidadePadrao': 'Default Playback Speed: {valor}x',
+  'configuracoes.limiteConfianca': 'Word confidence threshold: {valor}%',
+  'configuracoes.limiteConfiancaAjuda': 'Words with confidence below this value are highlighted and included in the uncertain word review.',
+  'configuracoes.formatoExportacao': 'Export Format',
+  'configuracoes.formatoTexto': 'Text (.txt)',
+  'configuracoes.exportarMarcasTempo': 'Include timestamps in paragraphs',
+  'configuracoes.exportarFalantes': 'Include speaker names',
+  'configuracoes.exportarDocumentoAjuda': 'Markdown, DOCX and PDF include the file details, the summary and the transcript as paragraphs.',
+  'configuracoes.concorrenciaLote': 'Files transcribed at the same time in a batch: {valor}',
+  'configuracoes.tentativasLote': 'Attempts per file in a batch: {valor}',
+  'configuracoes.modoResumo': 'Summary type',
+  'configuracoes.modoResumoLivre': 'Free text',
+  'configuracoes.modoResumoEstruturado': 'Structured (action items, decisions, questions and chapters)',
+  'configuracoes.modoResumoAjuda': 'In a structured summary, clicking an item seeks the audio to where it was said.',
+  'configuracoes.tamanhoFonte': 'Font Size: {valor}px',
+  'configuracoes.rolagemAutomatica': 'Auto Scroll',
+  'configuracoes.atalhosTeclado': 'Keyboard Shortcuts',
+  'configuracoes.salvamentoAutomatico': 'Auto Save',
+  'configuracoes.mostrarTimestamps': 'Show Timestamps',
+  'configuracoes.gerenciar': 'Manage Preferences',
+  'configuracoes.exportar': 'Export',
+  'configuracoes.importar': 'Import',
+  'configuracoes.resetar': 'Reset',
+  'configuracoes.erroImportar': 'Error importing preferences. Check that the file is valid.',
+
+  // Provedores de transcrição
+  'provedor.gemini.nome': 'Google Gemini',
+  'provedor.gemini.descricao': 'Cloud transcription with the Gemini API.',
+  'provedor.local.nome': 'Local engine (whisper.cpp)',
+  'provedor.local.descricao': 'Offline transcription on a server running on this machine. The audio never leaves the computer.',
+
+  // Editor
+  'editor.instrucoes': 'Edit mode: click a word to correct it. Type spaces to split it or clear the text to remove it.',
+  'editor.ouvir': 'Play from this word',
+  'editor.mesclar': 'Merge with next',
+  'editor.excluir': 'Delete',
+  'editor.novaPalavra': 'New word',
+  'editor.inserirAntes': 'Insert before',
+  'editor.inserirDepois': 'Insert after',
+
+  'busca.abrir': 'Find and replace (Ctrl+F)',
+  'busca.buscar': 'Find in transcript',
+  'busca.dica': 'Case and accents are ignored. Press Enter for the next match.',
+  'busca.anterior': 'Previous match (Shift+Enter)',
+  'busca.proximo': 'Next match (Enter)',
+  'busca.palavraInteira': 'Match whole words only',
+  'busca.palavraInteiraCurto': 'Word',
+  'busca.regex': 'Use regular expression',
+  'busca.regexInvalida': 'Invalid regular expression',
+  'busca.resultado': '{atual} of {total}',
+  'busca.semResultados': 'No matches',
+  'busca.substituirPor': 'Replace with',
+  'busca.substituirTodas': 'Replace all',
+  'busca.substituidas': '{quantidade} matches replaced (Ctrl+Z to undo)',
+
+  'glossario.ajuda': 'Terms from your domain (drugs, clients, acronyms) are sent to the transcription engine, and the misspellings you register are fixed automatically at the end.',
+  'glossario.termo': 'Term',
+  'glossario.termoPlaceholder': 'E.g. Ozempic',
+  'glossario.pronuncia': 'Pronunciation (optional)',
+  'glossario.pronunciaPlaceholder': 'E.g. oh-ZEM-pick',
+  'glossario.variantes': 'Common misspellings (comma-separated)',
+  'glossario.variantesPlaceholder': 'E.g. ozempick, oh zempic',
+  'glossario.adicionar': 'Add term',
+  'glossario.salvarTermo': 'Save term',
+  'glossario.editar': 'Click to edit',
+  'glossario.remover': 'Remove {termo}',
+  'glossario.corrige': 'Fixes: {variantes}',
+  'glossario.vazio': 'No terms yet.',
+  'glossario.correcoes': '{quantidade} glossary corrections',
+
+  'documento.arquivo': 'File',
+  'documento.duracao': 'Duration',
+  'documento.palavras': 'Words',
+  'documento.falantes': 'Speakers',
+  'documento.criadoEm': 'Created on',
+  'documento.exportadoEm': 'Exported on',
+  'documento.resumo': 'Summary',
+  'documento.transcricao': 'Transcript',
+  'documento.responsavel': 'Owner',
+  'documento.prazo': 'Due',
+  'importacao.concluida': '{quantidade} words imported from {arquivo}.',
+  'importacao.erroFormato': 'Unrecognized format. Import an SRT or WebVTT file, or the JSON exported by the app.',
+  'importacao.erroInvalido': 'Could not read the transcript: the file is corrupted or not in the expected format.',
+  'importacao.erroVazio': 'The file does not contain any speech.',
+  'alinhamento.ativar': 'I already have the exact text: align the script to the audio',
+  'alinhamento.ajuda': 'Paste or load the script. The audio is transcribed only to get the timings; the final text is exactly the script.',
+  'alinhamento.placeholder': 'Paste the text spoken in the audio here...',
+  'alinhamento.carregar': 'Load text file',
+  'alinhamento.palavras': '{quantidade} words',
+  'alinhamento.iniciar': 'Align script to audio',
+  'alinhamento.concluido': '{alinhadas} of {total} script words aligned to the audio.',
+  'alinhamento.baixaCobertura': 'Only {percentual}% of the script was found in the audio. Check that the text matches this file; words that were not found are shown with low confidence.',
+  'ondas.mostrar': 'Waveform',
+  'ondas.mostrarDica': 'Show the waveform with the words to correct timings',
+  'ondas.carregando': 'Decoding audio...',
+  'ondas.erro': 'Could not decode the audio to draw the waveform.',
+  'ondas.espectrograma': 'Spectrogram',
+  'ondas.aproximar': 'Zoom in',
+  'ondas.afastar': 'Zoom out',
+  'ondas.verTudo': 'Fit all',
+  'ondas.rolar': 'Scroll the timeline',
+  'ondas.dica': 'Drag word boundaries to correct timings. Ctrl + mouse wheel zooms; Shift + wheel scrolls the timeline.',
+  'revisao.repetirFrase': '↺ Replay sentence (R)',
+  'revisao.repetirFraseDica': 'Jumps back to the start of the current sentence and plays it again. Shift + click two words to loop the passage between them.',
+  'revisao.pausaAutomatica': '⏸ Pause at end of sentence (P)',
+  'revisao.pausaAutomaticaDica': 'Pauses playback at the end of each sentence so you can fix the text before moving on',
+  'confianca.histogramaDica': 'Word confidence distribution (ranges below the threshold in red)',
+  'confianca.faixa': '{inicio}–{fim}%: {quantidade} word(s)',
+  'confianca.media': 'Average confidence: {valor}%',
+  'confianca.abaixoDoLimite': '{quantidade} word(s) below {limite}% ({percentual}% of the text)',
+  'confianca.pendentes': '{quantidade} uncertain word(s) to review',
+  'confianca.tudoRevisado': 'All uncertain words have been reviewed',
+  'confianca.colorir': 'Color by confidence',
+  'confianca.anterior': '← Previous uncertain',
+  'confianca.anteriorDica': 'Goes back to the previous uncertain word and plays the audio from it (Shift + U)',
+  'confianca.proxima': 'Next uncertain →',
+  'confianca.proximaDica': 'Goes to the next uncertain word and plays the audio from it (U)',
+  'confianca.verificar': '✓ Mark as verified',
+  'confianca.verificarDica': 'Confirms the word is correct and moves on to the next uncertain one (V)',
+  'confianca.palavraVerificada': ' (verified)',
+
+  // Falantes
+  'falantes.titulo': 'Speakers:',
+  'falantes.novoNome': 'New name for {falante}',
+  'falantes.renomear': 'Click to rename',
+  'falantes.semFalante': 'No speaker',
+
+  // Exibição da transcrição
+  'transcricao.titulo': 'Smart Transcription',
+  'transcricao.desfazer': '↶ Undo',
+  'transcricao.desfazerDica': 'Undo (Ctrl+Z)',
+  'transcricao.refazer': '↷ Redo',
+  'transcricao.refazerDica': 'Redo (Ctrl+Y)',
+  'transcricao.editar': 'Edit',
+  'transcricao.concluirEdicao': 'Finish editing',
+  'transcricao.copiar': 'Copy transcription',
+  'transcricao.resumo': 'Summary',
+  'transcricao.resumoDesatualizado': 'The transcription was edited after this summary was generated.',
+  'transcricao.atualizarResumo': 'Update summary',
+  'transcricao.textoTranscrito': 'Transcribed Text',
+  'transcricao.palavraEditada': ' (edited)',
+  'transcricao.cliqueEditar': 'Click to edit this word',
+  'transcricao.cliqueBuscar': 'Click to seek to this moment',
+  'transcricao.iaAtiva': '🤖 Sync AI Active',
+  'transcricao.metricasSincronismo': 'Confidence: {confianca}% | Average delay: {atraso}ms | Samples: {amostras}',
+  'transcricao.palavrasAprendidas': 'Words Learned',
+  'transcricao.taxaAcerto': 'Hit Rate',
+  'transcricao.correcoesIa': 'AI Corrections',
+
+  // Relatório de aprendizado
+  'relatorio.titulo': 'Learning Report',
+  'relatorio.carregando': 'Loading data...',
+  'relatorio.erroCarregar': 'Error loading learning report data',
+  'relatorio.resumoGeral': 'Overview',
+  'relatorio.totalPalavras': 'Total Words',
+  'relatorio.precisaoMedia': 'Average Accuracy',
+  'relatorio.melhoriaGeral': 'Overall Improvement',
+  'relatorio.ultimaAtualizacao': 'Last Updated',
+  'relatorio.estatisticas': 'Detailed Statistics',
+  'relatorio.altoAprendizado': 'Words with High Learning (>80%)',
+  'relatorio.baixoAprendizado': 'Words with Low Learning (<50%)',
+  'relatorio.tendencia': 'Learning Trend',
+  'relatorio.tendencia.crescente': 'Rising',
+  'relatorio.tendencia.estavel': 'Stable',
+  'relatorio.tendencia.decrescente': 'Falling',
+  'relatorio.topPalavras': 'Top 10 Words by Improvement',
+  'relatorio.palavra': 'Word',
+  'relatorio.precisao': 'Accuracy',
+  'relatorio.frequencia': 'Frequency',
+  'relatorio.scoreMelhoria': 'Improvement Score',
+  'relatorio.recomendacoes': 'Improvement Recommendations',
+  'relatorio.prioridade.alta': 'High',
+  'relatorio.prioridade.media': 'Medium',
+  'relatorio.prioridade.baixa': 'Low',
+  'relatorio.tipo.palavra': 'Word',
+  'relatorio.tipo.configuracao': 'Settings',
+  'relatorio.tipo.dados': 'Data',
+  'relatorio.atualizar': 'Refresh Data',
+
+  // Indicador de progresso da fila
+  'progresso.titulo': 'Processing Data',
+  'progresso.total': 'Total:',
+  'progresso.processadas': 'Processed:',
+  'progresso.pendentes': 'Pending:',
+  'progresso.falharam': 'Failed:',
+  'progresso.processando': 'Processing requests...',
+  'progresso.concluido': '✓ Done',
+  'progresso.falhas': '⚠ Some failures',
+  'progresso.aguardando': 'Waiting...',
+  'progresso.transcrevendo': 'Transcribing {arquivo}',
+  'progresso.palavrasRecebidas': '{quantidade} words received',
+
+  // Batch transcription
+  'lote.titulo': 'Batch transcription',
+  'lote.progresso': '{concluidos} of {total} finished',
+  'lote.pausado': 'Paused',
+  'lote.status.aguardando': 'Waiting',
+  'lote.status.processando': 'Transcribing...',
+  'lote.status.concluido': 'Done',
+  'lote.status.falhou': 'Failed',
+  'lote.status.cancelado': 'Canceled',
+  'lote.tentativa': 'Attempt {tentativa}',
+  'lote.pausar': 'Pause',
+  'lote.retomar': 'Resume',
+  'lote.cancelarTodos': 'Cancel all',
+  'lote.cancelarArquivo': 'Cancel file',
+  'lote.baixarTodos': 'Download all (.zip)',
+  'lote.limpar': 'Clear list',
+  'lote.adicionados': '{quantidade} file(s) added to the batch.',
+  'lote.finalizado': 'Batch finished: {concluidos} done, {falharam} failed.',
+
+  // Structured summary
+  'resumo.acoes': 'Action items',
+  'resumo.decisoes': 'Decisions',
+  'resumo.questoesAbertas': 'Open questions',
+  'resumo.capitulos': 'Chapters',
+  'resumo.responsavel': 'Owner: {nome}',
+  'resumo.prazo': 'Due: {prazo}',
+  'resumo.naoDefinido': 'not set',
+  'resumo.irParaTrecho': 'Go to this part of the audio',
+
+  // Notificações
+  'feedback.fechar': 'Close notification',
+
+  // Tela principal
+  'app.comece': 'Start your transcription',
+  'app.comeceDescricao': 'Upload your audio file and let the AI do the work',
+  'app.iniciarTranscricao': 'Start Transcription',
+  'app.transcrevendo': 'Transcribing audio...',
+  'app.gerandoResumo': 'Generating summary...',
+  'app.aguarde': 'This may take a few moments',
+  'app.cancelarProcessamento': 'Cancel',
+  'app.cancelando': 'Cancelling...',
+  'app.palavrasTranscritas': '{quantidade} words transcribed so far',
+  'app.manterParcialPergunta': '{quantidade} words have already been transcribed. Do you want to keep them?',
+  'app.manterParcial': 'Keep what was transcribed',
+  'app.descartar': 'Discard everything',
+  'app.continuarProcessamento': 'Keep processing',
+  'app.processamentoCancelado': 'Processing cancelled. Nothing was saved.',
+  'app.parcialMantida': 'Processing cancelled. {quantidade} transcribed words were kept.',
+  'app.relatorioAprendizado': 'Learning Report',
+  'app.rodape': 'Built with {coracao} and artificial intelligence',
+  'app.servicosIniciados': 'Services initialized for transcription!',
+  'app.erroIniciarServicos': 'Error initializing services: {erro}',
+  'app.servicosEncerrados': 'Services stopped after transcription.',
+  'app.erroEncerrarServicos': 'Error stopping services: {erro}',
+  'app.configureChave': 'Set up your API key to start using the application.',
+  'app.configureChaveNasConfiguracoes': 'Please set up your API key in the settings.',
+  'app.novaTranscricao': 'New transcription started.',
+  'app.audioIndisponivel': 'The audio for this transcription is not available; only the text will be shown.',
+  'app.resumoAtualizado': 'Summary updated with the corrected text.',
+  'app.erroAtualizarResumo': 'Could not update the summary.',
+  'app.nadaParaExportar': 'No transcription available to export.',
+  'app.exportada': 'Transcription exported as {formato}',
+  'app.erroExportar': 'Error exporting transcription.',
+  'app.iniciandoTranscricao': 'Starting audio transcription ({provedor})...',
+  'app.transcricaoConcluida': 'Transcription complete! Generating summary...',
+  'app.concluidoComSucesso': 'Transcription and summary completed successfully!',
+  'app.semResumo': 'Transcription complete, but the summary could not be generated.',
+  'app.resumoLocal': 'Transcription complete without leaving this computer. Summaries and cloud storage are turned off for the local engine.',
+  'app.erro': 'Error: {erro}',
+  'app.erroDesconhecido': 'Unknown error'
+};
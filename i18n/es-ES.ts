@@ -0,0 +1,439 @@
+import type { Catalogo } from './index';
+
+/**
+ * Catálogo de textos da interface em espanhol (Espanha)
+ */
+
+export const esES: Catalogo = {
+  // Comuns
+  'comum.carregando': 'Cargando...',
+  'comum.processando': 'Procesando...',
+  'comum.atualizando': 'Actualizando...',
+  'comum.tentarNovamente': 'Intentar de Nuevo',
+  'comum.fechar': 'Cerrar',
+  'comum.cancelar': 'Cancelar',
+  'comum.salvar': 'Guardar',
+  'comum.remover': 'Eliminar',
+  'comum.palavras': '{quantidade} palabras',
+
+  // Idiomas
+  'idioma.auto': 'Detectar automáticamente',
+  'idioma.pt-BR': 'Portugués (Brasil)',
+  'idioma.en-US': 'Inglés (EE. UU.)',
+  'idioma.es-ES': 'Español (España)',
+  'idioma.fr-FR': 'Francés',
+  'idioma.de-DE': 'Alemán',
+  'idioma.it-IT': 'Italiano',
+
+  // Cabeçalho
+  'cabecalho.titulo': 'Transcripción de Audio con IA',
+  'cabecalho.subtitulo': 'Convierte tu audio en texto y obtén resúmenes al instante con el poder de la IA.',
+  'cabecalho.temaClaro': 'Cambiar al tema claro',
+  'cabecalho.temaEscuro': 'Cambiar al tema oscuro',
+  'cabecalho.configuracoes': 'Configuración',
+
+  // Navegação
+  'navegacao.biblioteca': '📚 Biblioteca',
+  'navegacao.upload': 'Subida de Audio',
+  'navegacao.processamento': 'Procesamiento',
+  'navegacao.transcricao': 'Transcripción',
+  'navegacao.concluido': 'Completado',
+  'navegacao.estadoConcluido': 'Completado',
+  'navegacao.estadoAtual': 'Actual',
+  'navegacao.estadoPendente': 'Pendiente',
+
+  // Indicador de carregamento
+  'carregamento.transcrevendo': 'Transcribiendo el audio... esto puede tardar un momento.',
+  'carregamento.salvando': 'Guardando la transcripción en la base de datos...',
+  'carregamento.resumindo': 'Creando resumen con IA...',
+
+  // Envio de áudio
+  'upload.soltarAudio': 'Por favor, suelta un archivo de audio.',
+  'upload.variosArquivos': 'Selecciona o suelta varios archivos para transcribirlos en lote.',
+  'upload.erroDesconhecido': 'Error desconocido en la subida',
+  'upload.erro': 'Error en la subida',
+  'upload.arraste': 'Arrastra tu audio aquí',
+  'upload.ou': 'o',
+  'upload.cliqueParaSelecionar': 'haz clic para seleccionar',
+  'upload.removerArquivo': 'Quitar archivo',
+  'upload.enviando': 'Subiendo a Supabase...',
+  'upload.progresso': '{percentual}% completado',
+  'upload.storageDesconectado': '⚠️ Almacenamiento en la nube no disponible - el audio se enviará junto con la transcripción y los datos se guardan en este equipo',
+  'upload.importarTranscricao': 'Importar transcripción (SRT, VTT, JSON)',
+  'upload.importarTranscricaoAjuda': '¿Ya tienes la transcripción de este audio? Impórtala para escuchar, editar y exportar sin transcribir de nuevo.',
+  'upload.idiomaAudio': 'Idioma del audio',
+  'upload.idiomaAudioDica': 'Con la detección automática, el audio se transcribe en el idioma hablado, sin traducción.',
+
+  // Player de áudio
+  'player.retroceder': 'Retroceder 10s (←)',
+  'player.pausar': 'Pausar (Espacio)',
+  'player.reproduzir': 'Reproducir (Espacio)',
+  'player.avancar': 'Avanzar 10s (→)',
+  'player.ativarSom': 'Activar sonido (M)',
+  'player.silenciar': 'Silenciar (M)',
+  'player.volume': 'Volumen (↑↓)',
+  'player.velocidade': 'Velocidad:',
+  'player.velocidadeValor': 'Velocidad {valor}x',
+  'player.atalhos': 'Atajos: Espacio (Play/Pausa) • ← → (Saltar) • ↑ ↓ (Volumen) • M (Silencio) • [ ] (Bucle A-B) • \\ (Quitar bucle)',
+  'player.loop': 'Bucle:',
+  'player.marcarA': 'Marcar inicio del bucle en el tiempo actual ([)',
+  'player.marcarB': 'Marcar fin del bucle en el tiempo actual (])',
+  'player.limparLoop': 'Quitar bucle (\\)',
+  'player.preservarTom': 'Preservar tono',
+  'player.preservarTomDica': 'Mantiene la altura de la voz al reproducir más lento o más rápido',
+
+  // Biblioteca
+  'biblioteca.titulo': 'Biblioteca',
+  'biblioteca.subtitulo': 'Transcripciones guardadas en este ordenador',
+  'biblioteca.fechar': 'Cerrar biblioteca',
+  'biblioteca.buscar': 'Buscar por nombre de archivo, texto o resumen...',
+  'biblioteca.erroCarregar': 'No se pudo cargar la biblioteca.',
+  'biblioteca.erroRemover': 'No se pudo eliminar el elemento.',
+  'biblioteca.confirmarRemocao': '¿Eliminar "{nome}" de la biblioteca?',
+  'biblioteca.nenhumaEncontrada': 'No se encontraron transcripciones.',
+  'biblioteca.vazia': 'Todavía no hay transcripciones guardadas.',
+  'biblioteca.abrir': 'Abrir transcripción',
+  'biblioteca.ocorrencia': '{quantidade} coincidencia',
+  'biblioteca.ocorrencias': '{quantidade} coincidencias',
+  'biblioteca.semAudio': 'sin audio',
+  'biblioteca.modoTexto': 'Texto',
+  'biblioteca.modoTextoDica': 'Busca las palabras exactas en el nombre, el texto y el resumen',
+  'biblioteca.modoSignificado': 'Significado',
+  'biblioteca.modoSignificadoDica': 'Busca fragmentos de todas las transcripciones por significado, aunque usen otras palabras',
+  'biblioteca.modoPerguntas': 'Preguntar',
+  'biblioteca.modoPerguntasDica': 'Haz preguntas sobre las grabaciones y recibe respuestas con las fuentes citadas',
+  'buscaSemantica.placeholder': 'Describe lo que buscas (p. ej.: cuando hablaron del presupuesto del proyecto)',
+  'buscaSemantica.ajuda': 'Escribe una pregunta o un tema para encontrar los fragmentos más cercanos en todas las transcripciones.',
+  'buscaSemantica.indexando': 'Preparando la búsqueda por significado: {indexados} de {total} transcripciones...',
+  'buscaSemantica.nenhumResultado': 'No se encontró ningún fragmento parecido',
+  'buscaSemantica.semelhanca': '{valor}% de similitud',
+  'buscaSemantica.abrirTrecho': 'Abrir la transcripción en este fragmento',
+  'buscaSemantica.erroIndexar': 'No se pudo preparar la búsqueda por significado. Verifica que el modelo de embeddings esté disponible.',
+  'buscaSemantica.erroBuscar': 'Error al buscar por significado',
+  'perguntas.ajuda': 'Pregunta sobre el contenido de las grabaciones (p. ej.: ¿qué dijo el cliente sobre los precios en marzo?). Cada respuesta cita la transcripción y el momento de donde salió.',
+  'perguntas.placeholder': 'Haz una pregunta sobre tus grabaciones',
+  'perguntas.enviar': 'Preguntar',
+  'perguntas.buscando': 'Buscando fragmentos relacionados...',
+  'perguntas.respondendo': 'Escribiendo la respuesta...',
+  'perguntas.fontes': 'Fuentes',
+  'perguntas.trechosConsultados': 'La respuesta no citó fuentes. Fragmentos consultados:',
+  'perguntas.abrirFonte': 'Abrir {nome} en {tempo}',
+  'perguntas.semTrechos': 'Ningún fragmento de la biblioteca parece relacionado con esta pregunta.',
+  'perguntas.semChave': 'Configura la clave de API de Gemini en la configuración para hacer preguntas.',
+  'perguntas.erro': 'No se pudo responder la pregunta',
+  'sincronizacao.sincronizar': 'Sincronizar',
+  'sincronizacao.dica': 'Envía los cambios de esta biblioteca a Supabase y trae los hechos en otros dispositivos',
+  'sincronizacao.sincronizando': 'Sincronizando...',
+  'sincronizacao.concluida': 'Sincronizado: {enviados} enviadas, {recebidos} recibidas, {removidos} eliminadas',
+  'sincronizacao.comConflitos': '{quantidade} transcripciones editadas aquí y en otro dispositivo necesitan revisión',
+  'sincronizacao.comFalhas': '{quantidade} transcripciones no se pudieron sincronizar; inténtalo de nuevo más tarde',
+  'sincronizacao.indisponivel': 'Supabase no disponible: los cambios se guardan aquí y se enviarán en la próxima sincronización.',
+  'sincronizacao.erro': 'No se pudo sincronizar la biblioteca',
+  'sincronizacao.status.naoEnviado': 'Solo en este dispositivo',
+  'sincronizacao.status.pendente': 'Cambios por enviar',
+  'sincronizacao.status.sincronizado': 'Sincronizado',
+  'sincronizacao.status.conflito': 'Conflicto',
+  'sincronizacao.resolver': 'Resolver el conflicto',
+  'sincronizacao.conflitoTitulo': 'Conflicto en "{nome}"',
+  'sincronizacao.conflitoAjuda': 'Esta transcripción se editó aquí y en otro dispositivo desde la última sincronización. Elige la versión que debe quedar; la otra se descartará.',
+  'sincronizacao.conflitoRemocaoAjuda': 'Esta transcripción se eliminó en otro dispositivo, pero se editó aquí desde la última sincronización. Elige si sigue en la biblioteca o si también se elimina aquí.',
+  'sincronizacao.removidaNoServidor': 'Eliminada en otro dispositivo.',
+  'sincronizacao.aceitarRemocao': 'Eliminarla también aquí',
+  'sincronizacao.versaoLocal': 'En esta biblioteca',
+  'sincronizacao.versaoRemota': 'En el servidor',
+  'sincronizacao.editadaEm': 'Editada el {data}',
+  'sincronizacao.textoIgual': 'El texto es el mismo en las dos versiones; cambiaron el nombre o el resumen.',
+  'sincronizacao.manterLocal': 'Mantener la de esta biblioteca',
+  'sincronizacao.usarRemota': 'Usar la del servidor',
+  'sincronizacao.mudouDeNovo': 'La transcripción se editó de nuevo en el servidor. Revisa la versión más reciente.',
+
+  // Configurações
+  'configuracoes.titulo': 'Configuración',
+  'configuracoes.fechar': 'Cerrar ventana',
+  'configuracoes.abaApi': 'API',
+  'configuracoes.abaPreferencias': 'Preferencias',
+  'configuracoes.abaGlossario': 'Glosario',
+  'configuracoes.abaAtalhos': 'Atajos',
+  'configuracoes.chaveApi': 'Clave de API de Google Gemini',
+  'configuracoes.chaveApiPlaceholder': 'Pega tu clave de API aquí',
+  'configuracoes.chaveApiAjuda': 'Tu clave de API se guarda solo en tu navegador. Puedes obtener una en',
+  'configuracoes.mecanismo': 'Motor de Transcripción',
+  'configuracoes.diarizacao': 'Identificar hablantes (diarización)',
+  'configuracoes.semDiarizacao': 'Este motor no identifica hablantes.',
+  'configuracoes.enderecoLocal': 'Dirección del Motor Local',
+  'configuracoes.testar': 'Probar',
+  'configuracoes.localOk': '✓ El motor local está respondiendo.',
+  'configuracoes.localErro': '⚠ No se pudo conectar. Inicia el servidor (p. ej.: whisper-server --port 8080).',
+  'configuracoes.localNuvem': 'Enviar la transcripción para el resumen (Gemini) y el almacenamiento en la nube (Supabase)',
+  'configuracoes.localResumo': 'Si está desactivado, la transcripción no sale del equipo: no se genera el resumen y no se guarda nada en la nube.',
+  'configuracoes.idiomaInterface': 'Idioma de la Interfaz',
+  'configuracoes.idiomaInterfaceAjuda': 'Los resúmenes también se generan en este idioma.',
+  'configuracoes.tema': 'Tema',
+  'configuracoes.mudarParaClaro': 'Cambiar a Claro',
+  'configuracoes.mudarParaEscuro': 'Cambiar a Oscuro',
+  'configuracoes.temaAtual': 'Tema actual: {tema}',
+  'configuracoes.temaClaro': 'Claro',
+  'configuracoes.temaEscuro': 'Oscuro',
+  'configuracoes.velocidadePadrao': 'Velocidad de Reproducción Predeterminada: {valor}x',
+  'configuracoes.limiteConfianca': 'Umbral de confianza de las palabras: {valor}%',
+  'configuracoes.limiteConfiancaAjuda': 'Las palabras con confianza por debajo de este valor se resaltan y entran en la revisión de palabras dudosas.',
+  'configuracoes.formatoExportacao': 'Formato de Exportación',
+  'configuracoes.formatoTexto': 'Texto (.txt)',
+  'configuracoes.exportarMarcasTempo': 'Incluir marcas de tiempo en los párrafos',
+  'configuracoes.exportarFalantes': 'Incluir los nombres de los hablantes',
+  'configuracoes.exportarDocumentoAjuda': 'Markdown, DOCX y PDF incluyen los datos del archivo, el resumen y la transcripción en párrafos.',
+  'configuracoes.concorrenciaLote': 'Archivos transcritos a la vez en el lote: {valor}',
+  'configuracoes.tentativasLote': 'Intentos por archivo en el lote: {valor}',
+  'configuracoes.modoResumo': 'Tipo de resumen',
+  'configuracoes.modoResumoLivre': 'Texto libre',
+  'configuracoes.modoResumoEstruturado': 'Estructurado (acciones, decisiones, preguntas y capítulos)',
+  'configuracoes.modoResumoAjuda': 'En el resumen estructurado, al hacer clic en un elemento el audio va al fragmento en que se dijo.',
+  'configuracoes.tamanhoFonte': 'Tamaño de Fuente: {valor}px',
+  'configuracoes.rolagemAutomatica': 'Desplazamiento Automático',
+  'configuracoes.atalhosTeclado': 'Atajos de Teclado',
+  'configuracoes.salvamentoAutomatico': 'Guardado Automático',
+  'configuracoes.mostrarTimestamps': 'Mostrar Marcas de Tiempo',
+  'configuracoes.gerenciar': 'Gestionar Preferencias',
+  'configuracoes.exportar': 'Exportar',
+  'configuracoes.importar': 'Importar',
+  'configuracoes.resetar': 'Restablecer',
+  'configuracoes.erroImportar': 'Error al importar las preferencias. Comprueba que el archivo sea válido.',
+
+  // Provedores de transcrição
+  'provedor.gemini.nome': 'Google Gemini',
+  'provedor.gemini.descricao': 'Transcripción en la nube con la API de Gemini.',
+  'provedor.local.nome': 'Motor local (whisper.cpp)',
+  'provedor.local.descricao': 'Transcripción sin conexión en un servidor de la propia máquina. El audio no sale del ordenador.',
+
+  // Editor
+  'editor.instrucoes': 'Modo de edición: haz clic en una palabra para corregirla. Escribe espacios para dividirla o borra el texto para eliminarla.',
+  'editor.ouvir': 'Escuchar desde esta palabra',
+  'editor.mesclar': 'Unir con la siguiente',
+  'editor.excluir': 'Eliminar',
+  'editor.novaPalavra': 'Nueva palabra',
+  'editor.inserirAntes': 'Insertar antes',
+  'editor.inserirDepois': 'Insertar después',
+
+  'busca.abrir': 'Buscar y reemplazar (Ctrl+F)',
+  'busca.buscar': 'Buscar en la transcripción',
+  'busca.dica': 'Se ignoran mayúsculas y acentos. Enter va al siguiente resultado.',
+  'busca.anterior': 'Resultado anterior (Shift+Enter)',
+  'busca.proximo': 'Siguiente resultado (Enter)',
+  'busca.palavraInteira': 'Solo palabras completas',
+  'busca.palavraInteiraCurto': 'Palabra',
+  'busca.regex': 'Usar expresión regular',
+  'busca.regexInvalida': 'Expresión regular no válida',
+  'busca.resultado': '{atual} de {total}',
+  'busca.semResultados': 'Sin resultados',
+  'busca.substituirPor': 'Reemplazar por',
+  'busca.substituirTodas': 'Reemplazar todas',
+  'busca.substituidas': '{quantidade} coincidencias reemplazadas (Ctrl+Z deshace)',
+
+  'glossario.ajuda': 'Los términos de su dominio (medicamentos, clientes, siglas) se envían al motor de transcripción y, al final, las grafías erróneas registradas se corrigen automáticamente.',
+  'glossario.termo': 'Término',
+  'glossario.termoPlaceholder': 'Ej.: Ozempic',
+  'glossario.pronuncia': 'Pronunciación (opcional)',
+  'glossario.pronunciaPlaceholder': 'Ej.: ozémpic',
+  'glossario.variantes': 'Grafías erróneas frecuentes (separadas por comas)',
+  'glossario.variantesPlaceholder': 'Ej.: ozempik, o zempic',
+  'glossario.adicionar': 'Añadir término',
+  'glossario.salvarTermo': 'Guardar término',
+  'glossario.editar': 'Haga clic para editar',
+  'glossario.remover': 'Eliminar {termo}',
+  'glossario.corrige': 'Corrige: {variantes}',
+  'glossario.vazio': 'No hay términos registrados.',
+  'glossario.correcoes': '{quantidade} correcciones del glosario',
+
+  'documento.arquivo': 'Archivo',
+  'documento.duracao': 'Duración',
+  'documento.palavras': 'Palabras',
+  'documento.falantes': 'Hablantes',
+  'documento.criadoEm': 'Creado el',
+  'documento.exportadoEm': 'Exportado el',
+  'documento.resumo': 'Resumen',
+  'documento.transcricao': 'Transcripción',
+  'documento.responsavel': 'Responsable',
+  'documento.prazo': 'Plazo',
+  'importacao.concluida': '{quantidade} palabras importadas de {arquivo}.',
+  'importacao.erroFormato': 'Formato no reconocido. Importa un archivo SRT, WebVTT o el JSON exportado por la aplicación.',
+  'importacao.erroInvalido': 'No se pudo leer la transcripción: el archivo está dañado o no tiene el formato esperado.',
+  'importacao.erroVazio': 'El archivo no contiene ningún diálogo.',
+  'alinhamento.ativar': 'Ya tengo el texto exacto: alinear el guion con el audio',
+  'alinhamento.ajuda': 'Pega o carga el guion. El audio se transcribe solo para obtener los tiempos; el texto final es exactamente el del guion.',
+  'alinhamento.placeholder': 'Pega aquí el texto hablado en el audio...',
+  'alinhamento.carregar': 'Cargar archivo de texto',
+  'alinhamento.palavras': '{quantidade} palabras',
+  'alinhamento.iniciar': 'Alinear guion con el audio',
+  'alinhamento.concluido': '{alinhadas} de {total} palabras del guion alineadas con el audio.',
+  'alinhamento.baixaCobertura': 'Solo se encontró el {percentual}% del guion en el audio. Comprueba que el texto corresponde a este archivo; las palabras no encontradas aparecen con confianza baja.',
+  'ondas.mostrar': 'Forma de onda',
+  'ondas.mostrarDica': 'Mostrar la forma de onda con las palabras para corregir los tiempos',
+  'ondas.carregando': 'Decodificando el audio...',
+  'ondas.erro': 'No se pudo decodificar el audio para dibujar la forma de onda.',
+  'ondas.espectrograma': 'Espectrograma',
+  'ondas.aproximar': 'Acercar',
+  'ondas.afastar': 'Alejar',
+  'ondas.verTudo': 'Ver todo',
+  'ondas.rolar': 'Desplazar la línea de tiempo',
+  'ondas.dica': 'Arrastra los límites de las palabras para corregir los tiempos. Ctrl + rueda del ratón acerca; Mayús + rueda desplaza la línea de tiempo.',
+  'revisao.repetirFrase': '↺ Repetir frase (R)',
+  'revisao.repetirFraseDica': 'Vuelve al inicio de la frase actual y la reproduce de nuevo. Mayús + clic en dos palabras repite en bucle el fragmento entre ellas.',
+  'revisao.pausaAutomatica': '⏸ Pausar al final de la frase (P)',
+  'revisao.pausaAutomaticaDica': 'Pausa la reproducción al final de cada frase para que corrijas el texto antes de continuar',
+  'confianca.histogramaDica': 'Distribución de la confianza de las palabras (en rojo, los rangos por debajo del umbral)',
+  'confianca.faixa': '{inicio}–{fim}%: {quantidade} palabra(s)',
+  'confianca.media': 'Confianza media: {valor}%',
+  'confianca.abaixoDoLimite': '{quantidade} palabra(s) por debajo de {limite}% ({percentual}% del texto)',
+  'confianca.pendentes': '{quantidade} palabra(s) dudosa(s) por revisar',
+  'confianca.tudoRevisado': 'Todas las palabras dudosas fueron revisadas',
+  'confianca.colorir': 'Colorear por confianza',
+  'confianca.anterior': '← Dudosa anterior',
+  'confianca.anteriorDica': 'Vuelve a la palabra dudosa anterior y reproduce el audio desde ella (Mayús + U)',
+  'confianca.proxima': 'Siguiente dudosa →',
+  'confianca.proximaDica': 'Va a la siguiente palabra dudosa y reproduce el audio desde ella (U)',
+  'confianca.verificar': '✓ Marcar como verificada',
+  'confianca.verificarDica': 'Confirma que la palabra es correcta y pasa a la siguiente dudosa (V)',
+  'confianca.palavraVerificada': ' (verificada)',
+
+  // Falantes
+  'falantes.titulo': 'Hablantes:',
+  'falantes.novoNome': 'Nuevo nombre para {falante}',
+  'falantes.renomear': 'Haz clic para renombrar',
+  'falantes.semFalante': 'Sin hablante',
+
+  // Exibição da transcrição
+  'transcricao.titulo': 'Transcripción Inteligente',
+  'transcricao.desfazer': '↶ Deshacer',
+  'transcricao.desfazerDica': 'Deshacer (Ctrl+Z)',
+  'transcricao.refazer': '↷ Rehacer',
+  'transcricao.refazerDica': 'Rehacer (Ctrl+Y)',
+  'transcricao.editar': 'Editar',
+  'transcricao.concluirEdicao': 'Terminar edición',
+  'transcricao.copiar': 'Copiar transcripción',
+  'transcricao.resumo': 'Resumen',
+  'transcricao.resumoDesatualizado': 'La transcripción se editó después de generar este resumen.',
+  'transcricao.atualizarResumo': 'Actualizar resumen',
+  'transcricao.textoTranscrito': 'Texto Transcrito',
+  'transcricao.palavraEditada': ' (editada)',
+  'transcricao.cliqueEditar': 'Haz clic para editar esta palabra',
+  'transcricao.cliqueBuscar': 'Haz clic para ir a este momento',
+  'transcricao.iaAtiva': '🤖 IA de Sincronización Activa',
+  'transcricao.metricasSincronismo': 'Confianza: {confianca}% | Retraso medio: {atraso}ms | Muestras: {amostras}',
+  'transcricao.palavrasAprendidas': 'Palabras Aprendidas',
+  'transcricao.taxaAcerto': 'Tasa de Acierto',
+  'transcricao.correcoesIa': 'Correcciones IA',
+
+  // Relatório de aprendizado
+  'relatorio.titulo': 'Informe de Aprendizaje',
+  'relatorio.carregando': 'Cargando datos...',
+  'relatorio.erroCarregar': 'Error al cargar los datos del informe de aprendizaje',
+  'relatorio.resumoGeral': 'Resumen General',
+  'relatorio.totalPalavras': 'Total de Palabras',
+  'relatorio.precisaoMedia': 'Precisión Media',
+  'relatorio.melhoriaGeral': 'Mejora General',
+  'relatorio.ultimaAtualizacao': 'Última Actualización',
+  'relatorio.estatisticas': 'Estadísticas Detalladas',
+  'relatorio.altoAprendizado': 'Palabras con Aprendizaje Alto (>80%)',
+  'relatorio.baixoAprendizado': 'Palabras con Aprendizaje Bajo (<50%)',
+  'relatorio.tendencia': 'Tendencia de Aprendizaje',
+  'relatorio.tendencia.crescente': 'Creciente',
+  'relatorio.tendencia.estavel': 'Estable',
+  'relatorio.tendencia.decrescente': 'Decreciente',
+  'relatorio.topPalavras': 'Top 10 Palabras por Mejora',
+  'relatorio.palavra': 'Palabra',
+  'relatorio.precisao': 'Precisión',
+  'relatorio.frequencia': 'Frecuencia',
+  'relatorio.scoreMelhoria': 'Puntuación de Mejora',
+  'relatorio.recomendacoes': 'Recomendaciones de Mejora',
+  'relatorio.prioridade.alta': 'Alta',
+  'relatorio.prioridade.media': 'Media',
+  'relatorio.prioridade.baixa': 'Baja',
+  'relatorio.tipo.palavra': 'Palabra',
+  'relatorio.tipo.configuracao': 'Configuración',
+  'relatorio.tipo.dados': 'Datos',
+  'relatorio.atualizar': 'Actualizar Datos',
+
+  // Indicador de progresso da fila
+  'progresso.titulo': 'Procesando Datos',
+  'progresso.total': 'Total:',
+  'progresso.processadas': 'Procesadas:',
+  'progresso.pendentes': 'Pendientes:',
+  'progresso.falharam': 'Fallidas:',
+  'progresso.processando': 'Procesando solicitudes...',
+  'progresso.concluido': '✓ Completado',
+  'progresso.falhas': '⚠ Algunos fallos',
+  'progresso.aguardando': 'Esperando...',
+  'progresso.transcrevendo': 'Transcribiendo {arquivo}',
+  'progresso.palavrasRecebidas': '{quantidade} palabras recibidas',
+
+  // Transcripción en lote
+  'lote.titulo': 'Transcripción en lote',
+  'lote.progresso': '{concluidos} de {total} finalizados',
+  'lote.pausado': 'En pausa',
+  'lote.status.aguardando': 'En espera',
+  'lote.status.processando': 'Transcribiendo...',
+  'lote.status.concluido': 'Completado',
+  'lote.status.falhou': 'Falló',
+  'lote.status.cancelado': 'Cancelado',
+  'lote.tentativa': 'Intento {tentativa}',
+  'lote.pausar': 'Pausar',
+  'lote.retomar': 'Reanudar',
+  'lote.cancelarTodos': 'Cancelar todos',
+  'lote.cancelarArquivo': 'Cancelar archivo',
+  'lote.baixarTodos': 'Descargar todos (.zip)',
+  'lote.limpar': 'Limpiar lista',
+  'lote.adicionados': '{quantidade} archivo(s) añadidos al lote.',
+  'lote.finalizado': 'Lote finalizado: {concluidos} completado(s), {falharam} con error.',
+
+  // Resumen estructurado
+  'resumo.acoes': 'Acciones',
+  'resumo.decisoes': 'Decisiones',
+  'resumo.questoesAbertas': 'Preguntas abiertas',
+  'resumo.capitulos': 'Capítulos',
+  'resumo.responsavel': 'Responsable: {nome}',
+  'resumo.prazo': 'Plazo: {prazo}',
+  'resumo.naoDefinido': 'sin definir',
+  'resumo.irParaTrecho': 'Ir a este fragmento del audio',
+
+  // Notificações
+  'feedback.fechar': 'Cerrar notificación',
+
+  // Tela principal
+  'app.comece': 'Empieza tu transcripción',
+  'app.comeceDescricao': 'Sube tu archivo de audio y deja que la IA haga el trabajo',
+  'app.iniciarTranscricao': 'Iniciar Transcripción',
+  'app.transcrevendo': 'Transcribiendo audio...',
+  'app.gerandoResumo': 'Generando resumen...',
+  'app.aguarde': 'Esto puede tardar unos momentos',
+  'app.cancelarProcessamento': 'Cancelar',
+  'app.cancelando': 'Cancelando...',
+  'app.palavrasTranscritas': '{quantidade} palabras transcritas hasta ahora',
+  'app.manterParcialPergunta': 'Ya hay {quantidade} palabras transcritas. ¿Desea conservarlas?',
+  'app.manterParcial': 'Conservar lo transcrito',
+  'app.descartar': 'Descartar todo',
+  'app.continuarProcessamento': 'Seguir procesando',
+  'app.processamentoCancelado': 'Procesamiento cancelado. No se guardó nada.',
+  'app.parcialMantida': 'Procesamiento cancelado. Se conservaron {quantidade} palabras transcritas.',
+  'app.relatorioAprendizado': 'Informe de Aprendizaje',
+  'app.rodape': 'Desarrollado con {coracao} e inteligencia artificial',
+  'app.servicosIniciados': '¡Servicios inicializados para la transcripción!',
+  'app.erroIniciarServicos': 'Error al inicializar los servicios: {erro}',
+  'app.servicosEncerrados': 'Servicios detenidos tras la transcripción.',
+  'app.erroEncerrarServicos': 'Error al detener los servicios: {erro}',
+  'app.configureChave': 'Configura tu clave de API para empezar a usar la aplicación.',
+  'app.configureChaveNasConfiguracoes': 'Por favor, configura tu clave de API en la configuración.',
+  'app.novaTranscricao': 'Nueva transcripción iniciada.',
+  'app.audioIndisponivel': 'El audio de esta transcripción no está disponible; solo se mostrará el texto.',
+  'app.resumoAtualizado': 'Resumen actualizado con el texto corregido.',
+  'app.erroAtualizarResumo': 'No se pudo actualizar el resumen.',
+  'app.nadaParaExportar': 'No hay ninguna transcripción disponible para exportar.',
+  'app.exportada': 'Transcripción exportada como {formato}',
+  'app.erroExportar': 'Error al exportar la transcripción.',
+  'app.iniciandoTranscricao': 'Iniciando la transcripción del audio ({provedor})...',
+  'app.transcricaoConcluida': '¡Transcripción completada! Generando resumen...',
+  'app.concluidoComSucesso': '¡Transcripción y resumen completados con éxito!',
+  'app.semResumo': 'Transcripción completada, pero no se pudo generar el resumen.',
+  'app.resumoLocal': 'Transcripción completada sin salir del equipo. El resumen y el almacenamiento en la nube están desactivados para el motor local.',
+  'app.erro': 'Error: {erro}',
+  'app.erroDesconhecido': 'Error desconocido'
+};
@@ -0,0 +1,35 @@
+/**
+ * Idiomas de áudio aceitos na transcrição
+ *
+ * O código ISO 639-1 é enviado aos mecanismos que o aceitam (ex.: whisper.cpp) e o nome
+ * é usado nos prompts do Gemini, que são escritos em português.
+ */
+
+export type IdiomaTranscricao = 'auto' | 'pt-BR' | 'en-US' | 'es-ES' | 'fr-FR' | 'de-DE' | 'it-IT';
+
+export interface DefinicaoIdioma {
+  codigo: Exclude<IdiomaTranscricao, 'auto'>;
+  codigoIso: string;
+  nomePrompt: string;
+}
+
+export const IDIOMA_TRANSCRICAO_PADRAO: IdiomaTranscricao = 'auto';
+
+const definicoes: DefinicaoIdioma[] = [
+  { codigo: 'pt-BR', codigoIso: 'pt', nomePrompt: 'português do Brasil' },
+  { codigo: 'en-US', codigoIso: 'en', nomePrompt: 'inglês' },
+  { codigo: 'es-ES', codigoIso: 'es', nomePrompt: 'espanhol' },
+  { codigo: 'fr-FR', codigoIso: 'fr', nomePrompt: 'francês' },
+  { codigo: 'de-DE', codigoIso: 'de', nomePrompt: 'alemão' },
+  { codigo: 'it-IT', codigoIso: 'it', nomePrompt: 'italiano' }
+];
+
+// Opções exibidas na seleção do idioma do áudio, com a detecção automática em primeiro lugar
+export const idiomasTranscricao: IdiomaTranscricao[] = ['auto', ...definicoes.map(definicao => definicao.codigo)];
+
+/**
+ * Obtém a definição de um idioma; retorna null para a detecção automática
+ */
+export const obterIdioma = (codigo: IdiomaTranscricao | undefined): DefinicaoIdioma | null => {
+  return definicoes.find(definicao => definicao.codigo === codigo) ?? null;
+};
@@ -0,0 +1,43 @@
+/**
+ * Internacionalização da interface
+ *
+ * Os textos ficam em catálogos planos (chave → texto), um por idioma. O catálogo em português
+ * define as chaves; os demais são tipados a partir dele, então uma tradução faltando é erro de compilação.
+ * Textos podem ter parâmetros no formato {nome}.
+ */
+
+import { ptBR } from './pt-BR';
+import { enUS } from './en-US';
+import { esES } from './es-ES';
+
+export type IdiomaInterface = 'pt-BR' | 'en-US' | 'es-ES';
+
+export type ChaveTraducao = keyof typeof ptBR;
+export type Catalogo = Record<ChaveTraducao, string>;
+export type ParametrosTraducao = Record<string, string | number>;
+
+export const IDIOMA_PADRAO: IdiomaInterface = 'pt-BR';
+
+export const idiomasInterface: IdiomaInterface[] = ['pt-BR', 'en-US', 'es-ES'];
+
+const catalogos: Record<IdiomaInterface, Catalogo> = {
+  'pt-BR': ptBR,
+  'en-US': enUS,
+  'es-ES': esES
+};
+
+/**
+ * Retorna o texto da chave no idioma informado, substituindo os parâmetros
+ */
+export const traduzir = (
+  idioma: IdiomaInterface,
+  chave: ChaveTraducao,
+  parametros?: ParametrosTraducao
+): string => {
+  const texto = (catalogos[idioma] ?? catalogos[IDIOMA_PADRAO])[chave] ?? ptBR[chave] ?? chave;
+  if (!parametros) return texto;
+
+  return texto.replace(/\{(\w+)\}/g, (trecho, nome: string) =>
+    nome in parametros ? String(parametros[nome]) : trecho
+  );
+};
@@ -0,0 +1,438 @@
+/**
+ * Catálogo de textos da interface em português do Brasil.
+ * É o catálogo de referência: as chaves definidas aqui devem existir em todos os outros idiomas.
+ */
+
+export const ptBR = {
+  // Comuns
+  'comum.carregando': 'Carregando...',
+  'comum.processando': 'Processando...',
+  'comum.atualizando': 'Atualizando...',
+  'comum.tentarNovamente': 'Tentar Novamente',
+  'comum.fechar': 'Fechar',
+  'comum.cancelar': 'Cancelar',
+  'comum.salvar': 'Salvar',
+  'comum.remover': 'Remover',
+  'comum.palavras': '{quantidade} palavras',
+
+  // Idiomas
+  'idioma.auto': 'Detectar automaticamente',
+  'idioma.pt-BR': 'Português (Brasil)',
+  'idioma.en-US': 'Inglês (EUA)',
+  'idioma.es-ES': 'Espanhol (Espanha)',
+  'idioma.fr-FR': 'Francês',
+  'idioma.de-DE': 'Alemão',
+  'idioma.it-IT': 'Italiano',
+
+  // Cabeçalho
+  'cabecalho.titulo': 'Transcrição de Áudio com IA',
+  'cabecalho.subtitulo': 'Transforme seu áudio em texto e obtenha resumos instantâneos com o poder da IA.',
+  'cabecalho.temaClaro': 'Alternar para tema claro',
+  'cabecalho.temaEscuro': 'Alternar para tema escuro',
+  'cabecalho.configuracoes': 'Configurações',
+
+  // Navegação
+  'navegacao.biblioteca': '📚 Biblioteca',
+  'navegacao.upload': 'Upload de Áudio',
+  'navegacao.processamento': 'Processamento',
+  'navegacao.transcricao': 'Transcrição',
+  'navegacao.concluido': 'Concluído',
+  'navegacao.estadoConcluido': 'Concluído',
+  'navegacao.estadoAtual': 'Atual',
+  'navegacao.estadoPendente': 'Pendente',
+
+  // Indicador de carregamento
+  'carregamento.transcrevendo': 'Transcrevendo o áudio... isso pode levar um momento.',
+  'carregamento.salvando': 'Salvando transcrição no banco de dados...',
+  'carregamento.resumindo': 'Criando resumo com IA...',
+
+  // Envio de áudio
+  'upload.soltarAudio': 'Por favor, solte um arquivo de áudio.',
+  'upload.variosArquivos': 'Selecione ou solte vários arquivos para transcrevê-los em lote.',
+  'upload.erroDesconhecido': 'Erro desconhecido no upload',
+  'upload.erro': 'Erro no upload',
+  'upload.arraste': 'Arraste seu áudio aqui',
+  'upload.ou': 'ou',
+  'upload.cliqueParaSelecionar': 'clique para selecionar',
+  'upload.removerArquivo': 'Remover arquivo',
+  'upload.enviando': 'Enviando para Supabase...',
+  'upload.progresso': '{percentual}% concluído',
+  'upload.storageDesconectado': '⚠️ Armazenamento na nuvem indisponível - o áudio será enviado junto com a transcrição, e os dados ficam salvos neste computador',
+  'upload.importarTranscricao': 'Importar transcrição (SRT, VTT, JSON)',
+  'upload.importarTranscricaoAjuda': 'Já tem a transcrição deste áudio? Importe-a para ouvir, editar e exportar sem transcrever de novo.',
+  'upload.idiomaAudio': 'Idioma do áudio',
+  'upload.idiomaAudioDica': 'Na detecção automática, o áudio é transcrito no idioma falado, sem tradução.',
+
+  // Player de áudio
+  'player.retroceder': 'Retroceder 10s (←)',
+  'player.pausar': 'Pausar (Espaço)',
+  'player.reproduzir': 'Reproduzir (Espaço)',
+  'player.avancar': 'Avançar 10s (→)',
+  'player.ativarSom': 'Ativar som (M)',
+  'player.silenciar': 'Silenciar (M)',
+  'player.volume': 'Volume (↑↓)',
+  'player.velocidade': 'Velocidade:',
+  'player.velocidadeValor': 'Velocidade {valor}x',
+  'player.atalhos': 'Atalhos: Espaço (Play/Pause) • ← → (Pular) • ↑ ↓ (Volume) • M (Mute) • [ ] (Loop A-B) • \\ (Limpar loop)',
+  'player.loop': 'Loop:',
+  'player.marcarA': 'Marcar início do loop no tempo atual ([)',
+  'player.marcarB': 'Marcar fim do loop no tempo atual (])',
+  'player.limparLoop': 'Limpar loop (\\)',
+  'player.preservarTom': 'Preservar tom',
+  'player.preservarTomDica': 'Mantém a altura da voz ao reproduzir mais devagar ou mais rápido',
+
+  // Biblioteca
+  'biblioteca.titulo': 'Biblioteca',
+  'biblioteca.subtitulo': 'Transcrições salvas neste computador',
+  'biblioteca.fechar': 'Fechar biblioteca',
+  'biblioteca.buscar': 'Buscar por nome do arquivo, texto ou resumo...',
+  'biblioteca.erroCarregar': 'Não foi possível carregar a biblioteca.',
+  'biblioteca.erroRemover': 'Não foi possível remover o item.',
+  'biblioteca.confirmarRemocao': 'Remover "{nome}" da biblioteca?',
+  'biblioteca.nenhumaEncontrada': 'Nenhuma transcrição encontrada.',
+  'biblioteca.vazia': 'Nenhuma transcrição salva ainda.',
+  'biblioteca.abrir': 'Abrir transcrição',
+  'biblioteca.ocorrencia': '{quantidade} ocorrência',
+  'biblioteca.ocorrencias': '{quantidade} ocorrências',
+  'biblioteca.semAudio': 'sem áudio',
+  'biblioteca.modoTexto': 'Texto',
+  'biblioteca.modoTextoDica': 'Busca as palavras exatas no nome, no texto e no resumo',
+  'biblioteca.modoSignificado': 'Significado',
+  'biblioteca.modoSignificadoDica': 'Busca trechos de todas as transcrições pelo significado, mesmo com outras palavras',
+  'biblioteca.modoPerguntas': 'Perguntar',
+  'biblioteca.modoPerguntasDica': 'Faz perguntas sobre as gravações e recebe respostas com as fontes citadas',
+  'buscaSemantica.placeholder': 'Descreva o que procura (ex.: quando falaram sobre o orçamento do projeto)',
+  'buscaSemantica.ajuda': 'Digite uma pergunta ou um assunto para encontrar os trechos mais próximos em todas as transcrições.',
+  'buscaSemantica.indexando': 'Preparando a busca por significado: {indexados} de {total} transcrições...',
+  'buscaSemantica.nenhumResultado': 'Nenhum trecho parecido encontrado',
+  'buscaSemantica.semelhanca': '{valor}% de semelhança',
+  'buscaSemantica.abrirTrecho': 'Abrir a transcrição neste trecho',
+  'buscaSemantica.erroIndexar': 'Não foi possível preparar a busca por significado. Verifique se o modelo de embeddings está disponível.',
+  'buscaSemantica.erroBuscar': 'Erro ao buscar por significado',
+  'perguntas.ajuda': 'Pergunte sobre o conteúdo das gravações (ex.: o que o cliente disse sobre preços em março?). Cada resposta cita a transcrição e o momento de onde veio.',
+  'perguntas.placeholder': 'Faça uma pergunta sobre as suas gravações',
+  'perguntas.enviar': 'Perguntar',
+  'perguntas.buscando': 'Procurando trechos relacionados...',
+  'perguntas.respondendo': 'Escrevendo a resposta...',
+  'perguntas.fontes': 'Fontes',
+  'perguntas.trechosConsultados': 'A resposta não citou fontes. Trechos consultados:',
+  'perguntas.abrirFonte': 'Abrir {nome} em {tempo}',
+  'perguntas.semTrechos': 'Nenhum trecho da biblioteca parece relacionado a essa pergunta.',
+  'perguntas.semChave': 'Configure a chave de API do Gemini nas configurações para fazer perguntas.',
+  'perguntas.erro': 'Não foi possível responder a pergunta',
+  'sincronizacao.sincronizar': 'Sincronizar',
+  'sincronizacao.dica': 'Envia as alterações desta biblioteca para o Supabase e traz as feitas em outros dispositivos',
+  'sincronizacao.sincronizando': 'Sincronizando...',
+  'sincronizacao.concluida': 'Sincronizado: {enviados} enviadas, {recebidos} recebidas, {removidos} removidas',
+  'sincronizacao.comConflitos': '{quantidade} transcrições editadas aqui e em outro dispositivo precisam de revisão',
+  'sincronizacao.comFalhas': '{quantidade} transcrições não puderam ser sincronizadas; tente de novo mais tarde',
+  'sincronizacao.indisponivel': 'Supabase indisponível: as alterações ficam guardadas aqui e serão enviadas na próxima sincronização.',
+  'sincronizacao.erro': 'Não foi possível sincronizar a biblioteca',
+  'sincronizacao.status.naoEnviado': 'Só neste dispositivo',
+  'sincronizacao.status.pendente': 'Alterações a enviar',
+  'sincronizacao.status.sincronizado': 'Sincronizado',
+  'sincronizacao.status.conflito': 'Conflito',
+  'sincronizacao.resolver': 'Resolver o conflito',
+  'sincronizacao.conflitoTitulo': 'Conflito em "{nome}"',
+  'sincronizacao.conflitoAjuda': 'Esta transcrição foi editada aqui e em outro dispositivo desde a última sincronização. Escolha a versão que deve ficar; a outra será descartada.',
+  'sincronizacao.conflitoRemocaoAjuda': 'Esta transcrição foi apagada em outro dispositivo, mas foi editada aqui desde a última sincronização. Escolha se ela continua na biblioteca ou se a remoção vale também aqui.',
+  'sincronizacao.removidaNoServidor': 'Apagada em outro dispositivo.',
+  'sincronizacao.aceitarRemocao': 'Apagar também aqui',
+  'sincronizacao.versaoLocal': 'Nesta biblioteca',
+  'sincronizacao.versaoRemota': 'No servidor',
+  'sincronizacao.editadaEm': 'Editada em {data}',
+  'sincronizacao.textoIgual': 'O texto é o mesmo nas duas versões; mudaram o nome ou o resumo.',
+  'sincronizacao.manterLocal': 'Manter a desta biblioteca',
+  'sincronizacao.usarRemota': 'Usar a do servidor',
+  'sincronizacao.mudouDeNovo': 'A transcrição foi editada de novo no servidor. Confira a versão mais recente.',
+
+  // Configurações
+  'configuracoes.titulo': 'Configurações',
+  'configuracoes.fechar': 'Fechar modal',
+  'configuracoes.abaApi': 'API',
+  'configuracoes.abaPreferencias': 'Preferências',
+  'configuracoes.abaGlossario': 'Glossário',
+  'configuracoes.abaAtalhos': 'Atalhos',
+  'configuracoes.chaveApi': 'Chave de API do Google Gemini',
+  'configuracoes.chaveApiPlaceholder': 'Cole sua chave de API aqui',
+  'configuracoes.chaveApiAjuda': 'Sua chave de API é armazenada apenas no seu navegador. Você pode obter uma em',
+  'configuracoes.mecanismo': 'Mecanismo de Transcrição',
+  'configuracoes.diarizacao': 'Identificar falantes (diarização)',
+  'configuracoes.semDiarizacao': 'Este mecanismo não identifica falantes.',
+  'configuracoes.enderecoLocal': 'Endereço do Mecanismo Local',
+  'configuracoes.testar': 'Testar',
+  'configuracoes.localOk': '✓ Mecanismo local respondendo.',
+  'configuracoes.localErro': '⚠ Não foi possível conectar. Inicie o servidor (ex.: whisper-server --port 8080).',
+  'configuracoes.localNuvem': 'Enviar a transcrição para o resumo (Gemini) e o armazenamento na nuvem (Supabase)',
+  'configuracoes.localResumo': 'Desativado, a transcrição não sai do computador: o resumo não é gerado e nada é salvo na nuvem.',
+  'configuracoes.idiomaInterface': 'Idioma da Interface',
+  'configuracoes.idiomaInterfaceAjuda': 'Os resumos também são gerados neste idioma.',
+  'configuracoes.tema': 'Tema',
+  'configuracoes.mudarParaClaro': 'Mudar para Claro',
+  'configuracoes.mudarParaEscuro': 'Mudar para Escuro',
+  'configuracoes.temaAtual': 'Tema atual: {tema}',
+  'configuracoes.temaClaro': 'Claro',
+  'configuracoes.temaEscuro': 'Escuro',
+  'configuracoes.velocidadePadrao': 'Velocidade de Reprodução Padrão: {valor}x',
+  'configuracoes.limiteConfianca': 'Limite de confiança das palavras: {valor}%',
+  'configuracoes.limiteConfiancaAjuda': 'Palavras com confiança abaixo desse valor são destacadas e entram na revisão de palavras incertas.',
+  'configuracoes.formatoExportacao': 'Formato de Exportação',
+  'configuracoes.formatoTexto': 'Texto (.txt)',
+  'configuracoes.exportarMarcasTempo': 'Incluir marcas de tempo nos parágrafos',
+  'configuracoes.exportarFalantes': 'Incluir nomes dos falantes',
+  'configuracoes.exportarDocumentoAjuda': 'Markdown, DOCX e PDF incluem os dados do arquivo, o resumo e a transcrição em parágrafos.',
+  'configuracoes.concorrenciaLote': 'Arquivos transcritos ao mesmo tempo no lote: {valor}',
+  'configuracoes.tentativasLote': 'Tentativas por arquivo no lote: {valor}',
+  'configuracoes.modoResumo': 'Tipo de resumo',
+  'configuracoes.modoResumoLivre': 'Texto livre',
+  'configuracoes.modoResumoEstruturado': 'Estruturado (ações, decisões, questões e capítulos)',
+  'configuracoes.modoResumoAjuda': 'No resumo estruturado, clicar em um item leva o áudio ao trecho em que ele foi dito.',
+  'configuracoes.tamanhoFonte': 'Tamanho da Fonte: {valor}px',
+  'configuracoes.rolagemAutomatica': 'Rolagem Automática',
+  'configuracoes.atalhosTeclado': 'Atalhos de Teclado',
+  'configuracoes.salvamentoAutomatico': 'Salvamento Automático',
+  'configuracoes.mostrarTimestamps': 'Mostrar Timestamps',
+  'configuracoes.gerenciar': 'Gerenciar Preferências',
+  'configuracoes.exportar': 'Exportar',
+  'configuracoes.importar': 'Importar',
+  'configuracoes.resetar': 'Resetar',
+  'configuracoes.erroImportar': 'Erro ao importar preferências. Verifique se o arquivo é válido.',
+
+  // Provedores de transcrição
+  'provedor.gemini.nome': 'Google Gemini',
+  'provedor.gemini.descricao': 'Transcrição na nuvem com a API do Gemini.',
+  'provedor.local.nome': 'Mecanismo local (whisper.cpp)',
+  'provedor.local.descricao': 'Transcrição offline em um servidor na própria máquina. O áudio não sai do computador.',
+
+  // Editor
+  'editor.instrucoes': 'Modo de edição: clique em uma palavra para corrigi-la. Digite espaços para dividi-la ou apague o texto para removê-la.',
+  'editor.ouvir': 'Ouvir a partir desta palavra',
+  'editor.mesclar': 'Mesclar com a próxima',
+  'editor.excluir': 'Excluir',
+  'editor.novaPalavra': 'Nova palavra',
+  'editor.inserirAntes': 'Inserir antes',
+  'editor.inserirDepois': 'Inserir depois',
+
+  'busca.abrir': 'Buscar e substituir (Ctrl+F)',
+  'busca.buscar': 'Buscar na transcrição',
+  'busca.dica': 'Maiúsculas e acentos são ignorados. Enter vai para o próximo resultado.',
+  'busca.anterior': 'Resultado anterior (Shift+Enter)',
+  'busca.proximo': 'Próximo resultado (Enter)',
+  'busca.palavraInteira': 'Somente palavras inteiras',
+  'busca.palavraInteiraCurto': 'Palavra',
+  'busca.regex': 'Usar expressão regular',
+  'busca.regexInvalida': 'Expressão regular inválida',
+  'busca.resultado': '{atual} de {total}',
+  'busca.semResultados': 'Nenhum resultado',
+  'busca.substituirPor': 'Substituir por',
+  'busca.substituirTodas': 'Substituir todas',
+  'busca.substituidas': '{quantidade} ocorrências substituídas (Ctrl+Z desfaz)',
+
+  'glossario.ajuda': 'Termos do seu domínio (medicamentos, clientes, siglas) são enviados ao mecanismo de transcrição e, ao final, as grafias erradas cadastradas são corrigidas automaticamente.',
+  'glossario.termo': 'Termo',
+  'glossario.termoPlaceholder': 'Ex.: Ozempic',
+  'glossario.pronuncia': 'Pronúncia (opcional)',
+  'glossario.pronunciaPlaceholder': 'Ex.: ozêmpic',
+  'glossario.variantes': 'Grafias erradas frequentes (separadas por vírgula)',
+  'glossario.variantesPlaceholder': 'Ex.: ozempique, o zempic',
+  'glossario.adicionar': 'Adicionar termo',
+  'glossario.salvarTermo': 'Salvar termo',
+  'glossario.editar': 'Clique para editar',
+  'glossario.remover': 'Remover {termo}',
+  'glossario.corrige': 'Corrige: {variantes}',
+  'glossario.vazio': 'Nenhum termo cadastrado.',
+  'glossario.correcoes': '{quantidade} correções do glossário',
+
+  'documento.arquivo': 'Arquivo',
+  'documento.duracao': 'Duração',
+  'documento.palavras': 'Palavras',
+  'documento.falantes': 'Falantes',
+  'documento.criadoEm': 'Criado em',
+  'documento.exportadoEm': 'Exportado em',
+  'documento.resumo': 'Resumo',
+  'documento.transcricao': 'Transcrição',
+  'documento.responsavel': 'Responsável',
+  'documento.prazo': 'Prazo',
+  'importacao.concluida': '{quantidade} palavras importadas de {arquivo}.',
+  'importacao.erroFormato': 'Formato não reconhecido. Importe um arquivo SRT, WebVTT ou o JSON exportado pelo aplicativo.',
+  'importacao.erroInvalido': 'Não foi possível ler a transcrição: o arquivo está corrompido ou fora do formato esperado.',
+  'importacao.erroVazio': 'O arquivo não contém nenhuma fala.',
+  'alinhamento.ativar': 'Já tenho o texto exato: alinhar o roteiro ao áudio',
+  'alinhamento.ajuda': 'Cole ou carregue o roteiro. O áudio é transcrito apenas para obter os tempos; o texto final é exatamente o do roteiro.',
+  'alinhamento.placeholder': 'Cole aqui o texto falado no áudio...',
+  'alinhamento.carregar': 'Carregar arquivo de texto',
+  'alinhamento.palavras': '{quantidade} palavras',
+  'alinhamento.iniciar': 'Alinhar roteiro ao áudio',
+  'alinhamento.concluido': '{alinhadas} de {total} palavras do roteiro alinhadas ao áudio.',
+  'alinhamento.baixaCobertura': 'Só {percentual}% do roteiro foi encontrado no áudio. Confira se o texto corresponde a este arquivo; as palavras não encontradas aparecem com confiança baixa.',
+  'ondas.mostrar': 'Forma de onda',
+  'ondas.mostrarDica': 'Mostrar a forma de onda com as palavras para corrigir os tempos',
+  'ondas.carregando': 'Decodificando o áudio...',
+  'ondas.erro': 'Não foi possível decodificar o áudio para desenhar a forma de onda.',
+  'ondas.espectrograma': 'Espectrograma',
+  'ondas.aproximar': 'Aproximar',
+  'ondas.afastar': 'Afastar',
+  'ondas.verTudo': 'Ver tudo',
+  'ondas.rolar': 'Rolar a linha do tempo',
+  'ondas.dica': 'Arraste os limites das palavras para corrigir os tempos. Ctrl + roda do mouse aproxima; Shift + roda rola a linha do tempo.',
+  'revisao.repetirFrase': '↺ Repetir frase (R)',
+  'revisao.repetirFraseDica': 'Volta ao início da frase atual e a reproduz de novo. Shift + clique em duas palavras repete o trecho entre elas em loop.',
+  'revisao.pausaAutomatica': '⏸ Pausar ao fim da frase (P)',
+  'revisao.pausaAutomaticaDica': 'Pausa a reprodução ao fim de cada frase para você corrigir o texto antes de continuar',
+  'confianca.histogramaDica': 'Distribuição da confiança das palavras (em vermelho, as faixas abaixo do limite)',
+  'confianca.faixa': '{inicio}–{fim}%: {quantidade} palavra(s)',
+  'confianca.media': 'Confiança média: {valor}%',
+  'confianca.abaixoDoLimite': '{quantidade} palavra(s) abaixo de {limite}% ({percentual}% do texto)',
+  'confianca.pendentes': '{quantidade} palavra(s) incerta(s) para revisar',
+  'confianca.tudoRevisado': 'Todas as palavras incertas foram revisadas',
+  'confianca.colorir': 'Colorir por confiança',
+  'confianca.anterior': '← Incerta anterior',
+  'confianca.anteriorDica': 'Volta à palavra incerta anterior e toca o áudio a partir dela (Shift + U)',
+  'confianca.proxima': 'Próxima incerta →',
+  'confianca.proximaDica': 'Vai para a próxima palavra incerta e toca o áudio a partir dela (U)',
+  'confianca.verificar': '✓ Marcar como verificada',
+  'confianca.verificarDica': 'Confirma que a palavra está correta e segue para a próxima incerta (V)',
+  'confianca.palavraVerificada': ' (verificada)',
+
+  // Falantes
+  'falantes.titulo': 'Falantes:',
+  'falantes.novoNome': 'Novo nome para {falante}',
+  'falantes.renomear': 'Clique para renomear',
+  'falantes.semFalante': 'Sem falante',
+
+  // Exibição da transcrição
+  'transcricao.titulo': 'Transcrição Inteligente',
+  'transcricao.desfazer': '↶ Desfazer',
+  'transcricao.desfazerDica': 'Desfazer (Ctrl+Z)',
+  'transcricao.refazer': '↷ Refazer',
+  'transcricao.refazerDica': 'Refazer (Ctrl+Y)',
+  'transcricao.editar': 'Editar',
+  'transcricao.concluirEdicao': 'Concluir edição',
+  'transcricao.copiar': 'Copiar transcrição',
+  'transcricao.resumo': 'Resumo',
+  'transcricao.resumoDesatualizado': 'A transcrição foi editada depois que este resumo foi gerado.',
+  'transcricao.atualizarResumo': 'Atualizar resumo',
+  'transcricao.textoTranscrito': 'Texto Transcrito',
+  'transcricao.palavraEditada': ' (editada)',
+  'transcricao.cliqueEditar': 'Clique para editar esta palavra',
+  'transcricao.cliqueBuscar': 'Clique para buscar este momento',
+  'transcricao.iaAtiva': '🤖 IA de Sincronismo Ativa',
+  'transcricao.metricasSincronismo': 'Confiança: {confianca}% | Atraso médio: {atraso}ms | Amostras: {amostras}',
+  'transcricao.palavrasAprendidas': 'Palavras Aprendidas',
+  'transcricao.taxaAcerto': 'Taxa de Acerto',
+  'transcricao.correcoesIa': 'Correções IA',
+
+  // Relatório de aprendizado
+  'relatorio.titulo': 'Relatório de Aprendizado',
+  'relatorio.carregando': 'Carregando dados...',
+  'relatorio.erroCarregar': 'Erro ao carregar dados do relatório de aprendizado',
+  'relatorio.resumoGeral': 'Resumo Geral',
+  'relatorio.totalPalavras': 'Total de Palavras',
+  'relatorio.precisaoMedia': 'Precisão Média',
+  'relatorio.melhoriaGeral': 'Melhoria Geral',
+  'relatorio.ultimaAtualizacao': 'Última Atualização',
+  'relatorio.estatisticas': 'Estatísticas Detalhadas',
+  'relatorio.altoAprendizado': 'Palavras com Alto Aprendizado (>80%)',
+  'relatorio.baixoAprendizado': 'Palavras com Baixo Aprendizado (<50%)',
+  'relatorio.tendencia': 'Tendência de Aprendizado',
+  'relatorio.tendencia.crescente': 'Crescente',
+  'relatorio.tendencia.estavel': 'Estável',
+  'relatorio.tendencia.decrescente': 'Decrescente',
+  'relatorio.topPalavras': 'Top 10 Palavras por Melhoria',
+  'relatorio.palavra': 'Palavra',
+  'relatorio.precisao': 'Precisão',
+  'relatorio.frequencia': 'Frequência',
+  'relatorio.scoreMelhoria': 'Score de Melhoria',
+  'relatorio.recomendacoes': 'Recomendações de Melhoria',
+  'relatorio.prioridade.alta': 'Alta',
+  'relatorio.prioridade.media': 'Média',
+  'relatorio.prioridade.baixa': 'Baixa',
+  'relatorio.tipo.palavra': 'Palavra',
+  'relatorio.tipo.configuracao': 'Configuração',
+  'relatorio.tipo.dados': 'Dados',
+  'relatorio.atualizar': 'Atualizar Dados',
+
+  // Indicador de progresso da fila
+  'progresso.titulo': 'Processando Dados',
+  'progresso.total': 'Total:',
+  'progresso.processadas': 'Processadas:',
+  'progresso.pendentes': 'Pendentes:',
+  'progresso.falharam': 'Falharam:',
+  'progresso.processando': 'Processando requisições...',
+  'progresso.concluido': '✓ Concluído',
+  'progresso.falhas': '⚠ Algumas falhas',
+  'progresso.aguardando': 'Aguardando...',
+  'progresso.transcrevendo': 'Transcrevendo {arquivo}',
+  'progresso.palavrasRecebidas': '{quantidade} palavras recebidas',
+
+  // Transcrição em lote
+  'lote.titulo': 'Transcrição em lote',
+  'lote.progresso': '{concluidos} de {total} finalizados',
+  'lote.pausado': 'Pausado',
+  'lote.status.aguardando': 'Aguardando',
+  'lote.status.processando': 'Transcrevendo...',
+  'lote.status.concluido': 'Concluído',
+  'lote.status.falhou': 'Falhou',
+  'lote.status.cancelado': 'Cancelado',
+  'lote.tentativa': 'Tentativa {tentativa}',
+  'lote.pausar': 'Pausar',
+  'lote.retomar': 'Retomar',
+  'lote.cancelarTodos': 'Cancelar todos',
+  'lote.cancelarArquivo': 'Cancelar arquivo',
+  'lote.baixarTodos': 'Baixar todos (.zip)',
+  'lote.limpar': 'Limpar lista',
+  'lote.adicionados': '{quantidade} arquivo(s) adicionados ao lote.',
+  'lote.finalizado': 'Lote finalizado: {concluidos} concluído(s), {falharam} com falha.',
+
+  // Resumo estruturado
+  'resumo.acoes': 'Ações',
+  'resumo.decisoes': 'Decisões',
+  'resumo.questoesAbertas': 'Questões em aberto',
+  'resumo.capitulos': 'Capítulos',
+  'resumo.responsavel': 'Responsável: {nome}',
+  'resumo.prazo': 'Prazo: {prazo}',
+  'resumo.naoDefinido': 'não definido',
+  'resumo.irParaTrecho': 'Ir para o trecho no áudio',
+
+  // Notificações
+  'feedback.fechar': 'Fechar notificação',
+
+  // Tela principal
+  'app.comece': 'Comece sua transcrição',
+  'app.comeceDescricao': 'Envie seu arquivo de áudio e deixe a IA fazer o trabalho',
+  'app.iniciarTranscricao': 'Iniciar Transcrição',
+  'app.transcrevendo': 'Transcrevendo áudio...',
+  'app.gerandoResumo': 'Gerando resumo...',
+  'app.aguarde': 'Isso pode levar alguns momentos',
+  'app.cancelarProcessamento': 'Cancelar',
+  'app.cancelando': 'Cancelando...',
+  'app.palavrasTranscritas': '{quantidade} palavras transcritas até agora',
+  'app.manterParcialPergunta': 'Já existem {quantidade} palavras transcritas. Deseja mantê-las?',
+  'app.manterParcial': 'Manter o que foi transcrito',
+  'app.descartar': 'Descartar tudo',
+  'app.continuarProcessamento': 'Continuar processando',
+  'app.processamentoCancelado': 'Processamento cancelado. Nada foi salvo.',
+  'app.parcialMantida': 'Processamento cancelado. {quantidade} palavras transcritas foram mantidas.',
+  'app.relatorioAprendizado': 'Relatório de Aprendizado',
+  'app.rodape': 'Desenvolvido com {coracao} e inteligência artificial',
+  'app.servicosIniciados': 'Serviços inicializados para transcrição!',
+  'app.erroIniciarServicos': 'Erro ao inicializar serviços: {erro}',
+  'app.servicosEncerrados': 'Serviços encerrados após transcrição.',
+  'app.erroEncerrarServicos': 'Erro ao encerrar serviços: {erro}',
+  'app.configureChave': 'Configure sua chave de API para começar a usar a aplicação.',
+  'app.configureChaveNasConfiguracoes': 'Por favor, configure sua chave de API nas configurações.',
+  'app.novaTranscricao': 'Nova transcrição iniciada.',
+  'app.audioIndisponivel': 'O áudio desta transcrição não está disponível; apenas o texto será exibido.',
+  'app.resumoAtualizado': 'Resumo atualizado com o texto corrigido.',
+  'app.erroAtualizarResumo': 'Não foi possível atualizar o resumo.',
+  'app.nadaParaExportar': 'Nenhuma transcrição disponível para exportar.',
+  'app.exportada': 'Transcrição exportada como {formato}',
+  'app.erroExportar': 'Erro ao exportar transcrição.',
+  'app.iniciandoTranscricao': 'Iniciando transcrição do áudio ({provedor})...',
+  'app.transcricaoConcluida': 'Transcrição concluída! Gerando resumo...',
+  'app.concluidoComSucesso': 'Transcrição e resumo concluídos com sucesso!',
+  'app.semResumo': 'Transcrição concluída, mas não foi possível gerar o resumo.',
+  'app.resumoLocal': 'Transcrição concluída sem sair do computador. O resumo e o armazenamento na nuvem estão desativados para o mecanismo local.',
+  'app.erro': 'Erro: {erro}',
+  'app.erroDesconhecido': 'Erro desconhecido'
+} as const;
@@ -107,11 +107,12 @@ ipcMain.handle('dialog:openFile', async () => {
 
 /**
  * Manipulador para salvar arquivo
+ * Aceita texto ou conteúdo binário (Uint8Array, ex.: DOCX e PDF) e os filtros do formato exportado
  */
-ipcMain.handle('dialog:saveFile', async (event, defaultPath, content) => {
+ipcMain.handle('dialog:saveFile', async (event, defaultPath, content, filters) => {
   const { canceled, filePath } = await dialog.showSaveDialog({
     defaultPath: defaultPath,
-    filters: [
+    filters: Array.isArray(filters) && filters.length > 0 ? filters : [
       {
         name: 'Arquivo de Texto',
         extensions: ['txt']
@@ -128,7 +129,11 @@ ipcMain.handle('dialog:saveFile', async (event, defaultPath, content) => {
   } else {
     try {
       const fs = require('fs');
-      fs.writeFileSync(filePath, content, 'utf8');
+      if (typeof content === 'string') {
+        fs.writeFileSync(filePath, content, 'utf8');
+      } else {
+        fs.writeFileSync(filePath, Buffer.from(content));
+      }
       return { success: true, filePath };
     } catch (error) {
       return { success: false, error: error.message };
@@ -20,11 +20,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
     /**
      * Salva conteúdo em arquivo
      * @param {string} caminhoDefault - Caminho padrão para salvar
-     * @param {string} conteudo - Conteúdo a ser salvo
+     * @param {string|Uint8Array} conteudo - Conteúdo a ser salvo (texto ou binário)
+     * @param {Array<{name: string, extensions: string[]}>} [filtros] - Filtros de tipo de arquivo do diálogo
      * @returns {Promise<{success: boolean, filePath?: string, error?: string}>}
      */
-    salvarArquivo: (caminhoDefault, conteudo) => 
-      ipcRenderer.invoke('dialog:saveFile', caminhoDefault, conteudo)
+    salvarArquivo: (caminhoDefault, conteudo, filtros) => 
+      ipcRenderer.invoke('dialog:saveFile', caminhoDefault, conteudo, filtros)
   },
 
   /**
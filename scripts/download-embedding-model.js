@@ -0,0 +1,57 @@
+const fs = require('fs');
+const path = require('path');
+
+// Modelo de embeddings executado localmente (veja config.embeddings) e arquivos que o Transformers.js lê
+const MODELO = 'Xenova/all-MiniLM-L6-v2';
+const ARQUIVOS_MODELO = [
+  'config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+  'onnx/model_quantized.onnx'
+];
+const DESTINO = path.join(__dirname, '..', 'public', 'models');
+
+const baixar = async (arquivo) => {
+  const destino = path.join(DESTINO, MODELO, arquivo);
+  if (fs.existsSync(destino)) {
+    console.log(`✔️  ${arquivo} já existe`);
+    return;
+  }
+
+  const resposta = await fetch(`https://huggingface.co/${MODELO}/resolve/main/${arquivo}`);
+  if (!resposta.ok) {
+    throw new Error(`Falha ao baixar ${arquivo}: HTTP ${resposta.status}`);
+  }
+  fs.mkdirSync(path.dirname(destino), { recursive: true });
+  fs.writeFileSync(destino, Buffer.from(await resposta.arrayBuffer()));
+  console.log(`⬇️  ${arquivo} baixado`);
+};
+
+// Os arquivos WASM do ONNX Runtime são servidos junto do modelo para funcionar sem internet
+const copiarWasm = () => {
+  const origem = path.dirname(require.resolve('onnxruntime-web/package.json'));
+  const destino = path.join(DESTINO, 'ort');
+  fs.mkdirSync(destino, { recursive: true });
+
+  const arquivos = fs.readdirSync(path.join(origem, 'dist')).filter(arquivo => /^ort-wasm.*\.(wasm|mjs)$/.test(arquivo));
+  for (const arquivo of arquivos) {
+    fs.copyFileSync(path.join(origem, 'dist', arquivo), path.join(destino, arquivo));
+  }
+  // A aplicação só aponta o ONNX Runtime para esta pasta quando encontra a lista
+  fs.writeFileSync(path.join(destino, 'arquivos.json'), JSON.stringify(arquivos, null, 2));
+  console.log(`📋 ${arquivos.length} arquivo(s) do ONNX Runtime copiados`);
+};
+
+(async () => {
+  console.log(`🧠 Preparando o modelo de embeddings ${MODELO} em ${DESTINO}...`);
+  try {
+    for (const arquivo of ARQUIVOS_MODELO) {
+      await baixar(arquivo);
+    }
+    copiarWasm();
+    console.log('✅ Modelo de embeddings pronto para ser distribuído com a aplicação');
+  } catch (error) {
+    console.error('❌ Erro ao preparar o modelo de embeddings:', error.message);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,328 @@
+/**
+ * Serviço de segmentação de áudio
+ *
+ * Divide áudios longos em segmentos WAV sobrepostos para que possam ser transcritos
+ * separadamente, e mescla os resultados em uma única transcrição contínua.
+ */
+
+import { config } from '../config';
+import { WordTimestamp } from '../types';
+
+export interface SegmentoAudio {
+  indice: number;
+  inicio: number; // Início do segmento no áudio original (segundos)
+  fim: number;    // Fim do segmento no áudio original (segundos)
+  arquivo: File;
+}
+
+export interface ResultadoSegmento {
+  segmento: SegmentoAudio;
+  palavras: WordTimestamp[]; // Timestamps relativos ao início do segmento
+}
+
+export interface OpcoesSegmentacao {
+  duracaoSegmento: number;
+  sobreposicao: number;
+  taxaAmostragem: number;
+}
+
+// Palavras repetidas na junção de dois segmentos com início mais próximo que isso são consideradas duplicadas
+const TOLERANCIA_DUPLICATA = 0.75;
+
+/**
+ * Obtém a duração do áudio (em segundos) a partir dos metadados, sem decodificá-lo.
+ * Retorna 0 quando o navegador não consegue determinar a duração.
+ */
+export const obterDuracaoAudio = (arquivo: File): Promise<number> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(arquivo);
+    const audio = new Audio();
+    audio.preload = 'metadata';
+
+    const finalizar = (duracao: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duracao) ? duracao : 0);
+    };
+
+    audio.onloadedmetadata = () => finalizar(audio.duration);
+    audio.onerror = () => finalizar(0);
+    audio.src = url;
+  });
+};
+
+/**
+ * Indica se o arquivo deve ser transcrito em segmentos
+ */
+export const deveSegmentar = (arquivo: File, duracao: number): boolean => {
+  return arquivo.size > config.segmentacao.tamanhoMaximoSemDivisao ||
+    duracao > config.segmentacao.duracaoMaximaSemDivisao;
+};
+
+const escreverTexto = (view: DataView, offset: number, texto: string) => {
+  for (let i = 0; i < texto.length; i++) {
+    view.setUint8(offset + i, texto.charCodeAt(i));
+  }
+};
+
+const lerTexto = (view: DataView, offset: number): string => {
+  return String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+};
+
+/**
+ * Decodifica o áudio e o converte para mono na taxa de amostragem informada
+ */
+const decodificarMono = async (audio: Blob, taxaAmostragem: number): Promise<Float32Array> => {
+  // O OfflineAudioContext reamostra o áudio decodificado para a sua própria taxa
+  const contexto = new OfflineAudioContext(1, 1, taxaAmostragem);
+  const buffer = await contexto.decodeAudioData(await audio.arrayBuffer());
+
+  // Os canais são somados no primeiro, sem alocar outra cópia do áudio
+  const mono = buffer.getChannelData(0);
+  for (let canal = 1; canal < buffer.numberOfChannels; canal++) {
+    const amostras = buffer.getChannelData(canal);
+    for (let i = 0; i < amostras.length; i++) {
+      mono[i] += amostras[i];
+    }
+  }
+  if (buffer.numberOfChannels > 1) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] /= buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Codifica amostras mono em um WAV PCM de 16 bits
+ */
+const codificarWav = (amostras: Float32Array, taxaAmostragem: number): ArrayBuffer => {
+  const bytesPorAmostra = 2;
+  const tamanhoDados = amostras.length * bytesPorAmostra;
+  const buffer = new ArrayBuffer(44 + tamanhoDados);
+  const view = new DataView(buffer);
+
+  escreverTexto(view, 0, 'RIFF');
+  view.setUint32(4, 36 + tamanhoDados, true);
+  escreverTexto(view, 8, 'WAVE');
+  escreverTexto(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);            // Tamanho do bloco fmt
+  view.setUint16(20, 1, true);             // PCM
+  view.setUint16(22, 1, true);             // Mono
+  view.setUint32(24, taxaAmostragem, true);
+  view.setUint32(28, taxaAmostragem * bytesPorAmostra, true);
+  view.setUint16(32, bytesPorAmostra, true);
+  view.setUint16(34, 16, true);            // Bits por amostra
+  escreverTexto(view, 36, 'data');
+  view.setUint32(40, tamanhoDados, true);
+
+  let offset = 44;
+  for (let i = 0; i < amostras.length; i++, offset += bytesPorAmostra) {
+    const amostra = Math.max(-1, Math.min(1, amostras[i]));
+    view.setInt16(offset, amostra < 0 ? amostra * 0x8000 : amostra * 0x7fff, true);
+  }
+
+  return buffer;
+};
+
+// Áudio de origem lido trecho a trecho, já em mono na taxa dos segmentos
+interface FonteAudio {
+  duracao: number; // Segundos
+  lerTrecho: (inicio: number, fim: number) => Promise<Float32Array>;
+}
+
+interface CabecalhoWav {
+  fmt: ArrayBuffer;       // Conteúdo do bloco fmt, copiado para o cabeçalho de cada janela
+  inicioDados: number;    // Posição (em bytes) das amostras no arquivo
+  quadros: number;        // Amostras por canal
+  bytesPorQuadro: number;
+  taxaAmostragem: number;
+}
+
+/**
+ * Lê o cabeçalho de um WAV PCM ou em ponto flutuante sem carregar as amostras.
+ * Retorna null para outros formatos (inclusive WAV comprimido ou RF64).
+ */
+const lerCabecalhoWav = async (arquivo: Blob): Promise<CabecalhoWav | null> => {
+  const ler = async (inicio: number, tamanho: number) => new DataView(await arquivo.slice(inicio, inicio + tamanho).arrayBuffer());
+
+  const riff = await ler(0, 12);
+  if (riff.byteLength < 12 || lerTexto(riff, 0) !== 'RIFF' || lerTexto(riff, 8) !== 'WAVE') return null;
+
+  let fmt: ArrayBuffer | null = null;
+  for (let posicao = 12; posicao + 8 <= arquivo.size;) {
+    const bloco = await ler(posicao, 8);
+    const tamanho = bloco.getUint32(4, true);
+
+    if (lerTexto(bloco, 0) === 'fmt ') {
+      fmt = await arquivo.slice(posicao + 8, posicao + 8 + tamanho).arrayBuffer();
+    } else if (lerTexto(bloco, 0) === 'data') {
+      if (!fmt || fmt.byteLength < 16) return null;
+      const formato = new DataView(fmt);
+      // 1 = PCM, 3 = ponto flutuante, 0xFFFE = WAVE_FORMAT_EXTENSIBLE
+      if (![1, 3, 0xfffe].includes(formato.getUint16(0, true))) return null;
+      const bytesPorQuadro = formato.getUint16(12, true);
+      const taxaAmostragem = formato.getUint32(4, true);
+      if (!bytesPorQuadro || !taxaAmostragem) return null;
+      return {
+        fmt,
+        inicioDados: posicao + 8,
+        quadros: Math.floor(Math.min(tamanho, arquivo.size - posicao - 8) / bytesPorQuadro),
+        bytesPorQuadro,
+        taxaAmostragem
+      };
+    }
+    posicao += 8 + tamanho + (tamanho % 2);
+  }
+  return null;
+};
+
+/**
+ * WAV lido em janelas: cada trecho é recortado do arquivo com o cabeçalho original e decodificado
+ * sozinho, então só um segmento fica na memória por vez.
+ */
+const criarFonteWav = (arquivo: Blob, cabecalho: CabecalhoWav, taxaAmostragem: number): FonteAudio => {
+  const { fmt, inicioDados, quadros, bytesPorQuadro } = cabecalho;
+
+  return {
+    duracao: quadros / cabecalho.taxaAmostragem,
+    lerTrecho: (inicio, fim) => {
+      const primeiro = Math.round(inicio * cabecalho.taxaAmostragem);
+      const ultimo = Math.min(quadros, Math.round(fim * cabecalho.taxaAmostragem));
+      const tamanhoDados = (ultimo - primeiro) * bytesPorQuadro;
+      const tamanhoFmt = fmt.byteLength + (fmt.byteLength % 2);
+
+      const cabecalhoJanela = new DataView(new ArrayBuffer(20 + tamanhoFmt + 8));
+      escreverTexto(cabecalhoJanela, 0, 'RIFF');
+      cabecalhoJanela.setUint32(4, 12 + tamanhoFmt + 8 + tamanhoDados, true);
+      escreverTexto(cabecalhoJanela, 8, 'WAVE');
+      escreverTexto(cabecalhoJanela, 12, 'fmt ');
+      cabecalhoJanela.setUint32(16, fmt.byteLength, true);
+      new Uint8Array(cabecalhoJanela.buffer).set(new Uint8Array(fmt), 20);
+      escreverTexto(cabecalhoJanela, 20 + tamanhoFmt, 'data');
+      cabecalhoJanela.setUint32(24 + tamanhoFmt, tamanhoDados, true);
+
+      const inicioJanela = inicioDados + primeiro * bytesPorQuadro;
+      const janela = new Blob([cabecalhoJanela.buffer, arquivo.slice(inicioJanela, inicioJanela + tamanhoDados)]);
+      return decodificarMono(janela, taxaAmostragem);
+    }
+  };
+};
+
+/**
+ * Formatos comprimidos só podem ser decodificados inteiros pelo Web Audio: o arquivo é decodificado
+ * uma vez e reduzido a mono antes de ser dividido.
+ */
+const criarFonteDecodificada = async (arquivo: Blob, taxaAmostragem: number): Promise<FonteAudio> => {
+  const amostras = await decodificarMono(arquivo, taxaAmostragem);
+  return {
+    duracao: amostras.length / taxaAmostragem,
+    lerTrecho: async (inicio, fim) => amostras.subarray(Math.round(inicio * taxaAmostragem), Math.round(fim * taxaAmostragem))
+  };
+};
+
+/**
+ * Divide o áudio em segmentos WAV mono sobrepostos.
+ *
+ * Memória: um WAV PCM é lido em janelas do tamanho de um segmento, e o pico fica em torno de um
+ * segmento (~120 MB para 5 min de um WAV estéreo de 44,1 kHz: o trecho lido, o decodificado a
+ * 16 kHz e o WAV gerado). Formatos comprimidos só podem ser decodificados inteiros: o pico é o
+ * arquivo mais cerca de 230 MB por hora e por canal a 16 kHz (~1,4 GB para 3 h em estéreo), e cai
+ * para 230 MB por hora depois da redução a mono. Em todos os casos os segmentos gerados ocupam
+ * cerca de 115 MB por hora de áudio.
+ */
+export const dividirAudio = async (
+  arquivo: File,
+  opcoes: OpcoesSegmentacao = config.segmentacao
+): Promise<SegmentoAudio[]> => {
+  const { duracaoSegmento, sobreposicao, taxaAmostragem } = opcoes;
+
+  if (sobreposicao >= duracaoSegmento) {
+    throw new Error('A sobreposição deve ser menor que a duração do segmento.');
+  }
+
+  const cabecalhoWav = await lerCabecalhoWav(arquivo);
+  console.log(`✂️ [SEGMENTAÇÃO] Decodificando ${arquivo.name} para divisão em segmentos${cabecalhoWav ? ' (em janelas)' : ''}...`);
+  const fonte = cabecalhoWav
+    ? criarFonteWav(arquivo, cabecalhoWav, taxaAmostragem)
+    : await criarFonteDecodificada(arquivo, taxaAmostragem);
+  const duracaoTotal = fonte.duracao;
+  const nomeBase = arquivo.name.replace(/\.[^.]+$/, '');
+  const passo = duracaoSegmento - sobreposicao;
+  const segmentos: SegmentoAudio[] = [];
+
+  for (let inicio = 0; inicio < duracaoTotal; inicio += passo) {
+    const fim = Math.min(inicio + duracaoSegmento, duracaoTotal);
+    const trecho = await fonte.lerTrecho(inicio, fim);
+    const indice = segmentos.length;
+
+    segmentos.push({
+      indice,
+      inicio,
+      fim,
+      arquivo: new File(
+        [codificarWav(trecho, taxaAmostragem)],
+        `${nomeBase}_parte${indice + 1}.wav`,
+        { type: 'audio/wav' }
+      )
+    });
+
+    if (fim >= duracaoTotal) break;
+  }
+
+  console.log(`✅ [SEGMENTAÇÃO] Áudio de ${duracaoTotal.toFixed(1)}s dividido em ${segmentos.length} segmentos`);
+  return segmentos;
+};
+
+const normalizarPalavra = (palavra: string): string => {
+  return palavra
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]/gu, '')
+    .toLowerCase();
+};
+
+/**
+ * Mescla as transcrições dos segmentos em uma transcrição contínua.
+ *
+ * Os timestamps de cada segmento são deslocados para o tempo do áudio original. Na região
+ * sobreposta entre dois segmentos, as palavras do segmento anterior são mantidas até o ponto
+ * médio da sobreposição e as do seguinte a partir dele; repetições que ainda restarem na
+ * junção são removidas.
+ */
+export const mesclarSegmentos = (resultados: ResultadoSegmento[]): WordTimestamp[] => {
+  const ordenados = [...resultados].sort((a, b) => a.segmento.indice - b.segmento.indice);
+  const mescladas: WordTimestamp[] = [];
+
+  ordenados.forEach(({ segmento, palavras }, posicao) => {
+    const anterior = ordenados[posicao - 1]?.segmento;
+    const proximo = ordenados[posicao + 1]?.segmento;
+    const corteInicial = anterior ? (segmento.inicio + anterior.fim) / 2 : -Infinity;
+    const corteFinal = proximo ? (proximo.inicio + segmento.fim) / 2 : Infinity;
+
+    const deslocadas = palavras
+      .map(palavra => ({
+        ...palavra,
+        startTime: Math.min(segmento.fim, segmento.inicio + Math.max(0, palavra.startTime)),
+        endTime: Math.min(segmento.fim, segmento.inicio + Math.max(0, palavra.endTime))
+      }))
+      .filter(palavra => {
+        const meio = (palavra.startTime + palavra.endTime) / 2;
+        return meio >= corteInicial && meio < corteFinal;
+      });
+
+    // Remove palavras repetidas na junção com o segmento anterior
+    while (deslocadas.length > 0 && mescladas.length > 0) {
+      const ultima = mescladas[mescladas.length - 1];
+      const primeira = deslocadas[0];
+      const repetida = normalizarPalavra(ultima.word) === normalizarPalavra(primeira.word) &&
+        primeira.startTime - ultima.startTime < TOLERANCIA_DUPLICATA;
+
+      if (!repetida) break;
+      deslocadas.shift();
+    }
+
+    mescladas.push(...deslocadas);
+  });
+
+  return mescladas;
+};
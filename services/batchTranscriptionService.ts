@@ -0,0 +1,283 @@
+/**
+ * Serviço de Transcrição em Lote
+ *
+ * Enfileira vários arquivos de áudio em uma instância própria do ServicoFila e acompanha o
+ * status de cada um. Cada arquivo é transcrito, salvo na biblioteca local e, quando houver
+ * chave de API, resumido. O lote pode ser pausado, retomado e cancelado, e os resultados
+ * concluídos podem ser baixados juntos em um .zip.
+ */
+
+import { config } from '../config';
+import { WordTimestamp } from '../types';
+import { IdiomaInterface } from '../i18n';
+import { ServicoFila, TarefaCanceladaError } from './queueService';
+import { OpcoesTranscricao, TranscriptionProvider } from './transcriptionProvider';
+import bibliotecaService from './libraryService';
+import { ModoResumo, resumirTranscricao } from './geminiService';
+import { ResumoEstruturado } from './structuredSummaryService';
+import { FormatoExportacao, FORMATOS_DOCUMENTO, gerarConteudoExportacao, nomeArquivoExportado } from './exportService';
+import { OpcoesDocumento } from './documentExportService';
+import { ArquivoZip, gerarZip } from './zipService';
+import { AlteracaoGlossario, aplicarGlossario } from './glossaryService';
+
+export type StatusItemLote = 'aguardando' | 'processando' | 'concluido' | 'falhou' | 'cancelado';
+
+export interface ItemLote {
+  id: string;
+  arquivo: File;
+  status: StatusItemLote;
+  tentativas: number;
+  erro?: string;
+  transcricao?: WordTimestamp[];
+  alteracoesGlossario?: AlteracaoGlossario[]; // Correções do glossário aplicadas à transcrição
+  resumo?: string | null;
+  resumoEstruturado?: ResumoEstruturado | null;
+  idBiblioteca?: string;
+}
+
+export interface EstadoLote {
+  itens: ItemLote[];
+  pausado: boolean;
+  emAndamento: boolean; // Há itens aguardando ou em processamento
+}
+
+export interface OpcoesLote {
+  provedor: TranscriptionProvider;
+  opcoesTranscricao: OpcoesTranscricao;
+  apiKey: string | null;
+  idiomaResumo: IdiomaInterface;
+  modoResumo?: ModoResumo;
+}
+
+export interface ConfiguracaoLote {
+  concorrencia: number;
+  maxTentativas: number;
+}
+
+type ObservadorLote = (estado: EstadoLote) => void;
+
+const STATUS_FINAIS: StatusItemLote[] = ['concluido', 'falhou', 'cancelado'];
+
+class ServicoLote {
+  private fila = new ServicoFila({
+    maxConcorrencia: config.lote.concorrencia,
+    delayEntreRequisicoes: 100,
+    timeoutRequisicao: 0 // Áudios longos podem levar muitos minutos
+  });
+  private itens: ItemLote[] = [];
+  private observadores: ObservadorLote[] = [];
+  private maxTentativas = config.lote.maxTentativas;
+
+  /**
+   * Atualiza a concorrência e o número de tentativas (vale para os próximos arquivos iniciados)
+   */
+  configurar({ concorrencia, maxTentativas }: Partial<ConfiguracaoLote>): void {
+    if (concorrencia !== undefined) {
+      this.fila.configurar({ maxConcorrencia: Math.max(1, concorrencia) });
+    }
+    if (maxTentativas !== undefined) {
+      this.maxTentativas = Math.max(1, maxTentativas);
+    }
+  }
+
+  /**
+   * Enfileira os arquivos e retorna os itens criados
+   */
+  adicionarArquivos(arquivos: File[], opcoes: OpcoesLote): ItemLote[] {
+    const novos: ItemLote[] = arquivos.map(arquivo => ({
+      id: `lote_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      arquivo,
+      status: 'aguardando',
+      tentativas: 0
+    }));
+    this.itens = [...this.itens, ...novos];
+    console.log(`📦 [LOTE] ${novos.length} arquivo(s) adicionados ao lote`);
+    this.notificar();
+
+    novos.forEach(item => {
+      this.fila
+        .adicionarTarefa(sinal => this.processarItem(item.id, opcoes, sinal), 'media', this.maxTentativas, item.id)
+        .then(() => this.atualizarItem(item.id, { status: 'concluido', erro: undefined }))
+        .catch(erro => {
+          if (erro instanceof TarefaCanceladaError) {
+            this.atualizarItem(item.id, { status: 'cancelado' });
+          } else {
+            console.error(`❌ [LOTE] Falha definitiva em ${item.arquivo.name}:`, erro);
+            this.atualizarItem(item.id, { status: 'falhou', erro: erro instanceof Error ? erro.message : String(erro) });
+          }
+        });
+    });
+
+    return novos;
+  }
+
+  pausar(): void {
+    this.fila.pausar();
+    this.notificar();
+  }
+
+  retomar(): void {
+    this.fila.retomar();
+    this.notificar();
+  }
+
+  /**
+   * Cancela um item ou, sem id, todos os itens ainda não finalizados
+   */
+  cancelar(id?: string): void {
+    const alvos = this.itens.filter(item => (id === undefined || item.id === id) && !STATUS_FINAIS.includes(item.status));
+    alvos.forEach(item => this.fila.cancelarTarefa(item.id));
+  }
+
+  /**
+   * Remove da lista os itens finalizados
+   */
+  limpar(): void {
+    this.itens = this.itens.filter(item => !STATUS_FINAIS.includes(item.status));
+    if (this.itens.length === 0) {
+      this.fila.limparHistorico();
+    }
+    this.notificar();
+  }
+
+  obterEstado(): EstadoLote {
+    return {
+      itens: this.itens,
+      pausado: this.fila.estaPausada(),
+      emAndamento: this.itens.some(item => !STATUS_FINAIS.includes(item.status))
+    };
+  }
+
+  /**
+   * Registra um observador do estado do lote e retorna a função que o remove
+   */
+  observar(observador: ObservadorLote): () => void {
+    this.observadores.push(observador);
+    observador(this.obterEstado());
+    return () => {
+      this.observadores = this.observadores.filter(item => item !== observador);
+    };
+  }
+
+  /**
+   * Gera um .zip com as transcrições concluídas no formato informado e seus resumos. Os formatos
+   * de documento já trazem o resumo, então ele não é gravado em arquivos separados.
+   */
+  gerarZipResultados(formato: FormatoExportacao, opcoesDocumento: OpcoesDocumento = {}): Uint8Array {
+    const documento = FORMATOS_DOCUMENTO.includes(formato);
+    const arquivos: ArquivoZip[] = [];
+    this.itens.forEach(item => {
+      if (item.status !== 'concluido' || !item.transcricao) return;
+      arquivos.push({
+        nome: nomeArquivoExportado(item.arquivo.name, formato),
+        conteudo: gerarConteudoExportacao(item.transcricao, formato, {
+          nomeArquivo: item.arquivo.name,
+          resumo: item.resumo,
+          resumoEstruturado: item.resumoEstruturado
+        }, opcoesDocumento)
+      });
+      if (documento) return;
+      if (item.resumo) {
+        arquivos.push({
+          nome: nomeArquivoExportado(item.arquivo.name, 'resumo.txt'),
+          conteudo: item.resumo
+        });
+      }
+      if (item.resumoEstruturado) {
+        arquivos.push({
+          nome: nomeArquivoExportado(item.arquivo.name, 'resumo.json'),
+          conteudo: JSON.stringify(item.resumoEstruturado, null, 2)
+        });
+      }
+    });
+    return gerarZip(arquivos);
+  }
+
+  /**
+   * Transcreve, salva na biblioteca e resume um arquivo. Executado pela fila a cada tentativa.
+   */
+  private async processarItem(id: string, opcoes: OpcoesLote, sinal: AbortSignal): Promise<void> {
+    const item = this.itens.find(atual => atual.id === id);
+    if (!item) return;
+
+    this.atualizarItem(id, { status: 'processando', tentativas: item.tentativas + 1, erro: undefined });
+    console.log(`🎵 [LOTE] Transcrevendo ${item.arquivo.name} (tentativa ${item.tentativas + 1}/${this.maxTentativas})`);
+
+    try {
+      // Uma nova tentativa aproveita a transcrição já obtida e só refaz as etapas que faltaram
+      let transcricao = item.transcricao;
+      if (!transcricao) {
+        const bruta = await opcoes.provedor.transcrever(item.arquivo, { ...opcoes.opcoesTranscricao, sinal });
+        if (!bruta || bruta.length === 0) {
+          throw new Error('Transcrição vazia ou inválida');
+        }
+        if (sinal.aborted) return;
+        // Correção das grafias conhecidas do glossário antes de salvar e resumir
+        const { transcricao: corrigida, alteracoes } = aplicarGlossario(bruta, opcoes.opcoesTranscricao.glossario);
+        transcricao = corrigida;
+        this.atualizarItem(id, { transcricao, alteracoesGlossario: alteracoes });
+      }
+      if (sinal.aborted) return;
+
+      if (!item.idBiblioteca) {
+        try {
+          const idBiblioteca = await bibliotecaService.salvar({
+            nomeArquivo: item.arquivo.name,
+            tipoArquivo: item.arquivo.type,
+            tamanhoArquivo: item.arquivo.size,
+            audio: item.arquivo,
+            transcricao,
+            resumo: null,
+            provedor: opcoes.provedor.id,
+            idioma: opcoes.opcoesTranscricao.idioma
+          });
+          this.atualizarItem(id, { idBiblioteca });
+        } catch (erro) {
+          console.error(`❌ [LOTE] Erro ao salvar ${item.arquivo.name} na biblioteca:`, erro);
+        }
+      }
+
+      // O resumo é opcional: sem chave de API ou em caso de erro, o arquivo é concluído sem ele
+      if (opcoes.apiKey && !sinal.aborted) {
+        const resultado = await resumirTranscricao(transcricao, opcoes.apiKey, opcoes.idiomaResumo, opcoes.modoResumo, sinal);
+        if (resultado.success && resultado.data) {
+          const resumo = { resumo: resultado.data.texto, resumoEstruturado: resultado.data.estruturado };
+          this.atualizarItem(id, resumo);
+          const idBiblioteca = this.itens.find(atual => atual.id === id)?.idBiblioteca;
+          if (idBiblioteca) {
+            await bibliotecaService.atualizar(idBiblioteca, resumo).catch(erro => {
+              console.error(`❌ [LOTE] Erro ao salvar resumo de ${item.arquivo.name}:`, erro);
+            });
+          }
+        } else {
+          console.warn(`⚠️ [LOTE] Resumo não gerado para ${item.arquivo.name}:`, resultado.error);
+        }
+      }
+    } catch (erro) {
+      // Volta a aguardar; se não houver mais tentativas, a fila rejeita e o item é marcado como falho
+      if (!sinal.aborted) {
+        this.atualizarItem(id, { status: 'aguardando', erro: erro instanceof Error ? erro.message : String(erro) });
+      }
+      throw erro;
+    }
+  }
+
+  private atualizarItem(id: string, alteracoes: Partial<ItemLote>): void {
+    this.itens = this.itens.map(item => (item.id === id ? { ...item, ...alteracoes } : item));
+    this.notificar();
+  }
+
+  private notificar(): void {
+    const estado = this.obterEstado();
+    this.observadores.forEach(observador => {
+      try {
+        observador(estado);
+      } catch (erro) {
+        console.error('Erro ao notificar observador do lote:', erro);
+      }
+    });
+  }
+}
+
+export const servicoLote = new ServicoLote();
+export default servicoLote;
@@ -0,0 +1,108 @@
+/**
+ * Serviço de revisão por confiança
+ *
+ * Usa a confiança que o mecanismo de transcrição atribui a cada palavra para orientar a revisão:
+ * classifica as palavras em níveis, encontra a próxima palavra incerta ainda não conferida e
+ * resume a distribuição da confiança do arquivo, indicando quanto trabalho de revisão ele exige.
+ * Uma palavra deixa de ser incerta quando o usuário a marca como verificada ou a edita.
+ */
+
+import { WordTimestamp } from '../types';
+
+export type NivelConfianca = 'alta' | 'media' | 'baixa';
+
+export interface ResumoConfianca {
+  faixas: number[]; // Quantidade de palavras em cada faixa de confiança, de 0 a 1
+  comConfianca: number; // Palavras para as quais o mecanismo informou a confiança
+  pendentes: number; // Palavras abaixo do limite ainda não revisadas
+  revisadas: number; // Palavras abaixo do limite já verificadas ou editadas
+  media: number | null; // Confiança média (null quando nenhuma palavra tem confiança)
+}
+
+// Número de faixas do histograma
+export const FAIXAS_HISTOGRAMA = 10;
+
+/**
+ * Nível da palavra em relação ao limite: abaixo dele é baixa; entre o limite e a metade do
+ * caminho até 1 é média. Palavras sem confiança informada não têm nível.
+ */
+export const nivelConfianca = (palavra: WordTimestamp, limite: number): NivelConfianca | null => {
+  if (palavra.confidence === undefined) return null;
+  if (palavra.confidence < limite) return 'baixa';
+  if (palavra.confidence < (limite + 1) / 2) return 'media';
+  return 'alta';
+};
+
+const foiRevisada = (palavra: WordTimestamp): boolean => !!palavra.verified || !!palavra.edited;
+
+/**
+ * Palavra abaixo do limite de confiança que ainda não foi verificada nem editada
+ */
+export const precisaRevisao = (palavra: WordTimestamp, limite: number): boolean => {
+  return nivelConfianca(palavra, limite) === 'baixa' && !foiRevisada(palavra);
+};
+
+/**
+ * Índice da próxima palavra que precisa de revisão depois de `aPartirDe` (ou antes dele, com
+ * direção -1), voltando ao outro extremo da transcrição. Devolve -1 quando não há nenhuma.
+ */
+export const proximaPalavraIncerta = (
+  transcricao: WordTimestamp[],
+  limite: number,
+  aPartirDe: number,
+  direcao: 1 | -1 = 1
+): number => {
+  const total = transcricao.length;
+  for (let passo = 1; passo <= total; passo++) {
+    const indice = (((aPartirDe + passo * direcao) % total) + total) % total;
+    if (precisaRevisao(transcricao[indice], limite)) return indice;
+  }
+  return -1;
+};
+
+/**
+ * Marca (ou desmarca) uma palavra como verificada, sem alterar o texto nem os tempos
+ */
+export const marcarComoVerificada = (transcricao: WordTimestamp[], indice: number, verificada = true): WordTimestamp[] => {
+  if (indice < 0 || indice >= transcricao.length) {
+    throw new Error(`Índice de palavra inválido: ${indice}`);
+  }
+  if (!!transcricao[indice].verified === verificada) return transcricao;
+
+  const resultado = [...transcricao];
+  const { verified: _verified, ...palavra } = transcricao[indice];
+  resultado[indice] = verificada ? { ...palavra, verified: true } : palavra;
+  return resultado;
+};
+
+/**
+ * Histograma da confiança e contagem das palavras que precisam de revisão
+ */
+export const resumirConfianca = (transcricao: WordTimestamp[], limite: number): ResumoConfianca => {
+  const faixas = new Array<number>(FAIXAS_HISTOGRAMA).fill(0);
+  let comConfianca = 0;
+  let soma = 0;
+  let pendentes = 0;
+  let revisadas = 0;
+
+  for (const palavra of transcricao) {
+    if (palavra.confidence === undefined) continue;
+    const confianca = Math.min(1, Math.max(0, palavra.confidence));
+    faixas[Math.min(FAIXAS_HISTOGRAMA - 1, Math.floor(confianca * FAIXAS_HISTOGRAMA))]++;
+    comConfianca++;
+    soma += confianca;
+
+    if (confianca < limite) {
+      if (foiRevisada(palavra)) revisadas++;
+      else pendentes++;
+    }
+  }
+
+  return {
+    faixas,
+    comConfianca,
+    pendentes,
+    revisadas,
+    media: comConfianca > 0 ? soma / comConfianca : null
+  };
+};
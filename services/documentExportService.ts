@@ -0,0 +1,284 @@
+/**
+ * Serviço de exportação em documentos
+ *
+ * Monta o documento exportado (bloco de título com os dados do arquivo, resumo e transcrição em
+ * parágrafos, com marcas de tempo e nomes dos falantes opcionais) e o converte em Markdown, DOCX
+ * ou PDF. O DOCX é um pacote OOXML mínimo gravado com o serviço de ZIP.
+ */
+
+import { WordTimestamp } from '../types';
+import { ResumoEstruturado } from './structuredSummaryService';
+import { listarFalantes } from './speakerService';
+import { gerarZip } from './zipService';
+import { gerarPdf } from './pdfService';
+import { ChaveTraducao, IDIOMA_PADRAO, IdiomaInterface, traduzir } from '../i18n';
+
+export interface DadosDocumento {
+  nomeArquivo: string;
+  resumo?: string | null;
+  resumoEstruturado?: ResumoEstruturado | null;
+  criadoEm?: Date;
+}
+
+export interface OpcoesDocumento {
+  marcasDeTempo?: boolean; // Tempo de início de cada parágrafo
+  falantes?: boolean;      // Nome do falante de cada parágrafo
+  idioma?: IdiomaInterface; // Idioma dos textos fixos do documento (rótulos e títulos das seções)
+}
+
+export interface ParagrafoDocumento {
+  inicio: number; // Segundos
+  falante?: string;
+  texto: string;
+}
+
+// Trecho de texto com o mesmo estilo
+export interface TrechoDocumento {
+  texto: string;
+  negrito?: boolean;
+}
+
+// Unidade de conteúdo comum aos três formatos
+export interface BlocoDocumento {
+  tipo: 'titulo' | 'secao' | 'subsecao' | 'metadado' | 'paragrafo' | 'item';
+  trechos: TrechoDocumento[];
+}
+
+// Critérios de quebra de parágrafo quando não há troca de falante
+const PAUSA_PARA_QUEBRA = 2; // Segundos de silêncio entre duas palavras
+const PALAVRAS_PARA_QUEBRAR_NA_FRASE = 60;
+const MAX_PALAVRAS_POR_PARAGRAFO = 150;
+const FIM_DE_FRASE = /[.!?…]["'”’)\]]*$/;
+const PONTUACAO_INICIAL = /^[.,!?;:…)\]}]/;
+
+/**
+ * Formata o tempo como [m:ss] ou [h:mm:ss]
+ */
+export const formatarMarcaDeTempo = (segundos: number): string => {
+  const total = Math.max(0, Math.floor(segundos));
+  const horas = Math.floor(total / 3600);
+  const minutos = Math.floor((total % 3600) / 60);
+  const resto = (total % 60).toString().padStart(2, '0');
+  return horas > 0 ? `${horas}:${minutos.toString().padStart(2, '0')}:${resto}` : `${minutos}:${resto}`;
+};
+
+const juntarPalavras = (palavras: WordTimestamp[]): string => {
+  return palavras.reduce((texto, { word }) => {
+    if (!texto) return word;
+    return PONTUACAO_INICIAL.test(word) ? `${texto}${word}` : `${texto} ${word}`;
+  }, '');
+};
+
+/**
+ * Divide a transcrição em parágrafos: a cada troca de falante, a cada pausa longa ou ao fim de
+ * uma frase quando o parágrafo já está extenso
+ */
+export const montarParagrafos = (transcricao: WordTimestamp[]): ParagrafoDocumento[] => {
+  const grupos: WordTimestamp[][] = [];
+
+  transcricao.forEach((palavra, indice) => {
+    const atual = grupos[grupos.length - 1];
+    const anterior = transcricao[indice - 1];
+    const quebrar = !atual ||
+      palavra.speaker !== anterior.speaker ||
+      palavra.startTime - anterior.endTime >= PAUSA_PARA_QUEBRA ||
+      (atual.length >= PALAVRAS_PARA_QUEBRAR_NA_FRASE && FIM_DE_FRASE.test(anterior.word)) ||
+      atual.length >= MAX_PALAVRAS_POR_PARAGRAFO;
+
+    if (quebrar) grupos.push([palavra]);
+    else atual.push(palavra);
+  });
+
+  return grupos.map(palavras => ({
+    inicio: palavras[0].startTime,
+    falante: palavras[0].speaker,
+    texto: juntarPalavras(palavras)
+  }));
+};
+
+/**
+ * Monta os blocos do documento na ordem: título, dados do arquivo, resumo e transcrição
+ */
+export const montarBlocosDocumento = (
+  transcricao: WordTimestamp[],
+  dados: DadosDocumento,
+  opcoes: OpcoesDocumento = {}
+): BlocoDocumento[] => {
+  const idioma = opcoes.idioma ?? IDIOMA_PADRAO;
+  const rotulo = (chave: ChaveTraducao) => traduzir(idioma, chave);
+  const marcasDeTempo = opcoes.marcasDeTempo ?? true;
+  const comFalantes = opcoes.falantes ?? true;
+  const texto = (valor: string, negrito = false): TrechoDocumento => ({ texto: valor, negrito });
+  const metadado = (nome: string, valor: string): BlocoDocumento => ({ tipo: 'metadado', trechos: [texto(`${nome}: `, true), texto(valor)] });
+
+  const blocos: BlocoDocumento[] = [{ tipo: 'titulo', trechos: [texto(dados.nomeArquivo)] }];
+
+  // Dados do arquivo
+  const duracao = transcricao.length > 0 ? transcricao[transcricao.length - 1].endTime : 0;
+  const falantes = listarFalantes(transcricao);
+  blocos.push(metadado(rotulo('documento.arquivo'), dados.nomeArquivo));
+  blocos.push(metadado(rotulo('documento.duracao'), formatarMarcaDeTempo(duracao)));
+  blocos.push(metadado(rotulo('documento.palavras'), String(transcricao.length)));
+  if (falantes.length > 0) blocos.push(metadado(rotulo('documento.falantes'), falantes.join(', ')));
+  if (dados.criadoEm) blocos.push(metadado(rotulo('documento.criadoEm'), dados.criadoEm.toLocaleString(idioma)));
+  blocos.push(metadado(rotulo('documento.exportadoEm'), new Date().toLocaleString(idioma)));
+
+  // Resumo
+  const estruturado = dados.resumoEstruturado;
+  if (estruturado || dados.resumo) {
+    blocos.push({ tipo: 'secao', trechos: [texto(rotulo('documento.resumo'))] });
+    const visaoGeral = estruturado ? estruturado.visaoGeral : dados.resumo ?? '';
+    visaoGeral.split(/\n\s*\n/).map(paragrafo => paragrafo.trim()).filter(Boolean).forEach(paragrafo => {
+      blocos.push({ tipo: 'paragrafo', trechos: [texto(paragrafo)] });
+    });
+
+    if (estruturado) {
+      const lista = (titulo: string, itens: { inicio: number; trechos: TrechoDocumento[] }[]) => {
+        if (itens.length === 0) return;
+        blocos.push({ tipo: 'subsecao', trechos: [texto(titulo)] });
+        itens.forEach(item => {
+          blocos.push({
+            tipo: 'item',
+            trechos: [...(marcasDeTempo ? [texto(`[${formatarMarcaDeTempo(item.inicio)}] `, true)] : []), ...item.trechos]
+          });
+        });
+      };
+
+      lista(rotulo('resumo.acoes'), estruturado.acoes.map(acao => ({
+        inicio: acao.inicio,
+        trechos: [
+          texto(acao.descricao),
+          ...(acao.responsavel ? [texto(` — ${rotulo('documento.responsavel')}: ${acao.responsavel}`)] : []),
+          ...(acao.prazo ? [texto(` — ${rotulo('documento.prazo')}: ${acao.prazo}`)] : [])
+        ]
+      })));
+      lista(rotulo('resumo.decisoes'), estruturado.decisoes.map(decisao => ({ inicio: decisao.inicio, trechos: [texto(decisao.descricao)] })));
+      lista(rotulo('resumo.questoesAbertas'), estruturado.questoesAbertas.map(questao => ({ inicio: questao.inicio, trechos: [texto(questao.pergunta)] })));
+      lista(rotulo('resumo.capitulos'), estruturado.capitulos.map(capitulo => ({
+        inicio: capitulo.inicio,
+        trechos: [texto(capitulo.titulo, true), ...(capitulo.resumo ? [texto(` — ${capitulo.resumo}`)] : [])]
+      })));
+    }
+  }
+
+  // Transcrição
+  blocos.push({ tipo: 'secao', trechos: [texto(rotulo('documento.transcricao'))] });
+  montarParagrafos(transcricao).forEach(paragrafo => {
+    const prefixo = [
+      marcasDeTempo ? `[${formatarMarcaDeTempo(paragrafo.inicio)}]` : '',
+      comFalantes && paragrafo.falante ? `${paragrafo.falante}:` : ''
+    ].filter(Boolean).join(' ');
+    blocos.push({
+      tipo: 'paragrafo',
+      trechos: prefixo ? [texto(`${prefixo} `, true), texto(paragrafo.texto)] : [texto(paragrafo.texto)]
+    });
+  });
+
+  return blocos;
+};
+
+// Caracteres com significado especial no Markdown (os colchetes das marcas de tempo não formam links)
+const escaparMarkdown = (valor: string): string => valor.replace(/([\\`*_#<>|])/g, '\\$1');
+
+/**
+ * Gera o documento em Markdown
+ */
+export const gerarMarkdown = (transcricao: WordTimestamp[], dados: DadosDocumento, opcoes: OpcoesDocumento = {}): string => {
+  const linhas = montarBlocosDocumento(transcricao, dados, opcoes).map(bloco => {
+    const conteudo = bloco.trechos
+      .map(trecho => {
+        const escapado = escaparMarkdown(trecho.texto);
+        // O negrito não pode começar nem terminar em espaço
+        return trecho.negrito && escapado.trim() ? escapado.replace(/^(\s*)(.*?)(\s*)$/, '$1**$2**$3') : escapado;
+      })
+      .join('');
+
+    switch (bloco.tipo) {
+      case 'titulo': return `# ${conteudo}\n`;
+      case 'secao': return `\n## ${conteudo}\n`;
+      case 'subsecao': return `\n### ${conteudo}\n`;
+      case 'metadado': return `- ${conteudo}`;
+      case 'item': return `- ${conteudo}`;
+      case 'paragrafo':
+      default: return `\n${conteudo}`;
+    }
+  });
+
+  return `${linhas.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+};
+
+const escaparXml = (valor: string): string => valor
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Caracteres de controle não são aceitos no XML
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// Tamanho da fonte (em meios pontos) e espaçamento de cada tipo de bloco no DOCX
+const ESTILOS_DOCX: Record<BlocoDocumento['tipo'], { tamanho: number; negrito?: boolean; antes: number; depois: number; recuo?: number }> = {
+  titulo: { tamanho: 36, negrito: true, antes: 0, depois: 240 },
+  secao: { tamanho: 28, negrito: true, antes: 360, depois: 120 },
+  subsecao: { tamanho: 24, negrito: true, antes: 240, depois: 80 },
+  metadado: { tamanho: 20, antes: 0, depois: 40 },
+  paragrafo: { tamanho: 22, antes: 0, depois: 160 },
+  item: { tamanho: 22, antes: 0, depois: 80, recuo: 360 }
+};
+
+/**
+ * Gera o documento no formato DOCX (Office Open XML)
+ */
+export const gerarDocx = (transcricao: WordTimestamp[], dados: DadosDocumento, opcoes: OpcoesDocumento = {}): Uint8Array => {
+  const paragrafos = montarBlocosDocumento(transcricao, dados, opcoes).map(bloco => {
+    const estilo = ESTILOS_DOCX[bloco.tipo];
+    const recuo = estilo.recuo ? `<w:ind w:left="${estilo.recuo}" w:hanging="240"/>` : '';
+    const marcador = bloco.tipo === 'item' ? '<w:r><w:t xml:space="preserve">• </w:t></w:r>' : '';
+    const trechos = bloco.trechos.map(trecho => {
+      const negrito = estilo.negrito || trecho.negrito ? '<w:b/>' : '';
+      return `<w:r><w:rPr>${negrito}<w:sz w:val="${estilo.tamanho}"/></w:rPr><w:t xml:space="preserve">${escaparXml(trecho.texto)}</w:t></w:r>`;
+    }).join('');
+    return `<w:p><w:pPr><w:spacing w:before="${estilo.antes}" w:after="${estilo.depois}"/>${recuo}</w:pPr>${marcador}${trechos}</w:p>`;
+  }).join('');
+
+  const documento = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    `<w:body>${paragrafos}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>` +
+    '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>';
+
+  const tiposConteudo = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>';
+
+  const relacoes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>';
+
+  const propriedades = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escaparXml(dados.nomeArquivo)}</dc:title>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  return gerarZip([
+    { nome: '[Content_Types].xml', conteudo: tiposConteudo },
+    { nome: '_rels/.rels', conteudo: relacoes },
+    { nome: 'docProps/core.xml', conteudo: propriedades },
+    { nome: 'word/document.xml', conteudo: documento }
+  ]);
+};
+
+/**
+ * Gera o documento em PDF
+ */
+export const gerarDocumentoPdf = (transcricao: WordTimestamp[], dados: DadosDocumento, opcoes: OpcoesDocumento = {}): Uint8Array => {
+  return gerarPdf(montarBlocosDocumento(transcricao, dados, opcoes), dados.nomeArquivo);
+};
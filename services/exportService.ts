@@ -0,0 +1,136 @@
+/**
+ * Serviço de exportação
+ *
+ * Converte a transcrição no conteúdo dos formatos de exportação e o salva: no Electron, pelo
+ * diálogo "Salvar como" do processo principal; no navegador, disparando o download.
+ * Usado tanto na exportação da transcrição aberta quanto no download dos resultados de um lote.
+ */
+
+import { WordTimestamp } from '../types';
+import { formatarTextoComFalantes } from './speakerService';
+import { gerarSrt, gerarVtt } from './subtitleService';
+import { DadosDocumento, gerarDocumentoPdf, gerarDocx, gerarMarkdown, OpcoesDocumento } from './documentExportService';
+
+export type FormatoExportacao = 'txt' | 'json' | 'srt' | 'vtt' | 'md' | 'docx' | 'pdf';
+
+// Formatos que incluem o bloco de título e o resumo
+export const FORMATOS_DOCUMENTO: FormatoExportacao[] = ['md', 'docx', 'pdf'];
+
+// Filtro do diálogo de salvar do Electron
+export interface FiltroArquivo {
+  name: string;
+  extensions: string[];
+}
+
+interface ResultadoSalvarArquivo {
+  success: boolean;
+  filePath?: string;
+  error?: string;
+}
+
+// API exposta pelo preload.js quando a aplicação roda no Electron
+declare global {
+  interface Window {
+    electronAPI?: {
+      arquivo: {
+        salvarArquivo: (caminhoDefault: string, conteudo: string | Uint8Array, filtros?: FiltroArquivo[]) => Promise<ResultadoSalvarArquivo>;
+      };
+    };
+  }
+}
+
+const TIPOS_MIME: Record<FormatoExportacao, string> = {
+  txt: 'text/plain',
+  json: 'application/json',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  md: 'text/markdown',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf'
+};
+
+const FILTROS: Record<FormatoExportacao, FiltroArquivo> = {
+  txt: { name: 'Arquivo de Texto', extensions: ['txt'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  srt: { name: 'Legendas SubRip', extensions: ['srt'] },
+  vtt: { name: 'Legendas WebVTT', extensions: ['vtt'] },
+  md: { name: 'Markdown', extensions: ['md'] },
+  docx: { name: 'Documento do Word', extensions: ['docx'] },
+  pdf: { name: 'PDF', extensions: ['pdf'] }
+};
+
+/**
+ * Gera o conteúdo do arquivo exportado no formato informado. Os formatos de documento (Markdown,
+ * DOCX e PDF) usam também os dados do arquivo e o resumo.
+ */
+export const gerarConteudoExportacao = (
+  transcricao: WordTimestamp[],
+  formato: FormatoExportacao,
+  dados: DadosDocumento = { nomeArquivo: 'transcricao' },
+  opcoes: OpcoesDocumento = {}
+): string | Uint8Array => {
+  switch (formato) {
+    case 'json':
+      return JSON.stringify(transcricao, null, 2);
+    case 'srt':
+      return gerarSrt(transcricao);
+    case 'vtt':
+      return gerarVtt(transcricao);
+    case 'md':
+      return gerarMarkdown(transcricao, dados, opcoes);
+    case 'docx':
+      return gerarDocx(transcricao, dados, opcoes);
+    case 'pdf':
+      return gerarDocumentoPdf(transcricao, dados, opcoes);
+    case 'txt':
+    default:
+      return formatarTextoComFalantes(transcricao);
+  }
+};
+
+/**
+ * Troca a extensão do nome do arquivo de áudio pela extensão informada
+ */
+export const nomeArquivoExportado = (nomeAudio: string, extensao: string): string => {
+  const base = nomeAudio.replace(/\.[^./\\]+$/, '') || 'transcricao';
+  return `${base}.${extensao}`;
+};
+
+/**
+ * Dispara o download de um conteúdo no navegador
+ */
+export const baixarArquivo = (conteudo: BlobPart, nomeArquivo: string, tipo = 'text/plain'): void => {
+  const blob = new Blob([conteudo], { type: tipo });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = nomeArquivo;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Salva o arquivo exportado. Retorna false quando o usuário cancela o diálogo do Electron.
+ */
+export const salvarExportacao = async (
+  conteudo: string | Uint8Array,
+  nomeArquivo: string,
+  formato: FormatoExportacao
+): Promise<boolean> => {
+  const api = window.electronAPI?.arquivo;
+  if (!api) {
+    baixarArquivo(conteudo, nomeArquivo, TIPOS_MIME[formato]);
+    return true;
+  }
+
+  const resultado = await api.salvarArquivo(nomeArquivo, conteudo, [
+    FILTROS[formato],
+    { name: 'Todos os Arquivos', extensions: ['*'] }
+  ]);
+  if (resultado.error) {
+    throw new Error(resultado.error);
+  }
+  return resultado.success;
+};
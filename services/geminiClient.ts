@@ -0,0 +1,408 @@
+/**
+ * Cliente compartilhado do Gemini
+ *
+ * Centraliza as chamadas ao generateContent: classifica as falhas em erros tipados, repete as
+ * falhas temporárias com espera exponencial e variação aleatória (respeitando o tempo pedido pela
+ * API) e permite cancelar a chamada com um AbortSignal. Também oferece a variante em stream, que
+ * entrega o texto à medida que é gerado.
+ */
+
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { config } from '../config';
+
+export type TipoErroGemini =
+  | 'autenticacao'
+  | 'limite'
+  | 'rede'
+  | 'servidor'
+  | 'bloqueio'
+  | 'json'
+  | 'vazio'
+  | 'cancelado'
+  | 'desconhecido';
+
+/**
+ * Erro base das chamadas ao Gemini. `transitorio` indica que uma nova tentativa pode dar certo.
+ */
+export class GeminiError extends Error {
+  readonly tipo: TipoErroGemini;
+  readonly transitorio: boolean;
+  readonly status?: number;
+  readonly causa?: unknown;
+
+  constructor(mensagem: string, tipo: TipoErroGemini = 'desconhecido', opcoes: { transitorio?: boolean; status?: number; causa?: unknown } = {}) {
+    super(mensagem);
+    this.name = 'GeminiError';
+    this.tipo = tipo;
+    this.transitorio = opcoes.transitorio ?? false;
+    this.status = opcoes.status;
+    this.causa = opcoes.causa;
+  }
+}
+
+export class GeminiAutenticacaoError extends GeminiError {
+  constructor(causa?: unknown, status?: number) {
+    super('A chave de API fornecida é inválida. Verifique-a nas configurações.', 'autenticacao', { causa, status });
+    this.name = 'GeminiAutenticacaoError';
+  }
+}
+
+export class GeminiLimiteError extends GeminiError {
+  // Espera sugerida pela API antes de tentar novamente, quando informada
+  readonly esperaSugerida?: number;
+
+  constructor(causa?: unknown, esperaSugerida?: number) {
+    super('Limite de uso da API excedido. Tente novamente mais tarde.', 'limite', { transitorio: true, causa, status: 429 });
+    this.name = 'GeminiLimiteError';
+    this.esperaSugerida = esperaSugerida;
+  }
+}
+
+export class GeminiRedeError extends GeminiError {
+  constructor(causa?: unknown) {
+    super('Erro de conectividade. Verifique sua conexão com a internet.', 'rede', { transitorio: true, causa });
+    this.name = 'GeminiRedeError';
+  }
+}
+
+export class GeminiServidorError extends GeminiError {
+  constructor(causa?: unknown, status?: number) {
+    super('O serviço do Gemini está indisponível no momento. Tente novamente em instantes.', 'servidor', { transitorio: true, causa, status });
+    this.name = 'GeminiServidorError';
+  }
+}
+
+export class GeminiBloqueioError extends GeminiError {
+  readonly motivo: string;
+
+  constructor(motivo: string) {
+    super(`O conteúdo foi bloqueado pelos filtros de segurança do Gemini (${motivo}).`, 'bloqueio');
+    this.name = 'GeminiBloqueioError';
+    this.motivo = motivo;
+  }
+}
+
+export class GeminiJsonInvalidoError extends GeminiError {
+  constructor(causa?: unknown) {
+    // Respostas JSON truncadas costumam sair corretas em uma nova tentativa
+    super('Resposta da API não está em formato JSON válido', 'json', { transitorio: true, causa });
+    this.name = 'GeminiJsonInvalidoError';
+  }
+}
+
+export class GeminiRespostaVaziaError extends GeminiError {
+  constructor(mensagem = 'A API não retornou conteúdo.') {
+    super(mensagem, 'vazio');
+    this.name = 'GeminiRespostaVaziaError';
+  }
+}
+
+export class GeminiCanceladoError extends GeminiError {
+  constructor() {
+    super('Operação cancelada.', 'cancelado');
+    this.name = 'GeminiCanceladoError';
+  }
+}
+
+export interface OpcoesChamadaGemini {
+  sinal?: AbortSignal;
+  maxTentativas?: number;
+  esperaInicial?: number; // Milissegundos
+  esperaMaxima?: number;  // Milissegundos
+  // Chamado antes de cada nova tentativa, com o erro que a motivou e a espera aplicada
+  onNovaTentativa?: (tentativa: number, erro: GeminiError, espera: number) => void;
+}
+
+// Motivos de término e de bloqueio que indicam filtro de segurança
+const MOTIVOS_BLOQUEIO = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * Lê o tempo de espera pedido pela API (RetryInfo.retryDelay ou Retry-After) em milissegundos
+ */
+export const extrairEsperaSugerida = (mensagem: string): number | undefined => {
+  const retryDelay = mensagem.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/i);
+  if (retryDelay) return Math.round(parseFloat(retryDelay[1]) * 1000);
+
+  const retryAfter = mensagem.match(/retry-after\s*:?\s*(\d+(?:\.\d+)?)/i);
+  if (retryAfter) return Math.round(parseFloat(retryAfter[1]) * 1000);
+
+  return undefined;
+};
+
+/**
+ * Converte qualquer erro de uma chamada ao Gemini no erro tipado correspondente
+ */
+export const classificarErroGemini = (erro: unknown, sinal?: AbortSignal): GeminiError => {
+  if (erro instanceof GeminiError) return erro;
+  if (sinal?.aborted || (erro instanceof Error && erro.name === 'AbortError')) return new GeminiCanceladoError();
+
+  const mensagem = erro instanceof Error ? erro.message : String(erro);
+  const status = typeof (erro as { status?: unknown })?.status === 'number'
+    ? (erro as { status: number }).status
+    : Number(mensagem.match(/got status:\s*(\d{3})/)?.[1]) || undefined;
+
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(mensagem)) {
+    return new GeminiAutenticacaoError(erro, status);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(mensagem)) {
+    return new GeminiLimiteError(erro, extrairEsperaSugerida(mensagem));
+  }
+  if (status !== undefined && status >= 500) {
+    return new GeminiServidorError(erro, status);
+  }
+  if (erro instanceof TypeError || /network|Failed to fetch|fetch failed|ECONNRESET|ETIMEDOUT|ENOTFOUND/i.test(mensagem)) {
+    return new GeminiRedeError(erro);
+  }
+  return new GeminiError(mensagem, 'desconhecido', { status, causa: erro });
+};
+
+/**
+ * Calcula a espera antes da tentativa seguinte: exponencial com variação aleatória entre 50% e 100%
+ * do valor, ou o tempo pedido pela API quando houver. Retorna null se a espera pedida passar do máximo.
+ */
+export const calcularEspera = (
+  tentativa: number,
+  erro: GeminiError,
+  esperaInicial: number,
+  esperaMaxima: number,
+  aleatorio: () => number = Math.random
+): number | null => {
+  if (erro instanceof GeminiLimiteError && erro.esperaSugerida !== undefined) {
+    return erro.esperaSugerida <= esperaMaxima ? erro.esperaSugerida : null;
+  }
+  const exponencial = Math.min(esperaInicial * Math.pow(2, tentativa - 1), esperaMaxima);
+  return Math.round(exponencial / 2 + aleatorio() * (exponencial / 2));
+};
+
+const aguardar = (ms: number, sinal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (sinal?.aborted) {
+      reject(new GeminiCanceladoError());
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      sinal?.removeEventListener('abort', aoCancelar);
+      resolve();
+    }, ms);
+    const aoCancelar = () => {
+      clearTimeout(timeoutId);
+      reject(new GeminiCanceladoError());
+    };
+    sinal?.addEventListener('abort', aoCancelar, { once: true });
+  });
+};
+
+/**
+ * Executa a operação repetindo as falhas temporárias. Erros são sempre lançados como GeminiError.
+ */
+export const executarComRetentativas = async <T>(
+  operacao: (tentativa: number) => Promise<T>,
+  opcoes: OpcoesChamadaGemini = {}
+): Promise<T> => {
+  const {
+    sinal,
+    maxTentativas = config.gemini.maxTentativas,
+    esperaInicial = config.gemini.esperaInicial,
+    esperaMaxima = config.gemini.esperaMaxima,
+    onNovaTentativa
+  } = opcoes;
+
+  for (let tentativa = 1; ; tentativa++) {
+    if (sinal?.aborted) throw new GeminiCanceladoError();
+
+    try {
+      return await operacao(tentativa);
+    } catch (erroOriginal) {
+      const erro = classificarErroGemini(erroOriginal, sinal);
+      const espera = erro.transitorio && tentativa < maxTentativas
+        ? calcularEspera(tentativa, erro, esperaInicial, esperaMaxima)
+        : null;
+
+      if (espera === null) throw erro;
+
+      console.warn(`🔁 [GEMINI] Tentativa ${tentativa}/${maxTentativas} falhou (${erro.tipo}); nova tentativa em ${espera}ms`);
+      onNovaTentativa?.(tentativa + 1, erro, espera);
+      await aguardar(espera, sinal);
+    }
+  }
+};
+
+// Um cliente por chave de API, reaproveitado entre as chamadas
+const clientes = new Map<string, GoogleGenAI>();
+
+const obterCliente = (apiKey: string): GoogleGenAI => {
+  let cliente = clientes.get(apiKey);
+  if (!cliente) {
+    cliente = new GoogleGenAI({ apiKey });
+    clientes.set(apiKey, cliente);
+  }
+  return cliente;
+};
+
+/**
+ * Verifica se a resposta foi bloqueada pelos filtros de segurança. No stream, `texto` é o acumulado.
+ */
+const verificarBloqueio = (response: GenerateContentResponse, texto: string | undefined = response.text): void => {
+  const bloqueioPrompt = response.promptFeedback?.blockReason;
+  if (bloqueioPrompt) {
+    throw new GeminiBloqueioError(String(bloqueioPrompt));
+  }
+  const motivoTermino = response.candidates?.[0]?.finishReason;
+  if (motivoTermino && MOTIVOS_BLOQUEIO.includes(String(motivoTermino)) && !texto) {
+    throw new GeminiBloqueioError(String(motivoTermino));
+  }
+};
+
+/**
+ * Chama o generateContent e retorna o texto da resposta
+ */
+export const gerarTexto = async (
+  apiKey: string,
+  parametros: GenerateContentParameters,
+  opcoes: OpcoesChamadaGemini = {}
+): Promise<string> => {
+  if (!apiKey) {
+    throw new GeminiAutenticacaoError();
+  }
+
+  return executarComRetentativas(async () => {
+    const response = await obterCliente(apiKey).models.generateContent({
+      ...parametros,
+      config: { ...parametros.config, abortSignal: opcoes.sinal }
+    });
+    verificarBloqueio(response);
+
+    const texto = response.text?.trim();
+    if (!texto) {
+      throw new GeminiRespostaVaziaError();
+    }
+    return texto;
+  }, opcoes);
+};
+
+/**
+ * Chama o generateContentStream, repassando o texto acumulado a cada trecho recebido, e retorna o
+ * texto completo. Uma nova tentativa recomeça o stream do início.
+ */
+export const gerarTextoEmStream = async (
+  apiKey: string,
+  parametros: GenerateContentParameters,
+  onTrecho: (textoAcumulado: string) => void,
+  opcoes: OpcoesChamadaGemini = {}
+): Promise<string> => {
+  if (!apiKey) {
+    throw new GeminiAutenticacaoError();
+  }
+
+  return executarComRetentativas(async () => {
+    const stream = await obterCliente(apiKey).models.generateContentStream({
+      ...parametros,
+      config: { ...parametros.config, abortSignal: opcoes.sinal }
+    });
+
+    let acumulado = '';
+    for await (const trecho of stream) {
+      acumulado += trecho.text ?? '';
+      verificarBloqueio(trecho, acumulado);
+      onTrecho(acumulado);
+    }
+
+    const texto = acumulado.trim();
+    if (!texto) {
+      throw new GeminiRespostaVaziaError();
+    }
+    return texto;
+  }, opcoes);
+};
+
+const lerJson = <T>(texto: string): T => {
+  try {
+    return JSON.parse(texto) as T;
+  } catch (erro) {
+    console.error(`❌ [GEMINI] Resposta que não pôde ser lida como JSON:`, texto);
+    throw new GeminiJsonInvalidoError(erro);
+  }
+};
+
+/**
+ * Chama o generateContent esperando uma resposta JSON e retorna o objeto lido
+ */
+export const gerarJson = async <T = unknown>(
+  apiKey: string,
+  parametros: GenerateContentParameters,
+  opcoes: OpcoesChamadaGemini = {}
+): Promise<T> => {
+  // O parse fica dentro das tentativas para que um JSON truncado seja pedido novamente
+  return executarComRetentativas(async () => {
+    const texto = await gerarTexto(apiKey, {
+      ...parametros,
+      config: { responseMimeType: 'application/json', ...parametros.config }
+    }, { ...opcoes, maxTentativas: 1 });
+
+    return lerJson<T>(texto);
+  }, opcoes);
+};
+
+/**
+ * Variante em stream do gerarJson: `onTrecho` recebe o JSON ainda incompleto
+ */
+export const gerarJsonEmStream = async <T = unknown>(
+  apiKey: string,
+  parametros: GenerateContentParameters,
+  onTrecho: (textoAcumulado: string) => void,
+  opcoes: OpcoesChamadaGemini = {}
+): Promise<T> => {
+  return executarComRetentativas(async () => {
+    const texto = await gerarTextoEmStream(apiKey, {
+      ...parametros,
+      config: { responseMimeType: 'application/json', ...parametros.config }
+    }, onTrecho, { ...opcoes, maxTentativas: 1 });
+
+    return lerJson<T>(texto);
+  }, opcoes);
+};
+
+/**
+ * Lê de um JSON ainda incompleto os objetos já fechados da lista `campo` (ex.: as palavras de
+ * {"transcription": [{...}, {...}, {"word": "pal), ignorando o objeto que ainda está sendo gerado.
+ */
+export const extrairItensParciais = <T = unknown>(texto: string, campo: string): T[] => {
+  const chave = texto.search(new RegExp(`"${campo}"\\s*:\\s*\\[`));
+  if (chave === -1) return [];
+
+  const itens: T[] = [];
+  let profundidade = 0;
+  let inicioItem = -1;
+  let emString = false;
+  let escapado = false;
+
+  for (let i = texto.indexOf('[', chave) + 1; i < texto.length; i++) {
+    const caractere = texto[i];
+    if (emString) {
+      if (escapado) escapado = false;
+      else if (caractere === '\\') escapado = true;
+      else if (caractere === '"') emString = false;
+      continue;
+    }
+
+    if (caractere === '"') {
+      emString = true;
+    } else if (caractere === '{' || caractere === '[') {
+      if (profundidade === 0) inicioItem = i;
+      profundidade++;
+    } else if (caractere === '}' || caractere === ']') {
+      if (profundidade === 0) break; // Fim da lista
+      profundidade--;
+      if (profundidade === 0 && inicioItem !== -1) {
+        try {
+          itens.push(JSON.parse(texto.slice(inicioItem, i + 1)) as T);
+        } catch {
+          // Item malformado: o JSON final é validado quando o stream termina
+        }
+        inicioItem = -1;
+      }
+    }
+  }
+
+  return itens;
+};
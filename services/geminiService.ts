@@ -1,5 +1,10 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { config } from '../config';
+import { IDIOMA_PADRAO, IdiomaInterface } from '../i18n';
+import { obterIdioma } from '../i18n/idiomas';
+import { WordTimestamp } from '../types';
+import { formatarTextoComFalantes } from './speakerService';
+import { gerarResumoEstruturado, ResumoEstruturado } from './structuredSummaryService';
+import { classificarErroGemini, gerarTexto } from './geminiClient';
 
 type SummarizeResult = {
     success: boolean;
@@ -7,14 +12,20 @@ type SummarizeResult = {
     error: string | null;
 };
 
-export const summarizeText = async (text: string, apiKey: string): Promise<SummarizeResult> => {
+export const summarizeText = async (
+    text: string,
+    apiKey: string,
+    idioma: IdiomaInterface = IDIOMA_PADRAO,
+    sinal?: AbortSignal
+): Promise<SummarizeResult> => {
     const startTime = Date.now();
     console.log(`📝 [RESUMO] Iniciando geração de resumo`);
     console.log(`📊 [RESUMO] Detalhes do texto:`, {
         tamanho: text?.length || 0,
         palavras: text?.split(' ').length || 0,
         linhas: text?.split('\n').length || 0,
-        primeiros100Chars: text?.substring(0, 100) + (text?.length > 100 ? '...' : '')
+        primeiros100Chars: text?.substring(0, 100) + (text?.length > 100 ? '...' : ''),
+        idioma
     });
 
     if (!apiKey) {
@@ -24,7 +35,6 @@ export const summarizeText = async (text: string, apiKey: string): Promise<Summa
     }
     
     console.log(`🔑 [RESUMO] Chave de API configurada (${apiKey.substring(0, 10)}...)`);
-    const genAI = new GoogleGenerativeAI(apiKey);
 
     if (!text || text.trim().length === 0) {
         const errorMsg = "O texto de entrada não pode estar vazio.";
@@ -35,7 +45,8 @@ export const summarizeText = async (text: string, apiKey: string): Promise<Summa
     console.log(`✅ [RESUMO] Validações aprovadas`);
 
     try {
-        const prompt = `Você é um especialista em resumos. Analise a seguinte transcrição de áudio e forneça um resumo conciso e de fácil leitura em português do Brasil. Use marcadores para os tópicos principais.
+        const prompt = `Você é um especialista em resumos. Analise a seguinte transcrição de áudio e forneça um resumo conciso e de fácil leitura em ${obterIdioma(idioma)?.nomePrompt ?? 'português do Brasil'}, mesmo que a transcrição esteja em outro idioma. Use marcadores para os tópicos principais.
+        Se a transcrição identificar os falantes (linhas no formato "Nome: fala"), atribua as ideias e decisões a quem as disse.
 
         TRANSCRIÇÃO:
         ---
@@ -48,20 +59,9 @@ export const summarizeText = async (text: string, apiKey: string): Promise<Summa
         console.log(`🔧 [RESUMO] Modelo utilizado: ${config.modelName}`);
         console.log(`📏 [RESUMO] Tamanho do prompt: ${prompt.length} caracteres`);
 
-        const model = genAI.getGenerativeModel({ model: config.modelName });
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
+        const resumo = await gerarTexto(apiKey, { model: config.modelName, contents: prompt }, { sinal });
 
         console.log(`✅ [RESUMO] Resposta recebida da API Gemini`);
-        // Log the full response for debugging purposes
-        console.log(`🔍 [RESUMO] Resposta completa da API:`, JSON.stringify(response, null, 2));
-
-        const resumo = response.text();
-
-        if (!resumo || typeof resumo !== 'string' || resumo.trim().length === 0) {
-            console.error('❌ [RESUMO] A API não retornou um resumo válido.', resumo);
-            return { success: false, data: null, error: 'A API não retornou um resumo válido.' };
-        }
         
         const endTime = Date.now();
         const duration = (endTime - startTime) / 1000;
@@ -78,34 +78,43 @@ export const summarizeText = async (text: string, apiKey: string): Promise<Summa
     } catch (error) {
         const endTime = Date.now();
         const duration = (endTime - startTime) / 1000;
+        const erro = classificarErroGemini(error, sinal);
         
-        console.error(`❌ [RESUMO] Erro durante a geração do resumo:`, error);
+        console.error(`❌ [RESUMO] Erro durante a geração do resumo (${erro.tipo}):`, error);
         console.error(`⏱️ [RESUMO] Tempo decorrido até o erro: ${duration?.toFixed(2) || '0.00'}s`);
         
-        const errorMessage = error instanceof Error ? error.message : "Ocorreu um erro desconhecido.";
-        
-        console.error(`📋 [RESUMO] Detalhes do erro:`, {
-            tipo: error instanceof Error ? error.constructor.name : typeof error,
-            mensagem: errorMessage,
-            stack: error instanceof Error ? error.stack : 'N/A',
-            tamanhoTexto: text?.length || 0
-        });
-        
-        let userFriendlyError = 'Falha ao gerar o resumo.';
-        if (typeof errorMessage === 'string') {
-            if (errorMessage.includes('API key not valid')) {
-                userFriendlyError = 'A chave de API fornecida é inválida. Verifique-a nas configurações.';
-                console.error(`🔑 [RESUMO] Erro de autenticação: ${userFriendlyError}`);
-            } else if (errorMessage.includes('quota')) {
-                userFriendlyError = 'Limite de uso da API excedido. Tente novamente mais tarde.';
-                console.error(`💰 [RESUMO] Erro de quota: ${userFriendlyError}`);
-            } else if (errorMessage.includes('network')) {
-                userFriendlyError = 'Erro de conectividade. Verifique sua conexão com a internet.';
-                console.error(`🌐 [RESUMO] Erro de rede: ${userFriendlyError}`);
-            }
-        }
-        
-        console.error(`💥 [RESUMO] Erro geral na geração do resumo`);
-        return { success: false, data: null, error: `${userFriendlyError} (${errorMessage})` };
+        return { success: false, data: null, error: erro.message };
+    }
+};
+
+export type ModoResumo = 'freeform' | 'structured';
+
+type ResumirTranscricaoResult = {
+    success: boolean;
+    data: { texto: string; estruturado: ResumoEstruturado | null } | null;
+    error: string | null;
+};
+
+/**
+ * Resume a transcrição no modo escolhido. No modo estruturado, o texto do resumo é a visão geral,
+ * usada onde só cabe texto (biblioteca, busca, exportações).
+ */
+export const resumirTranscricao = async (
+    transcricao: WordTimestamp[],
+    apiKey: string,
+    idioma: IdiomaInterface = IDIOMA_PADRAO,
+    modo: ModoResumo = 'freeform',
+    sinal?: AbortSignal
+): Promise<ResumirTranscricaoResult> => {
+    if (modo === 'structured') {
+        const resultado = await gerarResumoEstruturado(transcricao, apiKey, idioma, sinal);
+        return resultado.success && resultado.data
+            ? { success: true, data: { texto: resultado.data.visaoGeral, estruturado: resultado.data }, error: null }
+            : { success: false, data: null, error: resultado.error };
     }
-};
\ No newline at end of file
+
+    const resultado = await summarizeText(formatarTextoComFalantes(transcricao), apiKey, idioma, sinal);
+    return resultado.success && resultado.data
+        ? { success: true, data: { texto: resultado.data, estruturado: null }, error: null }
+        : { success: false, data: null, error: resultado.error };
+};
@@ -1,6 +1,40 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { config } from '../config';
 import { WordTimestamp } from "../types";
+import { deveSegmentar, dividirAudio, mesclarSegmentos, obterDuracaoAudio, ResultadoSegmento } from "./audioChunkService";
+import { formatarTextoComFalantes } from "./speakerService";
+import { IdiomaTranscricao, obterIdioma } from "../i18n/idiomas";
+import { classificarErroGemini, extrairItensParciais, GeminiError, GeminiRespostaVaziaError, gerarJsonEmStream } from "./geminiClient";
+import { montarInstrucaoGlossario, TermoGlossario } from "./glossaryService";
+
+export interface OpcoesTranscricaoGemini {
+    diarizacao?: boolean; // Identificar os falantes no campo "speaker" de cada palavra
+    idioma?: IdiomaTranscricao; // Idioma falado no áudio ('auto' para detectar)
+    sinal?: AbortSignal; // Cancela a transcrição em andamento
+    // Palavras já transcritas, à medida que a resposta chega, e a fração (0 a 1) da duração do áudio que elas cobrem
+    onParcial?: (palavras: WordTimestamp[], progresso?: number) => void;
+    glossario?: TermoGlossario[]; // Termos do domínio que o modelo deve reconhecer e grafar corretamente
+}
+
+// Quantidade de palavras do fim do segmento anterior enviadas como contexto dos falantes
+const PALAVRAS_CONTEXTO_FALANTES = 40;
+
+// Instruções acrescentadas ao prompt quando a identificação de falantes está ativada
+const instrucoesDiarizacao = (contextoFalantes?: string): string => `
+
+Identificação de falantes:
+- Preencha o campo "speaker" de cada palavra com o rótulo de quem a disse: "Falante 1", "Falante 2", etc.
+- Numere os falantes na ordem em que aparecem pela primeira vez e use sempre o mesmo rótulo para a mesma voz${contextoFalantes ? `
+- Este áudio continua uma gravação já transcrita. Use os mesmos rótulos para as vozes que já apareceram. Final da parte anterior:
+${contextoFalantes}` : ''}`;
+
+// Trecho do prompt que indica o idioma da transcrição. Na detecção automática o modelo não deve traduzir.
+const instrucaoIdioma = (idioma: IdiomaTranscricao): string => {
+    const definicao = obterIdioma(idioma);
+    return definicao
+        ? `em ${definicao.nomePrompt}`
+        : 'no idioma falado no áudio (identifique-o automaticamente e não traduza)';
+};
 
 // Helper function to convert a File object to a base64 string and format for the API
 const fileToGenerativePart = async (file: File) => {
@@ -34,14 +68,190 @@ const fileToGenerativePart = async (file: File) => {
     };
 };
 
-export const transcribe = async (audioSource: File | string, apiKey: string): Promise<WordTimestamp[]> => {
+// Resposta do modelo, ainda sem validação dos itens
+interface RespostaTranscricao {
+    transcription?: unknown[];
+    erro?: string;
+}
+
+const numeroFinito = (valor: unknown): valor is number => typeof valor === 'number' && Number.isFinite(valor);
+
+// Descarta itens incompletos e mantém os rótulos de falante só quando a diarização foi solicitada
+const normalizarPalavras = (itens: unknown[], diarizacao: boolean): WordTimestamp[] => {
+    return itens.flatMap((item): WordTimestamp[] => {
+        const palavra = item as Partial<WordTimestamp> | null;
+        if (!palavra || typeof palavra.word !== 'string' || !numeroFinito(palavra.startTime) || !numeroFinito(palavra.endTime)) {
+            return [];
+        }
+        const falante = diarizacao && typeof palavra.speaker === 'string' ? palavra.speaker.trim() : '';
+        return [{
+            word: palavra.word,
+            startTime: palavra.startTime,
+            endTime: palavra.endTime,
+            ...(numeroFinito(palavra.confidence) ? { confidence: palavra.confidence } : {}),
+            ...(falante ? { speaker: falante } : {})
+        }];
+    });
+};
+
+// Envia um único arquivo (áudio completo ou segmento) para a API e retorna as palavras transcritas.
+// A resposta chega em stream e `onParcial` recebe as palavras conforme são geradas.
+const transcreverParte = async (
+    apiKey: string,
+    audioFile: File,
+    diarizacao = false,
+    idioma: IdiomaTranscricao = 'auto',
+    contextoFalantes?: string,
+    sinal?: AbortSignal,
+    onParcial?: (palavras: WordTimestamp[]) => void,
+    instrucaoGlossario = ''
+): Promise<WordTimestamp[]> => {
+    console.log(`🔄 [TRANSCRIÇÃO] Convertendo arquivo para base64...`);
+    const audioPart = await fileToGenerativePart(audioFile);
+    console.log(`✅ [TRANSCRIÇÃO] Conversão para base64 concluída`);
+    const textPart = { 
+        text: `Transcreva este áudio para texto ${instrucaoIdioma(idioma)} com máxima precisão nos timestamps.
+
+IMPORTANTE: Retorne APENAS um JSON válido no seguinte formato:
+{
+  "transcricao": [
+    {
+      "startTime": 0.0,
+      "endTime": 1.5,
+      "word": "primeira"
+    },
+    {
+      "startTime": 1.5,
+      "endTime": 2.8,
+      "word": "palavra"
+    }
+  ]
+}
+
+Regras:
+- Cada palavra deve ter seu timestamp preciso
+- Use números decimais para os tempos (em segundos)
+- Mantenha a ordem cronológica
+- Não inclua texto adicional, apenas o JSON
+- Se não conseguir transcrever, retorne: {"transcricao": [], "erro": "motivo"}${diarizacao ? instrucoesDiarizacao(contextoFalantes) : ''}${instrucaoGlossario}`
+    };
+
+    console.log(`🚀 [TRANSCRIÇÃO] Enviando requisição para API Gemini...`);
+    console.log(`🔧 [TRANSCRIÇÃO] Modelo utilizado: ${config.modelName}`);
+    
+    // Só repassa quando uma nova palavra foi fechada no JSON parcial
+    let quantidadeParcial = 0;
+    const aoReceberTrecho = (textoAcumulado: string) => {
+        if (!onParcial) return;
+        const palavras = normalizarPalavras(extrairItensParciais(textoAcumulado, 'transcription'), diarizacao);
+        if (palavras.length !== quantidadeParcial) {
+            quantidadeParcial = palavras.length;
+            onParcial(palavras);
+        }
+    };
+
+    // Falhas temporárias e JSON truncado são repetidos pelo cliente do Gemini
+    const result = await gerarJsonEmStream<RespostaTranscricao>(apiKey, {
+        model: config.modelName,
+        contents: [audioPart, textPart],
+        config: {
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    transcription: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                word: { type: Type.STRING },
+                                startTime: { type: Type.NUMBER },
+                                endTime: { type: Type.NUMBER },
+                                confidence: { type: Type.NUMBER },
+                                speaker: { type: Type.STRING },
+                            },
+                            required: ["word", "startTime", "endTime"],
+                        },
+                    },
+                },
+                required: ["transcription"],
+            },
+        }
+    }, aoReceberTrecho, { sinal });
+
+    console.log(`✅ [TRANSCRIÇÃO] Resposta recebida da API Gemini`);
+    console.log(`📊 [TRANSCRIÇÃO] Estrutura da resposta:`, {
+        temTranscription: !!result.transcription,
+        tipoTranscription: Array.isArray(result.transcription) ? 'array' : typeof result.transcription,
+        quantidadePalavras: Array.isArray(result.transcription) ? result.transcription.length : 0,
+        temErro: !!result.erro
+    });
+
+    if (result.erro) {
+        console.error(`❌ [TRANSCRIÇÃO] Erro retornado pela API:`, result.erro);
+        throw new Error(`Erro na transcrição: ${result.erro}`);
+    }
+
+    if (!result.transcription || !Array.isArray(result.transcription)) {
+        console.error(`❌ [TRANSCRIÇÃO] Formato de resposta inválido:`, {
+            temTranscription: !!result.transcription,
+            tipoTranscription: typeof result.transcription,
+            estruturaCompleta: result
+        });
+        throw new Error('Formato de resposta inválido: transcription não encontrada ou não é um array');
+    }
+
+    return normalizarPalavras(result.transcription, diarizacao);
+};
+
+// Transcreve um áudio longo segmento a segmento e mescla os resultados
+const transcreverEmSegmentos = async (
+    apiKey: string,
+    audioFile: File,
+    diarizacao: boolean,
+    idioma: IdiomaTranscricao,
+    sinal?: AbortSignal,
+    onParcial?: (palavras: WordTimestamp[]) => void,
+    instrucaoGlossario = ''
+): Promise<WordTimestamp[]> => {
+    const segmentos = await dividirAudio(audioFile);
+    const resultados: ResultadoSegmento[] = [];
+
+    // Os segmentos são enviados em sequência para não estourar o limite de requisições da API
+    for (const segmento of segmentos) {
+        console.log(`🧩 [TRANSCRIÇÃO] Segmento ${segmento.indice + 1}/${segmentos.length} (${segmento.inicio.toFixed(1)}s - ${segmento.fim.toFixed(1)}s)`);
+        // O final do segmento anterior ajuda o modelo a manter os rótulos dos falantes entre segmentos
+        const anterior = resultados[resultados.length - 1];
+        const contextoFalantes = diarizacao && anterior
+            ? formatarTextoComFalantes(anterior.palavras.slice(-PALAVRAS_CONTEXTO_FALANTES))
+            : undefined;
+        // As palavras do segmento em andamento são mescladas às dos segmentos já concluídos
+        const palavras = await transcreverParte(apiKey, segmento.arquivo, diarizacao, idioma, contextoFalantes, sinal,
+            onParcial && (parciais => onParcial(mesclarSegmentos([...resultados, { segmento, palavras: parciais }]))), instrucaoGlossario);
+        resultados.push({ segmento, palavras });
+        onParcial?.(mesclarSegmentos(resultados));
+    }
+
+    const mescladas = mesclarSegmentos(resultados);
+    console.log(`✅ [TRANSCRIÇÃO] ${segmentos.length} segmentos mesclados em ${mescladas.length} palavras`);
+    return mescladas;
+};
+
+export const transcribe = async (
+    audioSource: File | string,
+    apiKey: string,
+    opcoes: OpcoesTranscricaoGemini = {}
+): Promise<WordTimestamp[]> => {
+    const diarizacao = opcoes.diarizacao ?? false;
+    const idioma = opcoes.idioma ?? 'auto';
+    const sinal = opcoes.sinal;
+    const instrucaoGlossario = montarInstrucaoGlossario(opcoes.glossario);
     // Agora é possível receber tanto um objeto File quanto uma URL (string) de um arquivo hospedado (ex.: Supabase Storage)
     let audioFile: File;
 
     // Caso seja fornecida uma URL, baixar o arquivo e criar um objeto File para processar normalmente
     if (typeof audioSource === 'string') {
         console.log(`🌐 [TRANSCRIÇÃO] Baixando arquivo de áudio da URL: ${audioSource}`);
-        const respostaDownload = await fetch(audioSource);
+        const respostaDownload = await fetch(audioSource, { signal: sinal });
         if (!respostaDownload.ok) {
             throw new Error(`Falha ao baixar o áudio da URL fornecida. Status: ${respostaDownload.status}`);
         }
@@ -68,7 +278,6 @@ export const transcribe = async (audioSource: File | string, apiKey: string): Pr
     }
     
     console.log(`🔑 [TRANSCRIÇÃO] Chave de API configurada (${apiKey.substring(0, 10)}...)`);
-    const ai = new GoogleGenAI({ apiKey });
 
     // Basic validation
     if (!audioFile.type.startsWith('audio/')) {
@@ -79,120 +288,39 @@ export const transcribe = async (audioSource: File | string, apiKey: string): Pr
     console.log(`✅ [TRANSCRIÇÃO] Validação do arquivo aprovada`);
 
     try {
-        console.log(`🔄 [TRANSCRIÇÃO] Convertendo arquivo para base64...`);
-        const audioPart = await fileToGenerativePart(audioFile);
-        console.log(`✅ [TRANSCRIÇÃO] Conversão para base64 concluída`);
-        const textPart = { 
-            text: `Transcreva este áudio para texto em português do Brasil com máxima precisão nos timestamps.
+        const duracaoAudio = await obterDuracaoAudio(audioFile);
+        let palavras: WordTimestamp[];
 
-IMPORTANTE: Retorne APENAS um JSON válido no seguinte formato:
-{
-  "transcricao": [
-    {
-      "startTime": 0.0,
-      "endTime": 1.5,
-      "word": "primeira"
-    },
-    {
-      "startTime": 1.5,
-      "endTime": 2.8,
-      "word": "palavra"
-    }
-  ]
-}
-
-Regras:
-- Cada palavra deve ter seu timestamp preciso
-- Use números decimais para os tempos (em segundos)
-- Mantenha a ordem cronológica
-- Não inclua texto adicional, apenas o JSON
-- Se não conseguir transcrever, retorne: {"transcricao": [], "erro": "motivo"}`
-        };
-
-        console.log(`🚀 [TRANSCRIÇÃO] Enviando requisição para API Gemini...`);
-        console.log(`🔧 [TRANSCRIÇÃO] Modelo utilizado: ${config.modelName}`);
-        
-        const response = await ai.models.generateContent({
-            model: config.modelName,
-            contents: [audioPart, textPart],
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        transcription: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    word: { type: Type.STRING },
-                                    startTime: { type: Type.NUMBER },
-                                    endTime: { type: Type.NUMBER },
-                                    confidence: { type: Type.NUMBER },
-                                    speaker: { type: Type.STRING },
-                                },
-                                required: ["word", "startTime", "endTime"],
-                            },
-                        },
-                    },
-                    required: ["transcription"],
-                },
-            }
+        // O progresso é a parte da duração do áudio coberta pela última palavra recebida
+        const informarParcial = opcoes.onParcial && ((parciais: WordTimestamp[]) => {
+            const coberto = parciais[parciais.length - 1]?.endTime ?? 0;
+            opcoes.onParcial?.(parciais, duracaoAudio > 0 ? Math.min(coberto / duracaoAudio, 1) : undefined);
         });
 
-        console.log(`✅ [TRANSCRIÇÃO] Resposta recebida da API Gemini`);
-        const jsonString = response.text.trim();
-        console.log(`📝 [TRANSCRIÇÃO] Resposta bruta da API:`, jsonString);
-
-        // Parse JSON response
-        console.log(`🔍 [TRANSCRIÇÃO] Iniciando parse da resposta JSON...`);
-        let result;
-        try {
-            result = JSON.parse(jsonString);
-            console.log(`✅ [TRANSCRIÇÃO] Parse JSON bem-sucedido`);
-            console.log(`📊 [TRANSCRIÇÃO] Estrutura da resposta:`, {
-                temTranscription: !!result.transcription,
-                tipoTranscription: Array.isArray(result.transcription) ? 'array' : typeof result.transcription,
-                quantidadePalavras: Array.isArray(result.transcription) ? result.transcription.length : 0,
-                temErro: !!result.erro
-            });
-        } catch (parseError) {
-            console.error(`❌ [TRANSCRIÇÃO] Erro ao fazer parse da resposta JSON:`, parseError);
-            console.error(`📝 [TRANSCRIÇÃO] Resposta que causou erro:`, jsonString);
-            throw new Error('Resposta da API não está em formato JSON válido');
-        }
-
-        if (result.erro) {
-            console.error(`❌ [TRANSCRIÇÃO] Erro retornado pela API:`, result.erro);
-            throw new Error(`Erro na transcrição: ${result.erro}`);
+        if (deveSegmentar(audioFile, duracaoAudio)) {
+            console.log(`✂️ [TRANSCRIÇÃO] Áudio longo (${duracaoAudio.toFixed(1)}s) - transcrevendo em segmentos`);
+            palavras = await transcreverEmSegmentos(apiKey, audioFile, diarizacao, idioma, sinal, informarParcial, instrucaoGlossario);
+        } else {
+            palavras = await transcreverParte(apiKey, audioFile, diarizacao, idioma, undefined, sinal, informarParcial, instrucaoGlossario);
         }
 
-        if (!result.transcription || !Array.isArray(result.transcription)) {
-            console.error(`❌ [TRANSCRIÇÃO] Formato de resposta inválido:`, {
-                temTranscription: !!result.transcription,
-                tipoTranscription: typeof result.transcription,
-                estruturaCompleta: result
-            });
-            throw new Error('Formato de resposta inválido: transcription não encontrada ou não é um array');
-        }
-
-        if (result.transcription.length === 0) {
+        if (palavras.length === 0) {
             console.warn(`⚠️ [TRANSCRIÇÃO] Transcrição vazia retornada`);
-            throw new Error("A API retornou uma transcrição vazia. O áudio pode estar sem som ou em um formato não suportado.");
+            throw new GeminiRespostaVaziaError("A API retornou uma transcrição vazia. O áudio pode estar sem som ou em um formato não suportado.");
         }
 
         const endTime = Date.now();
         const duration = (endTime - startTime) / 1000;
         console.log(`🎉 [TRANSCRIÇÃO] Transcrição concluída com sucesso!`);
         console.log(`📊 [TRANSCRIÇÃO] Estatísticas finais:`, {
-            palavrasTranscritas: result.transcription.length,
+            palavrasTranscritas: palavras.length,
             tempoProcessamento: `${duration.toFixed(2)}s`,
-            primeirasPalavras: result.transcription.slice(0, 5).map(w => w.word).join(' '),
-            duracaoAudio: result.transcription.length > 0 && result.transcription[result.transcription.length - 1]?.endTime ? 
-                `${result.transcription[result.transcription.length - 1].endTime.toFixed(2)}s` : '0s'
+            primeirasPalavras: palavras.slice(0, 5).map(w => w.word).join(' '),
+            duracaoAudio: palavras[palavras.length - 1]?.endTime ?
+                `${palavras[palavras.length - 1].endTime.toFixed(2)}s` : '0s'
         });
 
-        return result.transcription;
+        return palavras;
     } catch (error) {
         const endTime = Date.now();
         const duration = (endTime - startTime) / 1000;
@@ -210,19 +338,11 @@ Regras:
             tamanhoArquivo: `${(audioFile.size / 1024 / 1024).toFixed(2)} MB`
         });
         
-        if (typeof errorMessage === 'string' && errorMessage.includes('API key not valid')) {
-            console.error(`🔑 [TRANSCRIÇÃO] Erro de autenticação: Chave de API inválida`);
-            throw new Error('A chave de API fornecida é inválida. Verifique-a nas configurações.');
-        }
-        
-        if (typeof errorMessage === 'string' && errorMessage.includes('quota')) {
-            console.error(`💰 [TRANSCRIÇÃO] Erro de quota: Limite da API excedido`);
-            throw new Error('Limite de uso da API excedido. Tente novamente mais tarde.');
-        }
-        
-        if (typeof errorMessage === 'string' && errorMessage.includes('network')) {
-            console.error(`🌐 [TRANSCRIÇÃO] Erro de rede: Problema de conectividade`);
-            throw new Error('Erro de conectividade. Verifique sua conexão com a internet.');
+        // Erros da API chegam tipados (autenticação, limite, rede, bloqueio...) e são repassados como estão
+        const erroGemini = error instanceof GeminiError ? error : classificarErroGemini(error, sinal);
+        if (erroGemini.tipo !== 'desconhecido') {
+            console.error(`🏷️ [TRANSCRIÇÃO] Erro do tipo: ${erroGemini.tipo}`);
+            throw erroGemini;
         }
         
         console.error(`💥 [TRANSCRIÇÃO] Erro geral na transcrição`);
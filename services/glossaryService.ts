@@ -0,0 +1,147 @@
+/**
+ * Serviço de glossário (vocabulário personalizado)
+ *
+ * Os termos do glossário entram no prompt do provedor de transcrição para que sejam reconhecidos e,
+ * depois da transcrição, uma correção determinística reescreve as grafias erradas conhecidas
+ * (variantes) no WordTimestamp[], mantendo os tempos das palavras.
+ */
+
+import { WordTimestamp } from '../types';
+import { buscarNaTranscricao, substituirNaTranscricao } from './transcriptSearchService';
+
+export interface TermoGlossario {
+  id: string;
+  termo: string;          // Grafia correta
+  pronuncia?: string;     // Como o termo é falado, quando difere da escrita
+  variantes: string[];    // Grafias erradas frequentes, corrigidas para o termo
+}
+
+// Uma correção feita na transcrição
+export interface AlteracaoGlossario {
+  original: string;
+  corrigido: string;
+  inicio: number; // Segundos
+}
+
+export interface ResultadoGlossario {
+  transcricao: WordTimestamp[];
+  alteracoes: AlteracaoGlossario[];
+}
+
+// Correções iguais agrupadas para o relatório
+export interface ResumoAlteracaoGlossario {
+  original: string;
+  corrigido: string;
+  quantidade: number;
+  inicios: number[];
+}
+
+/**
+ * Descarta termos vazios e variantes repetidas ou iguais ao próprio termo
+ */
+export const normalizarGlossario = (glossario: TermoGlossario[] | undefined): TermoGlossario[] => {
+  if (!Array.isArray(glossario)) return [];
+
+  return glossario.flatMap(item => {
+    const termo = item?.termo?.trim();
+    if (!termo) return [];
+
+    const vistas = new Set([termo.toLowerCase()]);
+    const variantes = (Array.isArray(item.variantes) ? item.variantes : []).flatMap(variante => {
+      const texto = variante?.trim();
+      if (!texto || vistas.has(texto.toLowerCase())) return [];
+      vistas.add(texto.toLowerCase());
+      return [texto];
+    });
+
+    return [{ id: item.id, termo, pronuncia: item.pronuncia?.trim() || undefined, variantes }];
+  });
+};
+
+/**
+ * Separa uma lista digitada pelo usuário ("ozempique, o zempic") em variantes
+ */
+export const separarVariantes = (texto: string): string[] => {
+  return texto.split(/[,;\n]/).map(variante => variante.trim()).filter(Boolean);
+};
+
+/**
+ * Instruções do glossário acrescentadas ao prompt do Gemini (vazio quando não há termos)
+ */
+export const montarInstrucaoGlossario = (glossario: TermoGlossario[] | undefined): string => {
+  const termos = normalizarGlossario(glossario);
+  if (termos.length === 0) return '';
+
+  const linhas = termos.map(item => {
+    const detalhes = [
+      item.pronuncia ? `pronúncia: "${item.pronuncia}"` : null,
+      item.variantes.length > 0 ? `pode soar como: ${item.variantes.map(variante => `"${variante}"`).join(', ')}` : null
+    ].filter(Boolean);
+    return `- ${item.termo}${detalhes.length > 0 ? ` (${detalhes.join('; ')})` : ''}`;
+  });
+
+  return `
+
+Vocabulário do domínio:
+- Quando estes termos forem falados, escreva-os exatamente com a grafia abaixo
+${linhas.join('\n')}`;
+};
+
+/**
+ * Texto inicial (prompt) para mecanismos como o whisper.cpp, que usam o vocabulário como contexto
+ */
+export const montarPromptGlossario = (glossario: TermoGlossario[] | undefined): string => {
+  return normalizarGlossario(glossario).map(item => item.termo).join(', ');
+};
+
+/**
+ * Reescreve na transcrição as variantes conhecidas de cada termo e a grafia do próprio termo
+ * (maiúsculas e acentos). A comparação ignora maiúsculas e acentos e só aceita palavras inteiras.
+ */
+export const aplicarGlossario = (
+  transcricao: WordTimestamp[],
+  glossario: TermoGlossario[] | undefined
+): ResultadoGlossario => {
+  // Variantes com mais palavras primeiro, para que "o zempic" seja corrigido antes de "zempic"
+  const pares = normalizarGlossario(glossario)
+    .flatMap(item => [item.termo, ...item.variantes].map(variante => ({ variante, termo: item.termo })))
+    .sort((a, b) => b.variante.split(/\s+/).length - a.variante.split(/\s+/).length || b.variante.length - a.variante.length);
+
+  let resultado = transcricao;
+  const alteracoes: AlteracaoGlossario[] = [];
+
+  pares.forEach(({ variante, termo }) => {
+    const ocorrencias = buscarNaTranscricao(resultado, variante, { palavraInteira: true })
+      .filter(ocorrencia => ocorrencia.trecho !== termo);
+    if (ocorrencias.length === 0) return;
+
+    ocorrencias.forEach(ocorrencia => {
+      alteracoes.push({ original: ocorrencia.trecho, corrigido: termo, inicio: resultado[ocorrencia.palavraInicial].startTime });
+    });
+    resultado = substituirNaTranscricao(resultado, variante, termo, { palavraInteira: true }).transcricao;
+  });
+
+  if (alteracoes.length > 0) {
+    console.log(`📖 [GLOSSÁRIO] ${alteracoes.length} correções aplicadas à transcrição`);
+  }
+  alteracoes.sort((a, b) => a.inicio - b.inicio);
+  return { transcricao: resultado, alteracoes };
+};
+
+/**
+ * Agrupa as correções iguais, na ordem em que aparecem pela primeira vez
+ */
+export const resumirAlteracoes = (alteracoes: AlteracaoGlossario[]): ResumoAlteracaoGlossario[] => {
+  const grupos = new Map<string, ResumoAlteracaoGlossario>();
+  alteracoes.forEach(alteracao => {
+    const chave = `${alteracao.original}\u0000${alteracao.corrigido}`;
+    const grupo = grupos.get(chave);
+    if (grupo) {
+      grupo.quantidade++;
+      grupo.inicios.push(alteracao.inicio);
+    } else {
+      grupos.set(chave, { original: alteracao.original, corrigido: alteracao.corrigido, quantidade: 1, inicios: [alteracao.inicio] });
+    }
+  });
+  return [...grupos.values()];
+};
@@ -1,4 +1,5 @@
-import { supabaseService } from './supabaseService';
+import armazenamentoService from './storageService';
+import { DadosAprendizado } from './storageBackend';
 import { vectorDatabaseService } from './vectorDatabaseService';
 
 /**
@@ -13,6 +14,14 @@ interface PadraoAprendizado {
   precisaoHistorica: number;
 }
 
+/**
+ * Padrões e registros calculados na análise de uma transcrição, ainda não gravados
+ */
+export interface AprendizadoPendente {
+  padroes: Map<string, PadraoAprendizado>;
+  registros: DadosAprendizado[];
+}
+
 /**
  * Interface para métricas de performance do algoritmo
  */
@@ -126,7 +135,7 @@ class LearningAlgorithmService {
       console.log('🔍 [LEARNING] Buscando dados históricos dos últimos', this.configuracao.limiteIdadeDados, 'dias');
       
       // Buscar dados históricos em lotes menores
-      const dadosHistoricos = await supabaseService.obterDadosHistoricos(
+      const dadosHistoricos = await (await armazenamentoService.obter()).obterDadosHistoricos(
         this.configuracao.limiteIdadeDados
       );
       
@@ -190,22 +199,31 @@ class LearningAlgorithmService {
   }
 
   /**
-   * Analisa dados de transcrição completa e extrai padrões de aprendizado
+   * Analisa dados de transcrição completa e extrai padrões de aprendizado. Nada é gravado: o
+   * resultado só vale depois de registrarAprendizado, para que uma transcrição cancelada não deixe
+   * padrões nem registros para trás. Retorna null quando a análise é cancelada.
    */
   async analisarTranscricao(dadosTranscricao: {
     palavras: string[];
     tempoProcessamento: number;
     tamanhoAudio: number;
     qualidadeTranscricao: number;
-  }): Promise<void> {
+  }, sinal?: AbortSignal): Promise<AprendizadoPendente | null> {
     try {
       console.log('🧠 [LEARNING] Iniciando análise de transcrição:', {
         totalPalavras: dadosTranscricao.palavras.length,
         qualidade: dadosTranscricao.qualidadeTranscricao
       });
 
+      const pendente: AprendizadoPendente = { padroes: new Map(), registros: [] };
+
       // Processar cada palavra da transcrição
       for (let i = 0; i < dadosTranscricao.palavras.length; i++) {
+        // Transcrição cancelada: a análise é descartada
+        if (sinal?.aborted) {
+          console.log(`⏹️ [LEARNING] Análise interrompida após ${i} palavras`);
+          return null;
+        }
         const palavra = dadosTranscricao.palavras[i];
         
         // Calcular compensação baseada na posição e qualidade
@@ -222,16 +240,28 @@ class LearningAlgorithmService {
           playback_rate: 1.0
         };
         
-        await this.analisarRegistro(registro);
+        pendente.registros.push(this.calcularPadrao(registro, pendente.padroes));
       }
       
       console.log('✅ [LEARNING] Análise de transcrição concluída');
+      return pendente;
     } catch (error) {
       console.error('❌ [LEARNING] Erro ao analisar transcrição:', error);
       throw error;
     }
   }
 
+  /**
+   * Aplica os padrões e grava os registros de uma análise concluída
+   */
+  async registrarAprendizado(pendente: AprendizadoPendente): Promise<void> {
+    pendente.padroes.forEach((padrao, palavra) => this.padroes.set(palavra, padrao));
+    for (const dados of pendente.registros) {
+      await this.salvarRegistro(dados);
+    }
+    console.log(`✅ [LEARNING] ${pendente.registros.length} registro(s) de aprendizado gravado(s)`);
+  }
+
   /**
    * Calcula compensação estimada baseada na posição da palavra e qualidade da transcrição
    */
@@ -258,9 +288,17 @@ class LearningAlgorithmService {
   }
 
   /**
-   * Analisa um registro individual e extrai padrões
+   * Analisa um registro individual e grava o padrão atualizado
    */
   private async analisarRegistro(registro: any): Promise<void> {
+    await this.salvarRegistro(this.calcularPadrao(registro, this.padroes));
+  }
+
+  /**
+   * Calcula o padrão da palavra com o registro e o coloca em `padroes`, sem alterar o padrão
+   * atual. Retorna os dados de aprendizado a gravar.
+   */
+  private calcularPadrao(registro: any, padroes: Map<string, PadraoAprendizado>): DadosAprendizado {
     const palavra = registro.word;
     const compensacao = registro.start_time || 0;
     const contexto = registro.context || '';
@@ -273,8 +311,8 @@ class LearningAlgorithmService {
       velocidade
     });
 
-    let padrao = this.padroes.get(palavra);
-    const isNovoPadrao = !padrao;
+    const existente = padroes.get(palavra) ?? this.padroes.get(palavra);
+    let padrao = existente && { ...existente, contextoComum: [...existente.contextoComum] };
     
     if (!padrao) {
       console.log('🆕 [LEARNING] Criando novo padrão para palavra:', palavra);
@@ -319,25 +357,29 @@ class LearningAlgorithmService {
       });
     }
 
-    this.padroes.set(palavra, padrao);
-    
-    // Salvar dados de aprendizado no banco de dados com embeddings
+    padroes.set(palavra, padrao);
+
+    return {
+      palavra: palavra,
+      compensacao: compensacao,
+      contexto: contexto,
+      velocidadeReproducao: velocidade,
+      precisao: this.calcularPrecisaoUsuario(padrao.compensacaoMedia, compensacao)
+    };
+  }
+
+  /**
+   * Salva dados de aprendizado no banco de dados com embeddings
+   */
+  private async salvarRegistro(dadosAprendizado: DadosAprendizado): Promise<void> {
     try {
-      const dadosAprendizado = {
-        palavra: palavra,
-        compensacao: compensacao,
-        contexto: contexto,
-        velocidadeReproducao: velocidade,
-        precisao: this.calcularPrecisaoUsuario(padrao.compensacaoMedia, compensacao)
-      };
-      
       console.log('💾 [LEARNING] Salvando dados de aprendizado no banco:', {
-        palavra,
-        precisao: `${dadosAprendizado.precisao.toFixed(2)}%`,
-        contexto: contexto.substring(0, 30) + (contexto.length > 30 ? '...' : '')
+        palavra: dadosAprendizado.palavra,
+        precisao: `${(dadosAprendizado.precisao ?? 0).toFixed(2)}%`,
+        contexto: dadosAprendizado.contexto.substring(0, 30) + (dadosAprendizado.contexto.length > 30 ? '...' : '')
       });
       
-      const sucesso = await supabaseService.salvarDadosAprendizadoComEmbeddings(dadosAprendizado);
+      const sucesso = await (await armazenamentoService.obter()).salvarDadosAprendizado(dadosAprendizado);
       
       if (sucesso) {
         console.log('✅ [LEARNING] Dados de aprendizado salvos com sucesso no banco');
@@ -347,10 +389,6 @@ class LearningAlgorithmService {
     } catch (error) {
       console.error('❌ [LEARNING] Erro ao salvar dados de aprendizado:', error);
     }
-    
-    if (isNovoPadrao) {
-      console.log('✅ [LEARNING] Novo padrão criado e armazenado para:', palavra);
-    }
   }
 
   /**
@@ -387,7 +425,7 @@ class LearningAlgorithmService {
       console.log('Executando ciclo de aprendizado...');
       
       // Buscar novos dados desde a última atualização
-      const novosDados = await supabaseService.obterDadosRecentes(
+      const novosDados = await (await armazenamentoService.obter()).obterDadosRecentes(
         this.metricas.ultimaAtualizacao
       );
 
@@ -0,0 +1,159 @@
+/**
+ * Serviço de perguntas sobre a biblioteca
+ *
+ * Responde perguntas sobre as gravações com o Gemini a partir dos trechos encontrados pela busca
+ * semântica. Os trechos são numerados no prompt e a resposta cita cada um como [n], o que permite
+ * transformar as citações em links que abrem a transcrição com o player no momento citado.
+ */
+
+import { config } from '../config';
+import { IDIOMA_PADRAO, IdiomaInterface } from '../i18n';
+import { obterIdioma } from '../i18n/idiomas';
+import type { ItemBiblioteca } from './libraryService';
+import type { ResultadoBuscaSemanticaBiblioteca } from './semanticSearchService';
+import type { TrechoTranscricao } from './transcriptPassageService';
+import { classificarErroGemini, gerarTextoEmStream } from './geminiClient';
+
+// Trecho enviado ao modelo, identificado na resposta pelo número
+export interface FonteResposta {
+  numero: number;
+  item: ItemBiblioteca;
+  trecho: TrechoTranscricao;
+}
+
+export type ParteResposta =
+  | { tipo: 'texto'; texto: string }
+  | { tipo: 'citacao'; fonte: FonteResposta };
+
+export interface RespostaBiblioteca {
+  texto: string;
+  fontes: FonteResposta[];
+  citadas: FonteResposta[]; // Fontes citadas no texto, na ordem da primeira citação
+}
+
+type ResultadoResposta = {
+  success: boolean;
+  data: RespostaBiblioteca | null;
+  error: string | null;
+};
+
+// Citações no formato [1], [1, 3] ou [1][3]
+const PADRAO_CITACAO = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+const formatarTempo = (segundos: number): string => {
+  const minutos = Math.floor(segundos / 60);
+  const resto = Math.floor(segundos % 60);
+  return `${minutos}:${resto.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Numera os resultados da busca semântica como fontes da resposta
+ */
+export const numerarFontes = (resultados: ResultadoBuscaSemanticaBiblioteca[]): FonteResposta[] => {
+  return resultados.map(({ item, trecho }, indice) => ({ numero: indice + 1, item, trecho }));
+};
+
+/**
+ * Monta o contexto enviado ao modelo: cada fonte com número, arquivo, data da gravação e intervalo
+ * (ex.: "[2] reuniao.mp3 — 2026-03-14 — 12:05-12:40\nAna: ...")
+ */
+export const montarContextoFontes = (fontes: FonteResposta[]): string => {
+  return fontes.map(({ numero, item, trecho }) => {
+    const falante = trecho.falante ? `${trecho.falante}: ` : '';
+    return `[${numero}] ${item.nomeArquivo} — ${item.criadoEm.slice(0, 10)} — ${formatarTempo(trecho.inicio)}-${formatarTempo(trecho.fim)}\n${falante}${trecho.texto}`;
+  }).join('\n\n');
+};
+
+/**
+ * Divide a resposta em texto e citações. Números que não correspondem a nenhuma fonte são descartados.
+ */
+export const dividirRespostaEmPartes = (texto: string, fontes: FonteResposta[]): ParteResposta[] => {
+  const fontesPorNumero = new Map(fontes.map(fonte => [fonte.numero, fonte]));
+  const partes: ParteResposta[] = [];
+  let ultimoIndice = 0;
+
+  for (const citacao of texto.matchAll(PADRAO_CITACAO)) {
+    const inicio = citacao.index ?? 0;
+    if (inicio > ultimoIndice) {
+      partes.push({ tipo: 'texto', texto: texto.slice(ultimoIndice, inicio) });
+    }
+    for (const numero of citacao[1].split(',')) {
+      const fonte = fontesPorNumero.get(Number(numero.trim()));
+      if (fonte) partes.push({ tipo: 'citacao', fonte });
+    }
+    ultimoIndice = inicio + citacao[0].length;
+  }
+
+  if (ultimoIndice < texto.length) {
+    partes.push({ tipo: 'texto', texto: texto.slice(ultimoIndice) });
+  }
+  return partes;
+};
+
+/**
+ * Fontes citadas na resposta, sem repetição, na ordem em que aparecem
+ */
+export const listarFontesCitadas = (texto: string, fontes: FonteResposta[]): FonteResposta[] => {
+  const citadas = dividirRespostaEmPartes(texto, fontes)
+    .flatMap(parte => (parte.tipo === 'citacao' ? [parte.fonte] : []));
+  return [...new Set(citadas)];
+};
+
+/**
+ * Responde a pergunta com base nos trechos encontrados na biblioteca. `onTrecho` recebe o texto
+ * acumulado enquanto a resposta é gerada.
+ */
+export const responderPergunta = async (
+  pergunta: string,
+  resultados: ResultadoBuscaSemanticaBiblioteca[],
+  apiKey: string,
+  idioma: IdiomaInterface = IDIOMA_PADRAO,
+  onTrecho?: (textoAcumulado: string) => void,
+  sinal?: AbortSignal
+): Promise<ResultadoResposta> => {
+  console.log(`💬 [PERGUNTAS] Respondendo com ${resultados.length} trecho(s) da biblioteca`);
+
+  if (!apiKey) {
+    return { success: false, data: null, error: 'A chave de API do Gemini não foi configurada.' };
+  }
+  if (!pergunta.trim() || resultados.length === 0) {
+    return { success: false, data: null, error: 'Nenhum trecho da biblioteca para responder a pergunta.' };
+  }
+
+  const fontes = numerarFontes(resultados);
+  const nomeIdioma = obterIdioma(idioma)?.nomePrompt ?? 'português do Brasil';
+  const prompt = `Você responde perguntas sobre gravações transcritas usando somente os trechos abaixo. Responda em ${nomeIdioma}, mesmo que os trechos estejam em outro idioma.
+
+Cada trecho começa com o seu número entre colchetes, seguido do nome do arquivo, da data da gravação (AAAA-MM-DD) e do intervalo dentro do áudio. Linhas no formato "Nome: fala" indicam o falante.
+
+Regras:
+- Cite a fonte de cada afirmação logo depois dela, com o número do trecho entre colchetes (ex.: [2] ou [1][3])
+- Use as datas para responder perguntas sobre períodos (ex.: "em março")
+- Se os trechos não responderem à pergunta, diga isso claramente, sem inventar
+
+TRECHOS:
+---
+${montarContextoFontes(fontes)}
+---
+
+PERGUNTA: ${pergunta.trim()}
+
+RESPOSTA:`;
+
+  try {
+    const texto = await gerarTextoEmStream(
+      apiKey,
+      { model: config.modelName, contents: prompt },
+      textoAcumulado => onTrecho?.(textoAcumulado),
+      { sinal }
+    );
+
+    const citadas = listarFontesCitadas(texto, fontes);
+    console.log(`✅ [PERGUNTAS] Resposta gerada com ${citadas.length} fonte(s) citada(s)`);
+    return { success: true, data: { texto, fontes, citadas }, error: null };
+  } catch (error) {
+    const erro = classificarErroGemini(error, sinal);
+    console.error(`❌ [PERGUNTAS] Erro ao responder a pergunta (${erro.tipo}):`, error);
+    return { success: false, data: null, error: erro.message };
+  }
+};
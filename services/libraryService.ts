@@ -0,0 +1,281 @@
+import { WordTimestamp } from '../types';
+import { IdiomaTranscricao } from '../i18n/idiomas';
+import { ResumoEstruturado } from './structuredSummaryService';
+import type { IndiceSemantico } from './transcriptPassageService';
+import type { EstadoSincronizacao } from './syncPlanService';
+
+/**
+ * Interface para uma transcrição salva na biblioteca local
+ */
+export interface ItemBiblioteca {
+  id: string;
+  nomeArquivo: string;
+  tipoArquivo: string;
+  tamanhoArquivo: number;
+  audio?: Blob; // Cópia local do áudio, usada para reabrir o item com o player sincronizado
+  audioUrlRemota?: string; // URL do áudio no Supabase Storage, quando houver
+  transcricao: WordTimestamp[];
+  resumo: string | null;
+  resumoEstruturado?: ResumoEstruturado | null; // Presente quando o resumo foi gerado no modo estruturado
+  provedor: string;
+  idioma?: IdiomaTranscricao; // Idioma do áudio escolhido na transcrição ('auto' quando detectado)
+  duracao: number; // Duração em segundos (fim da última palavra)
+  criadoEm: string;
+  atualizadoEm: string;
+}
+
+/**
+ * Dados necessários para adicionar uma transcrição à biblioteca
+ */
+export type NovoItemBiblioteca = Omit<ItemBiblioteca, 'id' | 'duracao' | 'criadoEm' | 'atualizadoEm'>;
+
+/**
+ * Resultado de uma busca na biblioteca
+ */
+export interface ResultadoBuscaBiblioteca {
+  item: ItemBiblioteca;
+  ocorrencias: number;
+  trecho: string; // Trecho do texto ao redor da primeira ocorrência
+}
+
+const NOME_BANCO = 'transcription-app-library';
+const VERSAO_BANCO = 3;
+const STORE_TRANSCRICOES = 'transcricoes';
+// Embeddings dos trechos de cada item, usados na busca semântica (um registro por item)
+const STORE_INDICES_SEMANTICOS = 'indicesSemanticos';
+// Versões vistas na última sincronização com o Supabase (um registro por item)
+const STORE_SINCRONIZACAO = 'sincronizacao';
+const TAMANHO_TRECHO = 60; // Caracteres exibidos antes e depois da ocorrência
+
+/**
+ * Remove acentos e converte para minúsculas, para buscas sem diferenciar acentuação
+ */
+const normalizarTexto = (texto: string): string => {
+  return texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+};
+
+const gerarId = (): string => {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const requisicaoParaPromise = <T>(requisicao: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    requisicao.onsuccess = () => resolve(requisicao.result);
+    requisicao.onerror = () => reject(requisicao.error);
+  });
+};
+
+/**
+ * Serviço da biblioteca local de transcrições, persistida no IndexedDB
+ */
+class BibliotecaService {
+  private banco: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Abre (ou cria) o banco da biblioteca
+   */
+  private abrirBanco(): Promise<IDBDatabase> {
+    if (!this.banco) {
+      this.banco = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB não está disponível neste ambiente'));
+          return;
+        }
+
+        const requisicao = indexedDB.open(NOME_BANCO, VERSAO_BANCO);
+
+        requisicao.onupgradeneeded = () => {
+          const banco = requisicao.result;
+          if (!banco.objectStoreNames.contains(STORE_TRANSCRICOES)) {
+            const store = banco.createObjectStore(STORE_TRANSCRICOES, { keyPath: 'id' });
+            store.createIndex('criadoEm', 'criadoEm');
+          }
+          if (!banco.objectStoreNames.contains(STORE_INDICES_SEMANTICOS)) {
+            banco.createObjectStore(STORE_INDICES_SEMANTICOS, { keyPath: 'itemId' });
+          }
+          if (!banco.objectStoreNames.contains(STORE_SINCRONIZACAO)) {
+            banco.createObjectStore(STORE_SINCRONIZACAO, { keyPath: 'itemId' });
+          }
+        };
+
+        requisicao.onsuccess = () => resolve(requisicao.result);
+        requisicao.onerror = () => reject(requisicao.error);
+      });
+
+      // Permite nova tentativa caso a abertura falhe
+      this.banco.catch(() => {
+        this.banco = null;
+      });
+    }
+
+    return this.banco;
+  }
+
+  private async executar<T>(
+    modo: IDBTransactionMode,
+    operacao: (store: IDBObjectStore) => IDBRequest<T>,
+    nomeStore: string = STORE_TRANSCRICOES
+  ): Promise<T> {
+    const banco = await this.abrirBanco();
+    const transacao = banco.transaction(nomeStore, modo);
+    return requisicaoParaPromise(operacao(transacao.objectStore(nomeStore)));
+  }
+
+  /**
+   * Adiciona uma transcrição à biblioteca e retorna o id gerado
+   */
+  async salvar(dados: NovoItemBiblioteca): Promise<string> {
+    const agora = new Date().toISOString();
+    const item: ItemBiblioteca = {
+      ...dados,
+      id: gerarId(),
+      duracao: dados.transcricao[dados.transcricao.length - 1]?.endTime ?? 0,
+      criadoEm: agora,
+      atualizadoEm: agora
+    };
+
+    await this.executar('readwrite', store => store.put(item));
+    console.log(`📚 [BIBLIOTECA] Transcrição salva: ${item.nomeArquivo} (${item.transcricao.length} palavras)`);
+    return item.id;
+  }
+
+  /**
+   * Atualiza campos de um item existente
+   */
+  async atualizar(id: string, alteracoes: Partial<Omit<ItemBiblioteca, 'id' | 'criadoEm'>>): Promise<void> {
+    const atual = await this.obter(id);
+    if (!atual) {
+      throw new Error(`Item ${id} não encontrado na biblioteca`);
+    }
+
+    const transcricao = alteracoes.transcricao ?? atual.transcricao;
+    const item: ItemBiblioteca = {
+      ...atual,
+      ...alteracoes,
+      duracao: transcricao[transcricao.length - 1]?.endTime ?? 0,
+      atualizadoEm: new Date().toISOString()
+    };
+
+    await this.executar('readwrite', store => store.put(item));
+  }
+
+  /**
+   * Grava o item como recebido, mantendo id e datas (usado pela sincronização)
+   */
+  async gravar(item: ItemBiblioteca): Promise<void> {
+    await this.executar('readwrite', store => store.put(item));
+  }
+
+  /**
+   * Obtém um item pelo id
+   */
+  async obter(id: string): Promise<ItemBiblioteca | null> {
+    const item = await this.executar<ItemBiblioteca | undefined>('readonly', store => store.get(id));
+    return item ?? null;
+  }
+
+  /**
+   * Lista todos os itens, dos mais recentes para os mais antigos
+   */
+  async listar(): Promise<ItemBiblioteca[]> {
+    const itens = await this.executar<ItemBiblioteca[]>('readonly', store => store.getAll());
+    return itens.sort((a, b) => b.criadoEm.localeCompare(a.criadoEm));
+  }
+
+  /**
+   * Remove um item da biblioteca. Se ele já foi sincronizado, a remoção fica pendente para ser
+   * levada ao servidor na próxima sincronização.
+   */
+  async remover(id: string): Promise<void> {
+    await this.executar('readwrite', store => store.delete(id));
+    await this.executar('readwrite', store => store.delete(id), STORE_INDICES_SEMANTICOS);
+
+    const estado = await this.obterEstadoSincronizacao(id);
+    if (estado) {
+      await this.salvarEstadoSincronizacao({ itemId: id, versaoLocal: estado.versaoLocal, versaoRemota: estado.versaoRemota, removido: true });
+    }
+    console.log(`🗑️ [BIBLIOTECA] Transcrição removida: ${id}`);
+  }
+
+  /**
+   * Salva os embeddings dos trechos de um item, substituindo os anteriores
+   */
+  async salvarIndiceSemantico(indice: IndiceSemantico): Promise<void> {
+    await this.executar('readwrite', store => store.put(indice), STORE_INDICES_SEMANTICOS);
+  }
+
+  /**
+   * Lista os índices semânticos de todos os itens
+   */
+  async listarIndicesSemanticos(): Promise<IndiceSemantico[]> {
+    return this.executar<IndiceSemantico[]>('readonly', store => store.getAll(), STORE_INDICES_SEMANTICOS);
+  }
+
+  /**
+   * Lista o estado de sincronização dos itens já enviados ao servidor
+   */
+  async listarEstadosSincronizacao(): Promise<EstadoSincronizacao[]> {
+    return this.executar<EstadoSincronizacao[]>('readonly', store => store.getAll(), STORE_SINCRONIZACAO);
+  }
+
+  async obterEstadoSincronizacao(itemId: string): Promise<EstadoSincronizacao | null> {
+    const estado = await this.executar<EstadoSincronizacao | undefined>('readonly', store => store.get(itemId), STORE_SINCRONIZACAO);
+    return estado ?? null;
+  }
+
+  async salvarEstadoSincronizacao(estado: EstadoSincronizacao): Promise<void> {
+    await this.executar('readwrite', store => store.put(estado), STORE_SINCRONIZACAO);
+  }
+
+  async removerEstadoSincronizacao(itemId: string): Promise<void> {
+    await this.executar('readwrite', store => store.delete(itemId), STORE_SINCRONIZACAO);
+  }
+
+  /**
+   * Busca textual no nome do arquivo, na transcrição e no resumo.
+   * Todos os termos precisam aparecer; a comparação ignora acentos e maiúsculas.
+   */
+  async buscar(consulta: string): Promise<ResultadoBuscaBiblioteca[]> {
+    const itens = await this.listar();
+    const termos = normalizarTexto(consulta).split(/\s+/).filter(Boolean);
+
+    if (termos.length === 0) {
+      return itens.map(item => ({ item, ocorrencias: 0, trecho: this.montarTrecho(this.textoDoItem(item), 0) }));
+    }
+
+    const resultados: ResultadoBuscaBiblioteca[] = [];
+
+    itens.forEach(item => {
+      const texto = this.textoDoItem(item);
+      const conteudo = normalizarTexto(`${item.nomeArquivo}\n${texto}\n${item.resumo ?? ''}`);
+
+      if (!termos.every(termo => conteudo.includes(termo))) return;
+
+      const ocorrencias = termos.reduce((total, termo) => total + conteudo.split(termo).length - 1, 0);
+      // Para caracteres pré-compostos (o caso comum) a normalização preserva o tamanho, então os índices coincidem
+      const posicao = normalizarTexto(texto).indexOf(termos[0]);
+
+      resultados.push({ item, ocorrencias, trecho: this.montarTrecho(texto, Math.max(0, posicao)) });
+    });
+
+    return resultados.sort((a, b) => b.ocorrencias - a.ocorrencias);
+  }
+
+  private textoDoItem(item: ItemBiblioteca): string {
+    return item.transcricao.map(palavra => palavra.word).join(' ');
+  }
+
+  private montarTrecho(texto: string, posicao: number): string {
+    const inicio = Math.max(0, posicao - TAMANHO_TRECHO);
+    const fim = Math.min(texto.length, posicao + TAMANHO_TRECHO);
+    return `${inicio > 0 ? '…' : ''}${texto.slice(inicio, fim).trim()}${fim < texto.length ? '…' : ''}`;
+  }
+}
+
+export const bibliotecaService = new BibliotecaService();
+export default bibliotecaService;
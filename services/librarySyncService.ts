@@ -0,0 +1,228 @@
+/**
+ * Sincronização da biblioteca com o Supabase
+ *
+ * Leva para a tabela transcricoes os itens criados, editados ou apagados na biblioteca local
+ * (inclusive sem internet) e traz as alterações feitas em outros dispositivos. Cada envio só é
+ * aceito se a linha ainda estiver na versão vista na última sincronização; edições concorrentes do
+ * mesmo item (ou a edição de um item apagado em outro dispositivo) ficam marcadas como conflito até
+ * que se escolha a versão local ou a do servidor.
+ */
+
+import { config } from '../config';
+import bibliotecaService, { ItemBiblioteca } from './libraryService';
+import supabaseService from './supabaseService';
+import {
+  AcaoSincronizacao,
+  aplicarVersaoRemota,
+  EstadoSincronizacao,
+  planejarSincronizacao,
+  statusDoItem,
+  StatusSincronizacao,
+  VersaoRemota,
+  versaoDoItem
+} from './syncPlanService';
+
+export interface ResumoSincronizacao {
+  enviados: number;
+  recebidos: number;
+  removidos: number;
+  conflitos: number;
+  falhas: number;
+}
+
+export type EscolhaConflito = 'local' | 'remoto';
+
+export interface ConflitoSincronizacao {
+  item: ItemBiblioteca;
+  remoto: VersaoRemota | null; // null quando a transcrição foi apagada no servidor
+}
+
+/**
+ * O Supabase não está configurado ou não respondeu; a biblioteca continua só local
+ */
+export class SincronizacaoIndisponivelError extends Error {
+  constructor(mensagem: string) {
+    super(mensagem);
+    this.name = 'SincronizacaoIndisponivelError';
+  }
+}
+
+const sincronizado = (itemId: string, versaoLocal: string, versaoRemota: string): EstadoSincronizacao => ({
+  itemId,
+  versaoLocal,
+  versaoRemota
+});
+
+class SincronizacaoBibliotecaService {
+  private execucao: Promise<ResumoSincronizacao> | null = null;
+
+  /**
+   * Executa uma rodada de sincronização. Chamadas simultâneas compartilham a mesma rodada.
+   */
+  sincronizar(): Promise<ResumoSincronizacao> {
+    if (!this.execucao) {
+      this.execucao = this.executar().finally(() => {
+        this.execucao = null;
+      });
+    }
+    return this.execucao;
+  }
+
+  /**
+   * Status de sincronização de cada item da biblioteca, pelo id
+   */
+  async listarStatus(itens: ItemBiblioteca[]): Promise<Map<string, StatusSincronizacao>> {
+    const estados = await bibliotecaService.listarEstadosSincronizacao();
+    const estadoPorId = new Map(estados.map(estado => [estado.itemId, estado]));
+    return new Map(itens.map(item => [item.id, statusDoItem(item, estadoPorId.get(item.id))]));
+  }
+
+  async obterConflito(itemId: string): Promise<ConflitoSincronizacao | null> {
+    const [item, estado] = await Promise.all([
+      bibliotecaService.obter(itemId),
+      bibliotecaService.obterEstadoSincronizacao(itemId)
+    ]);
+    return item && estado && estado.conflito !== undefined ? { item, remoto: estado.conflito } : null;
+  }
+
+  /**
+   * Resolve o conflito de um item mantendo a versão escolhida. Retorna false quando o servidor
+   * mudou de novo enquanto isso; o conflito passa a mostrar a versão mais recente.
+   */
+  async resolverConflito(itemId: string, escolha: EscolhaConflito): Promise<boolean> {
+    const conflito = await this.obterConflito(itemId);
+    if (!conflito) return true;
+    await this.conectar();
+
+    if (escolha === 'remoto') {
+      if (conflito.remoto) {
+        await this.receber(conflito.item, conflito.remoto);
+      } else {
+        await this.removerLocal(conflito.item);
+      }
+    } else if (!(await this.enviar(conflito.item, conflito.remoto?.atualizadoEm ?? null))) {
+      return false;
+    }
+
+    console.log(`🔄 [SINCRONIZAÇÃO] Conflito de ${conflito.item.nomeArquivo} resolvido (${escolha})`);
+    return true;
+  }
+
+  private async conectar(): Promise<void> {
+    // Com o armazenamento local forçado nas configurações, a biblioteca não sai do dispositivo
+    if (config.armazenamento.backend === 'local') {
+      throw new SincronizacaoIndisponivelError('Armazenamento local forçado em config.armazenamento.backend');
+    }
+    try {
+      await supabaseService.inicializar();
+    } catch (error) {
+      throw new SincronizacaoIndisponivelError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async executar(): Promise<ResumoSincronizacao> {
+    await this.conectar();
+
+    const [itens, estados, remotos] = await Promise.all([
+      bibliotecaService.listar(),
+      bibliotecaService.listarEstadosSincronizacao(),
+      supabaseService.listarTranscricoesBiblioteca()
+    ]);
+    const acoes = planejarSincronizacao(itens, estados, remotos);
+    const resumo: ResumoSincronizacao = { enviados: 0, recebidos: 0, removidos: 0, conflitos: 0, falhas: 0 };
+
+    console.log(`🔄 [SINCRONIZAÇÃO] ${acoes.length} alteração(ões) a sincronizar`);
+    for (const acao of acoes) {
+      try {
+        await this.aplicar(acao, resumo);
+      } catch (error) {
+        resumo.falhas++;
+        console.error('❌ [SINCRONIZAÇÃO] Erro ao sincronizar item:', error);
+      }
+    }
+
+    console.log('✅ [SINCRONIZAÇÃO] Concluída:', resumo);
+    return resumo;
+  }
+
+  private async aplicar(acao: AcaoSincronizacao, resumo: ResumoSincronizacao): Promise<void> {
+    switch (acao.tipo) {
+      case 'enviar':
+        if (await this.enviar(acao.item, acao.versaoEsperada)) {
+          resumo.enviados++;
+        } else {
+          resumo.conflitos++;
+        }
+        break;
+      case 'receber':
+        await this.receber(acao.item, acao.remoto);
+        resumo.recebidos++;
+        break;
+      case 'removerRemoto':
+        if (await supabaseService.removerTranscricaoBiblioteca(acao.itemId, acao.versaoEsperada)) {
+          await bibliotecaService.removerEstadoSincronizacao(acao.itemId);
+          resumo.removidos++;
+        }
+        // Se a linha mudou nesse meio tempo, a próxima rodada traz a edição de volta
+        break;
+      case 'removerLocal':
+        await this.removerLocal(acao.item);
+        resumo.removidos++;
+        break;
+      case 'conflito':
+        await this.registrarConflito(acao.item, acao.remoto);
+        resumo.conflitos++;
+        break;
+      case 'vincular':
+        await bibliotecaService.salvarEstadoSincronizacao(sincronizado(acao.item.id, acao.item.atualizadoEm, acao.remoto.atualizadoEm));
+        break;
+      case 'esquecer':
+        await bibliotecaService.removerEstadoSincronizacao(acao.itemId);
+        break;
+    }
+  }
+
+  /**
+   * Envia o item esperando a versão informada do servidor. Se a linha mudou, registra o conflito
+   * com a versão atual e retorna false.
+   */
+  private async enviar(item: ItemBiblioteca, versaoEsperada: string | null): Promise<boolean> {
+    const novaVersao = await supabaseService.enviarTranscricaoBiblioteca(versaoDoItem(item), versaoEsperada);
+
+    if (novaVersao) {
+      await bibliotecaService.salvarEstadoSincronizacao(sincronizado(item.id, item.atualizadoEm, novaVersao));
+      return true;
+    }
+
+    // A linha mudou ou foi apagada nesse meio tempo (null)
+    await this.registrarConflito(item, await supabaseService.obterTranscricaoBiblioteca(item.id));
+    return false;
+  }
+
+  /**
+   * Aplica aqui a remoção feita em outro dispositivo
+   */
+  private async removerLocal(item: ItemBiblioteca): Promise<void> {
+    await bibliotecaService.remover(item.id);
+    await bibliotecaService.removerEstadoSincronizacao(item.id);
+  }
+
+  private async receber(atual: ItemBiblioteca | null, remoto: VersaoRemota): Promise<void> {
+    await bibliotecaService.gravar(aplicarVersaoRemota(remoto, atual));
+    await bibliotecaService.salvarEstadoSincronizacao(sincronizado(remoto.itemId, remoto.atualizadoEm, remoto.atualizadoEm));
+  }
+
+  private async registrarConflito(item: ItemBiblioteca, remoto: VersaoRemota | null): Promise<void> {
+    const anterior = await bibliotecaService.obterEstadoSincronizacao(item.id);
+    // Sem estado anterior não há versão em comum; a versão remota (ou a local, se a linha foi
+    // apagada) serve de base até a resolução
+    await bibliotecaService.salvarEstadoSincronizacao({
+      ...(anterior ?? sincronizado(item.id, item.atualizadoEm, remoto?.atualizadoEm ?? item.atualizadoEm)),
+      conflito: remoto
+    });
+    console.warn(`⚠️ [SINCRONIZAÇÃO] Conflito em ${item.nomeArquivo}: ${remoto ? 'editado' : 'apagado'} em outro dispositivo depois de editado aqui`);
+  }
+}
+
+export const sincronizacaoBibliotecaService = new SincronizacaoBibliotecaService();
+export default sincronizacaoBibliotecaService;
@@ -0,0 +1,459 @@
+/**
+ * Backend de armazenamento local
+ *
+ * Implementa o contrato BackendArmazenamento sem servidor: as mesmas tabelas do Supabase
+ * (word_timestamps, learning_data e transcricoes) e os áudios ficam em um repositório local, o
+ * IndexedDB na aplicação. A busca vetorial é feita por força bruta, comparando o vetor da consulta
+ * com todos os vetores do mesmo modelo pela semelhança de cosseno.
+ *
+ * O repositório e o gerador de embeddings são recebidos por parâmetro, o que permite usar o
+ * backend em memória (ex.: nos testes).
+ */
+
+import { WordTimestamp } from '../types';
+import { similaridadeCosseno } from './transcriptPassageService';
+import {
+  BackendArmazenamento,
+  DadosAprendizado,
+  GeradorEmbeddings,
+  MetricasAprendizado,
+  PalavraSimilar,
+  RegistroPalavra,
+  RegistroResultado,
+  TranscricaoSimilar
+} from './storageBackend';
+
+export type TabelaLocal = 'word_timestamps' | 'learning_data' | 'transcricoes' | 'audios';
+
+export const TABELAS_LOCAIS: TabelaLocal[] = ['word_timestamps', 'learning_data', 'transcricoes', 'audios'];
+
+/**
+ * Armazenamento de registros por tabela, identificados pelo campo `id`
+ */
+export interface RepositorioLocal {
+  listar: <T>(tabela: TabelaLocal) => Promise<T[]>;
+  obter: <T>(tabela: TabelaLocal, id: string) => Promise<T | undefined>;
+  salvar: <T extends { id: string }>(tabela: TabelaLocal, registros: T[]) => Promise<void>;
+  remover: (tabela: TabelaLocal, ids: string[]) => Promise<void>;
+}
+
+interface PalavraLocal extends RegistroPalavra {
+  id: string;
+  confidence?: number;
+  word_embedding?: number[] | null;
+  embedding_model?: string | null;
+}
+
+interface AprendizadoLocal {
+  id: string; // A própria palavra em minúsculas: um registro por palavra
+  word: string;
+  expected_time: number;
+  actual_time: number;
+  user_accuracy: number;
+  sample_count: number;
+  context: string;
+  word_embedding?: number[] | null;
+  context_embedding?: number[] | null;
+  embedding_model?: string | null;
+  created_at: string;
+}
+
+interface TranscricaoLocal {
+  id: string;
+  nome_arquivo: string;
+  transcricao: string;
+  tamanho_arquivo: number;
+  transcricao_embedding?: number[] | null;
+  embedding_model?: string | null;
+  criado_em: string;
+}
+
+interface AudioLocal {
+  id: string;
+  nome: string;
+  audio: Blob;
+  criado_em: string;
+}
+
+/**
+ * Repositório em memória, perdido ao fechar a aplicação
+ */
+export const criarRepositorioMemoria = (): RepositorioLocal => {
+  const tabelas = new Map<TabelaLocal, Map<string, unknown>>(TABELAS_LOCAIS.map(tabela => [tabela, new Map()]));
+
+  return {
+    listar: async <T>(tabela: TabelaLocal) => [...tabelas.get(tabela)!.values()] as T[],
+    obter: async <T>(tabela: TabelaLocal, id: string) => tabelas.get(tabela)!.get(id) as T | undefined,
+    salvar: async (tabela, registros) => {
+      registros.forEach(registro => tabelas.get(tabela)!.set(registro.id, registro));
+    },
+    remover: async (tabela, ids) => {
+      ids.forEach(id => tabelas.get(tabela)!.delete(id));
+    }
+  };
+};
+
+const NOME_BANCO = 'transcricao-armazenamento';
+const VERSAO_BANCO = 1;
+
+const requisicaoParaPromise = <T>(requisicao: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    requisicao.onsuccess = () => resolve(requisicao.result);
+    requisicao.onerror = () => reject(requisicao.error);
+  });
+};
+
+/**
+ * Repositório persistido no IndexedDB, com um object store por tabela
+ */
+export const criarRepositorioIndexedDB = (): RepositorioLocal => {
+  let banco: Promise<IDBDatabase> | null = null;
+
+  const abrirBanco = (): Promise<IDBDatabase> => {
+    if (!banco) {
+      banco = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB não está disponível neste ambiente'));
+          return;
+        }
+
+        const requisicao = indexedDB.open(NOME_BANCO, VERSAO_BANCO);
+        requisicao.onupgradeneeded = () => {
+          for (const tabela of TABELAS_LOCAIS) {
+            if (!requisicao.result.objectStoreNames.contains(tabela)) {
+              requisicao.result.createObjectStore(tabela, { keyPath: 'id' });
+            }
+          }
+        };
+        requisicao.onsuccess = () => resolve(requisicao.result);
+        requisicao.onerror = () => reject(requisicao.error);
+      });
+
+      // Permite nova tentativa caso a abertura falhe
+      banco.catch(() => {
+        banco = null;
+      });
+    }
+    return banco;
+  };
+
+  // Grava ou remove vários registros em uma única transação
+  const escrever = async (tabela: TabelaLocal, operacao: (store: IDBObjectStore) => void): Promise<void> => {
+    const transacao = (await abrirBanco()).transaction(tabela, 'readwrite');
+    operacao(transacao.objectStore(tabela));
+    await new Promise<void>((resolve, reject) => {
+      transacao.oncomplete = () => resolve();
+      transacao.onerror = () => reject(transacao.error);
+      transacao.onabort = () => reject(transacao.error);
+    });
+  };
+
+  return {
+    listar: async <T>(tabela: TabelaLocal) =>
+      requisicaoParaPromise((await abrirBanco()).transaction(tabela).objectStore(tabela).getAll()) as Promise<T[]>,
+    obter: async <T>(tabela: TabelaLocal, id: string) =>
+      requisicaoParaPromise((await abrirBanco()).transaction(tabela).objectStore(tabela).get(id)) as Promise<T | undefined>,
+    salvar: (tabela, registros) => escrever(tabela, store => registros.forEach(registro => store.put(registro))),
+    remover: (tabela, ids) => escrever(tabela, store => ids.forEach(id => store.delete(id)))
+  };
+};
+
+const diasAtras = (dias: number): Date => {
+  const data = new Date();
+  data.setDate(data.getDate() - dias);
+  return data;
+};
+
+const paraMetricas = (registro: AprendizadoLocal): MetricasAprendizado => ({
+  palavra: registro.word,
+  mediaCompensacao: registro.expected_time - registro.actual_time,
+  confianca: registro.user_accuracy,
+  totalAmostras: registro.sample_count,
+  ultimaAtualizacao: registro.created_at
+});
+
+/**
+ * Ordena os registros pela semelhança do vetor com a consulta, só entre vetores do mesmo modelo
+ */
+const classificarPorSemelhanca = <T>(
+  registros: T[],
+  vetor: (registro: T) => number[] | null | undefined,
+  modeloRegistro: (registro: T) => string | null | undefined,
+  consulta: { vetor: number[]; modelo: string },
+  limite: number,
+  limiarSimilaridade: number
+): Array<{ registro: T; similaridade: number }> => {
+  return registros
+    .flatMap(registro => {
+      const vetorRegistro = vetor(registro);
+      if (!vetorRegistro || modeloRegistro(registro) !== consulta.modelo || vetorRegistro.length !== consulta.vetor.length) {
+        return [];
+      }
+      const similaridade = similaridadeCosseno(consulta.vetor, vetorRegistro);
+      return similaridade > limiarSimilaridade ? [{ registro, similaridade }] : [];
+    })
+    .sort((a, b) => b.similaridade - a.similaridade)
+    .slice(0, limite);
+};
+
+/**
+ * Cria o backend local sobre o repositório informado
+ */
+export const criarArmazenamentoLocal = (repositorio: RepositorioLocal, gerarEmbeddings: GeradorEmbeddings): BackendArmazenamento => {
+  // Sem embeddings disponíveis o registro é salvo sem vetores, como no Supabase
+  const gerarEmbeddingsOpcionais = async (textos: string[]) => {
+    try {
+      return await gerarEmbeddings(textos);
+    } catch (error: any) {
+      console.warn('⚠️ [ARMAZENAMENTO LOCAL] Embeddings indisponíveis, salvando sem vetores:', error?.message || error);
+      return null;
+    }
+  };
+
+  const obterAprendizado = (palavra: string) =>
+    repositorio.obter<AprendizadoLocal>('learning_data', palavra.toLowerCase());
+
+  const removerResultadoCompleto = async (registro: RegistroResultado): Promise<void> => {
+    const [transcricoes, palavras] = await Promise.all([
+      repositorio.listar<TranscricaoLocal>('transcricoes'),
+      repositorio.listar<PalavraLocal>('word_timestamps')
+    ]);
+    await Promise.all([
+      repositorio.remover('transcricoes', transcricoes
+        .filter(transcricao => transcricao.nome_arquivo === registro.nomeArquivo && transcricao.criado_em === registro.criadoEm)
+        .map(transcricao => transcricao.id)),
+      repositorio.remover('word_timestamps', palavras
+        .filter(palavra => palavra.session_id === registro.sessionId)
+        .map(palavra => palavra.id))
+    ]);
+  };
+
+  const salvarResultadoCompleto = async (
+    transcricao: WordTimestamp[],
+    textoCompleto: string,
+    arquivo: File,
+    sinal?: AbortSignal
+  ): Promise<RegistroResultado | null> => {
+    const registro: RegistroResultado = {
+      nomeArquivo: arquivo.name,
+      criadoEm: new Date().toISOString(),
+      sessionId: crypto.randomUUID()
+    };
+
+    const textoLimpo = textoCompleto.trim();
+    const palavras = transcricao.filter(palavra => palavra.word?.trim());
+    const [embeddingTexto, embeddingsPalavras] = await Promise.all([
+      textoLimpo ? gerarEmbeddingsOpcionais([textoLimpo]) : null,
+      palavras.length > 0 ? gerarEmbeddingsOpcionais(palavras.map(palavra => palavra.word.trim())) : null
+    ]);
+
+    if (!sinal?.aborted) {
+      if (textoLimpo) {
+        await repositorio.salvar<TranscricaoLocal>('transcricoes', [{
+          id: crypto.randomUUID(),
+          nome_arquivo: arquivo.name,
+          transcricao: textoLimpo,
+          tamanho_arquivo: arquivo.size,
+          transcricao_embedding: embeddingTexto?.vetores[0] ?? null,
+          embedding_model: embeddingTexto?.modelo ?? null,
+          criado_em: registro.criadoEm
+        }]);
+      }
+      await repositorio.salvar<PalavraLocal>('word_timestamps', palavras.map((palavra, indice) => ({
+        id: crypto.randomUUID(),
+        word: palavra.word,
+        start_time: palavra.startTime,
+        end_time: palavra.endTime,
+        confidence: palavra.confidence,
+        context: `Arquivo: ${arquivo.name}`,
+        session_id: registro.sessionId,
+        word_embedding: embeddingsPalavras?.vetores[indice] ?? null,
+        embedding_model: embeddingsPalavras?.modelo ?? null,
+        created_at: registro.criadoEm
+      })));
+    }
+
+    if (sinal?.aborted) {
+      await removerResultadoCompleto(registro);
+      return null;
+    }
+
+    console.log(`✅ [ARMAZENAMENTO LOCAL] Resultado de ${arquivo.name} salvo (${palavras.length} palavras)`);
+    return registro;
+  };
+
+  const listarPalavrasDesde = async (desde: Date, limite: number): Promise<RegistroPalavra[]> => {
+    const palavras = await repositorio.listar<PalavraLocal>('word_timestamps');
+    return palavras
+      .filter(palavra => palavra.created_at && palavra.created_at >= desde.toISOString())
+      .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''))
+      .slice(0, limite);
+  };
+
+  return {
+    tipo: 'local',
+    nome: 'Local (IndexedDB)',
+    audioRemoto: false,
+
+    salvarResultadoCompleto,
+    removerResultadoCompleto,
+
+    async buscarTranscricoesSimilares(texto, limite = 5, limiarSimilaridade = 0.7): Promise<TranscricaoSimilar[]> {
+      const [{ vetores, modelo }, transcricoes] = await Promise.all([
+        gerarEmbeddings([texto]),
+        repositorio.listar<TranscricaoLocal>('transcricoes')
+      ]);
+      return classificarPorSemelhanca(
+        transcricoes,
+        transcricao => transcricao.transcricao_embedding,
+        transcricao => transcricao.embedding_model,
+        { vetor: vetores[0], modelo },
+        limite,
+        limiarSimilaridade
+      ).map(({ registro, similaridade }) => ({
+        id: registro.id,
+        nome_arquivo: registro.nome_arquivo,
+        transcricao: registro.transcricao,
+        similarity: similaridade
+      }));
+    },
+
+    async registrarSincronizacao(dados) {
+      await repositorio.salvar<PalavraLocal>('word_timestamps', [{
+        id: crypto.randomUUID(),
+        word: dados.palavra,
+        timestamp: dados.tempoReal,
+        start_time: dados.tempoEsperado,
+        context: dados.contexto ?? null,
+        playback_rate: dados.velocidadeReproducao || 1.0,
+        created_at: new Date().toISOString()
+      }]);
+      return true;
+    },
+
+    obterDadosHistoricos: (limiteDias = 30) => listarPalavrasDesde(diasAtras(limiteDias), 1000),
+    obterDadosRecentes: desde => listarPalavrasDesde(desde, 500),
+
+    async limparDadosAntigos(diasParaManterDados = 30) {
+      const limite = diasAtras(diasParaManterDados).toISOString();
+      const palavras = await repositorio.listar<PalavraLocal>('word_timestamps');
+      await repositorio.remover('word_timestamps', palavras
+        .filter(palavra => palavra.created_at && palavra.created_at < limite)
+        .map(palavra => palavra.id));
+    },
+
+    async buscarPalavrasSimilaresVetorial(palavra, limite = 5, limiarSimilaridade = 0.7): Promise<PalavraSimilar[]> {
+      const [{ vetores, modelo }, palavras] = await Promise.all([
+        gerarEmbeddings([palavra]),
+        repositorio.listar<PalavraLocal>('word_timestamps')
+      ]);
+      return classificarPorSemelhanca(
+        palavras,
+        registro => registro.word_embedding,
+        registro => registro.embedding_model,
+        { vetor: vetores[0], modelo },
+        limite,
+        limiarSimilaridade
+      ).map(({ registro, similaridade }) => ({
+        id: registro.id,
+        word: registro.word,
+        context: registro.context ?? null,
+        similarity: similaridade
+      }));
+    },
+
+    async obterMetricasPalavra(palavra) {
+      const registro = await obterAprendizado(palavra);
+      return registro ? paraMetricas(registro) : null;
+    },
+
+    async salvarDadosAprendizado(dados: DadosAprendizado) {
+      const palavra = dados.palavra?.trim();
+      if (!palavra) return false;
+      const compensacao = Number.isFinite(dados.compensacao) ? dados.compensacao : 100;
+
+      const embeddings = await gerarEmbeddingsOpcionais(
+        dados.contexto?.trim() ? [palavra, dados.contexto.trim()] : [palavra]
+      );
+      const existente = await obterAprendizado(palavra);
+      const totalAmostras = (existente?.sample_count ?? 0) + 1;
+
+      await repositorio.salvar<AprendizadoLocal>('learning_data', [{
+        id: palavra.toLowerCase(),
+        word: palavra.toLowerCase(),
+        expected_time: existente?.expected_time ?? 0,
+        actual_time: existente
+          ? (existente.actual_time * existente.sample_count + compensacao) / totalAmostras
+          : compensacao,
+        user_accuracy: dados.precisao || (existente ? Math.min(0.95, totalAmostras * 0.05) : 0.1),
+        sample_count: totalAmostras,
+        context: dados.contexto,
+        word_embedding: embeddings?.vetores[0] ?? null,
+        context_embedding: embeddings?.vetores[1] ?? null,
+        embedding_model: embeddings?.modelo ?? null,
+        created_at: existente?.created_at ?? new Date().toISOString()
+      }]);
+      return true;
+    },
+
+    async atualizarMetricasPalavra(palavra, novaCompensacao) {
+      const existente = await obterAprendizado(palavra);
+      if (existente) {
+        const metricas = paraMetricas(existente);
+        await repositorio.salvar<AprendizadoLocal>('learning_data', [{
+          ...existente,
+          expected_time: metricas.mediaCompensacao,
+          actual_time: metricas.mediaCompensacao + novaCompensacao,
+          user_accuracy: Math.min(0.95, (existente.sample_count + 1) * 0.1),
+          sample_count: existente.sample_count + 1
+        }]);
+      } else {
+        await repositorio.salvar<AprendizadoLocal>('learning_data', [{
+          id: palavra.toLowerCase(),
+          word: palavra.toLowerCase(),
+          expected_time: 0,
+          actual_time: novaCompensacao,
+          user_accuracy: 0.1, // Confiança inicial baixa
+          sample_count: 1,
+          context: '',
+          created_at: new Date().toISOString()
+        }]);
+      }
+      return true;
+    },
+
+    async buscarPalavrasSimilares(palavra, limite = 5) {
+      // Palavras que começam com as mesmas letras, como no Supabase
+      const prefixo = palavra.toLowerCase().substring(0, 3);
+      const registros = await repositorio.listar<AprendizadoLocal>('learning_data');
+      return registros
+        .filter(registro => registro.word.startsWith(prefixo))
+        .sort((a, b) => b.user_accuracy - a.user_accuracy)
+        .slice(0, limite)
+        .map(paraMetricas);
+    },
+
+    async salvarAudio(arquivo, sinal) {
+      if (sinal?.aborted) {
+        return { sucesso: false, erro: 'Envio cancelado', cancelado: true };
+      }
+      const caminho = `audios/${crypto.randomUUID()}`;
+      await repositorio.salvar<AudioLocal>('audios', [{
+        id: caminho,
+        nome: arquivo.name,
+        audio: arquivo,
+        criado_em: new Date().toISOString()
+      }]);
+      return { sucesso: true, caminho };
+    },
+
+    async obterAudio(caminho) {
+      return (await repositorio.obter<AudioLocal>('audios', caminho))?.audio ?? null;
+    },
+
+    async removerAudio(caminho) {
+      await repositorio.remover('audios', [caminho]);
+      return true;
+    }
+  };
+};
@@ -0,0 +1,181 @@
+/**
+ * Serviço de transcrição com mecanismo local
+ *
+ * Adaptador para servidores de transcrição executados na própria máquina, como o
+ * servidor HTTP do whisper.cpp (`whisper-server`). O áudio nunca sai do computador.
+ */
+
+import { WordTimestamp } from '../types';
+import { IdiomaTranscricao, obterIdioma } from '../i18n/idiomas';
+
+export const ENDPOINT_LOCAL_PADRAO = 'http://127.0.0.1:8080';
+
+// Formatos de resposta aceitos: verbose_json do whisper.cpp e do padrão OpenAI
+interface PalavraLocal {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+interface SegmentoLocal {
+  text: string;
+  start: number;
+  end: number;
+  words?: PalavraLocal[];
+}
+
+interface RespostaLocal {
+  text?: string;
+  words?: PalavraLocal[];
+  segments?: SegmentoLocal[];
+  error?: string;
+}
+
+const montarUrl = (endpoint: string, caminho: string): string => {
+  return `${endpoint.replace(/\/+$/, '')}${caminho}`;
+};
+
+/**
+ * Converte os tokens retornados pelo mecanismo em palavras.
+ * Tokens que não começam com espaço continuam a palavra anterior (ex.: " trans" + "crição", " fim" + ".").
+ */
+const tokensParaPalavras = (tokens: PalavraLocal[]): WordTimestamp[] => {
+  const palavras: WordTimestamp[] = [];
+
+  tokens.forEach(token => {
+    const texto = token.word ?? '';
+    if (texto.trim().length === 0 || /^\[.*\]$/.test(texto.trim())) return; // Ignora tokens especiais ([_BEG_], etc.)
+
+    const anterior = palavras[palavras.length - 1];
+    if (anterior && !/^\s/.test(texto)) {
+      anterior.word += texto;
+      anterior.endTime = token.end;
+      if (token.probability !== undefined) {
+        anterior.confidence = Math.min(anterior.confidence ?? 1, token.probability);
+      }
+      return;
+    }
+
+    palavras.push({
+      word: texto.trim(),
+      startTime: token.start,
+      endTime: token.end,
+      ...(token.probability !== undefined ? { confidence: token.probability } : {})
+    });
+  });
+
+  return palavras;
+};
+
+/**
+ * Distribui o texto de um segmento sem tempos por palavra proporcionalmente ao tamanho de cada palavra
+ */
+const distribuirSegmento = (segmento: SegmentoLocal): WordTimestamp[] => {
+  const textos = segmento.text.trim().split(/\s+/).filter(Boolean);
+  const totalCaracteres = textos.reduce((soma, texto) => soma + texto.length, 0);
+  const duracao = Math.max(0, segmento.end - segmento.start);
+  let cursor = segmento.start;
+
+  return textos.map(texto => {
+    const inicio = cursor;
+    cursor += totalCaracteres > 0 ? duracao * (texto.length / totalCaracteres) : 0;
+    return { word: texto, startTime: inicio, endTime: cursor };
+  });
+};
+
+/**
+ * Converte a resposta do mecanismo local em WordTimestamp[]
+ */
+export const converterRespostaLocal = (resposta: RespostaLocal): WordTimestamp[] => {
+  if (Array.isArray(resposta.words) && resposta.words.length > 0) {
+    return tokensParaPalavras(resposta.words);
+  }
+
+  return (resposta.segments ?? []).flatMap(segmento =>
+    Array.isArray(segmento.words) && segmento.words.length > 0
+      ? tokensParaPalavras(segmento.words)
+      : distribuirSegmento(segmento)
+  );
+};
+
+/**
+ * Verifica se o mecanismo local está respondendo
+ */
+export const verificarMecanismoLocal = async (endpoint: string): Promise<boolean> => {
+  try {
+    const resposta = await fetch(montarUrl(endpoint, '/'), { method: 'GET' });
+    return resposta.ok;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Transcreve o áudio enviando-o ao endpoint /inference do mecanismo local
+ */
+export const transcreverLocal = async (
+  audioSource: File | string,
+  endpoint: string,
+  idioma: IdiomaTranscricao = 'auto',
+  sinal?: AbortSignal,
+  promptInicial = ''
+): Promise<WordTimestamp[]> => {
+  const startTime = Date.now();
+  let audioFile: File;
+
+  if (typeof audioSource === 'string') {
+    console.log(`🌐 [TRANSCRIÇÃO LOCAL] Baixando arquivo de áudio da URL: ${audioSource}`);
+    const respostaDownload = await fetch(audioSource, { signal: sinal });
+    if (!respostaDownload.ok) {
+      throw new Error(`Falha ao baixar o áudio da URL fornecida. Status: ${respostaDownload.status}`);
+    }
+    const blobAudio = await respostaDownload.blob();
+    audioFile = new File([blobAudio], 'audio', { type: blobAudio.type || 'audio/mpeg' });
+  } else {
+    audioFile = audioSource;
+  }
+
+  const url = montarUrl(endpoint || ENDPOINT_LOCAL_PADRAO, '/inference');
+  console.log(`🖥️ [TRANSCRIÇÃO LOCAL] Enviando ${audioFile.name} para ${url}`);
+
+  const formulario = new FormData();
+  formulario.append('file', audioFile, audioFile.name);
+  formulario.append('response_format', 'verbose_json');
+  formulario.append('temperature', '0.0');
+  // O whisper.cpp usa o código ISO 639-1 do idioma ou 'auto' para detectá-lo
+  formulario.append('language', obterIdioma(idioma)?.codigoIso ?? 'auto');
+  // Vocabulário do glossário como contexto inicial, o que favorece a grafia desses termos
+  if (promptInicial) {
+    formulario.append('prompt', promptInicial);
+  }
+
+  let resposta: Response;
+  try {
+    resposta = await fetch(url, { method: 'POST', body: formulario, signal: sinal });
+  } catch (error) {
+    // O cancelamento pelo usuário não é falha de conexão
+    if (sinal?.aborted) throw error;
+    console.error(`❌ [TRANSCRIÇÃO LOCAL] Mecanismo local inacessível:`, error);
+    throw new Error(`Não foi possível conectar ao mecanismo local em ${endpoint}. Verifique se o servidor está em execução.`);
+  }
+
+  if (!resposta.ok) {
+    const detalhe = await resposta.text().catch(() => '');
+    console.error(`❌ [TRANSCRIÇÃO LOCAL] Resposta com erro:`, { status: resposta.status, detalhe });
+    throw new Error(`O mecanismo local retornou erro ${resposta.status}${detalhe ? `: ${detalhe}` : ''}`);
+  }
+
+  const dados: RespostaLocal = await resposta.json();
+  if (dados.error) {
+    throw new Error(`Erro na transcrição local: ${dados.error}`);
+  }
+
+  const palavras = converterRespostaLocal(dados);
+  if (palavras.length === 0) {
+    throw new Error('O mecanismo local retornou uma transcrição vazia.');
+  }
+
+  console.log(`✅ [TRANSCRIÇÃO LOCAL] ${palavras.length} palavras em ${((Date.now() - startTime) / 1000).toFixed(2)}s`);
+  return palavras;
+};
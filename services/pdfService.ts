@@ -0,0 +1,233 @@
+/**
+ * Serviço de PDF
+ *
+ * Escreve um PDF simples (A4, fontes padrão Helvetica e Helvetica-Bold) a partir dos blocos do
+ * documento exportado, com quebra de linha e de página. As fontes padrão usam a codificação
+ * WinAnsi, que cobre o português, o inglês e o espanhol; outros caracteres viram "?".
+ */
+
+import type { BlocoDocumento } from './documentExportService';
+
+// Página A4 em pontos
+const LARGURA_PAGINA = 595;
+const ALTURA_PAGINA = 842;
+const MARGEM = 56;
+const LARGURA_UTIL = LARGURA_PAGINA - MARGEM * 2;
+
+// Tamanho da fonte e espaçamento (em pontos) de cada tipo de bloco
+const ESTILOS: Record<BlocoDocumento['tipo'], { tamanho: number; negrito?: boolean; antes: number; depois: number; recuo?: number }> = {
+  titulo: { tamanho: 18, negrito: true, antes: 0, depois: 12 },
+  secao: { tamanho: 14, negrito: true, antes: 18, depois: 6 },
+  subsecao: { tamanho: 12, negrito: true, antes: 12, depois: 4 },
+  metadado: { tamanho: 10, antes: 0, depois: 2 },
+  paragrafo: { tamanho: 11, antes: 0, depois: 8 },
+  item: { tamanho: 11, antes: 0, depois: 4, recuo: 14 }
+};
+const ENTRELINHA = 1.35;
+
+// Larguras (em milésimos do tamanho da fonte) dos caracteres ASCII de 32 a 126
+const LARGURAS_HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const LARGURAS_HELVETICA_NEGRITO = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Caracteres da faixa 0x80-0x9F da codificação WinAnsi
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+/**
+ * Converte o texto para a codificação WinAnsi (um caractere por byte)
+ */
+const paraWinAnsi = (texto: string): string => {
+  let resultado = '';
+  for (const caractere of texto) {
+    const codigo = caractere.codePointAt(0)!;
+    if ((codigo >= 32 && codigo <= 126) || (codigo >= 0xa0 && codigo <= 0xff)) {
+      resultado += caractere;
+    } else if (WIN_ANSI[caractere] !== undefined) {
+      resultado += String.fromCharCode(WIN_ANSI[caractere]);
+    } else {
+      // Letras com acentos fora do Latin-1 ficam sem o acento
+      const base = caractere.normalize('NFD').replace(/\p{M}/gu, '');
+      resultado += base.length === 1 && base.charCodeAt(0) < 127 ? base : '?';
+    }
+  }
+  return resultado;
+};
+
+/**
+ * Largura do texto (já em WinAnsi) em pontos
+ */
+const larguraTexto = (texto: string, tamanho: number, negrito: boolean): number => {
+  const larguras = negrito ? LARGURAS_HELVETICA_NEGRITO : LARGURAS_HELVETICA;
+  let total = 0;
+  for (let i = 0; i < texto.length; i++) {
+    const codigo = texto.charCodeAt(i);
+    if (codigo >= 32 && codigo <= 126) {
+      total += larguras[codigo - 32];
+    } else {
+      // Letras acentuadas têm a largura da letra sem acento
+      const base = texto[i].normalize('NFD').charCodeAt(0);
+      total += base >= 32 && base <= 126 ? larguras[base - 32] : 556;
+    }
+  }
+  return (total * tamanho) / 1000;
+};
+
+const escaparTextoPdf = (texto: string): string => texto.replace(/([\\()])/g, '\\$1');
+
+// Pedaço de uma linha com o mesmo estilo
+interface SegmentoLinha {
+  texto: string;
+  negrito: boolean;
+}
+
+interface LinhaPdf {
+  segmentos: SegmentoLinha[];
+  tamanho: number;
+  x: number;
+  altura: number;
+  espacoAntes: number;
+}
+
+/**
+ * Quebra um bloco em linhas que cabem na largura disponível
+ */
+const quebrarBloco = (bloco: BlocoDocumento): LinhaPdf[] => {
+  const estilo = ESTILOS[bloco.tipo];
+  const recuo = estilo.recuo ?? 0;
+  const largura = LARGURA_UTIL - recuo;
+  const trechos = bloco.tipo === 'item' ? [{ texto: '• ', negrito: false }, ...bloco.trechos] : bloco.trechos;
+
+  // Palavras com o estilo do trecho de origem; o espaço fica colado ao fim da palavra
+  const palavras = trechos.flatMap(trecho => {
+    const negrito = !!(estilo.negrito || trecho.negrito);
+    return (paraWinAnsi(trecho.texto).match(/\S+\s*|\s+/g) ?? []).map(texto => ({ texto, negrito }));
+  });
+
+  const linhas: LinhaPdf[] = [];
+  let atual: SegmentoLinha[] = [];
+  let larguraAtual = 0;
+
+  const fecharLinha = () => {
+    if (atual.length === 0) return;
+    linhas.push({
+      segmentos: atual,
+      tamanho: estilo.tamanho,
+      x: MARGEM + recuo,
+      altura: estilo.tamanho * ENTRELINHA,
+      espacoAntes: linhas.length === 0 ? estilo.antes : 0
+    });
+    atual = [];
+    larguraAtual = 0;
+  };
+
+  palavras.forEach(palavra => {
+    const larguraPalavra = larguraTexto(palavra.texto.trimEnd(), estilo.tamanho, palavra.negrito);
+    if (larguraAtual > 0 && larguraAtual + larguraPalavra > largura) {
+      fecharLinha();
+    }
+    if (larguraAtual === 0 && !palavra.texto.trim()) return;
+
+    const ultimo = atual[atual.length - 1];
+    if (ultimo && ultimo.negrito === palavra.negrito) ultimo.texto += palavra.texto;
+    else atual.push({ ...palavra });
+    larguraAtual += larguraTexto(palavra.texto, estilo.tamanho, palavra.negrito);
+  });
+  fecharLinha();
+
+  if (linhas.length > 0) {
+    linhas[linhas.length - 1].altura += estilo.depois;
+  }
+  return linhas;
+};
+
+/**
+ * Distribui as linhas nas páginas e gera o conteúdo (operadores de texto) de cada página
+ */
+const paginar = (linhas: LinhaPdf[]): string[] => {
+  const paginas: string[] = [];
+  let conteudo = '';
+  let y = ALTURA_PAGINA - MARGEM;
+
+  linhas.forEach(linha => {
+    const topoPagina = y === ALTURA_PAGINA - MARGEM;
+    const espacoAntes = topoPagina ? 0 : linha.espacoAntes;
+    if (!topoPagina && y - espacoAntes - linha.tamanho * ENTRELINHA < MARGEM) {
+      paginas.push(conteudo);
+      conteudo = '';
+      y = ALTURA_PAGINA - MARGEM;
+    } else {
+      y -= espacoAntes;
+    }
+
+    const linhaBase = y - linha.tamanho;
+    const textos = linha.segmentos
+      .map(segmento => `/${segmento.negrito ? 'F2' : 'F1'} ${linha.tamanho} Tf (${escaparTextoPdf(segmento.texto)}) Tj`)
+      .join(' ');
+    conteudo += `BT ${linha.x} ${linhaBase.toFixed(2)} Td ${textos} ET\n`;
+    y -= linha.altura;
+  });
+
+  paginas.push(conteudo);
+  return paginas;
+};
+
+/**
+ * Gera o arquivo PDF com os blocos informados
+ */
+export const gerarPdf = (blocos: BlocoDocumento[], titulo: string): Uint8Array => {
+  const paginas = paginar(blocos.flatMap(quebrarBloco));
+
+  // Objetos: 1 catálogo, 2 árvore de páginas, 3 e 4 fontes, 5 informações e, para cada página, a página e o seu conteúdo
+  const objetos: string[] = [];
+  const idsPaginas = paginas.map((_, indice) => 6 + indice * 2);
+  objetos[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objetos[2] = `<< /Type /Pages /Kids [${idsPaginas.map(id => `${id} 0 R`).join(' ')}] /Count ${paginas.length} >>`;
+  objetos[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objetos[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objetos[5] = `<< /Title (${escaparTextoPdf(paraWinAnsi(titulo))}) /Producer (Transcricao de Audio com IA) >>`;
+  paginas.forEach((conteudo, indice) => {
+    const id = idsPaginas[indice];
+    objetos[id] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${LARGURA_PAGINA} ${ALTURA_PAGINA}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${id + 1} 0 R >>`;
+    objetos[id + 1] = `<< /Length ${conteudo.length} >>\nstream\n${conteudo}endstream`;
+  });
+
+  // Todo o arquivo usa um byte por caractere, então as posições da tabela xref são as posições na string
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const posicoes: number[] = [];
+  for (let id = 1; id < objetos.length; id++) {
+    posicoes[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objetos[id]}\nendobj\n`;
+  }
+
+  const inicioXref = pdf.length;
+  pdf += `xref\n0 ${objetos.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objetos.length; id++) {
+    pdf += `${posicoes[id].toString().padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objetos.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${inicioXref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
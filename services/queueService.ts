@@ -3,6 +3,7 @@
  * 
  * Este serviço implementa um sistema de filas para controlar o número de requisições
  * simultâneas ao Supabase, evitando sobrecarga e erros de conectividade.
+ * A mesma fila, com outra configuração, é usada pela transcrição em lote.
  */
 
 // Tipos de operação suportados
@@ -10,11 +11,13 @@ export type TipoOperacao = 'INSERT' | 'UPDATE' | 'DELETE' | 'UPSERT' | 'SELECT';
 
 export interface TarefaFila {
   id: string;
-  funcao: () => Promise<any>;
+  // Recebe um sinal que é abortado quando a tarefa é cancelada
+  funcao: (sinal: AbortSignal) => Promise<any>;
   prioridade: 'alta' | 'media' | 'baixa';
   tentativas: number;
   maxTentativas: number;
   timestamp: number;
+  controlador: AbortController;
 }
 
 export interface StatusFila {
@@ -22,45 +25,83 @@ export interface StatusFila {
   processadas: number;
   pendentes: number;
   falharam: number;
+  canceladas: number;
   percentualConcluido: number;
 }
 
+export interface ConfiguracaoFila {
+  maxConcorrencia: number; // Máximo de tarefas simultâneas
+  delayEntreRequisicoes: number; // Intervalo mínimo (ms) entre o início de duas tarefas
+  timeoutRequisicao: number; // Tempo máximo (ms) de cada tentativa; 0 desativa o timeout
+}
+
+const CONFIGURACAO_PADRAO: ConfiguracaoFila = {
+  maxConcorrencia: 3, // Máximo de 3 requisições simultâneas
+  delayEntreRequisicoes: 100, // 100ms entre requisições
+  timeoutRequisicao: 10000 // 10 segundos de timeout
+};
+
+/**
+ * Erro usado para rejeitar tarefas canceladas
+ */
+export class TarefaCanceladaError extends Error {
+  constructor() {
+    super('Tarefa cancelada');
+    this.name = 'TarefaCanceladaError';
+  }
+}
+
 export interface ObservadorFila {
   onStatusChange: (status: StatusFila) => void;
   onTarefaConcluida: (tarefa: TarefaFila, resultado: any) => void;
   onTarefaFalhou: (tarefa: TarefaFila, erro: Error) => void;
 }
 
-class ServicoFila {
+export class ServicoFila {
   private fila: TarefaFila[] = [];
   private processando: Map<string, TarefaFila> = new Map();
+  // Tarefas que falharam e aguardam o intervalo até a próxima tentativa
+  private aguardandoTentativa: Map<string, { tarefa: TarefaFila; timeoutId: ReturnType<typeof setTimeout> }> = new Map();
   private concluidas: TarefaFila[] = [];
   private falharam: TarefaFila[] = [];
+  private canceladas: TarefaFila[] = [];
   private observadores: ObservadorFila[] = [];
   
   // Configurações da fila
-  private readonly maxConcorrencia = 3; // Máximo de 3 requisições simultâneas
-  private readonly delayEntreRequisicoes = 100; // 100ms entre requisições
-  private readonly timeoutRequisicao = 10000; // 10 segundos de timeout
+  private configuracao: ConfiguracaoFila;
   
   private processandoAtivo = false;
+  private pausada = false;
   private ultimaRequisicao = 0;
 
+  constructor(configuracao: Partial<ConfiguracaoFila> = {}) {
+    this.configuracao = { ...CONFIGURACAO_PADRAO, ...configuracao };
+  }
+
+  /**
+   * Altera a configuração da fila; vale para as próximas tarefas iniciadas
+   */
+  configurar(configuracao: Partial<ConfiguracaoFila>): void {
+    this.configuracao = { ...this.configuracao, ...configuracao };
+  }
+
   /**
    * Adiciona uma tarefa à fila
    */
   adicionarTarefa(
-    funcao: () => Promise<any>,
+    funcao: (sinal: AbortSignal) => Promise<any>,
     prioridade: 'alta' | 'media' | 'baixa' = 'media',
-    maxTentativas = 3
+    maxTentativas = 3,
+    id = this.gerarId()
   ): Promise<any> {
     const tarefa: TarefaFila = {
-      id: this.gerarId(),
+      id,
       funcao,
       prioridade,
       tentativas: 0,
       maxTentativas,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      controlador: new AbortController()
     };
 
     return new Promise((resolve, reject) => {
@@ -73,12 +114,58 @@ class ServicoFila {
       this.notificarObservadores();
       
       // Inicia o processamento se não estiver ativo
-      if (!this.processandoAtivo) {
+      if (!this.processandoAtivo && !this.pausada) {
         this.iniciarProcessamento();
       }
     });
   }
 
+  /**
+   * Cancela uma tarefa pendente ou em andamento. A tarefa em andamento recebe o sinal de
+   * cancelamento e sua promise é rejeitada com TarefaCanceladaError.
+   */
+  cancelarTarefa(id: string): boolean {
+    const naFila = this.fila.find(tarefa => tarefa.id === id);
+    const emEspera = this.aguardandoTentativa.get(id);
+    const tarefa = naFila ?? emEspera?.tarefa ?? this.processando.get(id);
+    if (!tarefa) return false;
+
+    if (naFila) {
+      this.fila = this.fila.filter(item => item.id !== id);
+    }
+    if (emEspera) {
+      clearTimeout(emEspera.timeoutId);
+      this.aguardandoTentativa.delete(id);
+    }
+    // A tarefa em andamento é finalizada em processarTarefa, ao perceber o sinal abortado
+    tarefa.controlador.abort();
+    if (!this.processando.has(id)) {
+      this.finalizarCancelada(tarefa);
+    }
+    return true;
+  }
+
+  /**
+   * Pausa a fila: as tarefas em andamento terminam, mas nenhuma nova é iniciada
+   */
+  pausar(): void {
+    this.pausada = true;
+    this.notificarObservadores();
+  }
+
+  /**
+   * Retoma uma fila pausada
+   */
+  retomar(): void {
+    this.pausada = false;
+    this.notificarObservadores();
+    this.reiniciarProcessamento();
+  }
+
+  estaPausada(): boolean {
+    return this.pausada;
+  }
+
   /**
    * Adiciona um observador para receber atualizações da fila
    */
@@ -100,9 +187,9 @@ class ServicoFila {
    * Obtém o status atual da fila
    */
   obterStatus(): StatusFila {
-    const total = this.fila.length + this.processando.size + this.concluidas.length + this.falharam.length;
+    const pendentes = this.fila.length + this.processando.size + this.aguardandoTentativa.size;
+    const total = pendentes + this.concluidas.length + this.falharam.length;
     const processadas = this.concluidas.length;
-    const pendentes = this.fila.length + this.processando.size;
     const falharam = this.falharam.length;
     const percentualConcluido = total > 0 ? Math.round((processadas / total) * 100) : 0;
 
@@ -111,6 +198,7 @@ class ServicoFila {
       processadas,
       pendentes,
       falharam,
+      canceladas: this.canceladas.length,
       percentualConcluido
     };
   }
@@ -123,6 +211,16 @@ class ServicoFila {
     this.notificarObservadores();
   }
 
+  /**
+   * Esquece as tarefas já finalizadas, zerando os contadores do status
+   */
+  limparHistorico(): void {
+    this.concluidas = [];
+    this.falharam = [];
+    this.canceladas = [];
+    this.notificarObservadores();
+  }
+
   /**
    * Para o processamento da fila
    */
@@ -134,7 +232,7 @@ class ServicoFila {
    * Reinicia o processamento da fila
    */
   reiniciarProcessamento(): void {
-    if (!this.processandoAtivo && this.fila.length > 0) {
+    if (!this.processandoAtivo && !this.pausada && this.fila.length > 0) {
       this.iniciarProcessamento();
     }
   }
@@ -145,13 +243,16 @@ class ServicoFila {
   private async iniciarProcessamento(): Promise<void> {
     this.processandoAtivo = true;
 
-    while (this.processandoAtivo && (this.fila.length > 0 || this.processando.size > 0)) {
+    while (this.processandoAtivo && (this.fila.length > 0 || this.processando.size > 0 || this.aguardandoTentativa.size > 0)) {
       // Processa tarefas se há espaço na concorrência
-      while (this.processando.size < this.maxConcorrencia && this.fila.length > 0) {
+      while (!this.pausada && this.processando.size < this.configuracao.maxConcorrencia && this.fila.length > 0) {
         const tarefa = this.fila.shift()!;
         this.processarTarefa(tarefa);
       }
 
+      // Pausada e sem tarefas em andamento: encerra o laço até retomar()
+      if (this.pausada && this.processando.size === 0) break;
+
       // Aguarda um pouco antes de verificar novamente
       await this.aguardar(50);
     }
@@ -165,20 +266,23 @@ class ServicoFila {
   private async processarTarefa(tarefa: TarefaFila): Promise<void> {
     this.processando.set(tarefa.id, tarefa);
     tarefa.tentativas++;
+    this.notificarObservadores();
 
     try {
       // Respeita o delay entre requisições
       const agora = Date.now();
-      const tempoEspera = Math.max(0, this.delayEntreRequisicoes - (agora - this.ultimaRequisicao));
+      const tempoEspera = Math.max(0, this.configuracao.delayEntreRequisicoes - (agora - this.ultimaRequisicao));
       if (tempoEspera > 0) {
         await this.aguardar(tempoEspera);
       }
       this.ultimaRequisicao = Date.now();
 
-      // Executa a tarefa com timeout
+      // Executa a tarefa com timeout, interrompendo a espera se ela for cancelada
+      const { timeoutRequisicao } = this.configuracao;
       const resultado = await Promise.race([
-        tarefa.funcao(),
-        this.criarTimeoutPromise(this.timeoutRequisicao)
+        tarefa.funcao(tarefa.controlador.signal),
+        this.criarCancelamentoPromise(tarefa.controlador.signal),
+        ...(timeoutRequisicao > 0 ? [this.criarTimeoutPromise(timeoutRequisicao)] : [])
       ]);
 
       // Tarefa concluída com sucesso
@@ -200,16 +304,24 @@ class ServicoFila {
     } catch (erro) {
       this.processando.delete(tarefa.id);
       
+      if (tarefa.controlador.signal.aborted) {
+        this.finalizarCancelada(tarefa);
+        return;
+      }
+
       // Verifica se deve tentar novamente
       if (tarefa.tentativas < tarefa.maxTentativas) {
         console.warn(`Tentativa ${tarefa.tentativas}/${tarefa.maxTentativas} falhou para tarefa ${tarefa.id}:`, erro);
         
         // Recoloca na fila com delay exponencial
         const delayTentativa = Math.min(1000 * Math.pow(2, tarefa.tentativas - 1), 5000);
-        setTimeout(() => {
+        const timeoutId = setTimeout(() => {
+          this.aguardandoTentativa.delete(tarefa.id);
           this.fila.unshift(tarefa); // Adiciona no início para priorizar
           this.notificarObservadores();
+          this.reiniciarProcessamento();
         }, delayTentativa);
+        this.aguardandoTentativa.set(tarefa.id, { tarefa, timeoutId });
         
       } else {
         // Falha definitiva
@@ -232,6 +344,15 @@ class ServicoFila {
     this.notificarObservadores();
   }
 
+  /**
+   * Registra uma tarefa cancelada e rejeita a promise original
+   */
+  private finalizarCancelada(tarefa: TarefaFila): void {
+    this.canceladas.push(tarefa);
+    (tarefa as any).reject(new TarefaCanceladaError());
+    this.notificarObservadores();
+  }
+
   /**
    * Ordena a fila por prioridade e timestamp
    */
@@ -276,6 +397,19 @@ class ServicoFila {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Cria uma promise que rejeita quando o sinal de cancelamento é abortado
+   */
+  private criarCancelamentoPromise(sinal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+      if (sinal.aborted) {
+        reject(new TarefaCanceladaError());
+        return;
+      }
+      sinal.addEventListener('abort', () => reject(new TarefaCanceladaError()), { once: true });
+    });
+  }
+
   /**
    * Cria uma promise que rejeita após um timeout
    */
@@ -293,7 +427,7 @@ export const servicoFila = new ServicoFila();
 
 // Função auxiliar para adicionar tarefas à fila
 export const adicionarTarefaFila = (
-  funcao: () => Promise<any>,
+  funcao: (sinal: AbortSignal) => Promise<any>,
   prioridade: 'alta' | 'media' | 'baixa' = 'media',
   maxTentativas = 3
 ): Promise<any> => {
@@ -0,0 +1,69 @@
+/**
+ * Serviço de reprodução para revisão
+ *
+ * Calcula os trechos usados na correção da transcrição: a frase em que o player está (para
+ * repeti-la ou pausar ao fim dela) e o intervalo de um grupo de palavras selecionadas (para
+ * repeti-lo em loop A-B). Uma frase termina em pontuação final, troca de falante ou pausa longa.
+ */
+
+import { WordTimestamp } from '../types';
+
+export interface TrechoReproducao {
+  inicio: number; // Segundos
+  fim: number;    // Segundos
+  indiceInicial: number;
+  indiceFinal: number;
+}
+
+// Palavra que encerra uma frase (a pontuação pode vir seguida de aspas ou parênteses)
+const FIM_DE_FRASE = /[.!?…]["'”’)\]]*$/;
+// Pausa (em segundos) que também separa frases
+const PAUSA_ENTRE_FRASES = 1.5;
+
+/**
+ * Indica se a palavra encerra uma frase: pontuação final, troca de falante, pausa longa ou fim do texto
+ */
+export const terminaFrase = (transcricao: WordTimestamp[], indice: number): boolean => {
+  const palavra = transcricao[indice];
+  const proxima = transcricao[indice + 1];
+  return !proxima ||
+    FIM_DE_FRASE.test(palavra.word) ||
+    proxima.speaker !== palavra.speaker ||
+    proxima.startTime - palavra.endTime >= PAUSA_ENTRE_FRASES;
+};
+
+/**
+ * Intervalo que vai do início da primeira ao fim da última palavra indicada (em qualquer ordem)
+ */
+export const trechoDasPalavras = (transcricao: WordTimestamp[], indiceA: number, indiceB: number): TrechoReproducao | null => {
+  const indiceInicial = Math.max(0, Math.min(indiceA, indiceB));
+  const indiceFinal = Math.min(transcricao.length - 1, Math.max(indiceA, indiceB));
+  if (indiceInicial > indiceFinal) return null;
+
+  const palavras = transcricao.slice(indiceInicial, indiceFinal + 1);
+  return {
+    inicio: Math.min(...palavras.map(palavra => palavra.startTime)),
+    fim: Math.max(...palavras.map(palavra => palavra.endTime)),
+    indiceInicial,
+    indiceFinal
+  };
+};
+
+/**
+ * Frase que está tocando no tempo indicado. No silêncio entre duas frases, devolve a seguinte;
+ * depois da última palavra, devolve a última frase.
+ */
+export const fraseNoTempo = (transcricao: WordTimestamp[], tempo: number): TrechoReproducao | null => {
+  if (transcricao.length === 0) return null;
+
+  // Primeira palavra que ainda não terminou no tempo indicado
+  let indice = transcricao.findIndex(palavra => palavra.endTime > tempo);
+  if (indice < 0) indice = transcricao.length - 1;
+
+  let indiceInicial = indice;
+  while (indiceInicial > 0 && !terminaFrase(transcricao, indiceInicial - 1)) indiceInicial--;
+  let indiceFinal = indice;
+  while (!terminaFrase(transcricao, indiceFinal)) indiceFinal++;
+
+  return trechoDasPalavras(transcricao, indiceInicial, indiceFinal);
+};
@@ -0,0 +1,251 @@
+/**
+ * Serviço de alinhamento de roteiro
+ *
+ * Sincroniza um texto já conhecido (roteiro, sermão, legenda revisada) com o áudio. O mecanismo
+ * de transcrição fornece as palavras reconhecidas com tempo, e o roteiro é alinhado a elas pelo
+ * algoritmo de Needleman-Wunsch sobre as palavras normalizadas. O resultado mantém exatamente o
+ * texto do roteiro: as palavras alinhadas herdam o tempo da palavra reconhecida, e as que o
+ * mecanismo não reconheceu têm o tempo estimado entre as vizinhas, com confiança zero.
+ */
+
+import { WordTimestamp } from '../types';
+import { distribuirIntervalo, separarTextos } from './transcriptEditorService';
+
+export interface ResultadoAlinhamento {
+  transcricao: WordTimestamp[]; // Palavras do roteiro com tempo e confiança
+  alinhadas: number; // Palavras do roteiro associadas a uma palavra reconhecida
+  cobertura: number; // Fração das palavras do roteiro que foram alinhadas (0-1)
+}
+
+// Pontuação do alinhamento
+const PONTOS_IGUAL = 2;
+const PONTOS_PARECIDA = 1;
+const PENALIDADE_DIFERENTE = -1;
+const PENALIDADE_LACUNA = -1;
+// Semelhança mínima (1 - distância de edição relativa) para duas palavras contarem como a mesma
+const SEMELHANCA_MINIMA = 0.6;
+// Acima desse número de células a matriz é limitada a uma faixa em torno da diagonal
+const MAX_CELULAS_COMPLETAS = 4_000_000;
+const LARGURA_MINIMA_FAIXA = 200;
+// Abaixo dessa cobertura o roteiro provavelmente não corresponde ao áudio
+export const COBERTURA_MINIMA_ALINHAMENTO = 0.6;
+// Duração mínima (em segundos) de uma palavra sem correspondência no áudio
+const DURACAO_MINIMA = 0.08;
+
+// Movimentos guardados para reconstruir o alinhamento
+const DIAGONAL = 0;
+const ROTEIRO = 1; // Palavra do roteiro sem correspondência
+const RECONHECIDA = 2; // Palavra reconhecida sem correspondência no roteiro
+
+/**
+ * Normaliza uma palavra para comparação: sem acentos, pontuação ou diferença de maiúsculas
+ */
+export const normalizarPalavra = (palavra: string): string => {
+  return palavra
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, '');
+};
+
+const distanciaEdicao = (a: string, b: string): number => {
+  let anterior = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const atual = [i];
+    for (let j = 1; j <= b.length; j++) {
+      atual[j] = Math.min(anterior[j] + 1, atual[j - 1] + 1, anterior[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    anterior = atual;
+  }
+  return anterior[b.length];
+};
+
+/**
+ * Semelhança entre duas palavras normalizadas, de 0 (nada em comum) a 1 (iguais)
+ */
+export const semelhancaPalavras = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const maior = Math.max(a.length, b.length);
+  // Palavras de tamanhos muito diferentes não chegam à semelhança mínima
+  if (Math.abs(a.length - b.length) > maior * (1 - SEMELHANCA_MINIMA)) return 0;
+  return 1 - distanciaEdicao(a, b) / maior;
+};
+
+/**
+ * Alinha duas sequências de palavras normalizadas e devolve, para cada palavra do roteiro, o
+ * índice da palavra reconhecida correspondente (ou -1). Em textos longos só é calculada uma
+ * faixa em torno da diagonal, o que mantém o consumo de memória proporcional ao tamanho do texto.
+ */
+export const alinharSequencias = (roteiro: string[], reconhecidas: string[]): number[] => {
+  const n = roteiro.length;
+  const m = reconhecidas.length;
+  if (n === 0 || m === 0) return new Array<number>(n).fill(-1);
+  const largura = n * m <= MAX_CELULAS_COMPLETAS
+    ? m
+    : Math.max(LARGURA_MINIMA_FAIXA, Math.ceil(MAX_CELULAS_COMPLETAS / Math.max(n, 1) / 2));
+
+  // As mesmas palavras se repetem muito, então a pontuação de cada par é calculada uma vez só
+  const vocabulario = new Map<string, number>();
+  const idPalavra = (palavra: string) => {
+    if (!vocabulario.has(palavra)) vocabulario.set(palavra, vocabulario.size);
+    return vocabulario.get(palavra)!;
+  };
+  const idsRoteiro = roteiro.map(idPalavra);
+  const idsReconhecidas = reconhecidas.map(idPalavra);
+  const palavrasVocabulario = [...vocabulario.keys()];
+  const pontosCalculados = new Map<number, number>();
+
+  const pontos = (i: number, j: number): number => {
+    const a = idsRoteiro[i - 1];
+    const b = idsReconhecidas[j - 1];
+    if (a === b) return PONTOS_IGUAL;
+    const chave = a * palavrasVocabulario.length + b;
+    let resultado = pontosCalculados.get(chave);
+    if (resultado === undefined) {
+      const semelhanca = semelhancaPalavras(palavrasVocabulario[a], palavrasVocabulario[b]);
+      resultado = semelhanca >= SEMELHANCA_MINIMA ? PONTOS_PARECIDA : PENALIDADE_DIFERENTE;
+      pontosCalculados.set(chave, resultado);
+    }
+    return resultado;
+  };
+
+  let anterior = new Float64Array(m + 1);
+  let atual = new Float64Array(m + 1);
+  for (let j = 0; j <= m; j++) anterior[j] = j * PENALIDADE_LACUNA;
+  let inicioAnterior = 0;
+  let fimAnterior = m;
+
+  // Para cada linha, o primeiro índice da faixa e os movimentos escolhidos nela
+  const inicios: number[] = [0];
+  const movimentos: Uint8Array[] = [new Uint8Array(0)];
+
+  for (let i = 1; i <= n; i++) {
+    const centro = Math.round((i * m) / n);
+    const inicio = Math.min(m, Math.max(1, centro - largura));
+    const fim = Math.min(m, centro + largura);
+    const linha = new Uint8Array(Math.max(0, fim - inicio + 1));
+    const valorAnterior = (j: number) => (j === 0 || (j >= inicioAnterior && j <= fimAnterior) ? anterior[j] : -Infinity);
+
+    atual[0] = i * PENALIDADE_LACUNA;
+    for (let j = inicio; j <= fim; j++) {
+      const diagonal = valorAnterior(j - 1) + pontos(i, j);
+      const cima = valorAnterior(j) + PENALIDADE_LACUNA;
+      const esquerda = (j - 1 === 0 || j - 1 >= inicio ? atual[j - 1] : -Infinity) + PENALIDADE_LACUNA;
+
+      if (diagonal >= cima && diagonal >= esquerda) {
+        atual[j] = diagonal;
+        linha[j - inicio] = DIAGONAL;
+      } else if (cima >= esquerda) {
+        atual[j] = cima;
+        linha[j - inicio] = ROTEIRO;
+      } else {
+        atual[j] = esquerda;
+        linha[j - inicio] = RECONHECIDA;
+      }
+    }
+
+    inicios.push(inicio);
+    movimentos.push(linha);
+    [anterior, atual] = [atual, anterior];
+    inicioAnterior = inicio;
+    fimAnterior = fim;
+  }
+
+  // Reconstrói o caminho a partir do canto final
+  const correspondencias = new Array<number>(n).fill(-1);
+  let i = n;
+  let j = m;
+  while (i > 0 && j > 0) {
+    const movimento = movimentos[i][j - inicios[i]];
+    if (movimento === DIAGONAL) {
+      if (pontos(i, j) !== PENALIDADE_DIFERENTE) correspondencias[i - 1] = j - 1;
+      i--;
+      j--;
+    } else if (movimento === ROTEIRO) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return correspondencias;
+};
+
+/**
+ * Alinha o texto do roteiro às palavras reconhecidas no áudio
+ */
+export const alinharRoteiro = (roteiro: string, reconhecidas: WordTimestamp[]): ResultadoAlinhamento => {
+  const palavrasRoteiro = separarTextos(roteiro);
+  const validas = reconhecidas.filter(palavra => normalizarPalavra(palavra.word).length > 0);
+
+  // Palavras só de pontuação (travessões, reticências) ficam de fora da comparação
+  const indicesComparaveis = palavrasRoteiro
+    .map((palavra, indice) => (normalizarPalavra(palavra) ? indice : -1))
+    .filter(indice => indice >= 0);
+  const correspondenciasComparaveis = alinharSequencias(
+    indicesComparaveis.map(indice => normalizarPalavra(palavrasRoteiro[indice])),
+    validas.map(palavra => normalizarPalavra(palavra.word))
+  );
+  const correspondencias = new Array<number>(palavrasRoteiro.length).fill(-1);
+  indicesComparaveis.forEach((indice, k) => {
+    correspondencias[indice] = correspondenciasComparaveis[k];
+  });
+
+  const transcricao: WordTimestamp[] = palavrasRoteiro.map((word, indice) => {
+    const reconhecida = validas[correspondencias[indice]];
+    if (!reconhecida) return { word, startTime: 0, endTime: 0, confidence: 0 };
+
+    const semelhanca = semelhancaPalavras(normalizarPalavra(word), normalizarPalavra(reconhecida.word));
+    return {
+      word,
+      startTime: reconhecida.startTime,
+      endTime: reconhecida.endTime,
+      confidence: Number(((reconhecida.confidence ?? 1) * semelhanca).toFixed(3)),
+      ...(reconhecida.speaker ? { speaker: reconhecida.speaker } : {})
+    };
+  });
+
+  // Estima o tempo das sequências sem correspondência entre as palavras alinhadas vizinhas
+  const inicioAudio = validas[0]?.startTime ?? 0;
+  const fimAudio = validas[validas.length - 1]?.endTime ?? inicioAudio;
+  let indice = 0;
+  while (indice < transcricao.length) {
+    if (correspondencias[indice] >= 0) {
+      indice++;
+      continue;
+    }
+
+    let fimSequencia = indice;
+    while (fimSequencia < transcricao.length && correspondencias[fimSequencia] < 0) fimSequencia++;
+    const anterior = indice > 0 ? transcricao[indice - 1] : null;
+    const seguinte = fimSequencia < transcricao.length ? transcricao[fimSequencia] : null;
+    const quantidade = fimSequencia - indice;
+
+    let inicio = anterior ? anterior.endTime : Math.min(inicioAudio, seguinte?.startTime ?? inicioAudio);
+    const fim = Math.max(inicio, seguinte ? seguinte.startTime : fimAudio);
+    const sequencia = transcricao.slice(indice, fimSequencia);
+
+    // Sem espaço entre as vizinhas, a palavra anterior divide o seu tempo com a sequência
+    if (anterior && fim - inicio < DURACAO_MINIMA * quantidade) {
+      inicio = anterior.startTime;
+      sequencia.unshift(anterior);
+    }
+
+    distribuirIntervalo(inicio, fim, sequencia.map(palavra => palavra.word)).forEach((intervalo, k) => {
+      sequencia[k].startTime = Number(intervalo.startTime.toFixed(3));
+      sequencia[k].endTime = Number(intervalo.endTime.toFixed(3));
+    });
+    for (let k = indice; k < fimSequencia; k++) {
+      const falante = transcricao[k - 1]?.speaker ?? seguinte?.speaker;
+      if (falante) transcricao[k].speaker = falante;
+    }
+    indice = fimSequencia;
+  }
+
+  const alinhadas = correspondencias.filter(correspondencia => correspondencia >= 0).length;
+  console.log(`🧩 [ALINHAMENTO] ${alinhadas} de ${palavrasRoteiro.length} palavras do roteiro alinhadas a ${validas.length} reconhecidas`);
+  return {
+    transcricao,
+    alinhadas,
+    cobertura: palavrasRoteiro.length > 0 ? alinhadas / palavrasRoteiro.length : 0
+  };
+};
@@ -0,0 +1,107 @@
+/**
+ * Serviço de busca semântica na biblioteca
+ *
+ * Mantém o índice semântico da biblioteca local (os embeddings dos trechos de cada transcrição,
+ * guardados no IndexedDB junto dos itens) e busca por significado em todas as transcrições salvas.
+ * O índice é atualizado sob demanda: itens novos, editados ou indexados com outro modelo são
+ * indexados de novo antes da busca.
+ */
+
+import bibliotecaService, { ItemBiblioteca } from './libraryService';
+import embeddingService, { MODELO_EMBEDDING } from '../src/services/embeddingService';
+import { classificarTrechos, dividirEmTrechos, TrechoTranscricao } from './transcriptPassageService';
+
+export interface ProgressoIndexacao {
+  indexados: number;
+  total: number;
+}
+
+export interface ResultadoBuscaSemanticaBiblioteca {
+  item: ItemBiblioteca;
+  trecho: TrechoTranscricao;
+  similaridade: number;
+}
+
+// Semelhança mínima para um trecho aparecer nos resultados
+const SIMILARIDADE_MINIMA = 0.25;
+const LIMITE_RESULTADOS = 20;
+
+class BuscaSemanticaService {
+  private atualizacao: Promise<number> | null = null;
+
+  /**
+   * Indexa os itens da biblioteca que ainda não têm índice atualizado e devolve quantos foram
+   * indexados. Chamadas simultâneas compartilham a mesma atualização.
+   */
+  atualizarIndice(onProgresso?: (progresso: ProgressoIndexacao) => void): Promise<number> {
+    if (!this.atualizacao) {
+      this.atualizacao = this.indexarPendentes(onProgresso).finally(() => {
+        this.atualizacao = null;
+      });
+    }
+    return this.atualizacao;
+  }
+
+  private async indexarPendentes(onProgresso?: (progresso: ProgressoIndexacao) => void): Promise<number> {
+    const [itens, indices] = await Promise.all([
+      bibliotecaService.listar(),
+      bibliotecaService.listarIndicesSemanticos()
+    ]);
+    const indicesPorItem = new Map(indices.map(indice => [indice.itemId, indice]));
+    const pendentes = itens.filter(item => {
+      const indice = indicesPorItem.get(item.id);
+      return !indice || indice.atualizadoEm !== item.atualizadoEm || indice.modelo !== MODELO_EMBEDDING;
+    });
+
+    onProgresso?.({ indexados: 0, total: pendentes.length });
+    let falhas = 0;
+    for (const [posicao, item] of pendentes.entries()) {
+      // Um item que falha continua pendente e é tentado de novo na próxima atualização
+      try {
+        const trechos = dividirEmTrechos(item.transcricao);
+        const { vetores, modelo } = trechos.length > 0
+          ? await embeddingService.gerarEmbeddings(trechos.map(trecho => trecho.texto))
+          : { vetores: [], modelo: MODELO_EMBEDDING };
+
+        await bibliotecaService.salvarIndiceSemantico({
+          itemId: item.id,
+          atualizadoEm: item.atualizadoEm,
+          modelo,
+          trechos: trechos.map((trecho, indice) => ({ ...trecho, vetor: vetores[indice] }))
+        });
+      } catch (error) {
+        falhas++;
+        console.error(`❌ [BUSCA SEMÂNTICA] Erro ao indexar ${item.nomeArquivo}:`, error);
+      }
+      onProgresso?.({ indexados: posicao + 1, total: pendentes.length });
+    }
+
+    const indexados = pendentes.length - falhas;
+    if (pendentes.length > 0) {
+      console.log(`🧭 [BUSCA SEMÂNTICA] ${indexados} transcrição(ões) indexada(s), ${falhas} falha(s)`);
+    }
+    return indexados;
+  }
+
+  /**
+   * Busca os trechos de toda a biblioteca mais próximos, em significado, da consulta
+   */
+  async buscar(consulta: string, limite = LIMITE_RESULTADOS): Promise<ResultadoBuscaSemanticaBiblioteca[]> {
+    const termo = consulta.trim();
+    if (!termo) return [];
+
+    const [{ vetores, modelo }, indices, itens] = await Promise.all([
+      embeddingService.gerarEmbeddings([termo]),
+      bibliotecaService.listarIndicesSemanticos(),
+      bibliotecaService.listar()
+    ]);
+    const itensPorId = new Map(itens.map(item => [item.id, item]));
+
+    return classificarTrechos(vetores[0], modelo, indices, limite, SIMILARIDADE_MINIMA)
+      .filter(resultado => itensPorId.has(resultado.itemId))
+      .map(({ itemId, trecho, similaridade }) => ({ item: itensPorId.get(itemId)!, trecho, similaridade }));
+  }
+}
+
+export const buscaSemanticaService = new BuscaSemanticaService();
+export default buscaSemanticaService;
@@ -0,0 +1,95 @@
+/**
+ * Serviço de falantes
+ *
+ * Funções para trabalhar com a identificação de falantes (diarização) da transcrição:
+ * agrupamento em turnos de fala, renomeação e texto formatado com os nomes dos falantes,
+ * usado na exibição, nas exportações e no resumo.
+ */
+
+import { WordTimestamp } from '../types';
+import { textoDaTranscricao } from './transcriptEditorService';
+
+export interface TurnoFala {
+  falante?: string;
+  inicio: number;
+  fim: number;
+  indiceInicial: number; // Índice da primeira palavra do turno na transcrição
+  palavras: WordTimestamp[];
+}
+
+/**
+ * Indica se a transcrição tem falantes identificados
+ */
+export const temFalantes = (transcricao: WordTimestamp[]): boolean => {
+  return transcricao.some(palavra => !!palavra.speaker);
+};
+
+/**
+ * Lista os falantes na ordem em que aparecem
+ */
+export const listarFalantes = (transcricao: WordTimestamp[]): string[] => {
+  const falantes: string[] = [];
+  transcricao.forEach(palavra => {
+    if (palavra.speaker && !falantes.includes(palavra.speaker)) {
+      falantes.push(palavra.speaker);
+    }
+  });
+  return falantes;
+};
+
+/**
+ * Agrupa palavras consecutivas do mesmo falante em turnos de fala
+ */
+export const agruparPorFalante = (transcricao: WordTimestamp[]): TurnoFala[] => {
+  const turnos: TurnoFala[] = [];
+
+  transcricao.forEach((palavra, indice) => {
+    const atual = turnos[turnos.length - 1];
+    if (atual && atual.falante === palavra.speaker) {
+      atual.palavras.push(palavra);
+      atual.fim = Math.max(atual.fim, palavra.endTime);
+      return;
+    }
+
+    turnos.push({
+      falante: palavra.speaker,
+      inicio: palavra.startTime,
+      fim: palavra.endTime,
+      indiceInicial: indice,
+      palavras: [palavra]
+    });
+  });
+
+  return turnos;
+};
+
+/**
+ * Renomeia um falante em toda a transcrição
+ */
+export const renomearFalante = (transcricao: WordTimestamp[], nomeAtual: string, novoNome: string): WordTimestamp[] => {
+  const nome = novoNome.trim();
+  if (!nome || nome === nomeAtual) {
+    return transcricao;
+  }
+
+  return transcricao.map(palavra =>
+    palavra.speaker === nomeAtual ? { ...palavra, speaker: nome } : palavra
+  );
+};
+
+/**
+ * Texto da transcrição com um parágrafo por turno, prefixado pelo nome do falante.
+ * Sem falantes identificados, retorna o texto corrido.
+ */
+export const formatarTextoComFalantes = (transcricao: WordTimestamp[]): string => {
+  if (!temFalantes(transcricao)) {
+    return textoDaTranscricao(transcricao);
+  }
+
+  return agruparPorFalante(transcricao)
+    .map(turno => {
+      const texto = textoDaTranscricao(turno.palavras);
+      return turno.falante ? `${turno.falante}: ${texto}` : texto;
+    })
+    .join('\n\n');
+};
@@ -0,0 +1,130 @@
+/**
+ * Backends de armazenamento
+ *
+ * Contrato comum dos lugares onde a aplicação grava seus dados: transcrições, palavras com tempo
+ * (sincronização), dados de aprendizado, áudios e a busca vetorial sobre eles. Há uma implementação
+ * no Supabase e outra local (IndexedDB), e os serviços dependem só deste contrato, o que permite
+ * usar a aplicação sem um projeto Supabase acessível.
+ */
+
+import { WordTimestamp } from '../types';
+
+export type TipoArmazenamento = 'supabase' | 'local';
+
+/**
+ * Interface para dados de sincronização de palavras
+ */
+export interface DadosSincronizacao {
+  id?: string;
+  palavra: string;
+  tempoReal: number; // Tempo real quando a palavra foi destacada
+  tempoEsperado: number; // Tempo esperado da transcrição
+  diferenca: number; // Diferença entre tempo real e esperado
+  contexto?: string; // Contexto da frase
+  tipoAudio?: string; // Tipo de áudio (música, fala, etc.)
+  velocidadeReproducao?: number; // Velocidade de reprodução
+  criadoEm?: string;
+}
+
+/**
+ * Interface para métricas de aprendizado
+ */
+export interface MetricasAprendizado {
+  palavra: string;
+  mediaCompensacao: number;
+  confianca: number;
+  totalAmostras: number;
+  ultimaAtualizacao: string;
+}
+
+/**
+ * Amostra de aprendizado de uma palavra, acumulada nas métricas da palavra
+ */
+export interface DadosAprendizado {
+  palavra: string;
+  compensacao: number;
+  contexto: string;
+  velocidadeReproducao: number;
+  precisao?: number;
+}
+
+/**
+ * Identifica as linhas gravadas por salvarResultadoCompleto, para que possam ser removidas
+ */
+export interface RegistroResultado {
+  nomeArquivo: string;
+  criadoEm: string;  // Valor gravado em transcricoes.criado_em
+  sessionId: string; // Valor gravado em word_timestamps.session_id
+}
+
+/**
+ * Linha de word_timestamps, no formato das colunas do banco
+ */
+export interface RegistroPalavra {
+  id?: number | string;
+  word: string;
+  timestamp?: number;
+  start_time: number;
+  end_time?: number;
+  context?: string | null;
+  playback_rate?: number;
+  session_id?: string;
+  created_at?: string;
+}
+
+export interface PalavraSimilar {
+  id: number | string;
+  word: string;
+  context: string | null;
+  similarity: number;
+}
+
+export interface TranscricaoSimilar {
+  id: number | string;
+  nome_arquivo: string;
+  transcricao: string;
+  similarity: number;
+}
+
+export interface ResultadoAudioArmazenado {
+  sucesso: boolean;
+  caminho?: string; // Identificador do áudio no backend, usado para obtê-lo ou removê-lo
+  url?: string;     // URL pública, quando o backend a oferece
+  erro?: string;
+  cancelado?: boolean;
+}
+
+/**
+ * Gera os embeddings usados na busca vetorial (ver embeddingService.gerarEmbeddings)
+ */
+export type GeradorEmbeddings = (textos: string[]) => Promise<{ vetores: number[][]; modelo: string }>;
+
+export interface BackendArmazenamento {
+  tipo: TipoArmazenamento;
+  nome: string;
+  // Os áudios recebem uma URL pública, que a API do Gemini consegue baixar
+  readonly audioRemoto: boolean;
+
+  // Transcrições
+  salvarResultadoCompleto: (transcricao: WordTimestamp[], textoCompleto: string, arquivo: File, sinal?: AbortSignal) => Promise<RegistroResultado | null>;
+  removerResultadoCompleto: (registro: RegistroResultado) => Promise<void>;
+  buscarTranscricoesSimilares: (texto: string, limite?: number, limiarSimilaridade?: number) => Promise<TranscricaoSimilar[]>;
+
+  // Palavras com tempo (sincronização)
+  registrarSincronizacao: (dados: DadosSincronizacao) => Promise<boolean>;
+  obterDadosHistoricos: (limiteDias?: number) => Promise<RegistroPalavra[]>;
+  obterDadosRecentes: (desde: Date) => Promise<RegistroPalavra[]>;
+  limparDadosAntigos: (diasParaManterDados?: number) => Promise<void>;
+  buscarPalavrasSimilaresVetorial: (palavra: string, limite?: number, limiarSimilaridade?: number) => Promise<PalavraSimilar[]>;
+
+  // Dados de aprendizado
+  obterMetricasPalavra: (palavra: string) => Promise<MetricasAprendizado | null>;
+  salvarDadosAprendizado: (dados: DadosAprendizado) => Promise<boolean>;
+  atualizarMetricasPalavra: (palavra: string, novaCompensacao: number) => Promise<boolean>;
+  buscarPalavrasSimilares: (palavra: string, limite?: number) => Promise<MetricasAprendizado[]>;
+
+  // Áudios
+  salvarAudio: (arquivo: File, sinal?: AbortSignal) => Promise<ResultadoAudioArmazenado>;
+  obterAudio: (caminho: string) => Promise<Blob | null>;
+  removerAudio: (caminho: string) => Promise<boolean>;
+}
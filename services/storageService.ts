@@ -0,0 +1,53 @@
+/**
+ * Serviço de armazenamento
+ *
+ * Escolhe, uma vez por sessão, o backend onde os dados são gravados (veja config.armazenamento):
+ * o Supabase quando está configurado e responde, ou o armazenamento local, para que a aplicação
+ * funcione por completo sem internet.
+ */
+
+import { config } from '../config';
+import embeddingService from '../src/services/embeddingService';
+import supabaseService from './supabaseService';
+import { supabaseStorageBackend } from './supabaseStorageBackend';
+import { criarArmazenamentoLocal, criarRepositorioIndexedDB } from './localStorageBackend';
+import { BackendArmazenamento } from './storageBackend';
+
+class ArmazenamentoService {
+  private backend: Promise<BackendArmazenamento> | null = null;
+
+  /**
+   * Backend em uso. A escolha é feita na primeira chamada; se ela falhar, a próxima tenta de novo.
+   */
+  obter(): Promise<BackendArmazenamento> {
+    if (!this.backend) {
+      this.backend = this.selecionar();
+      this.backend.catch(() => {
+        this.backend = null;
+      });
+    }
+    return this.backend;
+  }
+
+  private async selecionar(): Promise<BackendArmazenamento> {
+    const preferido = config.armazenamento.backend;
+
+    if (preferido !== 'local') {
+      try {
+        await supabaseService.inicializar();
+        console.log('🗄️ [ARMAZENAMENTO] Usando o Supabase');
+        return supabaseStorageBackend;
+      } catch (error) {
+        // Com o Supabase escolhido explicitamente, a falha é repassada em vez de mudar de backend
+        if (preferido === 'supabase') throw error;
+        console.warn('⚠️ [ARMAZENAMENTO] Supabase indisponível, usando o armazenamento local:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log('🗄️ [ARMAZENAMENTO] Usando o armazenamento local (IndexedDB)');
+    return criarArmazenamentoLocal(criarRepositorioIndexedDB(), textos => embeddingService.gerarEmbeddings(textos));
+  }
+}
+
+export const armazenamentoService = new ArmazenamentoService();
+export default armazenamentoService;
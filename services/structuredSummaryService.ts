@@ -0,0 +1,268 @@
+/**
+ * Serviço de resumo estruturado
+ *
+ * Gera, com um schema JSON no Gemini, um resumo de reunião com visão geral, ações (com responsável
+ * e prazo), decisões, questões em aberto e capítulos. Cada item aponta para um intervalo de palavras
+ * da transcrição, o que permite levar o player ao trecho em que o assunto foi dito.
+ */
+
+import { Type } from "@google/genai";
+import { config } from '../config';
+import { WordTimestamp } from '../types';
+import { IDIOMA_PADRAO, IdiomaInterface } from '../i18n';
+import { obterIdioma } from '../i18n/idiomas';
+import { classificarErroGemini, gerarJson } from './geminiClient';
+
+// Intervalo de palavras da transcrição ao qual um item do resumo se refere
+export interface TrechoReferenciado {
+  palavraInicial: number; // Índice em WordTimestamp[]
+  palavraFinal: number;
+  inicio: number; // Segundos
+  fim: number;    // Segundos
+}
+
+export interface AcaoResumo extends TrechoReferenciado {
+  descricao: string;
+  responsavel: string | null;
+  prazo: string | null;
+}
+
+export interface DecisaoResumo extends TrechoReferenciado {
+  descricao: string;
+}
+
+export interface QuestaoAberta extends TrechoReferenciado {
+  pergunta: string;
+}
+
+export interface CapituloResumo extends TrechoReferenciado {
+  titulo: string;
+  resumo: string;
+}
+
+export interface ResumoEstruturado {
+  visaoGeral: string;
+  acoes: AcaoResumo[];
+  decisoes: DecisaoResumo[];
+  questoesAbertas: QuestaoAberta[];
+  capitulos: CapituloResumo[];
+}
+
+type ResultadoResumoEstruturado = {
+  success: boolean;
+  data: ResumoEstruturado | null;
+  error: string | null;
+};
+
+// Número máximo de palavras em cada linha do texto indexado enviado ao modelo
+const PALAVRAS_POR_LINHA = 20;
+
+/**
+ * Monta o texto enviado ao modelo: cada linha começa com o índice da sua primeira palavra
+ * (ex.: "[40] Ana: bom dia a todos"), e uma nova linha começa a cada troca de falante.
+ */
+export const montarTextoIndexado = (transcricao: WordTimestamp[]): string => {
+  const linhas: string[] = [];
+  let inicioLinha = 0;
+
+  for (let i = 1; i <= transcricao.length; i++) {
+    const trocaFalante = i < transcricao.length && transcricao[i].speaker !== transcricao[i - 1].speaker;
+    if (i === transcricao.length || trocaFalante || i - inicioLinha >= PALAVRAS_POR_LINHA) {
+      const palavras = transcricao.slice(inicioLinha, i);
+      const falante = palavras[0].speaker ? `${palavras[0].speaker}: ` : '';
+      linhas.push(`[${inicioLinha}] ${falante}${palavras.map(palavra => palavra.word).join(' ')}`);
+      inicioLinha = i;
+    }
+  }
+
+  return linhas.join('\n');
+};
+
+// Campos que o modelo pode devolver em um item do resumo, ainda sem validação
+type ItemBruto = Partial<Record<'descricao' | 'responsavel' | 'prazo' | 'pergunta' | 'titulo' | 'resumo' | 'palavraInicial' | 'palavraFinal', unknown>>;
+
+const objetoOuVazio = (valor: unknown): object => (valor && typeof valor === 'object' ? valor : {});
+
+const textoOuNulo = (valor: unknown): string | null => {
+  return typeof valor === 'string' && valor.trim() ? valor.trim() : null;
+};
+
+/**
+ * Ajusta os índices informados pelo modelo aos limites da transcrição e calcula os tempos do trecho
+ */
+const referenciar = (item: ItemBruto, transcricao: WordTimestamp[]): TrechoReferenciado | null => {
+  if (transcricao.length === 0) return null;
+
+  const ultimo = transcricao.length - 1;
+  const limitar = (valor: unknown, padrao: number) => {
+    const numero = Number(valor);
+    return Number.isFinite(numero) ? Math.min(Math.max(Math.round(numero), 0), ultimo) : padrao;
+  };
+  const palavraInicial = limitar(item.palavraInicial, 0);
+  const palavraFinal = Math.max(limitar(item.palavraFinal, palavraInicial), palavraInicial);
+
+  return {
+    palavraInicial,
+    palavraFinal,
+    inicio: transcricao[palavraInicial].startTime,
+    fim: transcricao[palavraFinal].endTime
+  };
+};
+
+/**
+ * Converte a resposta do modelo em um ResumoEstruturado válido, descartando itens sem texto
+ */
+export const normalizarResumoEstruturado = (bruto: unknown, transcricao: WordTimestamp[]): ResumoEstruturado => {
+  const resposta = objetoOuVazio(bruto) as Partial<Record<keyof ResumoEstruturado, unknown>>;
+  const lista = (valor: unknown): ItemBruto[] => (Array.isArray(valor) ? valor.map(item => objetoOuVazio(item) as ItemBruto) : []);
+
+  const acoes = lista(resposta.acoes).flatMap((item): AcaoResumo[] => {
+    const descricao = textoOuNulo(item.descricao);
+    const trecho = referenciar(item, transcricao);
+    return descricao && trecho
+      ? [{ ...trecho, descricao, responsavel: textoOuNulo(item.responsavel), prazo: textoOuNulo(item.prazo) }]
+      : [];
+  });
+
+  const decisoes = lista(resposta.decisoes).flatMap((item): DecisaoResumo[] => {
+    const descricao = textoOuNulo(item.descricao);
+    const trecho = referenciar(item, transcricao);
+    return descricao && trecho ? [{ ...trecho, descricao }] : [];
+  });
+
+  const questoesAbertas = lista(resposta.questoesAbertas).flatMap((item): QuestaoAberta[] => {
+    const pergunta = textoOuNulo(item.pergunta);
+    const trecho = referenciar(item, transcricao);
+    return pergunta && trecho ? [{ ...trecho, pergunta }] : [];
+  });
+
+  const capitulos = lista(resposta.capitulos)
+    .flatMap((item): CapituloResumo[] => {
+      const titulo = textoOuNulo(item.titulo);
+      const trecho = referenciar(item, transcricao);
+      return titulo && trecho ? [{ ...trecho, titulo, resumo: textoOuNulo(item.resumo) ?? '' }] : [];
+    })
+    .sort((a, b) => a.palavraInicial - b.palavraInicial);
+
+  return {
+    visaoGeral: textoOuNulo(resposta.visaoGeral) ?? '',
+    acoes,
+    decisoes,
+    questoesAbertas,
+    capitulos
+  };
+};
+
+// Propriedades de índice de palavras compartilhadas por todos os itens do schema
+const propriedadesTrecho = {
+  palavraInicial: { type: Type.INTEGER },
+  palavraFinal: { type: Type.INTEGER }
+};
+
+const schemaResumo = {
+  type: Type.OBJECT,
+  properties: {
+    visaoGeral: { type: Type.STRING },
+    acoes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          descricao: { type: Type.STRING },
+          responsavel: { type: Type.STRING, nullable: true },
+          prazo: { type: Type.STRING, nullable: true },
+          ...propriedadesTrecho
+        },
+        required: ['descricao', 'palavraInicial', 'palavraFinal']
+      }
+    },
+    decisoes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { descricao: { type: Type.STRING }, ...propriedadesTrecho },
+        required: ['descricao', 'palavraInicial', 'palavraFinal']
+      }
+    },
+    questoesAbertas: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { pergunta: { type: Type.STRING }, ...propriedadesTrecho },
+        required: ['pergunta', 'palavraInicial', 'palavraFinal']
+      }
+    },
+    capitulos: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { titulo: { type: Type.STRING }, resumo: { type: Type.STRING }, ...propriedadesTrecho },
+        required: ['titulo', 'palavraInicial', 'palavraFinal']
+      }
+    }
+  },
+  required: ['visaoGeral', 'acoes', 'decisoes', 'questoesAbertas', 'capitulos']
+};
+
+/**
+ * Gera o resumo estruturado da transcrição no idioma informado
+ */
+export const gerarResumoEstruturado = async (
+  transcricao: WordTimestamp[],
+  apiKey: string,
+  idioma: IdiomaInterface = IDIOMA_PADRAO,
+  sinal?: AbortSignal
+): Promise<ResultadoResumoEstruturado> => {
+  console.log(`📝 [RESUMO] Iniciando geração de resumo estruturado (${transcricao.length} palavras)`);
+
+  if (!apiKey) {
+    return { success: false, data: null, error: 'A chave de API do Gemini não foi configurada.' };
+  }
+  if (transcricao.length === 0) {
+    return { success: false, data: null, error: 'O texto de entrada não pode estar vazio.' };
+  }
+
+  const nomeIdioma = obterIdioma(idioma)?.nomePrompt ?? 'português do Brasil';
+  const prompt = `Você é um especialista em atas de reunião. Analise a transcrição abaixo e escreva todos os textos em ${nomeIdioma}, mesmo que a transcrição esteja em outro idioma.
+
+Cada linha da transcrição começa com o índice da sua primeira palavra entre colchetes (as palavras seguintes têm os índices seguintes). Linhas no formato "Nome: fala" indicam o falante.
+
+Retorne:
+- visaoGeral: um parágrafo curto com o resumo do conteúdo
+- acoes: tarefas combinadas, com o responsável (responsavel) e o prazo (prazo) quando forem mencionados; use null quando não forem
+- decisoes: decisões tomadas
+- questoesAbertas: perguntas ou assuntos que ficaram sem resposta
+- capitulos: a divisão do conteúdo em tópicos, em ordem, cobrindo toda a transcrição, com título e um resumo de uma frase
+
+Em todos os itens, palavraInicial e palavraFinal são os índices da primeira e da última palavra do trecho em que o item aparece. Não invente itens: listas vazias são aceitas.
+
+TRANSCRIÇÃO:
+---
+${montarTextoIndexado(transcricao)}
+---`;
+
+  try {
+    const bruto = await gerarJson(apiKey, {
+      model: config.modelName,
+      contents: prompt,
+      config: { responseSchema: schemaResumo }
+    }, { sinal });
+
+    const resumo = normalizarResumoEstruturado(bruto, transcricao);
+    console.log(`✅ [RESUMO] Resumo estruturado gerado:`, {
+      acoes: resumo.acoes.length,
+      decisoes: resumo.decisoes.length,
+      questoesAbertas: resumo.questoesAbertas.length,
+      capitulos: resumo.capitulos.length
+    });
+
+    if (!resumo.visaoGeral && resumo.capitulos.length === 0) {
+      return { success: false, data: null, error: 'A API não retornou um resumo válido.' };
+    }
+    return { success: true, data: resumo, error: null };
+  } catch (error) {
+    const erro = classificarErroGemini(error, sinal);
+    console.error(`❌ [RESUMO] Erro durante a geração do resumo estruturado (${erro.tipo}):`, error);
+    return { success: false, data: null, error: erro.message };
+  }
+};
@@ -0,0 +1,229 @@
+/**
+ * Serviço de legendas
+ *
+ * Agrupa as palavras da transcrição em legendas legíveis, respeitando o limite de caracteres
+ * por linha, o número de linhas, a duração máxima, as pausas e as trocas de falante, e
+ * preferindo quebrar em pontuação. Gera os arquivos nos formatos SRT e WebVTT.
+ */
+
+import { config } from '../config';
+import { WordTimestamp } from '../types';
+
+export interface OpcoesLegenda {
+  maxCaracteresPorLinha: number;
+  maxLinhas: number;
+  duracaoMaxima: number;
+  duracaoMinima: number;
+  pausaParaQuebra: number;
+}
+
+export interface Legenda {
+  inicio: number; // Segundos
+  fim: number;    // Segundos
+  linhas: string[]; // Quando há falante, a primeira linha começa com "Nome: "
+  falante?: string;
+}
+
+// Palavra que encerra uma frase (a pontuação pode vir seguida de aspas ou parênteses)
+const FIM_DE_FRASE = /[.!?…]["'”’)\]]*$/;
+// Palavra que termina em pausa interna da frase
+const PONTUACAO_INTERNA = /[,;:—–]["'”’)\]]*$/;
+// Tokens que se juntam à palavra anterior sem espaço
+const PONTUACAO_INICIAL = /^[.,!?;:…)\]}]/;
+
+/**
+ * Junta as palavras em texto corrido, sem espaço antes de pontuação
+ */
+const juntarPalavras = (palavras: string[]): string => {
+  return palavras.reduce((texto, palavra) => {
+    if (!texto) return palavra;
+    return PONTUACAO_INICIAL.test(palavra) ? `${texto}${palavra}` : `${texto} ${palavra}`;
+  }, '');
+};
+
+const terminaEmPontuacao = (palavra: string): boolean => {
+  return FIM_DE_FRASE.test(palavra) || PONTUACAO_INTERNA.test(palavra);
+};
+
+/**
+ * Distribui as palavras de uma legenda em linhas. Quando o texto precisa de duas linhas,
+ * escolhe a quebra que deixa as linhas mais equilibradas, dando preferência à pontuação.
+ */
+const distribuirLinhas = (palavras: string[], maxCaracteres: number): string[] => {
+  const texto = juntarPalavras(palavras);
+  if (texto.length <= maxCaracteres) {
+    return [texto];
+  }
+
+  let melhor: { linhas: string[]; custo: number } | null = null;
+  for (let i = 1; i < palavras.length; i++) {
+    if (PONTUACAO_INICIAL.test(palavras[i])) continue; // Uma linha não começa com pontuação
+
+    const primeira = juntarPalavras(palavras.slice(0, i));
+    const segunda = juntarPalavras(palavras.slice(i));
+    if (primeira.length > maxCaracteres || segunda.length > maxCaracteres) continue;
+
+    // A quebra logo após a primeira palavra (ex.: o nome do falante) não recebe preferência
+    const bonusPontuacao = i > 1 && terminaEmPontuacao(palavras[i - 1]) ? maxCaracteres / 4 : 0;
+    const custo = Math.abs(primeira.length - segunda.length) - bonusPontuacao;
+    if (!melhor || custo < melhor.custo) {
+      melhor = { linhas: [primeira, segunda], custo };
+    }
+  }
+
+  if (melhor) {
+    return melhor.linhas;
+  }
+
+  // Não cabe em duas linhas: quebra gulosa
+  const linhas: string[][] = [[]];
+  palavras.forEach(palavra => {
+    const atual = linhas[linhas.length - 1];
+    if (atual.length > 0 && !PONTUACAO_INICIAL.test(palavra) &&
+      juntarPalavras([...atual, palavra]).length > maxCaracteres) {
+      linhas.push([palavra]);
+    } else {
+      atual.push(palavra);
+    }
+  });
+  return linhas.map(juntarPalavras);
+};
+
+/**
+ * Agrupa as palavras da transcrição em legendas
+ */
+export const agruparEmLegendas = (
+  transcricao: WordTimestamp[],
+  opcoes: OpcoesLegenda = config.legendas
+): Legenda[] => {
+  const { maxCaracteresPorLinha, maxLinhas, duracaoMaxima, duracaoMinima, pausaParaQuebra } = opcoes;
+  const palavras = transcricao.filter(palavra => palavra.word.trim().length > 0);
+
+  // O nome do falante ocupa espaço na primeira linha, então entra na distribuição como uma palavra
+  const textosDoGrupo = (grupo: WordTimestamp[]): string[] => {
+    const textos = grupo.map(palavra => palavra.word);
+    return grupo[0]?.speaker ? [`${grupo[0].speaker}:`, ...textos] : textos;
+  };
+
+  const cabe = (grupo: WordTimestamp[]): boolean => {
+    if (grupo.length === 1) return true; // Uma palavra sozinha sempre forma uma legenda
+    const linhas = distribuirLinhas(textosDoGrupo(grupo), maxCaracteresPorLinha);
+    return linhas.length <= maxLinhas && linhas.every(linha => linha.length <= maxCaracteresPorLinha);
+  };
+
+  const grupos: WordTimestamp[][] = [];
+  let atual: WordTimestamp[] = [];
+
+  const fechar = (grupo: WordTimestamp[]) => {
+    if (grupo.length > 0) grupos.push(grupo);
+  };
+
+  palavras.forEach(palavra => {
+    if (atual.length > 0) {
+      const ultima = atual[atual.length - 1];
+      const pausa = palavra.startTime - ultima.endTime;
+      const excedeDuracao = palavra.endTime - atual[0].startTime > duracaoMaxima;
+
+      if (pausa >= pausaParaQuebra || palavra.speaker !== ultima.speaker) {
+        fechar(atual);
+        atual = [];
+      } else if (excedeDuracao || !cabe([...atual, palavra])) {
+        // Recua até a última pontuação da segunda metade da legenda, se houver
+        let corte = atual.length;
+        for (let i = atual.length - 2; i >= Math.floor(atual.length / 2); i--) {
+          if (terminaEmPontuacao(atual[i].word)) {
+            corte = i + 1;
+            break;
+          }
+        }
+        fechar(atual.slice(0, corte));
+        atual = atual.slice(corte);
+      }
+    }
+
+    atual.push(palavra);
+
+    if (FIM_DE_FRASE.test(palavra.word)) {
+      fechar(atual);
+      atual = [];
+    }
+  });
+  fechar(atual);
+
+  return grupos.map((grupo, indice) => {
+    const inicio = grupo[0].startTime;
+    const proximoInicio = grupos[indice + 1]?.[0].startTime ?? Infinity;
+    let fim = Math.max(...grupo.map(palavra => palavra.endTime));
+
+    // Estende legendas muito curtas sem invadir a seguinte
+    fim = Math.max(fim, Math.min(inicio + duracaoMinima, proximoInicio));
+    if (fim > proximoInicio && proximoInicio > inicio) {
+      fim = proximoInicio;
+    }
+
+    return {
+      inicio,
+      fim,
+      linhas: distribuirLinhas(textosDoGrupo(grupo), maxCaracteresPorLinha),
+      ...(grupo[0].speaker ? { falante: grupo[0].speaker } : {})
+    };
+  });
+};
+
+const formatarTempo = (segundos: number, separadorMilissegundos: string): string => {
+  const totalMs = Math.max(0, Math.round(segundos * 1000));
+  const horas = Math.floor(totalMs / 3600000);
+  const minutos = Math.floor((totalMs % 3600000) / 60000);
+  const segs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${horas.toString().padStart(2, '0')}:${minutos.toString().padStart(2, '0')}:${segs.toString().padStart(2, '0')}${separadorMilissegundos}${ms.toString().padStart(3, '0')}`;
+};
+
+/**
+ * Formata o tempo no padrão do SRT (00:01:02,345)
+ */
+export const formatarTempoSrt = (segundos: number): string => formatarTempo(segundos, ',');
+
+/**
+ * Formata o tempo no padrão do WebVTT (00:01:02.345)
+ */
+export const formatarTempoVtt = (segundos: number): string => formatarTempo(segundos, '.');
+
+// No WebVTT, "&", "<" e ">" têm significado especial no texto da legenda
+const escaparTextoVtt = (texto: string): string => {
+  return texto.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/**
+ * Gera o conteúdo de um arquivo SRT
+ */
+export const gerarSrt = (transcricao: WordTimestamp[], opcoes: OpcoesLegenda = config.legendas): string => {
+  return agruparEmLegendas(transcricao, opcoes)
+    .map((legenda, indice) =>
+      `${indice + 1}\n${formatarTempoSrt(legenda.inicio)} --> ${formatarTempoSrt(legenda.fim)}\n${legenda.linhas.join('\n')}\n`
+    )
+    .join('\n');
+};
+
+// No WebVTT o falante é indicado pela tag de voz (<v Nome>) em vez do prefixo no texto
+const linhasVtt = (legenda: Legenda): string[] => {
+  const linhas = legenda.linhas.map(escaparTextoVtt);
+  if (!legenda.falante) return linhas;
+
+  const prefixo = escaparTextoVtt(`${legenda.falante}:`);
+  const primeira = linhas[0].startsWith(prefixo) ? linhas[0].slice(prefixo.length).trimStart() : linhas[0];
+  return [`<v ${escaparTextoVtt(legenda.falante)}>${primeira}`, ...linhas.slice(1)].filter(linha => linha.length > 0);
+};
+
+/**
+ * Gera o conteúdo de um arquivo WebVTT
+ */
+export const gerarVtt = (transcricao: WordTimestamp[], opcoes: OpcoesLegenda = config.legendas): string => {
+  const legendas = agruparEmLegendas(transcricao, opcoes)
+    .map(legenda =>
+      `${formatarTempoVtt(legenda.inicio)} --> ${formatarTempoVtt(legenda.fim)}\n${linhasVtt(legenda).join('\n')}\n`
+    );
+
+  return ['WEBVTT\n', ...legendas].join('\n');
+};
@@ -1,31 +1,23 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import embeddingService from '../src/services/embeddingService';
+import embeddingService, { ResultadoEmbeddings } from '../src/services/embeddingService';
 import { servicoFila } from './queueService';
-
-/**
- * Interface para dados de sincronização de palavras
- */
-export interface DadosSincronizacao {
-  id?: string;
-  palavra: string;
-  tempoReal: number; // Tempo real quando a palavra foi destacada
-  tempoEsperado: number; // Tempo esperado da transcrição
-  diferenca: number; // Diferença entre tempo real e esperado
-  contexto?: string; // Contexto da frase
-  tipoAudio?: string; // Tipo de áudio (música, fala, etc.)
-  velocidadeReproducao?: number; // Velocidade de reprodução
-  criadoEm?: string;
-}
-
-/**
- * Interface para métricas de aprendizado
- */
-export interface MetricasAprendizado {
-  palavra: string;
-  mediaCompensacao: number;
-  confianca: number;
-  totalAmostras: number;
-  ultimaAtualizacao: string;
+import { DadosAprendizado, DadosSincronizacao, MetricasAprendizado, RegistroResultado } from './storageBackend';
+import type { VersaoRemota } from './syncPlanService';
+import { WordTimestamp } from '../types';
+
+// Colunas das transcrições vindas da biblioteca local
+const COLUNAS_BIBLIOTECA = 'item_id, nome_arquivo, tamanho_arquivo, palavras, resumo, audio_url, criado_em, atualizado_em';
+
+// Linha da tabela transcricoes com as colunas de COLUNAS_BIBLIOTECA
+interface LinhaTranscricaoBiblioteca {
+  item_id: string;
+  nome_arquivo: string;
+  tamanho_arquivo: number | null;
+  palavras: WordTimestamp[] | null;
+  resumo: string | null;
+  audio_url: string | null;
+  criado_em: string;
+  atualizado_em: string;
 }
 
 /**
@@ -257,13 +249,7 @@ class SupabaseService {
   /**
    * Atualiza ou cria métricas de aprendizado para uma palavra usando sistema de filas
    */
-  async salvarDadosAprendizadoComEmbeddings(dados: {
-    palavra: string;
-    compensacao: number;
-    contexto: string;
-    velocidadeReproducao: number;
-    precisao?: number;
-  }): Promise<boolean> {
+  async salvarDadosAprendizadoComEmbeddings(dados: DadosAprendizado): Promise<boolean> {
     if (!this.conectado || !this.cliente) {
       console.warn('Supabase não está conectado');
       return false;
@@ -284,10 +270,13 @@ class SupabaseService {
     try {
       const operacao = async () => {
         // Gerar embeddings para palavra e contexto
-        const wordEmbedding = await embeddingService.gerarEmbedding(dados.palavra.trim());
-        const contextEmbedding = (dados.contexto && dados.contexto.trim().length > 0)
-          ? await embeddingService.gerarEmbedding(dados.contexto.trim())
-          : null;
+        const embeddings = await this.gerarEmbeddingsOpcionais(
+          dados.contexto && dados.contexto.trim().length > 0
+            ? [dados.palavra.trim(), dados.contexto.trim()]
+            : [dados.palavra.trim()]
+        );
+        const wordEmbedding = embeddings?.vetores[0] ?? null;
+        const contextEmbedding = embeddings?.vetores[1] ?? null;
 
         // Verificar se já existe registro para esta palavra
         const { data: existingData, error: selectError } = await this.cliente
@@ -316,7 +305,8 @@ class SupabaseService {
               user_accuracy: novaPrecisao,
               context: dados.contexto,
               word_embedding: wordEmbedding,
-              context_embedding: contextEmbedding
+              context_embedding: contextEmbedding,
+              embedding_model: embeddings?.modelo ?? null
             })
             .eq('word', dados.palavra.toLowerCase());
 
@@ -334,7 +324,8 @@ class SupabaseService {
               user_accuracy: dados.precisao || 0.1,
               context: dados.contexto,
               word_embedding: wordEmbedding,
-              context_embedding: contextEmbedding
+              context_embedding: contextEmbedding,
+              embedding_model: embeddings?.modelo ?? null
             });
 
           if (error) {
@@ -449,11 +440,12 @@ class SupabaseService {
 
     try {
       // Gerar embedding da palavra de busca
-      const queryEmbedding = await embeddingService.gerarEmbedding(palavra);
+      const { vetores, modelo } = await embeddingService.gerarEmbeddings([palavra]);
       
-      // Buscar palavras similares usando similaridade de cosseno
+      // Buscar palavras similares usando similaridade de cosseno (só entre vetores do mesmo modelo)
       const { data, error } = await this.cliente.rpc('buscar_palavras_similares', {
-        query_embedding: queryEmbedding,
+        query_embedding: vetores[0],
+        query_model: modelo,
         similarity_threshold: limiarSimilaridade,
         match_count: limite
       });
@@ -481,11 +473,12 @@ class SupabaseService {
 
     try {
       // Gerar embedding do texto de busca
-      const queryEmbedding = await embeddingService.gerarEmbedding(texto);
+      const { vetores, modelo } = await embeddingService.gerarEmbeddings([texto]);
       
-      // Buscar transcrições similares
+      // Buscar transcrições similares (só entre vetores do mesmo modelo)
       const { data, error } = await this.cliente.rpc('buscar_transcricoes_similares', {
-        query_embedding: queryEmbedding,
+        query_embedding: vetores[0],
+        query_model: modelo,
         similarity_threshold: limiarSimilaridade,
         match_count: limite
       });
@@ -750,17 +743,23 @@ class SupabaseService {
   }
 
   /**
-   * Orquestra o salvamento completo do resultado da transcrição (otimizado)
+   * Orquestra o salvamento completo do resultado da transcrição (otimizado).
+   * Se o sinal for cancelado durante o salvamento, o que já foi gravado é removido e retorna null.
    */
-  async salvarResultadoCompleto(transcricaoData: any[], textoTranscritoCompleto: string, audioFile: File): Promise<void> {
+  async salvarResultadoCompleto(transcricaoData: any[], textoTranscritoCompleto: string, audioFile: File, sinal?: AbortSignal): Promise<RegistroResultado | null> {
     console.log('🚀 [SUPABASE] Iniciando salvamento completo e otimizado do resultado...');
     const startTime = Date.now();
+    const registro: RegistroResultado = {
+      nomeArquivo: audioFile.name,
+      criadoEm: new Date().toISOString(),
+      sessionId: crypto.randomUUID()
+    };
 
     try {
       // Executa as duas tarefas de salvamento em paralelo para otimizar o tempo
       await Promise.all([
-        this.salvarTranscricao(textoTranscritoCompleto, audioFile.name, audioFile.size),
-        this.salvarTranscricaoComEmbeddings(transcricaoData, audioFile.name)
+        this.salvarTranscricao(textoTranscritoCompleto, audioFile.name, audioFile.size, registro.criadoEm, sinal),
+        this.salvarTranscricaoComEmbeddings(transcricaoData, audioFile.name, registro.sessionId, sinal)
       ]);
     } catch (error) {
       console.error('❌ [SUPABASE] Erro durante o salvamento em paralelo do resultado completo:', error);
@@ -768,14 +767,166 @@ class SupabaseService {
       // Dependendo da criticidade, um throw aqui pode ser apropriado.
     }
 
+    if (sinal?.aborted) {
+      await this.removerResultadoCompleto(registro);
+      return null;
+    }
+
     const endTime = Date.now();
     console.log(`🎉 [SUPABASE] Salvamento completo do resultado finalizado em ${(endTime - startTime) / 1000}s.`);
+    return registro;
+  }
+
+  /**
+   * Remove a transcrição e as palavras gravadas por salvarResultadoCompleto
+   */
+  async removerResultadoCompleto(registro: RegistroResultado): Promise<void> {
+    if (!this.conectado || !this.cliente) return;
+
+    console.log(`🗑️ [SUPABASE] Removendo resultado de ${registro.nomeArquivo}...`);
+    const [transcricao, palavras] = await Promise.all([
+      this.cliente
+        .from('transcricoes')
+        .delete()
+        .eq('nome_arquivo', registro.nomeArquivo)
+        .eq('criado_em', registro.criadoEm),
+      this.cliente
+        .from('word_timestamps')
+        .delete()
+        .eq('session_id', registro.sessionId)
+    ]);
+
+    if (transcricao.error || palavras.error) {
+      console.error('❌ [SUPABASE] Erro ao remover resultado:', transcricao.error ?? palavras.error);
+    } else {
+      console.log('✅ [SUPABASE] Resultado removido');
+    }
+  }
+
+  /**
+   * Lista as transcrições enviadas pela biblioteca local (linhas com item_id)
+   */
+  async listarTranscricoesBiblioteca(): Promise<VersaoRemota[]> {
+    if (!this.conectado || !this.cliente) throw new Error('Supabase não está conectado');
+
+    const { data, error } = await this.cliente
+      .from('transcricoes')
+      .select(COLUNAS_BIBLIOTECA)
+      .not('item_id', 'is', null);
+
+    if (error) throw new Error(`Erro ao listar transcrições da biblioteca: ${error.message}`);
+    return (data ?? []).map(linha => this.linhaParaVersao(linha));
+  }
+
+  async obterTranscricaoBiblioteca(itemId: string): Promise<VersaoRemota | null> {
+    if (!this.conectado || !this.cliente) throw new Error('Supabase não está conectado');
+
+    const { data, error } = await this.cliente
+      .from('transcricoes')
+      .select(COLUNAS_BIBLIOTECA)
+      .eq('item_id', itemId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Erro ao obter transcrição da biblioteca: ${error.message}`);
+    return data ? this.linhaParaVersao(data) : null;
+  }
+
+  /**
+   * Envia uma transcrição da biblioteca. Com versaoEsperada null a linha é criada; senão só é
+   * atualizada se ainda estiver nessa versão. Retorna a nova versão, ou null quando a linha foi
+   * criada ou alterada por outro dispositivo (conflito).
+   */
+  async enviarTranscricaoBiblioteca(versao: VersaoRemota, versaoEsperada: string | null): Promise<string | null> {
+    if (!this.conectado || !this.cliente) throw new Error('Supabase não está conectado');
+
+    const texto = versao.transcricao.map(palavra => palavra.word).join(' ').trim();
+    const embedding = texto ? await this.gerarEmbeddingsOpcionais([texto]) : null;
+    const linha = {
+      item_id: versao.itemId,
+      nome_arquivo: versao.nomeArquivo,
+      tamanho_arquivo: versao.tamanhoArquivo,
+      transcricao: texto,
+      palavras: versao.transcricao,
+      resumo: versao.resumo,
+      audio_url: versao.audioUrl,
+      transcricao_embedding: embedding?.vetores[0] ?? null,
+      embedding_model: embedding?.modelo ?? null,
+      criado_em: versao.criadoEm,
+      atualizado_em: versao.atualizadoEm
+    };
+
+    if (versaoEsperada === null) {
+      const { data, error } = await this.cliente
+        .from('transcricoes')
+        .insert(linha)
+        .select('atualizado_em')
+        .single();
+
+      // Violação de unicidade: outro dispositivo enviou o mesmo item antes
+      if (error?.code === '23505') return null;
+      if (error) throw new Error(`Erro ao enviar transcrição da biblioteca: ${error.message}`);
+      return data.atualizado_em;
+    }
+
+    const { data, error } = await this.cliente
+      .from('transcricoes')
+      .update(linha)
+      .eq('item_id', versao.itemId)
+      .eq('atualizado_em', versaoEsperada)
+      .select('atualizado_em');
+
+    if (error) throw new Error(`Erro ao enviar transcrição da biblioteca: ${error.message}`);
+    return data && data.length > 0 ? data[0].atualizado_em : null;
+  }
+
+  /**
+   * Remove a transcrição de um item da biblioteca, se ainda estiver na versão esperada.
+   * Retorna false quando ela foi alterada por outro dispositivo e não foi removida.
+   */
+  async removerTranscricaoBiblioteca(itemId: string, versaoEsperada: string): Promise<boolean> {
+    if (!this.conectado || !this.cliente) throw new Error('Supabase não está conectado');
+
+    const { data, error } = await this.cliente
+      .from('transcricoes')
+      .delete()
+      .eq('item_id', itemId)
+      .eq('atualizado_em', versaoEsperada)
+      .select('item_id');
+
+    if (error) throw new Error(`Erro ao remover transcrição da biblioteca: ${error.message}`);
+    return (data ?? []).length > 0;
+  }
+
+  private linhaParaVersao(linha: LinhaTranscricaoBiblioteca): VersaoRemota {
+    return {
+      itemId: linha.item_id,
+      nomeArquivo: linha.nome_arquivo,
+      tamanhoArquivo: linha.tamanho_arquivo ?? 0,
+      transcricao: linha.palavras ?? [],
+      resumo: linha.resumo ?? null,
+      audioUrl: linha.audio_url ?? null,
+      criadoEm: linha.criado_em,
+      atualizadoEm: linha.atualizado_em
+    };
+  }
+
+  /**
+   * Gera os embeddings dos textos. Sem nenhum backend disponível devolve null, e o registro é
+   * salvo sem vetores em vez de com vetores de zeros.
+   */
+  private async gerarEmbeddingsOpcionais(textos: string[]): Promise<ResultadoEmbeddings | null> {
+    try {
+      return await embeddingService.gerarEmbeddings(textos);
+    } catch (error: any) {
+      console.warn('⚠️ [SUPABASE] Embeddings indisponíveis, salvando sem vetores:', error?.message || error);
+      return null;
+    }
   }
 
   /**
    * Salva a transcrição principal com seu embedding.
    */
-  private async salvarTranscricao(transcricao: string, nomeArquivo: string, tamanhoArquivo: number): Promise<boolean> {
+  private async salvarTranscricao(transcricao: string, nomeArquivo: string, tamanhoArquivo: number, criadoEm: string, sinal?: AbortSignal): Promise<boolean> {
     if (!this.conectado || !this.cliente) {
       console.warn('Supabase não está conectado');
       return false;
@@ -790,17 +941,21 @@ class SupabaseService {
         return false;
       }
       
-      const transcriptionEmbedding = await embeddingService.gerarEmbedding(textoLimpo);
+      const transcriptionEmbedding = await this.gerarEmbeddingsOpcionais([textoLimpo]);
+      if (sinal?.aborted) return false;
       
-      const { error } = await this.cliente
+      let insercao = this.cliente
         .from('transcricoes')
         .insert({
           transcricao: textoLimpo,
           nome_arquivo: nomeArquivo,
           tamanho_arquivo: tamanhoArquivo,
-          embedding: transcriptionEmbedding, // Corrigido para 'embedding'
-          criado_em: new Date().toISOString()
+          embedding: transcriptionEmbedding?.vetores[0] ?? null, // Corrigido para 'embedding'
+          embedding_model: transcriptionEmbedding?.modelo ?? null,
+          criado_em: criadoEm
         });
+      if (sinal) insercao = insercao.abortSignal(sinal);
+      const { error } = await insercao;
 
       if (error) {
         console.error('❌ [SUPABASE] Erro ao salvar transcrição principal:', error);
@@ -818,7 +973,7 @@ class SupabaseService {
   /**
    * Salva as palavras da transcrição com seus embeddings em lote (Otimizado)
    */
-  private async salvarTranscricaoComEmbeddings(transcricao: any[], nomeArquivo: string): Promise<boolean> {
+  private async salvarTranscricaoComEmbeddings(transcricao: any[], nomeArquivo: string, sessionId: string, sinal?: AbortSignal): Promise<boolean> {
     if (!this.conectado || !this.cliente) {
       console.warn('Supabase não está conectado');
       return false;
@@ -839,12 +994,10 @@ class SupabaseService {
         return true;
       }
 
-      const embeddings = await embeddingService.gerarEmbeddingsLote(palavrasParaEmbed);
-      if (embeddings.length !== palavrasParaEmbed.length) {
+      const embeddings = await this.gerarEmbeddingsOpcionais(palavrasParaEmbed);
+      if (embeddings && embeddings.vetores.length !== palavrasParaEmbed.length) {
         throw new Error('Disparidade entre número de palavras e embeddings gerados.');
       }
-
-      const sessionId = crypto.randomUUID();
       let embeddingIndex = 0;
       const dadosParaInserir = transcricao
         .map(palavra => {
@@ -855,7 +1008,8 @@ class SupabaseService {
             end_time: palavra.end,
             confidence: palavra.confidence,
             session_id: sessionId,
-            word_embedding: embeddings[embeddingIndex++],
+            word_embedding: embeddings ? embeddings.vetores[embeddingIndex++] : null,
+            embedding_model: embeddings?.modelo ?? null,
             contexto: `Arquivo: ${nomeArquivo}`
           };
         })
@@ -863,8 +1017,11 @@ class SupabaseService {
 
       const tamanhoLote = 100;
       for (let i = 0; i < dadosParaInserir.length; i += tamanhoLote) {
+        if (sinal?.aborted) return false;
         const lote = dadosParaInserir.slice(i, i + tamanhoLote);
-        const { error } = await this.cliente.from('word_timestamps').insert(lote);
+        let insercao = this.cliente.from('word_timestamps').insert(lote);
+        if (sinal) insercao = insercao.abortSignal(sinal);
+        const { error } = await insercao;
         if (error) {
           console.error(`❌ [SUPABASE] Erro ao salvar lote de palavras:`, error);
           return false;
@@ -0,0 +1,40 @@
+/**
+ * Backend de armazenamento no Supabase
+ *
+ * Adapta o supabaseService (tabelas e funções vetoriais do banco) e o supabaseStorageService
+ * (bucket de áudios) ao contrato BackendArmazenamento.
+ */
+
+import supabaseService from './supabaseService';
+import supabaseStorageService from './supabaseStorageService';
+import { BackendArmazenamento } from './storageBackend';
+
+export const supabaseStorageBackend: BackendArmazenamento = {
+  tipo: 'supabase',
+  nome: 'Supabase',
+  get audioRemoto() {
+    return supabaseStorageService.estaConectado();
+  },
+
+  salvarResultadoCompleto: (transcricao, textoCompleto, arquivo, sinal) =>
+    supabaseService.salvarResultadoCompleto(transcricao, textoCompleto, arquivo, sinal),
+  removerResultadoCompleto: registro => supabaseService.removerResultadoCompleto(registro),
+  buscarTranscricoesSimilares: (texto, limite, limiar) => supabaseService.buscarTranscricoesSimilares(texto, limite, limiar),
+
+  registrarSincronizacao: dados => supabaseService.registrarSincronizacao(dados),
+  obterDadosHistoricos: limiteDias => supabaseService.obterDadosHistoricos(limiteDias),
+  obterDadosRecentes: desde => supabaseService.obterDadosRecentes(desde),
+  limparDadosAntigos: dias => supabaseService.limparDadosAntigos(dias),
+  buscarPalavrasSimilaresVetorial: (palavra, limite, limiar) => supabaseService.buscarPalavrasSimilaresVetorial(palavra, limite, limiar),
+
+  obterMetricasPalavra: palavra => supabaseService.obterMetricasPalavra(palavra),
+  salvarDadosAprendizado: dados => supabaseService.salvarDadosAprendizadoComEmbeddings(dados),
+  atualizarMetricasPalavra: (palavra, novaCompensacao) => supabaseService.atualizarMetricasPalavra(palavra, novaCompensacao),
+  buscarPalavrasSimilares: (palavra, limite) => supabaseService.buscarPalavrasSimilares(palavra, limite),
+
+  salvarAudio: (arquivo, sinal) => supabaseStorageService.fazerUploadAudio(arquivo, undefined, sinal),
+  obterAudio: async caminho => (await supabaseStorageService.baixarAudio(caminho)).arquivo ?? null,
+  removerAudio: async caminho => (await supabaseStorageService.removerAudio(caminho)).sucesso
+};
+
+export default supabaseStorageBackend;
@@ -51,9 +51,13 @@ class SupabaseStorageService {
   }
 
   /**
-   * Faz upload de um arquivo de áudio para o bucket do Supabase
+   * Faz upload de um arquivo de áudio para o bucket do Supabase.
+   * O envio em si não pode ser interrompido; se o sinal for cancelado, o arquivo enviado é removido.
    */
-  async fazerUploadAudio(arquivo: File, nomeArquivo?: string): Promise<{ sucesso: boolean; url?: string; erro?: string }> {
+  async fazerUploadAudio(arquivo: File, nomeArquivo?: string, sinal?: AbortSignal): Promise<{ sucesso: boolean; url?: string; caminho?: string; erro?: string; cancelado?: boolean }> {
+    if (sinal?.aborted) {
+      return { sucesso: false, erro: 'Envio cancelado', cancelado: true };
+    }
     if (!this.conectado || !this.cliente) {
       return { sucesso: false, erro: 'Serviço de Storage não está conectado' };
     }
@@ -73,6 +77,13 @@ class SupabaseStorageService {
           upsert: false
         });
 
+      if (sinal?.aborted) {
+        if (!error) {
+          await this.removerAudio(caminhoArquivo);
+        }
+        return { sucesso: false, erro: 'Envio cancelado', cancelado: true };
+      }
+
       if (error) {
         console.error('Erro no upload:', error);
         return { sucesso: false, erro: error.message };
@@ -85,7 +96,8 @@ class SupabaseStorageService {
 
       return {
         sucesso: true,
-        url: urlData.publicUrl
+        url: urlData.publicUrl,
+        caminho: caminhoArquivo
       };
     } catch (erro) {
       console.error('Erro ao fazer upload do áudio:', erro);
@@ -93,6 +105,31 @@ class SupabaseStorageService {
     }
   }
 
+  /**
+   * Baixa um arquivo de áudio do storage
+   */
+  async baixarAudio(caminhoArquivo: string): Promise<{ sucesso: boolean; arquivo?: Blob; erro?: string }> {
+    if (!this.conectado || !this.cliente) {
+      return { sucesso: false, erro: 'Serviço de Storage não está conectado' };
+    }
+
+    try {
+      const { data, error } = await this.cliente.storage
+        .from('audio-files')
+        .download(caminhoArquivo);
+
+      if (error) {
+        console.error('Erro ao baixar arquivo:', error);
+        return { sucesso: false, erro: error.message };
+      }
+
+      return { sucesso: true, arquivo: data };
+    } catch (erro) {
+      console.error('Erro ao baixar áudio:', erro);
+      return { sucesso: false, erro: 'Erro interno no download' };
+    }
+  }
+
   /**
    * Remove um arquivo de áudio do storage
    */
@@ -0,0 +1,223 @@
+/**
+ * Planejamento da sincronização da biblioteca
+ *
+ * Compara os itens da biblioteca local, o estado gravado na última sincronização de cada um e as
+ * linhas da tabela transcricoes no Supabase, e decide o que enviar, receber ou remover. As versões
+ * são os carimbos de atualização (atualizadoEm no item, atualizado_em no servidor): um lado mudou
+ * quando seu carimbo difere do visto na última sincronização. Quando os dois lados mudaram (ou o
+ * item foi editado aqui e apagado em outro dispositivo), o item vira um conflito e nada é
+ * sobrescrito até que se escolha uma das versões.
+ */
+
+import { WordTimestamp } from '../types';
+import type { ItemBiblioteca } from './libraryService';
+
+/**
+ * Transcrição da biblioteca como gravada no servidor
+ */
+export interface VersaoRemota {
+  itemId: string;
+  nomeArquivo: string;
+  tamanhoArquivo: number;
+  transcricao: WordTimestamp[];
+  resumo: string | null;
+  audioUrl: string | null;
+  criadoEm: string;
+  atualizadoEm: string;
+}
+
+/**
+ * Estado de sincronização de um item, gravado na biblioteca local
+ */
+export interface EstadoSincronizacao {
+  itemId: string;
+  versaoLocal: string;  // atualizadoEm do item na última sincronização
+  versaoRemota: string; // atualizado_em da linha na última sincronização
+  removido?: boolean;   // O item foi apagado da biblioteca e a remoção ainda não chegou ao servidor
+  // Versão do servidor em conflito com a local, até que se escolha uma delas; null quando a
+  // transcrição foi apagada no servidor depois de editada aqui
+  conflito?: VersaoRemota | null;
+}
+
+export type StatusSincronizacao = 'naoEnviado' | 'pendente' | 'sincronizado' | 'conflito';
+
+export type AcaoSincronizacao =
+  | { tipo: 'enviar'; item: ItemBiblioteca; versaoEsperada: string | null }
+  | { tipo: 'receber'; item: ItemBiblioteca | null; remoto: VersaoRemota }
+  | { tipo: 'removerRemoto'; itemId: string; versaoEsperada: string }
+  | { tipo: 'removerLocal'; item: ItemBiblioteca }
+  | { tipo: 'conflito'; item: ItemBiblioteca; remoto: VersaoRemota | null }
+  | { tipo: 'vincular'; item: ItemBiblioteca; remoto: VersaoRemota }
+  | { tipo: 'esquecer'; itemId: string };
+
+/**
+ * Compara carimbos de tempo pelo instante, já que o servidor os devolve em outro formato
+ */
+export const mesmoInstante = (a: string, b: string): boolean => Date.parse(a) === Date.parse(b);
+
+const mesmaVersao = (a: VersaoRemota | null, b: VersaoRemota | null): boolean =>
+  a && b ? mesmoInstante(a.atualizadoEm, b.atualizadoEm) : a === b;
+
+export const statusDoItem = (item: ItemBiblioteca, estado: EstadoSincronizacao | undefined): StatusSincronizacao => {
+  if (!estado) return 'naoEnviado';
+  if (estado.conflito !== undefined) return 'conflito';
+  return mesmoInstante(item.atualizadoEm, estado.versaoLocal) ? 'sincronizado' : 'pendente';
+};
+
+/**
+ * Dados do item enviados ao servidor
+ */
+export const versaoDoItem = (item: ItemBiblioteca): VersaoRemota => ({
+  itemId: item.id,
+  nomeArquivo: item.nomeArquivo,
+  tamanhoArquivo: item.tamanhoArquivo,
+  transcricao: item.transcricao,
+  resumo: item.resumo,
+  audioUrl: item.audioUrlRemota ?? null,
+  criadoEm: item.criadoEm,
+  atualizadoEm: item.atualizadoEm
+});
+
+/**
+ * Item da biblioteca com o conteúdo da versão do servidor. O áudio local e os demais dados que não
+ * são sincronizados são mantidos; o carimbo passa a ser o do servidor.
+ */
+export const aplicarVersaoRemota = (remoto: VersaoRemota, atual: ItemBiblioteca | null): ItemBiblioteca => {
+  const base: ItemBiblioteca = atual ?? {
+    id: remoto.itemId,
+    nomeArquivo: remoto.nomeArquivo,
+    tipoArquivo: '',
+    tamanhoArquivo: remoto.tamanhoArquivo,
+    transcricao: [],
+    resumo: null,
+    provedor: 'supabase',
+    duracao: 0,
+    criadoEm: remoto.criadoEm,
+    atualizadoEm: remoto.atualizadoEm
+  };
+
+  return {
+    ...base,
+    nomeArquivo: remoto.nomeArquivo,
+    audioUrlRemota: remoto.audioUrl ?? base.audioUrlRemota,
+    transcricao: remoto.transcricao,
+    resumo: remoto.resumo,
+    // O resumo estruturado não é sincronizado; só vale enquanto o resumo for o mesmo
+    resumoEstruturado: remoto.resumo === base.resumo ? base.resumoEstruturado : null,
+    duracao: remoto.transcricao[remoto.transcricao.length - 1]?.endTime ?? 0,
+    atualizadoEm: remoto.atualizadoEm
+  };
+};
+
+/**
+ * Decide as ações de uma rodada de sincronização
+ */
+export const planejarSincronizacao = (
+  itens: ItemBiblioteca[],
+  estados: EstadoSincronizacao[],
+  remotos: VersaoRemota[]
+): AcaoSincronizacao[] => {
+  const estadoPorId = new Map(estados.map(estado => [estado.itemId, estado]));
+  const remotoPorId = new Map(remotos.map(remoto => [remoto.itemId, remoto]));
+  const idsLocais = new Set(itens.map(item => item.id));
+  const acoes: AcaoSincronizacao[] = [];
+
+  itens.forEach(item => {
+    const estado = estadoPorId.get(item.id);
+    const remoto = remotoPorId.get(item.id) ?? null;
+
+    if (!estado) {
+      if (!remoto) {
+        acoes.push({ tipo: 'enviar', item, versaoEsperada: null });
+      } else {
+        // O estado se perdeu (ex.: biblioteca restaurada); só é seguro vincular se as versões coincidem
+        acoes.push(mesmoInstante(item.atualizadoEm, remoto.atualizadoEm)
+          ? { tipo: 'vincular', item, remoto }
+          : { tipo: 'conflito', item, remoto });
+      }
+      return;
+    }
+
+    if (estado.conflito !== undefined) {
+      // Continua em conflito, com a versão mais recente do servidor
+      if (!mesmaVersao(estado.conflito, remoto)) {
+        acoes.push({ tipo: 'conflito', item, remoto });
+      }
+      return;
+    }
+
+    const localMudou = !mesmoInstante(item.atualizadoEm, estado.versaoLocal);
+
+    if (!remoto) {
+      // Apagado do servidor por outro dispositivo: a remoção vale aqui também, a menos que o item
+      // tenha sido editado desde a última sincronização
+      acoes.push(localMudou ? { tipo: 'conflito', item, remoto: null } : { tipo: 'removerLocal', item });
+      return;
+    }
+
+    const remotoMudou = !mesmoInstante(remoto.atualizadoEm, estado.versaoRemota);
+
+    if (localMudou && remotoMudou) {
+      acoes.push({ tipo: 'conflito', item, remoto });
+    } else if (localMudou) {
+      acoes.push({ tipo: 'enviar', item, versaoEsperada: estado.versaoRemota });
+    } else if (remotoMudou) {
+      acoes.push({ tipo: 'receber', item, remoto });
+    }
+  });
+
+  estados.forEach(estado => {
+    if (idsLocais.has(estado.itemId)) return;
+    const remoto = remotoPorId.get(estado.itemId);
+
+    if (!remoto) {
+      acoes.push({ tipo: 'esquecer', itemId: estado.itemId });
+    } else if (estado.removido && mesmoInstante(remoto.atualizadoEm, estado.versaoRemota)) {
+      acoes.push({ tipo: 'removerRemoto', itemId: estado.itemId, versaoEsperada: estado.versaoRemota });
+    } else {
+      // Editado em outro dispositivo depois da remoção local: a edição prevalece e o item volta
+      acoes.push({ tipo: 'receber', item: null, remoto });
+    }
+  });
+
+  remotos.forEach(remoto => {
+    if (!idsLocais.has(remoto.itemId) && !estadoPorId.has(remoto.itemId)) {
+      acoes.push({ tipo: 'receber', item: null, remoto });
+    }
+  });
+
+  return acoes;
+};
+
+/**
+ * Trecho ao redor da primeira palavra diferente entre as duas versões, para mostrar o conflito.
+ * Retorna null quando os textos são iguais.
+ */
+export const trechoDaDiferenca = (
+  local: WordTimestamp[],
+  remoto: WordTimestamp[],
+  contexto: number = 8
+): { local: string; remoto: string } | null => {
+  let inicio = 0;
+  while (inicio < local.length && inicio < remoto.length && local[inicio].word === remoto[inicio].word) {
+    inicio++;
+  }
+  if (inicio === local.length && inicio === remoto.length) return null;
+
+  // Palavras iguais no final ficam de fora, para destacar só o que mudou
+  let fimLocal = local.length;
+  let fimRemoto = remoto.length;
+  while (fimLocal > inicio && fimRemoto > inicio && local[fimLocal - 1].word === remoto[fimRemoto - 1].word) {
+    fimLocal--;
+    fimRemoto--;
+  }
+
+  const recortar = (palavras: WordTimestamp[], fim: number): string => {
+    const de = Math.max(0, inicio - contexto);
+    const ate = Math.min(palavras.length, fim + contexto);
+    const texto = palavras.slice(de, ate).map(palavra => palavra.word).join(' ');
+    return `${de > 0 ? '…' : ''}${texto}${ate < palavras.length ? '…' : ''}`;
+  };
+
+  return { local: recortar(local, fimLocal), remoto: recortar(remoto, fimRemoto) };
+};
@@ -0,0 +1,248 @@
+/**
+ * Serviço de edição da transcrição
+ *
+ * Operações puras sobre WordTimestamp[] usadas pelo editor da TranscriptionDisplay.
+ * Cada operação devolve uma nova lista (sem alterar a original), redistribui os tempos
+ * das palavras afetadas e marca como editadas as palavras alteradas.
+ */
+
+import { WordTimestamp } from '../types';
+
+// Duração mínima (em segundos) de uma palavra inserida em um intervalo de silêncio
+const DURACAO_MINIMA_PALAVRA = 0.05;
+// Duração máxima (em segundos) atribuída a uma palavra inserida em um intervalo de silêncio
+const DURACAO_MAXIMA_INSERCAO = 0.6;
+// Distância (em segundos) abaixo da qual duas palavras vizinhas são consideradas encostadas
+const TOLERANCIA_LIMITE_COMPARTILHADO = 0.01;
+
+export type LadoLimite = 'inicio' | 'fim';
+
+/**
+ * Divide o intervalo [inicio, fim] entre os textos, proporcionalmente ao número de caracteres de cada um
+ */
+export const distribuirIntervalo = (inicio: number, fim: number, textos: string[]): Array<{ startTime: number; endTime: number }> => {
+  const totalCaracteres = textos.reduce((soma, texto) => soma + Math.max(1, texto.length), 0);
+  const duracao = Math.max(0, fim - inicio);
+  let cursor = inicio;
+
+  return textos.map((texto, indice) => {
+    const startTime = cursor;
+    cursor = indice === textos.length - 1
+      ? fim
+      : cursor + duracao * (Math.max(1, texto.length) / totalCaracteres);
+    return { startTime, endTime: cursor };
+  });
+};
+
+export const separarTextos = (texto: string): string[] => texto.trim().split(/\s+/).filter(Boolean);
+
+const validarIndice = (transcricao: WordTimestamp[], indice: number): void => {
+  if (indice < 0 || indice >= transcricao.length) {
+    throw new Error(`Índice de palavra inválido: ${indice}`);
+  }
+};
+
+/**
+ * Substitui o texto de uma palavra. Se o novo texto tiver espaços, a palavra é dividida;
+ * se estiver vazio, a palavra é removida.
+ */
+export const editarPalavra = (transcricao: WordTimestamp[], indice: number, novoTexto: string): WordTimestamp[] => {
+  validarIndice(transcricao, indice);
+  const textos = separarTextos(novoTexto);
+
+  if (textos.length === 0) {
+    return removerPalavra(transcricao, indice);
+  }
+
+  if (textos.length > 1) {
+    return dividirPalavra(transcricao, indice, textos);
+  }
+
+  const atual = transcricao[indice];
+  if (atual.word === textos[0]) {
+    return transcricao;
+  }
+
+  const resultado = [...transcricao];
+  resultado[indice] = { ...atual, word: textos[0], edited: true };
+  return resultado;
+};
+
+/**
+ * Divide uma palavra em várias, repartindo o seu intervalo de tempo entre as partes
+ */
+export const dividirPalavra = (transcricao: WordTimestamp[], indice: number, partes: string[]): WordTimestamp[] => {
+  validarIndice(transcricao, indice);
+  const textos = partes.flatMap(separarTextos);
+
+  if (textos.length === 0) {
+    return removerPalavra(transcricao, indice);
+  }
+
+  const original = transcricao[indice];
+  const intervalos = distribuirIntervalo(original.startTime, original.endTime, textos);
+  const novas: WordTimestamp[] = textos.map((texto, posicao) => ({
+    ...original,
+    word: texto,
+    ...intervalos[posicao],
+    edited: true
+  }));
+
+  return [...transcricao.slice(0, indice), ...novas, ...transcricao.slice(indice + 1)];
+};
+
+/**
+ * Mescla a palavra com a seguinte em uma única palavra (sem espaço entre elas)
+ */
+export const mesclarComProxima = (transcricao: WordTimestamp[], indice: number): WordTimestamp[] => {
+  validarIndice(transcricao, indice);
+  if (indice === transcricao.length - 1) {
+    return transcricao;
+  }
+
+  const atual = transcricao[indice];
+  const proxima = transcricao[indice + 1];
+  const confiancas = [atual.confidence, proxima.confidence].filter((valor): valor is number => valor !== undefined);
+
+  const mesclada: WordTimestamp = {
+    ...atual,
+    word: `${atual.word}${proxima.word}`,
+    startTime: Math.min(atual.startTime, proxima.startTime),
+    endTime: Math.max(atual.endTime, proxima.endTime),
+    edited: true
+  };
+
+  if (confiancas.length > 0) {
+    mesclada.confidence = Math.min(...confiancas);
+  } else {
+    delete mesclada.confidence;
+  }
+
+  return [...transcricao.slice(0, indice), mesclada, ...transcricao.slice(indice + 2)];
+};
+
+/**
+ * Insere uma palavra antes ou depois da palavra indicada.
+ * Se houver silêncio suficiente entre as palavras vizinhas, a nova palavra ocupa esse intervalo;
+ * caso contrário, divide o tempo da palavra de referência com ela.
+ */
+export const inserirPalavra = (
+  transcricao: WordTimestamp[],
+  indice: number,
+  texto: string,
+  posicao: 'antes' | 'depois' = 'depois'
+): WordTimestamp[] => {
+  const textos = separarTextos(texto);
+  if (textos.length === 0) {
+    return transcricao;
+  }
+
+  if (transcricao.length === 0) {
+    const intervalos = distribuirIntervalo(0, DURACAO_MAXIMA_INSERCAO * textos.length, textos);
+    return textos.map((palavra, i) => ({ word: palavra, ...intervalos[i], edited: true }));
+  }
+
+  validarIndice(transcricao, indice);
+  const referencia = transcricao[indice];
+  const resultado = [...transcricao];
+  let inicio: number;
+  let fim: number;
+
+  if (posicao === 'depois') {
+    const proxima = transcricao[indice + 1];
+    const limite = proxima ? proxima.startTime : referencia.endTime + DURACAO_MAXIMA_INSERCAO * textos.length;
+    const silencio = limite - referencia.endTime;
+
+    if (silencio >= DURACAO_MINIMA_PALAVRA * textos.length) {
+      inicio = referencia.endTime;
+      fim = Math.min(limite, inicio + DURACAO_MAXIMA_INSERCAO * textos.length);
+    } else {
+      const meio = (referencia.startTime + referencia.endTime) / 2;
+      resultado[indice] = { ...referencia, endTime: meio };
+      inicio = meio;
+      fim = referencia.endTime;
+    }
+  } else {
+    const anterior = transcricao[indice - 1];
+    const limite = anterior ? anterior.endTime : Math.max(0, referencia.startTime - DURACAO_MAXIMA_INSERCAO * textos.length);
+    const silencio = referencia.startTime - limite;
+
+    if (silencio >= DURACAO_MINIMA_PALAVRA * textos.length) {
+      fim = referencia.startTime;
+      inicio = Math.max(limite, fim - DURACAO_MAXIMA_INSERCAO * textos.length);
+    } else {
+      const meio = (referencia.startTime + referencia.endTime) / 2;
+      resultado[indice] = { ...referencia, startTime: meio };
+      inicio = referencia.startTime;
+      fim = meio;
+    }
+  }
+
+  const intervalos = distribuirIntervalo(inicio, fim, textos);
+  const novas: WordTimestamp[] = textos.map((palavra, i) => ({
+    word: palavra,
+    ...intervalos[i],
+    ...(referencia.speaker ? { speaker: referencia.speaker } : {}),
+    edited: true
+  }));
+  const posicaoInsercao = posicao === 'depois' ? indice + 1 : indice;
+
+  return [...resultado.slice(0, posicaoInsercao), ...novas, ...resultado.slice(posicaoInsercao)];
+};
+
+/**
+ * Move o início ou o fim de uma palavra para o tempo indicado. Se a palavra vizinha encosta
+ * nesse limite, ela acompanha o movimento; o tempo é limitado para que nenhuma das duas fique
+ * mais curta que a duração mínima nem atravesse a palavra seguinte.
+ */
+export const ajustarLimitePalavra = (
+  transcricao: WordTimestamp[],
+  indice: number,
+  lado: LadoLimite,
+  tempo: number
+): WordTimestamp[] => {
+  validarIndice(transcricao, indice);
+  const palavra = transcricao[indice];
+  const indiceVizinha = lado === 'inicio' ? indice - 1 : indice + 1;
+  const vizinha = transcricao[indiceVizinha];
+  const limiteAtual = lado === 'inicio' ? palavra.startTime : palavra.endTime;
+  const compartilhado = !!vizinha &&
+    Math.abs((lado === 'inicio' ? vizinha.endTime : vizinha.startTime) - limiteAtual) <= TOLERANCIA_LIMITE_COMPARTILHADO;
+
+  let minimo: number;
+  let maximo: number;
+  if (lado === 'inicio') {
+    minimo = vizinha ? (compartilhado ? vizinha.startTime + DURACAO_MINIMA_PALAVRA : vizinha.endTime) : 0;
+    maximo = palavra.endTime - DURACAO_MINIMA_PALAVRA;
+  } else {
+    minimo = palavra.startTime + DURACAO_MINIMA_PALAVRA;
+    maximo = vizinha ? (compartilhado ? vizinha.endTime - DURACAO_MINIMA_PALAVRA : vizinha.startTime) : Infinity;
+  }
+
+  const novoTempo = Number(Math.min(maximo, Math.max(minimo, tempo)).toFixed(3));
+  if (minimo > maximo || novoTempo === limiteAtual) {
+    return transcricao;
+  }
+
+  const resultado = [...transcricao];
+  resultado[indice] = { ...palavra, [lado === 'inicio' ? 'startTime' : 'endTime']: novoTempo, edited: true };
+  if (compartilhado) {
+    resultado[indiceVizinha] = { ...vizinha, [lado === 'inicio' ? 'endTime' : 'startTime']: novoTempo, edited: true };
+  }
+  return resultado;
+};
+
+/**
+ * Remove uma palavra. O intervalo que ela ocupava permanece como silêncio.
+ */
+export const removerPalavra = (transcricao: WordTimestamp[], indice: number): WordTimestamp[] => {
+  validarIndice(transcricao, indice);
+  return [...transcricao.slice(0, indice), ...transcricao.slice(indice + 1)];
+};
+
+/**
+ * Texto corrido da transcrição, usado na exportação e no resumo
+ */
+export const textoDaTranscricao = (transcricao: WordTimestamp[]): string => {
+  return transcricao.map(palavra => palavra.word).join(' ');
+};
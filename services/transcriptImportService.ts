@@ -0,0 +1,202 @@
+/**
+ * Serviço de importação de transcrições
+ *
+ * Lê transcrições feitas fora do aplicativo (legendas SRT e WebVTT ou o JSON exportado por ele)
+ * e as converte em palavras com tempo, para que possam ser tocadas junto do áudio, editadas e
+ * exportadas de novo. Nas legendas só há o tempo de cada bloco, então o tempo de cada palavra é
+ * estimado dividindo o bloco proporcionalmente ao tamanho das palavras.
+ */
+
+import { WordTimestamp } from '../types';
+import { distribuirIntervalo, separarTextos } from './transcriptEditorService';
+
+export type FormatoImportacao = 'srt' | 'vtt' | 'json';
+
+export type TipoErroImportacao = 'formato' | 'invalido' | 'vazio';
+
+/**
+ * Erro de leitura do arquivo importado. `tipo` permite mostrar a mensagem traduzida.
+ */
+export class ImportacaoTranscricaoError extends Error {
+  readonly tipo: TipoErroImportacao;
+
+  constructor(mensagem: string, tipo: TipoErroImportacao) {
+    super(mensagem);
+    this.name = 'ImportacaoTranscricaoError';
+    this.tipo = tipo;
+  }
+}
+
+// Bloco de legenda lido do arquivo
+export interface BlocoLegenda {
+  inicio: number; // Segundos
+  fim: number;    // Segundos
+  texto: string;
+  falante?: string;
+}
+
+export const EXTENSOES_IMPORTACAO = ['.srt', '.vtt', '.json'];
+
+// Tempo de legenda: 00:01:02,345 (SRT) ou 01:02.345 / 00:01:02.345 (WebVTT)
+const TEMPO = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const LINHA_DE_TEMPO = new RegExp(`^\\s*${TEMPO.source}\\s*-->\\s*${TEMPO.source}`);
+
+// Prefixo de falante nas legendas SRT exportadas pelo aplicativo ("Nome: texto")
+const PREFIXO_FALANTE = /^(\p{Lu}[\p{L}\p{N}.'-]*(?: [\p{L}\p{N}.'-]+){0,2}):\s+/u;
+
+// Tag de voz do WebVTT: <v Nome> ou <v.classe Nome>
+const TAG_DE_VOZ = /<v(?:\.[^\s>]+)?\s+([^>]+)>/;
+
+const ENTIDADES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': ''
+};
+
+const paraSegundos = (horas: string | undefined, minutos: string, segundos: string, fracao: string): number => {
+  return Number(horas ?? 0) * 3600 + Number(minutos) * 60 + Number(segundos) + Number(fracao.padEnd(3, '0')) / 1000;
+};
+
+/**
+ * Remove marcações de formatação (<i>, <b>, {\an8}...) e decodifica as entidades do WebVTT
+ */
+const limparTexto = (texto: string): string => {
+  return texto
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, entidade => ENTIDADES[entidade])
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Lê os blocos de um arquivo SRT ou WebVTT, em ordem de início
+ */
+export const lerLegendas = (conteudo: string, formato: 'srt' | 'vtt'): BlocoLegenda[] => {
+  const blocos = conteudo
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+
+  const legendas: BlocoLegenda[] = [];
+  blocos.forEach(bloco => {
+    const linhas = bloco.split('\n');
+    // Blocos NOTE, STYLE e REGION do WebVTT não têm linha de tempo e são ignorados
+    const indiceTempo = linhas.findIndex(linha => LINHA_DE_TEMPO.test(linha));
+    if (indiceTempo < 0 || /^NOTE\b/.test(linhas[0])) return;
+
+    const tempo = linhas[indiceTempo].match(LINHA_DE_TEMPO)!;
+    const inicio = paraSegundos(tempo[1], tempo[2], tempo[3], tempo[4]);
+    const fim = paraSegundos(tempo[5], tempo[6], tempo[7], tempo[8]);
+    const bruto = linhas.slice(indiceTempo + 1).join('\n');
+
+    let falante: string | undefined;
+    if (formato === 'vtt') {
+      falante = bruto.match(TAG_DE_VOZ)?.[1].trim();
+    }
+
+    let texto = limparTexto(bruto);
+    if (!falante) {
+      const prefixo = texto.match(PREFIXO_FALANTE);
+      if (prefixo) {
+        falante = prefixo[1];
+        texto = texto.slice(prefixo[0].length);
+      }
+    }
+
+    if (!texto) return;
+    legendas.push({
+      inicio,
+      fim: Math.max(inicio, fim),
+      texto,
+      ...(falante ? { falante: limparTexto(falante) } : {})
+    });
+  });
+
+  return legendas.sort((a, b) => a.inicio - b.inicio);
+};
+
+/**
+ * Converte os blocos de legenda em palavras, estimando o tempo de cada palavra dentro do bloco
+ */
+export const legendasParaPalavras = (legendas: BlocoLegenda[]): WordTimestamp[] => {
+  return legendas.flatMap(legenda => {
+    const textos = separarTextos(legenda.texto);
+    return distribuirIntervalo(legenda.inicio, legenda.fim, textos).map((intervalo, indice) => ({
+      word: textos[indice],
+      startTime: Number(intervalo.startTime.toFixed(3)),
+      endTime: Number(intervalo.endTime.toFixed(3)),
+      ...(legenda.falante ? { speaker: legenda.falante } : {})
+    }));
+  });
+};
+
+const tempoValido = (valor: unknown): valor is number => typeof valor === 'number' && Number.isFinite(valor) && valor >= 0;
+
+/**
+ * Lê o JSON exportado pelo aplicativo (lista de palavras com tempo)
+ */
+export const lerJson = (conteudo: string): WordTimestamp[] => {
+  let dados: unknown;
+  try {
+    dados = JSON.parse(conteudo.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new ImportacaoTranscricaoError('O arquivo JSON está malformado.', 'invalido');
+  }
+
+  if (!Array.isArray(dados)) {
+    throw new ImportacaoTranscricaoError('O JSON não contém uma lista de palavras.', 'invalido');
+  }
+
+  return dados.map((item, indice): WordTimestamp => {
+    const palavra = item as Partial<WordTimestamp> | null;
+    if (!palavra || typeof palavra.word !== 'string' || !tempoValido(palavra.startTime) || !tempoValido(palavra.endTime)) {
+      throw new ImportacaoTranscricaoError(`Palavra ${indice + 1} do JSON sem texto ou tempo válido.`, 'invalido');
+    }
+    return {
+      word: palavra.word,
+      startTime: palavra.startTime,
+      endTime: Math.max(palavra.startTime, palavra.endTime),
+      ...(typeof palavra.confidence === 'number' ? { confidence: palavra.confidence } : {}),
+      ...(typeof palavra.speaker === 'string' && palavra.speaker ? { speaker: palavra.speaker } : {}),
+      ...(palavra.edited ? { edited: true } : {})
+    };
+  });
+};
+
+/**
+ * Descobre o formato pela extensão do arquivo ou, se ela não for conhecida, pelo conteúdo
+ */
+export const detectarFormato = (nomeArquivo: string, conteudo: string): FormatoImportacao | null => {
+  const extensao = nomeArquivo.toLowerCase().match(/\.([^.]+)$/)?.[1];
+  if (extensao === 'srt' || extensao === 'vtt' || extensao === 'json') return extensao;
+
+  const inicio = conteudo.replace(/^\uFEFF/, '').trimStart();
+  if (inicio.startsWith('WEBVTT')) return 'vtt';
+  if (inicio.startsWith('[')) return 'json';
+  if (inicio.split('\n').some(linha => LINHA_DE_TEMPO.test(linha))) return 'srt';
+  return null;
+};
+
+/**
+ * Importa uma transcrição de um arquivo SRT, WebVTT ou JSON
+ */
+export const importarTranscricao = (nomeArquivo: string, conteudo: string): WordTimestamp[] => {
+  const formato = detectarFormato(nomeArquivo, conteudo);
+  if (!formato) {
+    throw new ImportacaoTranscricaoError(`Formato de "${nomeArquivo}" não reconhecido. Use SRT, WebVTT ou JSON.`, 'formato');
+  }
+
+  const palavras = formato === 'json'
+    ? lerJson(conteudo)
+    : legendasParaPalavras(lerLegendas(conteudo, formato));
+
+  if (palavras.length === 0) {
+    throw new ImportacaoTranscricaoError(`Nenhuma fala encontrada em "${nomeArquivo}".`, 'vazio');
+  }
+  console.log(`📥 [IMPORTACAO] ${palavras.length} palavras importadas de ${nomeArquivo} (${formato})`);
+  return palavras;
+};
@@ -0,0 +1,119 @@
+/**
+ * Serviço de trechos da transcrição
+ *
+ * Divide a transcrição em trechos curtos com tempo (algumas frases do mesmo falante), que são a
+ * unidade da busca semântica: cada trecho recebe um embedding, e a busca ordena os trechos de
+ * toda a biblioteca pela semelhança com o embedding da consulta.
+ */
+
+import { WordTimestamp } from '../types';
+import { terminaFrase } from './reviewPlaybackService';
+import { textoDaTranscricao } from './transcriptEditorService';
+
+export interface TrechoTranscricao {
+  inicio: number; // Segundos
+  fim: number;    // Segundos
+  indiceInicial: number;
+  indiceFinal: number;
+  texto: string;
+  falante?: string;
+}
+
+export interface TrechoIndexado extends TrechoTranscricao {
+  vetor: number[];
+}
+
+/**
+ * Embeddings dos trechos de um item da biblioteca
+ */
+export interface IndiceSemantico {
+  itemId: string;
+  atualizadoEm: string; // Versão do item indexada; um item alterado depois disso é indexado de novo
+  modelo: string; // Modelo que gerou os vetores
+  trechos: TrechoIndexado[];
+}
+
+export interface ResultadoBuscaSemantica {
+  itemId: string;
+  trecho: TrechoTranscricao;
+  similaridade: number; // Semelhança de cosseno com a consulta (-1 a 1)
+}
+
+// Um trecho termina no primeiro fim de frase depois desse número de palavras
+const PALAVRAS_MINIMAS_TRECHO = 25;
+// Sem fim de frase, o trecho é cortado nesse tamanho
+const PALAVRAS_MAXIMAS_TRECHO = 60;
+
+/**
+ * Divide a transcrição em trechos de frases inteiras, sem misturar falantes
+ */
+export const dividirEmTrechos = (transcricao: WordTimestamp[]): TrechoTranscricao[] => {
+  const trechos: TrechoTranscricao[] = [];
+  let indiceInicial = 0;
+
+  transcricao.forEach((palavra, indice) => {
+    const tamanho = indice - indiceInicial + 1;
+    const proxima = transcricao[indice + 1];
+    const fimDoTrecho = !proxima ||
+      proxima.speaker !== palavra.speaker ||
+      tamanho >= PALAVRAS_MAXIMAS_TRECHO ||
+      (tamanho >= PALAVRAS_MINIMAS_TRECHO && terminaFrase(transcricao, indice));
+    if (!fimDoTrecho) return;
+
+    const palavras = transcricao.slice(indiceInicial, indice + 1);
+    trechos.push({
+      inicio: palavras[0].startTime,
+      fim: palavra.endTime,
+      indiceInicial,
+      indiceFinal: indice,
+      texto: textoDaTranscricao(palavras),
+      ...(palavra.speaker ? { falante: palavra.speaker } : {})
+    });
+    indiceInicial = indice + 1;
+  });
+
+  return trechos.filter(trecho => trecho.texto.trim().length > 0);
+};
+
+/**
+ * Semelhança de cosseno entre dois vetores de mesmo tamanho (0 quando algum deles é nulo)
+ */
+export const similaridadeCosseno = (a: number[], b: number[]): number => {
+  let produto = 0;
+  let normaA = 0;
+  let normaB = 0;
+  for (let i = 0; i < a.length; i++) {
+    produto += a[i] * b[i];
+    normaA += a[i] * a[i];
+    normaB += b[i] * b[i];
+  }
+  const denominador = Math.sqrt(normaA) * Math.sqrt(normaB);
+  return denominador === 0 ? 0 : produto / denominador;
+};
+
+/**
+ * Ordena os trechos de todos os índices pela semelhança com a consulta. Índices de outro modelo
+ * (ou com vetores de outro tamanho) são ignorados, pois os vetores não são comparáveis.
+ */
+export const classificarTrechos = (
+  vetorConsulta: number[],
+  modelo: string,
+  indices: IndiceSemantico[],
+  limite: number,
+  similaridadeMinima = 0
+): ResultadoBuscaSemantica[] => {
+  const resultados: ResultadoBuscaSemantica[] = [];
+
+  for (const indice of indices) {
+    if (indice.modelo !== modelo) continue;
+    for (const { vetor, ...trecho } of indice.trechos) {
+      if (vetor.length !== vetorConsulta.length) continue;
+      const similaridade = similaridadeCosseno(vetorConsulta, vetor);
+      if (similaridade >= similaridadeMinima) {
+        resultados.push({ itemId: indice.itemId, trecho, similaridade });
+      }
+    }
+  }
+
+  return resultados.sort((a, b) => b.similaridade - a.similaridade).slice(0, limite);
+};
@@ -0,0 +1,204 @@
+/**
+ * Serviço de busca e substituição na transcrição
+ *
+ * A busca é feita no texto corrido (palavras separadas por um espaço), sem diferenciar maiúsculas
+ * nem acentos, e pode ser literal ou por expressão regular. Cada ocorrência aponta para o intervalo
+ * de palavras em que aparece; a substituição reescreve só essas palavras e mantém os seus tempos.
+ */
+
+import { WordTimestamp } from '../types';
+import { distribuirIntervalo, separarTextos } from './transcriptEditorService';
+
+export interface OpcoesBusca {
+  regex?: boolean;        // O termo é uma expressão regular
+  palavraInteira?: boolean; // Só aceita ocorrências que não estejam dentro de outra palavra
+}
+
+export interface OcorrenciaBusca {
+  inicio: number; // Posição no texto corrido
+  fim: number;
+  trecho: string; // Texto encontrado, como está na transcrição
+  palavraInicial: number; // Índice em WordTimestamp[]
+  palavraFinal: number;
+  substituicao: string; // Texto que substitui a ocorrência (com os grupos da expressão já aplicados)
+}
+
+// Letras, números e sublinhado: o que conta como parte de uma palavra na opção "palavra inteira"
+const CARACTERE_DE_PALAVRA = '[\\p{L}\\p{N}_]';
+
+/**
+ * Remove os acentos do texto e guarda, para cada caractere do resultado, a posição de origem
+ */
+const normalizarComMapa = (texto: string): { normalizado: string; origem: number[] } => {
+  let normalizado = '';
+  const origem: number[] = [];
+
+  for (let i = 0; i < texto.length;) {
+    const caractere = String.fromCodePoint(texto.codePointAt(i)!);
+    const semAcento = caractere.normalize('NFD').replace(/\p{M}/gu, '');
+    for (let k = 0; k < semAcento.length; k++) origem.push(i);
+    normalizado += semAcento;
+    i += caractere.length;
+  }
+  origem.push(texto.length);
+
+  return { normalizado, origem };
+};
+
+/**
+ * Texto corrido da transcrição e a posição em que cada palavra começa nele
+ */
+const montarTextoCorrido = (transcricao: WordTimestamp[]): { texto: string; inicios: number[] } => {
+  const inicios: number[] = [];
+  let texto = '';
+  transcricao.forEach((palavra, indice) => {
+    if (indice > 0) texto += ' ';
+    inicios.push(texto.length);
+    texto += palavra.word;
+  });
+  return { texto, inicios };
+};
+
+const escaparRegex = (texto: string): string => texto.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Monta a expressão usada na busca. Lança SyntaxError se a expressão regular for inválida.
+ */
+export const criarExpressaoBusca = (termo: string, opcoes: OpcoesBusca = {}): RegExp => {
+  const semAcento = termo.normalize('NFD').replace(/\p{M}/gu, '');
+  const padrao = opcoes.regex ? semAcento : escaparRegex(semAcento);
+  const completo = opcoes.palavraInteira
+    ? `(?<!${CARACTERE_DE_PALAVRA})(?:${padrao})(?!${CARACTERE_DE_PALAVRA})`
+    : padrao;
+  return new RegExp(completo, 'giud');
+};
+
+/**
+ * Aplica ao substituto os marcadores $&, $1, $<nome> e $$ de uma ocorrência de expressão regular
+ */
+const expandirSubstituto = (substituto: string, trecho: (indice: number | string) => string): string => {
+  return substituto.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (marcador, codigo: string, nome?: string) => {
+    if (codigo === '$') return '$';
+    if (codigo === '&') return trecho(0);
+    if (nome !== undefined) return trecho(nome);
+    return trecho(Number(codigo));
+  });
+};
+
+/**
+ * Encontra as ocorrências do termo na transcrição
+ */
+export const buscarNaTranscricao = (
+  transcricao: WordTimestamp[],
+  termo: string,
+  opcoes: OpcoesBusca = {},
+  substituto = ''
+): OcorrenciaBusca[] => {
+  if (!termo || transcricao.length === 0) return [];
+
+  const { texto, inicios } = montarTextoCorrido(transcricao);
+  const { normalizado, origem } = normalizarComMapa(texto);
+  const expressao = criarExpressaoBusca(termo, opcoes);
+  // Busca binária da última palavra que começa até a posição
+  const indicePalavra = (posicao: number): number => {
+    let baixo = 0;
+    let alto = inicios.length - 1;
+    while (baixo < alto) {
+      const meio = Math.ceil((baixo + alto) / 2);
+      if (inicios[meio] <= posicao) baixo = meio;
+      else alto = meio - 1;
+    }
+    return baixo;
+  };
+
+  const ocorrencias: OcorrenciaBusca[] = [];
+  for (const resultado of normalizado.matchAll(expressao)) {
+    if (resultado[0].length === 0) continue; // Expressões que aceitam texto vazio não geram ocorrências
+
+    const inicioNormalizado = resultado.index!;
+    const inicio = origem[inicioNormalizado];
+    const fim = origem[inicioNormalizado + resultado[0].length];
+    // Os grupos são lidos do texto original para manter os acentos
+    const trecho = (grupo: number | string): string => {
+      const intervalo = typeof grupo === 'number'
+        ? resultado.indices?.[grupo]
+        : resultado.indices?.groups?.[grupo];
+      return intervalo ? texto.slice(origem[intervalo[0]], origem[intervalo[1]]) : '';
+    };
+
+    ocorrencias.push({
+      inicio,
+      fim,
+      trecho: texto.slice(inicio, fim),
+      palavraInicial: indicePalavra(inicio),
+      // Uma ocorrência que termina no espaço entre duas palavras também altera a palavra seguinte
+      palavraFinal: indicePalavra(texto[fim - 1] === ' ' ? fim : fim - 1),
+      substituicao: opcoes.regex ? expandirSubstituto(substituto, trecho) : substituto
+    });
+  }
+
+  return ocorrencias;
+};
+
+/**
+ * Substitui todas as ocorrências. Quando o número de palavras de um trecho não muda, cada palavra
+ * mantém o seu tempo; caso contrário, o intervalo do trecho é repartido entre as novas palavras.
+ */
+export const substituirNaTranscricao = (
+  transcricao: WordTimestamp[],
+  termo: string,
+  substituto: string,
+  opcoes: OpcoesBusca = {}
+): { transcricao: WordTimestamp[]; quantidade: number } => {
+  const ocorrencias = buscarNaTranscricao(transcricao, termo, opcoes, substituto);
+  if (ocorrencias.length === 0) return { transcricao, quantidade: 0 };
+
+  // Ocorrências que compartilham palavras são reescritas juntas
+  const grupos: OcorrenciaBusca[][] = [];
+  ocorrencias.forEach(ocorrencia => {
+    const ultimo = grupos[grupos.length - 1];
+    if (ultimo && ocorrencia.palavraInicial <= ultimo[ultimo.length - 1].palavraFinal) {
+      ultimo.push(ocorrencia);
+    } else {
+      grupos.push([ocorrencia]);
+    }
+  });
+
+  const { inicios } = montarTextoCorrido(transcricao);
+  const resultado: WordTimestamp[] = [];
+  let proxima = 0;
+
+  grupos.forEach(grupo => {
+    const primeira = grupo[0].palavraInicial;
+    const ultima = grupo[grupo.length - 1].palavraFinal;
+    resultado.push(...transcricao.slice(proxima, primeira));
+
+    // Reescreve o texto das palavras do grupo, da última ocorrência para a primeira
+    const originais = transcricao.slice(primeira, ultima + 1);
+    const deslocamento = inicios[primeira];
+    let textoGrupo = originais.map(palavra => palavra.word).join(' ');
+    [...grupo].reverse().forEach(ocorrencia => {
+      textoGrupo = textoGrupo.slice(0, ocorrencia.inicio - deslocamento) +
+        ocorrencia.substituicao +
+        textoGrupo.slice(ocorrencia.fim - deslocamento);
+    });
+
+    const textos = separarTextos(textoGrupo);
+    if (textos.length === originais.length) {
+      textos.forEach((texto, posicao) => {
+        const original = originais[posicao];
+        resultado.push(texto === original.word ? original : { ...original, word: texto, edited: true });
+      });
+    } else if (textos.length > 0) {
+      const intervalos = distribuirIntervalo(originais[0].startTime, originais[originais.length - 1].endTime, textos);
+      textos.forEach((texto, posicao) => {
+        resultado.push({ ...originais[Math.min(posicao, originais.length - 1)], word: texto, ...intervalos[posicao], edited: true });
+      });
+    }
+
+    proxima = ultima + 1;
+  });
+
+  resultado.push(...transcricao.slice(proxima));
+  return { transcricao: resultado, quantidade: ocorrencias.length };
+};
@@ -0,0 +1,77 @@
+/**
+ * Progresso da transcrição em andamento
+ *
+ * Estado compartilhado entre a tela principal, que recebe as palavras parciais do provedor, e o
+ * ProgressIndicator, que fica fora da árvore do App. O percentual é a parte da duração do áudio
+ * já coberta pelas palavras recebidas.
+ */
+
+export interface ProgressoTranscricao {
+  ativo: boolean;
+  nomeArquivo: string | null;
+  percentual: number | null; // 0 a 100; null quando o provedor não informa o progresso
+  palavras: number;
+}
+
+type ObservadorProgresso = (progresso: ProgressoTranscricao) => void;
+
+const PROGRESSO_INATIVO: ProgressoTranscricao = {
+  ativo: false,
+  nomeArquivo: null,
+  percentual: null,
+  palavras: 0
+};
+
+class ServicoProgressoTranscricao {
+  private progresso: ProgressoTranscricao = PROGRESSO_INATIVO;
+  private observadores: ObservadorProgresso[] = [];
+
+  iniciar(nomeArquivo: string): void {
+    this.definir({ ativo: true, nomeArquivo, percentual: null, palavras: 0 });
+  }
+
+  /**
+   * Registra as palavras recebidas e, quando conhecida, a fração (0 a 1) do áudio já transcrita
+   */
+  atualizar(palavras: number, fracao?: number): void {
+    if (!this.progresso.ativo) return;
+    this.definir({
+      ...this.progresso,
+      palavras,
+      percentual: fracao === undefined ? this.progresso.percentual : Math.round(Math.min(Math.max(fracao, 0), 1) * 100)
+    });
+  }
+
+  finalizar(): void {
+    this.definir(PROGRESSO_INATIVO);
+  }
+
+  obterProgresso(): ProgressoTranscricao {
+    return this.progresso;
+  }
+
+  /**
+   * Registra um observador do progresso e retorna a função que o remove
+   */
+  observar(observador: ObservadorProgresso): () => void {
+    this.observadores.push(observador);
+    observador(this.progresso);
+    return () => {
+      this.observadores = this.observadores.filter(item => item !== observador);
+    };
+  }
+
+  private definir(progresso: ProgressoTranscricao): void {
+    this.progresso = progresso;
+    this.observadores.forEach(observador => {
+      try {
+        observador(progresso);
+      } catch (erro) {
+        console.error('Erro ao notificar observador do progresso da transcrição:', erro);
+      }
+    });
+  }
+}
+
+export const servicoProgressoTranscricao = new ServicoProgressoTranscricao();
+export default servicoProgressoTranscricao;
@@ -0,0 +1,66 @@
+/**
+ * Provedores de transcrição
+ *
+ * Abstração sobre os mecanismos de transcrição disponíveis. Todo provedor recebe o áudio
+ * (arquivo ou URL) e devolve WordTimestamp[], permitindo trocar o mecanismo sem alterar a interface.
+ */
+
+import { WordTimestamp } from '../types';
+import { transcribe } from './geminiTranscriptionService';
+import { ENDPOINT_LOCAL_PADRAO, transcreverLocal } from './localTranscriptionService';
+import { IdiomaTranscricao } from '../i18n/idiomas';
+import { montarPromptGlossario, TermoGlossario } from './glossaryService';
+
+export type TranscriptionProviderId = 'gemini' | 'local';
+
+export interface OpcoesTranscricao {
+  apiKey?: string | null;
+  endpointLocal?: string;
+  diarizacao?: boolean;
+  idioma?: IdiomaTranscricao;
+  sinal?: AbortSignal; // Cancela a transcrição em andamento
+  // Recebe as palavras já transcritas enquanto o áudio ainda está sendo processado e, quando
+  // conhecida, a fração (0 a 1) da duração do áudio que elas cobrem
+  onParcial?: (palavras: WordTimestamp[], progresso?: number) => void;
+  glossario?: TermoGlossario[]; // Termos do domínio usados para orientar o reconhecimento
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  nome: string;
+  descricao: string;
+  requerChaveApi: boolean;
+  suportaDiarizacao: boolean;
+  transcrever: (audio: File | string, opcoes: OpcoesTranscricao) => Promise<WordTimestamp[]>;
+}
+
+const geminiProvider: TranscriptionProvider = {
+  id: 'gemini',
+  nome: 'Google Gemini',
+  descricao: 'Transcrição na nuvem com a API do Gemini.',
+  requerChaveApi: true,
+  suportaDiarizacao: true,
+  transcrever: (audio, { apiKey, diarizacao, idioma, sinal, onParcial, glossario }) => transcribe(audio, apiKey ?? '', { diarizacao, idioma, sinal, onParcial, glossario })
+};
+
+const localProvider: TranscriptionProvider = {
+  id: 'local',
+  nome: 'Mecanismo local (whisper.cpp)',
+  descricao: 'Transcrição offline em um servidor na própria máquina. O áudio não sai do computador.',
+  requerChaveApi: false,
+  suportaDiarizacao: false,
+  transcrever: (audio, { endpointLocal, idioma, sinal, glossario }) =>
+    transcreverLocal(audio, endpointLocal || ENDPOINT_LOCAL_PADRAO, idioma, sinal, montarPromptGlossario(glossario))
+};
+
+export const transcriptionProviders: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  gemini: geminiProvider,
+  local: localProvider
+};
+
+/**
+ * Obtém o provedor pelo identificador, usando o Gemini como padrão
+ */
+export const obterProvedorTranscricao = (id: TranscriptionProviderId | undefined): TranscriptionProvider => {
+  return (id && transcriptionProviders[id]) || geminiProvider;
+};
@@ -1,4 +1,5 @@
-import supabaseService, { DadosSincronizacao, MetricasAprendizado } from './supabaseService';
+import armazenamentoService from './storageService';
+import { DadosSincronizacao } from './storageBackend';
 import { syncAiService } from './syncAiService';
 import learningAlgorithmService from './learningAlgorithmService';
 import embeddingService from '../src/services/embeddingService';
@@ -60,7 +61,7 @@ class VectorDatabaseService {
     contexto: ContextoPalavra,
     velocidadeReproducao: number = 1.0
   ): Promise<void> {
-    if (!this.aprendizadoAtivo || !supabaseService.estaConectado()) {
+    if (!this.aprendizadoAtivo) {
       return;
     }
 
@@ -131,7 +132,8 @@ class VectorDatabaseService {
       }
 
       // Segundo, tenta buscar métricas específicas da palavra
-      const metricas = await supabaseService.obterMetricasPalavra(palavra);
+      const armazenamento = await armazenamentoService.obter();
+      const metricas = await armazenamento.obterMetricasPalavra(palavra);
       
       if (metricas && metricas.confianca > 0.3) {
         const resultado = {
@@ -146,7 +148,7 @@ class VectorDatabaseService {
       }
 
       // Se não tem dados suficientes, busca palavras similares
-      const palavrasSimilares = await supabaseService.buscarPalavrasSimilares(palavra, 3);
+      const palavrasSimilares = await armazenamento.buscarPalavrasSimilares(palavra, 3);
       
       if (palavrasSimilares.length > 0) {
         const compensacaoMedia = palavrasSimilares.reduce(
@@ -279,8 +281,9 @@ class VectorDatabaseService {
 
     try {
       // Envia todos os registros em paralelo
+      const armazenamento = await armazenamentoService.obter();
       const promessas = registrosParaEnviar.map(registro => 
-        supabaseService.registrarSincronizacao(registro)
+        armazenamento.registrarSincronizacao(registro)
       );
       
       const resultados = await Promise.allSettled(promessas);
@@ -302,7 +305,7 @@ class VectorDatabaseService {
 
   private async atualizarAprendizadoPalavra(palavra: string, diferenca: number): Promise<void> {
     try {
-      await supabaseService.atualizarMetricasPalavra(palavra, diferenca);
+      await (await armazenamentoService.obter()).atualizarMetricasPalavra(palavra, diferenca);
     } catch (error) {
       console.error('Erro ao atualizar aprendizado da palavra:', error);
     }
@@ -317,7 +320,7 @@ class VectorDatabaseService {
     // Executa limpeza a cada 24 horas
     setInterval(async () => {
       try {
-        await supabaseService.limparDadosAntigos();
+        await (await armazenamentoService.obter()).limparDadosAntigos();
         console.log('Limpeza automática de dados antigos executada');
       } catch (error) {
         console.error('Erro na limpeza automática:', error);
@@ -365,7 +368,7 @@ class VectorDatabaseService {
     try {
       console.log(`🔍 [VECTOR] Buscando palavras similares a: ${palavra}`);
       
-      const resultados = await supabaseService.buscarPalavrasSimilaresVetorial(
+      const resultados = await (await armazenamentoService.obter()).buscarPalavrasSimilaresVetorial(
         palavra, 
         limite, 
         limiarSimilaridade
@@ -390,7 +393,7 @@ class VectorDatabaseService {
     try {
       console.log(`🔍 [VECTOR] Buscando transcrições similares ao texto: ${texto.substring(0, 50)}...`);
       
-      const resultados = await supabaseService.buscarTranscricoesSimilares(
+      const resultados = await (await armazenamentoService.obter()).buscarTranscricoesSimilares(
         texto, 
         limite, 
         limiarSimilaridade
@@ -424,8 +427,9 @@ class VectorDatabaseService {
       let compensacaoTotal = 0;
       let pesoTotal = 0;
       
+      const armazenamento = await armazenamentoService.obter();
       for (const similar of palavrasSimilares) {
-        const metricas = await supabaseService.obterMetricasPalavra(similar.word);
+        const metricas = await armazenamento.obterMetricasPalavra(similar.word);
         if (metricas) {
           const peso = similar.similarity;
           compensacaoTotal += metricas.mediaCompensacao * peso;
@@ -0,0 +1,184 @@
+/**
+ * Serviço de forma de onda
+ *
+ * Decodifica o áudio com a Web Audio API e prepara os dados da linha do tempo do player: os picos
+ * de amplitude (para desenhar a forma de onda em qualquer nível de zoom) e colunas de espectro
+ * calculadas por FFT (para o espectrograma). O áudio é convertido para mono em uma taxa baixa,
+ * suficiente para a voz, para que arquivos longos caibam na memória.
+ */
+
+// Taxa de amostragem usada na decodificação (cobre frequências de até 4 kHz)
+export const TAXA_FORMA_DE_ONDA = 8000;
+// Resolução dos picos pré-calculados
+const PICOS_POR_SEGUNDO = 100;
+// Tamanho da janela da FFT do espectrograma (potência de 2)
+export const TAMANHO_JANELA_ESPECTRO = 512;
+// Faixa de intensidade exibida no espectrograma (em dB)
+const DB_MINIMO = -90;
+const DB_MAXIMO = -10;
+
+export interface FormaDeOnda {
+  amostras: Float32Array; // Áudio mono na taxa TAXA_FORMA_DE_ONDA
+  taxa: number;
+  duracao: number; // Segundos
+  minimos: Float32Array; // Menor amostra de cada intervalo de 1/PICOS_POR_SEGUNDO s
+  maximos: Float32Array; // Maior amostra de cada intervalo
+  picosPorSegundo: number;
+}
+
+/**
+ * Calcula os picos (menor e maior amostra) de intervalos consecutivos de `amostrasPorPico` amostras
+ */
+export const calcularPicos = (amostras: Float32Array, amostrasPorPico: number): { minimos: Float32Array; maximos: Float32Array } => {
+  const quantidade = Math.ceil(amostras.length / amostrasPorPico);
+  const minimos = new Float32Array(quantidade);
+  const maximos = new Float32Array(quantidade);
+
+  for (let pico = 0; pico < quantidade; pico++) {
+    const fim = Math.min(amostras.length, (pico + 1) * amostrasPorPico);
+    let minimo = 0;
+    let maximo = 0;
+    for (let i = pico * amostrasPorPico; i < fim; i++) {
+      if (amostras[i] < minimo) minimo = amostras[i];
+      if (amostras[i] > maximo) maximo = amostras[i];
+    }
+    minimos[pico] = minimo;
+    maximos[pico] = maximo;
+  }
+  return { minimos, maximos };
+};
+
+/**
+ * Cria a forma de onda a partir de amostras mono já decodificadas
+ */
+export const criarFormaDeOnda = (amostras: Float32Array, taxa: number): FormaDeOnda => {
+  const amostrasPorPico = Math.max(1, Math.round(taxa / PICOS_POR_SEGUNDO));
+  return {
+    amostras,
+    taxa,
+    duracao: amostras.length / taxa,
+    ...calcularPicos(amostras, amostrasPorPico),
+    picosPorSegundo: taxa / amostrasPorPico
+  };
+};
+
+/**
+ * Menor e maior amplitude no intervalo [inicio, fim) em segundos. Usa os picos pré-calculados
+ * quando o intervalo é longo e as amostras diretamente quando ele é curto (zoom alto).
+ */
+export const amplitudeNoIntervalo = (forma: FormaDeOnda, inicio: number, fim: number): [number, number] => {
+  const usarPicos = (fim - inicio) * forma.picosPorSegundo >= 2;
+  const minimos = usarPicos ? forma.minimos : forma.amostras;
+  const maximos = usarPicos ? forma.maximos : forma.amostras;
+  const taxa = usarPicos ? forma.picosPorSegundo : forma.taxa;
+
+  const primeiro = Math.max(0, Math.floor(inicio * taxa));
+  const ultimo = Math.min(minimos.length, Math.max(primeiro + 1, Math.ceil(fim * taxa)));
+  let minimo = 0;
+  let maximo = 0;
+  for (let i = primeiro; i < ultimo; i++) {
+    if (minimos[i] < minimo) minimo = minimos[i];
+    if (maximos[i] > maximo) maximo = maximos[i];
+  }
+  return [minimo, maximo];
+};
+
+/**
+ * FFT iterativa (radix-2) feita no próprio vetor. O tamanho precisa ser potência de 2.
+ */
+const fft = (real: Float64Array, imaginario: Float64Array): void => {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imaginario[i], imaginario[j]] = [imaginario[j], imaginario[i]];
+    }
+  }
+
+  for (let tamanho = 2; tamanho <= n; tamanho <<= 1) {
+    const angulo = (-2 * Math.PI) / tamanho;
+    const passoReal = Math.cos(angulo);
+    const passoImaginario = Math.sin(angulo);
+    for (let inicio = 0; inicio < n; inicio += tamanho) {
+      let wReal = 1;
+      let wImaginario = 0;
+      for (let k = 0; k < tamanho / 2; k++) {
+        const a = inicio + k;
+        const b = a + tamanho / 2;
+        const tReal = real[b] * wReal - imaginario[b] * wImaginario;
+        const tImaginario = real[b] * wImaginario + imaginario[b] * wReal;
+        real[b] = real[a] - tReal;
+        imaginario[b] = imaginario[a] - tImaginario;
+        real[a] += tReal;
+        imaginario[a] += tImaginario;
+        [wReal, wImaginario] = [wReal * passoReal - wImaginario * passoImaginario, wReal * passoImaginario + wImaginario * passoReal];
+      }
+    }
+  }
+};
+
+/**
+ * Espectro da janela centrada no tempo indicado, com intensidades normalizadas entre 0 e 1.
+ * O resultado tem TAMANHO_JANELA_ESPECTRO / 2 faixas, da frequência 0 até a metade da taxa.
+ */
+export const calcularColunaEspectro = (forma: FormaDeOnda, tempo: number, tamanho = TAMANHO_JANELA_ESPECTRO): Float32Array => {
+  const real = new Float64Array(tamanho);
+  const imaginario = new Float64Array(tamanho);
+  const inicio = Math.round(tempo * forma.taxa) - tamanho / 2;
+
+  for (let i = 0; i < tamanho; i++) {
+    const amostra = forma.amostras[inicio + i] ?? 0;
+    // Janela de Hann, para reduzir o vazamento entre as faixas
+    real[i] = amostra * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (tamanho - 1)));
+  }
+  fft(real, imaginario);
+
+  const coluna = new Float32Array(tamanho / 2);
+  for (let i = 0; i < coluna.length; i++) {
+    const magnitude = Math.hypot(real[i], imaginario[i]) / (tamanho / 4);
+    const db = 20 * Math.log10(magnitude + 1e-10);
+    coluna[i] = Math.min(1, Math.max(0, (db - DB_MINIMO) / (DB_MAXIMO - DB_MINIMO)));
+  }
+  return coluna;
+};
+
+// A última forma de onda decodificada, para não decodificar de novo ao reabrir a linha do tempo
+let ultimaDecodificacao: { url: string; forma: Promise<FormaDeOnda> } | null = null;
+
+/**
+ * Baixa e decodifica o áudio da URL (blob: ou http:), convertendo-o para mono
+ */
+export const decodificarFormaDeOnda = (url: string): Promise<FormaDeOnda> => {
+  if (ultimaDecodificacao?.url === url) {
+    return ultimaDecodificacao.forma;
+  }
+
+  const forma = (async () => {
+    const resposta = await fetch(url);
+    if (!resposta.ok) {
+      throw new Error(`Falha ao baixar o áudio (HTTP ${resposta.status})`);
+    }
+    // A decodificação em um contexto offline converte o áudio para a taxa do contexto
+    const contexto = new OfflineAudioContext(1, 1, TAXA_FORMA_DE_ONDA);
+    const buffer = await contexto.decodeAudioData(await resposta.arrayBuffer());
+
+    const amostras = new Float32Array(buffer.length);
+    for (let canal = 0; canal < buffer.numberOfChannels; canal++) {
+      const dados = buffer.getChannelData(canal);
+      for (let i = 0; i < dados.length; i++) {
+        amostras[i] += dados[i] / buffer.numberOfChannels;
+      }
+    }
+    console.log(`🌊 [FORMA DE ONDA] Áudio decodificado: ${buffer.duration.toFixed(1)}s, ${buffer.numberOfChannels} canal(is)`);
+    return criarFormaDeOnda(amostras, buffer.sampleRate);
+  })();
+
+  ultimaDecodificacao = { url, forma };
+  forma.catch(() => {
+    if (ultimaDecodificacao?.forma === forma) ultimaDecodificacao = null;
+  });
+  return forma;
+};
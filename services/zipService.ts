@@ -0,0 +1,135 @@
+/**
+ * Serviço de arquivos ZIP
+ *
+ * Gera um arquivo .zip sem compressão (método "store") a partir de arquivos de texto ou binários.
+ * Transcrições são pequenas, então não compensa trazer uma biblioteca de compressão só para o download em lote.
+ */
+
+export interface ArquivoZip {
+  nome: string;
+  conteudo: string | Uint8Array;
+  modificadoEm?: Date;
+}
+
+// Tabela do CRC-32 (polinômio 0xEDB88320), calculada uma única vez
+const TABELA_CRC32 = (() => {
+  const tabela = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    tabela[n] = c >>> 0;
+  }
+  return tabela;
+})();
+
+/**
+ * Calcula o CRC-32 dos bytes informados
+ */
+export const crc32 = (dados: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < dados.length; i++) {
+    crc = TABELA_CRC32[(crc ^ dados[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Converte a data para os campos de hora e data do formato MS-DOS usados no ZIP
+ */
+const dataDos = (data: Date): { hora: number; dia: number } => {
+  const ano = Math.max(data.getFullYear(), 1980);
+  return {
+    hora: (data.getHours() << 11) | (data.getMinutes() << 5) | Math.floor(data.getSeconds() / 2),
+    dia: ((ano - 1980) << 9) | ((data.getMonth() + 1) << 5) | data.getDate()
+  };
+};
+
+/**
+ * Evita nomes repetidos dentro do arquivo, acrescentando " (2)", " (3)"... antes da extensão
+ */
+const nomeUnico = (nome: string, usados: Set<string>): string => {
+  let candidato = nome;
+  let contador = 2;
+  while (usados.has(candidato)) {
+    candidato = nome.replace(/(\.[^.]*)?$/, extensao => ` (${contador})${extensao}`);
+    contador++;
+  }
+  usados.add(candidato);
+  return candidato;
+};
+
+/**
+ * Monta o arquivo ZIP com os arquivos informados
+ */
+export const gerarZip = (arquivos: ArquivoZip[]): Uint8Array => {
+  const codificador = new TextEncoder();
+  const usados = new Set<string>();
+  const partes: Uint8Array[] = [];
+  const diretorio: Uint8Array[] = [];
+  let deslocamento = 0;
+
+  arquivos.forEach(arquivo => {
+    const nome = codificador.encode(nomeUnico(arquivo.nome, usados));
+    const dados = typeof arquivo.conteudo === 'string' ? codificador.encode(arquivo.conteudo) : arquivo.conteudo;
+    const crc = crc32(dados);
+    const { hora, dia } = dataDos(arquivo.modificadoEm ?? new Date());
+
+    // Cabeçalho local do arquivo
+    const local = new Uint8Array(30 + nome.length);
+    const vLocal = new DataView(local.buffer);
+    vLocal.setUint32(0, 0x04034b50, true);
+    vLocal.setUint16(4, 20, true); // Versão necessária para extrair
+    vLocal.setUint16(6, 0x0800, true); // Nome em UTF-8
+    vLocal.setUint16(8, 0, true); // Sem compressão
+    vLocal.setUint16(10, hora, true);
+    vLocal.setUint16(12, dia, true);
+    vLocal.setUint32(14, crc, true);
+    vLocal.setUint32(18, dados.length, true);
+    vLocal.setUint32(22, dados.length, true);
+    vLocal.setUint16(26, nome.length, true);
+    local.set(nome, 30);
+
+    // Entrada do diretório central
+    const central = new Uint8Array(46 + nome.length);
+    const vCentral = new DataView(central.buffer);
+    vCentral.setUint32(0, 0x02014b50, true);
+    vCentral.setUint16(4, 20, true); // Versão que criou
+    vCentral.setUint16(6, 20, true);
+    vCentral.setUint16(8, 0x0800, true);
+    vCentral.setUint16(10, 0, true);
+    vCentral.setUint16(12, hora, true);
+    vCentral.setUint16(14, dia, true);
+    vCentral.setUint32(16, crc, true);
+    vCentral.setUint32(20, dados.length, true);
+    vCentral.setUint32(24, dados.length, true);
+    vCentral.setUint16(28, nome.length, true);
+    vCentral.setUint32(42, deslocamento, true);
+    central.set(nome, 46);
+
+    partes.push(local, dados);
+    diretorio.push(central);
+    deslocamento += local.length + dados.length;
+  });
+
+  const tamanhoDiretorio = diretorio.reduce((total, entrada) => total + entrada.length, 0);
+
+  // Fim do diretório central
+  const fim = new Uint8Array(22);
+  const vFim = new DataView(fim.buffer);
+  vFim.setUint32(0, 0x06054b50, true);
+  vFim.setUint16(8, diretorio.length, true);
+  vFim.setUint16(10, diretorio.length, true);
+  vFim.setUint32(12, tamanhoDiretorio, true);
+  vFim.setUint32(16, deslocamento, true);
+
+  const blocos = [...partes, ...diretorio, fim];
+  const resultado = new Uint8Array(blocos.reduce((total, bloco) => total + bloco.length, 0));
+  let posicao = 0;
+  blocos.forEach(bloco => {
+    resultado.set(bloco, posicao);
+    posicao += bloco.length;
+  });
+  return resultado;
+};
@@ -0,0 +1,128 @@
+/**
+ * Escolha do backend de embeddings
+ *
+ * Tenta os backends na ordem (no modo automático, o modelo local e depois a API do Hugging Face),
+ * valida os vetores recebidos e marca o resultado com o modelo. Os backends são recebidos prontos,
+ * para que o embeddingService os crie e os testes possam substituí-los.
+ */
+
+// Modelo dos vetores gerados, gravado junto de cada vetor salvo
+export const MODELO_EMBEDDING = 'sentence-transformers/all-MiniLM-L6-v2';
+export const DIMENSOES_EMBEDDING = 384;
+
+export type BackendEmbedding = 'local' | 'huggingface';
+
+export interface ResultadoEmbeddings {
+  vetores: number[][];
+  modelo: string;
+  backend: BackendEmbedding;
+}
+
+/**
+ * Gera os vetores de um lote de textos, na ordem dos textos
+ */
+export type GeradorLote = (textos: string[]) => Promise<number[][]>;
+
+export interface BackendsEmbedding {
+  local: GeradorLote;
+  huggingface: GeradorLote | null; // null sem API key
+}
+
+/**
+ * Falha na geração de embeddings. Nunca é substituída por vetores de zeros, que contaminariam a busca.
+ */
+export class EmbeddingError extends Error {
+  readonly tipo: 'vazio' | 'indisponivel';
+  readonly causa?: unknown;
+
+  constructor(mensagem: string, tipo: 'vazio' | 'indisponivel', causa?: unknown) {
+    super(mensagem);
+    this.name = 'EmbeddingError';
+    this.tipo = tipo;
+    this.causa = causa;
+  }
+}
+
+/**
+ * O modelo local não pôde ser carregado (arquivos ausentes, WASM indisponível etc.)
+ */
+export class ModeloLocalIndisponivelError extends Error {
+  readonly causa?: unknown;
+
+  constructor(mensagem: string, causa?: unknown) {
+    super(mensagem);
+    this.name = 'ModeloLocalIndisponivelError';
+    this.causa = causa;
+  }
+}
+
+// Textos processados por chamada de cada backend
+const TAMANHO_LOTE: Record<BackendEmbedding, number> = {
+  local: 32,
+  huggingface: 5 // Reduzido para evitar timeouts
+};
+
+/**
+ * Cria o gerador de embeddings sobre os backends informados
+ */
+export const criarGeradorEmbeddings = (
+  backends: BackendsEmbedding,
+  modo: 'auto' | BackendEmbedding
+): ((textos: string[]) => Promise<ResultadoEmbeddings>) => {
+  // No modo automático, o modelo local que falhou ao carregar não é tentado de novo na sessão
+  let localIndisponivel = false;
+
+  const backendsDisponiveis = (): BackendEmbedding[] => {
+    if (modo !== 'auto') return [modo];
+    const remotos: BackendEmbedding[] = backends.huggingface ? ['huggingface'] : [];
+    return localIndisponivel ? remotos : ['local', ...remotos];
+  };
+
+  const gerarLote = (backend: BackendEmbedding, lote: string[]): Promise<number[][]> => {
+    const gerador = backends[backend];
+    if (!gerador) {
+      throw new Error('API key do Hugging Face não configurada');
+    }
+    return gerador(lote);
+  };
+
+  return async textos => {
+    if (textos.length === 0 || textos.some(texto => !texto || texto.trim().length === 0)) {
+      throw new EmbeddingError('Texto vazio fornecido para geração de embedding', 'vazio');
+    }
+
+    const falhas: unknown[] = [];
+    for (const backend of backendsDisponiveis()) {
+      try {
+        const vetores: number[][] = [];
+        for (let i = 0; i < textos.length; i += TAMANHO_LOTE[backend]) {
+          vetores.push(...(await gerarLote(backend, textos.slice(i, i + TAMANHO_LOTE[backend]))));
+        }
+
+        const invalido = vetores.length !== textos.length ||
+          vetores.some(vetor => vetor.length !== DIMENSOES_EMBEDDING || vetor.every(valor => valor === 0));
+        if (invalido) {
+          throw new Error(`Resposta inválida do backend ${backend}: esperados ${textos.length} vetores de ${DIMENSOES_EMBEDDING} dimensões`);
+        }
+
+        console.log(`✅ [EMBEDDING] ${vetores.length} embedding(s) gerado(s) com o backend ${backend}`);
+        return { vetores, modelo: MODELO_EMBEDDING, backend };
+      } catch (error: any) {
+        console.warn(`⚠️ [EMBEDDING] Backend ${backend} falhou:`, error?.message || error);
+        // Falhas de um lote (ex.: vetores inválidos) não impedem novas tentativas com o modelo local
+        if (error instanceof ModeloLocalIndisponivelError && modo === 'auto') {
+          localIndisponivel = true;
+        }
+        falhas.push(error);
+      }
+    }
+
+    throw new EmbeddingError(
+      falhas.length === 0
+        ? 'Nenhum backend de embeddings disponível (modelo local desativado e API key do Hugging Face não configurada)'
+        : 'Todos os backends de embeddings falharam',
+      'indisponivel',
+      falhas
+    );
+  };
+};
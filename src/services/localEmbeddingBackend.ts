@@ -0,0 +1,73 @@
+/**
+ * Backend local de embeddings
+ *
+ * Executa o all-MiniLM-L6-v2 no próprio processo com o ONNX Runtime (WASM) do Transformers.js,
+ * sem rede e sem chave de API. O modelo convertido para ONNX é distribuído junto da aplicação
+ * (veja scripts/download-embedding-model.js) e produz os mesmos vetores de 384 dimensões da API
+ * do Hugging Face: média dos tokens seguida de normalização.
+ */
+
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { config } from '../../config';
+import { ModeloLocalIndisponivelError } from './embeddingGenerator';
+
+let extrator: Promise<FeatureExtractionPipeline> | null = null;
+
+// Lista dos arquivos do ONNX Runtime gravada por scripts/download-embedding-model.js
+const LISTA_ARQUIVOS_ORT = 'ort/arquivos.json';
+
+const arquivoDisponivel = async (caminho: string): Promise<boolean> => {
+  try {
+    return (await fetch(caminho)).ok;
+  } catch {
+    return false;
+  }
+};
+
+const carregarExtrator = async (): Promise<FeatureExtractionPipeline> => {
+  const { caminhoModelos, modeloLocal, permitirDownloadModelo } = config.embeddings;
+
+  // Sem o modelo distribuído, o backend local fica indisponível em vez de buscá-lo na rede
+  // (a menos que o download tenha sido permitido nas configurações)
+  if (!permitirDownloadModelo && !(await arquivoDisponivel(`${caminhoModelos}${modeloLocal}/config.json`))) {
+    throw new Error(`Modelo ${modeloLocal} não distribuído com a aplicação (execute npm run models:download)`);
+  }
+
+  const { env, pipeline } = await import('@huggingface/transformers');
+
+  env.localModelPath = caminhoModelos;
+  env.allowLocalModels = true;
+  env.allowRemoteModels = permitirDownloadModelo;
+  // Os arquivos WASM distribuídos só existem depois do models:download; sem eles fica o padrão da biblioteca
+  if (env.backends.onnx.wasm && await arquivoDisponivel(`${caminhoModelos}${LISTA_ARQUIVOS_ORT}`)) {
+    env.backends.onnx.wasm.wasmPaths = `${caminhoModelos}ort/`;
+  }
+
+  const inicio = Date.now();
+  const resultado = await pipeline('feature-extraction', modeloLocal, { dtype: 'q8' });
+  console.log(`🧠 [EMBEDDING LOCAL] Modelo ${modeloLocal} carregado em ${Date.now() - inicio}ms`);
+  return resultado;
+};
+
+/**
+ * Gera os embeddings dos textos com o modelo local. O modelo é carregado na primeira chamada;
+ * se o carregamento falhar, lança ModeloLocalIndisponivelError e a próxima chamada tenta de novo.
+ */
+export const gerarEmbeddingsLocais = async (textos: string[]): Promise<number[][]> => {
+  if (!extrator) {
+    extrator = carregarExtrator();
+    extrator.catch(() => {
+      extrator = null;
+    });
+  }
+
+  let pipeline: FeatureExtractionPipeline;
+  try {
+    pipeline = await extrator;
+  } catch (error) {
+    throw new ModeloLocalIndisponivelError(`Não foi possível carregar o modelo local ${config.embeddings.modeloLocal}`, error);
+  }
+
+  const tensor = await pipeline(textos, { pooling: 'mean', normalize: true });
+  return tensor.tolist() as number[][];
+};
@@ -14,4 +14,6 @@ export interface WordTimestamp {
   endTime: number;   // Tempo de fim em segundos com precisão de milissegundos (ex: 1.567)
   confidence?: number; // Confiança da transcrição (0-1), opcional
   speaker?: string;    // Identificação do falante, opcional
+  edited?: boolean;    // Indica que a palavra foi editada manualmente, opcional
+  verified?: boolean;  // Indica que a palavra foi conferida na revisão de confiança, opcional
 }
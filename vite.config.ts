@@ -27,7 +27,8 @@ export default defineConfig(({ mode }) => {
           '@google/genai',
           '@supabase/supabase-js'
         ],
-        exclude: ['electron']
+        // O Transformers.js carrega o ONNX Runtime (WASM) sob demanda e não deve ser pré-empacotado
+        exclude: ['electron', '@huggingface/transformers']
       },
       esbuild: {
         target: 'esnext'